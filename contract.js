@@ -1,13 +1,61 @@
 // Contract configuration
-const CONTRACT_ADDRESS = '0x57190DE0E0bF65eF2356a7BFa0bE0A05b0c48827';
 const NETWORK_ID = 11155111; // Sepolia testnet
 
+// Deployment manifests written by scripts/deploy.ts, keyed by chain ID
+const DEPLOYMENT_MANIFESTS = {
+    11155111: 'deployments/sepolia.json',
+    31337: 'deployments/localhost.json'
+};
+
+// Read the trading contract address from the network's deployment manifest.
+// There is no fallback address: the ABI below only matches the contract
+// deployed alongside it, so a missing manifest is an error.
+async function resolveContractAddress(chainId) {
+    const manifest = DEPLOYMENT_MANIFESTS[chainId];
+    if (!manifest) {
+        throw new Error(`No deployment manifest for chain ${chainId}`);
+    }
+
+    let response;
+    try {
+        response = await fetch(manifest, { cache: 'no-cache' });
+    } catch (error) {
+        throw new Error(`Could not load ${manifest}: ${error.message}`);
+    }
+    if (!response.ok) {
+        throw new Error(`Could not load ${manifest} (HTTP ${response.status}); deploy with scripts/deploy.ts first`);
+    }
+
+    const { contracts } = await response.json();
+    const trading = contracts && contracts.ConfidentialRawMaterialsTrading;
+    if (!trading) {
+        throw new Error(`${manifest} has no ConfidentialRawMaterialsTrading deployment`);
+    }
+    return trading.address;
+}
+
+// ConfidentialRawMaterialsTrading ABI, copied from artifacts/ after compiling
 const CONTRACT_ABI = [
     {
         "inputs": [],
         "stateMutability": "nonpayable",
         "type": "constructor"
     },
+    {
+        "inputs": [],
+        "name": "HandlesAlreadySavedForRequestID",
+        "type": "error"
+    },
+    {
+        "inputs": [],
+        "name": "InvalidKMSSignatures",
+        "type": "error"
+    },
+    {
+        "inputs": [],
+        "name": "NoHandleFoundForRequestID",
+        "type": "error"
+    },
     {
         "anonymous": false,
         "inputs": [
@@ -21,6 +69,19 @@ const CONTRACT_ABI = [
         "name": "BuyerVerified",
         "type": "event"
     },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "requestID",
+                "type": "uint256"
+            }
+        ],
+        "name": "DecryptionFulfilled",
+        "type": "event"
+    },
     {
         "anonymous": false,
         "inputs": [
@@ -46,6 +107,32 @@ const CONTRACT_ABI = [
         "name": "MaterialListed",
         "type": "event"
     },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "orderId",
+                "type": "uint256"
+            }
+        ],
+        "name": "OrderClosed",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "orderId",
+                "type": "uint256"
+            }
+        ],
+        "name": "OrderFilled",
+        "type": "event"
+    },
     {
         "anonymous": false,
         "inputs": [
@@ -71,6 +158,19 @@ const CONTRACT_ABI = [
         "name": "OrderPlaced",
         "type": "event"
     },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "materialId",
+                "type": "uint256"
+            }
+        ],
+        "name": "ReputationRequirementSet",
+        "type": "event"
+    },
     {
         "anonymous": false,
         "inputs": [
@@ -103,6 +203,50 @@ const CONTRACT_ABI = [
         "name": "TradeCompleted",
         "type": "event"
     },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "orderId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "bytes32",
+                "name": "deliveryId",
+                "type": "bytes32"
+            }
+        ],
+        "name": "TradeDelivered",
+        "type": "event"
+    },
+    {
+        "anonymous": false,
+        "inputs": [
+            {
+                "indexed": true,
+                "internalType": "uint256",
+                "name": "orderId",
+                "type": "uint256"
+            },
+            {
+                "indexed": true,
+                "internalType": "bytes32",
+                "name": "deliveryId",
+                "type": "bytes32"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "deadline",
+                "type": "uint256"
+            }
+        ],
+        "name": "TradeDeliveryRequested",
+        "type": "event"
+    },
     {
         "anonymous": false,
         "inputs": [
@@ -129,11 +273,41 @@ const CONTRACT_ABI = [
                 "internalType": "address",
                 "name": "supplier",
                 "type": "address"
+            },
+            {
+                "indexed": false,
+                "internalType": "uint256",
+                "name": "matchId",
+                "type": "uint256"
             }
         ],
         "name": "TradeMatched",
         "type": "event"
     },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "buyerOrders",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
     {
         "inputs": [
             {
@@ -173,6 +347,61 @@ const CONTRACT_ABI = [
         "stateMutability": "nonpayable",
         "type": "function"
     },
+    {
+        "inputs": [],
+        "name": "deliveryManager",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "bytes32",
+                "name": "",
+                "type": "bytes32"
+            }
+        ],
+        "name": "deliveryOrders",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "requestId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "cleartexts",
+                "type": "bytes"
+            },
+            {
+                "internalType": "bytes",
+                "name": "decryptionProof",
+                "type": "bytes"
+            }
+        ],
+        "name": "fillStatusCallback",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
     {
         "inputs": [
             {
@@ -309,6 +538,25 @@ const CONTRACT_ABI = [
         "stateMutability": "view",
         "type": "function"
     },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_orderId",
+                "type": "uint256"
+            }
+        ],
+        "name": "getOrderMatches",
+        "outputs": [
+            {
+                "internalType": "uint256[]",
+                "name": "",
+                "type": "uint256[]"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
     {
         "inputs": [
             {
@@ -332,12 +580,17 @@ const CONTRACT_ABI = [
         "inputs": [
             {
                 "internalType": "uint256",
-                "name": "_orderId",
+                "name": "_matchId",
                 "type": "uint256"
             }
         ],
         "name": "getTradeMatch",
         "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "orderId",
+                "type": "uint256"
+            },
             {
                 "internalType": "uint256",
                 "name": "materialId",
@@ -412,53 +665,380 @@ const CONTRACT_ABI = [
     },
     {
         "inputs": [
+            {
+                "internalType": "string",
+                "name": "_name",
+                "type": "string"
+            },
+            {
+                "internalType": "enum ConfidentialRawMaterialsTrading.MaterialCategory",
+                "name": "_category",
+                "type": "uint8"
+            },
+            {
+                "internalType": "externalEuint32",
+                "name": "_encryptedQuantity",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "externalEuint64",
+                "name": "_encryptedPricePerUnit",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "externalEuint32",
+                "name": "_encryptedMinOrder",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bytes",
+                "name": "_inputProof",
+                "type": "bytes"
+            },
+            {
+                "internalType": "string",
+                "name": "_qualityGrade",
+                "type": "string"
+            },
             {
                 "internalType": "uint256",
-                "name": "_orderId",
+                "name": "_deliveryTimeframe",
                 "type": "uint256"
             }
         ],
-        "name": "matchTrade",
+        "name": "listMaterialEncrypted",
         "outputs": [],
         "stateMutability": "nonpayable",
         "type": "function"
     },
     {
-        "inputs": [],
-        "name": "nextMaterialId",
-        "outputs": [
+        "inputs": [
             {
                 "internalType": "uint256",
-                "name": "",
+                "name": "_orderId",
                 "type": "uint256"
             }
         ],
-        "stateMutability": "view",
+        "name": "matchTrade",
+        "outputs": [],
+        "stateMutability": "nonpayable",
         "type": "function"
     },
     {
-        "inputs": [],
-        "name": "nextOrderId",
-        "outputs": [
+        "inputs": [
             {
                 "internalType": "uint256",
                 "name": "",
                 "type": "uint256"
             }
         ],
-        "stateMutability": "view",
-        "type": "function"
-    },
-    {
-        "inputs": [],
-        "name": "owner",
+        "name": "matches",
         "outputs": [
             {
-                "internalType": "address",
-                "name": "",
-                "type": "address"
-            }
-        ],
+                "internalType": "uint256",
+                "name": "orderId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "materialId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "buyer",
+                "type": "address"
+            },
+            {
+                "internalType": "address",
+                "name": "supplier",
+                "type": "address"
+            },
+            {
+                "internalType": "euint32",
+                "name": "encryptedQuantity",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "euint64",
+                "name": "encryptedPrice",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "uint256",
+                "name": "timestamp",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bool",
+                "name": "isConfirmed",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "materials",
+        "outputs": [
+            {
+                "internalType": "string",
+                "name": "name",
+                "type": "string"
+            },
+            {
+                "internalType": "enum ConfidentialRawMaterialsTrading.MaterialCategory",
+                "name": "category",
+                "type": "uint8"
+            },
+            {
+                "internalType": "address",
+                "name": "supplier",
+                "type": "address"
+            },
+            {
+                "internalType": "euint32",
+                "name": "encryptedQuantity",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "euint64",
+                "name": "encryptedPricePerUnit",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "euint32",
+                "name": "encryptedMinOrder",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bool",
+                "name": "isActive",
+                "type": "bool"
+            },
+            {
+                "internalType": "uint256",
+                "name": "createdAt",
+                "type": "uint256"
+            },
+            {
+                "internalType": "string",
+                "name": "qualityGrade",
+                "type": "string"
+            },
+            {
+                "internalType": "uint256",
+                "name": "deliveryTimeframe",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "nextMatchId",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "nextMaterialId",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "nextOrderId",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_orderId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes32",
+                "name": "_deliveryId",
+                "type": "bytes32"
+            }
+        ],
+        "name": "onDeliveryCompleted",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "orderDeliveries",
+        "outputs": [
+            {
+                "internalType": "bytes32",
+                "name": "",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "orderMatches",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "orders",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "buyer",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "materialId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "euint32",
+                "name": "encryptedQuantity",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "euint64",
+                "name": "encryptedMaxPrice",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "enum ConfidentialRawMaterialsTrading.OrderStatus",
+                "name": "status",
+                "type": "uint8"
+            },
+            {
+                "internalType": "uint256",
+                "name": "createdAt",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "matchedAt",
+                "type": "uint256"
+            },
+            {
+                "internalType": "address",
+                "name": "matchedSupplier",
+                "type": "address"
+            },
+            {
+                "internalType": "euint64",
+                "name": "encryptedFinalPrice",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "euint32",
+                "name": "encryptedFilledQuantity",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "string",
+                "name": "deliveryLocation",
+                "type": "string"
+            },
+            {
+                "internalType": "bytes32",
+                "name": "encryptedSpecialRequirements",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "owner",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "paymentProcessor",
+        "outputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
         "stateMutability": "view",
         "type": "function"
     },
@@ -497,13 +1077,116 @@ const CONTRACT_ABI = [
     },
     {
         "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_materialId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "externalEuint32",
+                "name": "_encryptedQuantity",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "externalEuint64",
+                "name": "_encryptedMaxPrice",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bytes",
+                "name": "_inputProof",
+                "type": "bytes"
+            },
+            {
+                "internalType": "string",
+                "name": "_deliveryLocation",
+                "type": "string"
+            },
+            {
+                "internalType": "bytes32",
+                "name": "_encryptedSpecialRequirements",
+                "type": "bytes32"
+            }
+        ],
+        "name": "placeOrderEncrypted",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "protocolId",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "pure",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "reputationTracker",
+        "outputs": [
             {
                 "internalType": "address",
-                "name": "buyer",
+                "name": "",
                 "type": "address"
             }
         ],
-        "name": "verifyBuyer",
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_orderId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "externalEuint64",
+                "name": "_encryptedPickupLocation",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bytes",
+                "name": "_inputProof",
+                "type": "bytes"
+            }
+        ],
+        "name": "requestTradeDelivery",
+        "outputs": [
+            {
+                "internalType": "bytes32",
+                "name": "deliveryId",
+                "type": "bytes32"
+            }
+        ],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_materialId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "externalEuint32",
+                "name": "_encryptedQuantity",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bytes",
+                "name": "_inputProof",
+                "type": "bytes"
+            }
+        ],
+        "name": "restockMaterial",
         "outputs": [],
         "stateMutability": "nonpayable",
         "type": "function"
@@ -512,15 +1195,88 @@ const CONTRACT_ABI = [
         "inputs": [
             {
                 "internalType": "address",
-                "name": "supplier",
+                "name": "_deliveryManager",
                 "type": "address"
             }
         ],
-        "name": "verifySupplier",
+        "name": "setDeliveryManager",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "_materialId",
+                "type": "uint256"
+            },
+            {
+                "internalType": "externalEuint32",
+                "name": "_encryptedMinimum",
+                "type": "bytes32"
+            },
+            {
+                "internalType": "bytes",
+                "name": "_inputProof",
+                "type": "bytes"
+            }
+        ],
+        "name": "setMinimumBuyerReputation",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_paymentProcessor",
+                "type": "address"
+            }
+        ],
+        "name": "setPaymentProcessor",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "_reputationTracker",
+                "type": "address"
+            }
+        ],
+        "name": "setReputationTracker",
         "outputs": [],
         "stateMutability": "nonpayable",
         "type": "function"
     },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "supplierMaterials",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
     {
         "inputs": [
             {
@@ -558,6 +1314,32 @@ const CONTRACT_ABI = [
         ],
         "stateMutability": "view",
         "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "buyer",
+                "type": "address"
+            }
+        ],
+        "name": "verifyBuyer",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "supplier",
+                "type": "address"
+            }
+        ],
+        "name": "verifySupplier",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
     }
 ];
 
@@ -591,7 +1373,9 @@ class ContractService {
     async init(provider, signer) {
         this.provider = provider;
         this.signer = signer;
-        this.contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
+        const { chainId } = await provider.getNetwork();
+        const address = await resolveContractAddress(chainId);
+        this.contract = new ethers.Contract(address, CONTRACT_ABI, signer);
         this.userAddress = await signer.getAddress();
     }
 
@@ -0,0 +1,236 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint32, ebool, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { ConfidentialRawMaterialsTrading } from "./ConfidentialRawMaterialsTrading.sol";
+
+/// @title Confidential RFQ
+/// @notice Sealed-bid requests for quote: buyers broadcast a need, verified
+/// suppliers quote privately and the lowest quote wins
+/// @dev Buyer and supplier verification is read from the trading contract.
+/// The lowest quote is tracked on encrypted values as quotes arrive; only the
+/// winning supplier is revealed, through the decryption oracle, at close.
+contract ConfidentialRFQ is SepoliaConfig {
+
+    enum RFQStatus {
+        OPEN,
+        CLOSING,
+        AWARDED,
+        CANCELLED
+    }
+
+    struct RFQ {
+        address buyer;
+        ConfidentialRawMaterialsTrading.MaterialCategory category;
+        string qualityGrade;
+        uint256 deadline;
+        RFQStatus status;
+        euint64 encryptedLowestQuote;
+        euint32 encryptedWinnerIndex;
+        address winner;
+        uint256 createdAt;
+    }
+
+    /// @notice Public view of an RFQ, without its encrypted fields
+    struct RFQInfo {
+        address buyer;
+        ConfidentialRawMaterialsTrading.MaterialCategory category;
+        string qualityGrade;
+        uint256 deadline;
+        RFQStatus status;
+        address winner;
+        uint256 quoteCount;
+    }
+
+    ConfidentialRawMaterialsTrading public immutable trading;
+    uint256 public nextRfqId;
+
+    mapping(uint256 => RFQ) public rfqs;
+    mapping(uint256 => address[]) private quoteSuppliers;
+    mapping(uint256 => mapping(address => euint64)) private quotes;
+    mapping(uint256 => mapping(address => bool)) public hasQuoted;
+    mapping(address => uint256[]) public buyerRfqs;
+
+    // Decryption request ID => RFQ ID awaiting its winner
+    mapping(uint256 => uint256) private winnerRequests;
+
+    event RFQCreated(
+        uint256 indexed rfqId,
+        address indexed buyer,
+        ConfidentialRawMaterialsTrading.MaterialCategory category,
+        uint256 deadline
+    );
+    event QuoteSubmitted(uint256 indexed rfqId, address indexed supplier);
+    event RFQClosing(uint256 indexed rfqId, uint256 requestId);
+    event RFQAwarded(uint256 indexed rfqId, address indexed winner);
+    event RFQCancelled(uint256 indexed rfqId);
+
+    modifier onlyVerifiedBuyer() {
+        require(trading.verifiedBuyers(msg.sender), "Not verified buyer");
+        _;
+    }
+
+    modifier onlyVerifiedSupplier() {
+        require(trading.verifiedSuppliers(msg.sender), "Not verified supplier");
+        _;
+    }
+
+    constructor(address _trading) {
+        require(_trading != address(0), "Invalid trading contract");
+        trading = ConfidentialRawMaterialsTrading(_trading);
+        nextRfqId = 1;
+    }
+
+    /// @notice Broadcast a need for a material category and quality grade
+    /// @param _duration Seconds from now until quotes stop being accepted
+    function createRFQ(
+        ConfidentialRawMaterialsTrading.MaterialCategory _category,
+        string memory _qualityGrade,
+        uint256 _duration
+    ) external onlyVerifiedBuyer returns (uint256 rfqId) {
+        require(_duration > 0, "Invalid duration");
+
+        rfqId = nextRfqId++;
+        RFQ storage rfq = rfqs[rfqId];
+        rfq.buyer = msg.sender;
+        rfq.category = _category;
+        rfq.qualityGrade = _qualityGrade;
+        rfq.deadline = block.timestamp + _duration;
+        rfq.status = RFQStatus.OPEN;
+        rfq.createdAt = block.timestamp;
+
+        buyerRfqs[msg.sender].push(rfqId);
+
+        emit RFQCreated(rfqId, msg.sender, _category, rfq.deadline);
+    }
+
+    /// @notice Submit an encrypted unit price for an open RFQ
+    /// @dev Mirrors BlindAuction.placeBid, keeping the minimum instead of the
+    /// maximum and carrying the quote's index alongside it
+    function submitQuote(
+        uint256 _rfqId,
+        externalEuint64 _encryptedPrice,
+        bytes calldata _inputProof
+    ) external onlyVerifiedSupplier {
+        RFQ storage rfq = rfqs[_rfqId];
+        require(rfq.status == RFQStatus.OPEN, "RFQ not open");
+        require(block.timestamp < rfq.deadline, "RFQ deadline passed");
+        require(msg.sender != rfq.buyer, "Buyer cannot quote");
+        require(!hasQuoted[_rfqId][msg.sender], "Already quoted");
+
+        euint64 price = FHE.fromExternal(_encryptedPrice, _inputProof);
+        uint32 index = uint32(quoteSuppliers[_rfqId].length);
+
+        if (index == 0) {
+            rfq.encryptedLowestQuote = price;
+            rfq.encryptedWinnerIndex = FHE.asEuint32(0);
+        } else {
+            ebool isLower = FHE.lt(price, rfq.encryptedLowestQuote);
+            rfq.encryptedLowestQuote = FHE.select(isLower, price, rfq.encryptedLowestQuote);
+            rfq.encryptedWinnerIndex = FHE.select(
+                isLower,
+                FHE.asEuint32(index),
+                rfq.encryptedWinnerIndex
+            );
+        }
+
+        quotes[_rfqId][msg.sender] = price;
+        hasQuoted[_rfqId][msg.sender] = true;
+        quoteSuppliers[_rfqId].push(msg.sender);
+
+        FHE.allowThis(price);
+        FHE.allow(price, msg.sender);
+        FHE.allowThis(rfq.encryptedLowestQuote);
+        FHE.allowThis(rfq.encryptedWinnerIndex);
+
+        emit QuoteSubmitted(_rfqId, msg.sender);
+    }
+
+    /// @notice Stop accepting quotes and ask the oracle for the winning supplier
+    function closeRFQ(uint256 _rfqId) external {
+        RFQ storage rfq = rfqs[_rfqId];
+        require(rfq.buyer == msg.sender, "Not RFQ owner");
+        require(rfq.status == RFQStatus.OPEN, "RFQ not open");
+        require(block.timestamp >= rfq.deadline, "RFQ still open");
+        require(quoteSuppliers[_rfqId].length > 0, "No quotes submitted");
+
+        rfq.status = RFQStatus.CLOSING;
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(rfq.encryptedWinnerIndex);
+        uint256 requestId = FHE.requestDecryption(cts, this.winnerCallback.selector);
+        winnerRequests[requestId] = _rfqId;
+
+        emit RFQClosing(_rfqId, requestId);
+    }
+
+    /// @notice Oracle callback revealing the index of the lowest quote
+    function winnerCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        uint256 rfqId = winnerRequests[requestId];
+        delete winnerRequests[requestId];
+
+        RFQ storage rfq = rfqs[rfqId];
+        require(rfq.status == RFQStatus.CLOSING, "RFQ not closing");
+
+        uint32 index = abi.decode(cleartexts, (uint32));
+        rfq.winner = quoteSuppliers[rfqId][index];
+        rfq.status = RFQStatus.AWARDED;
+
+        // The winning price stays encrypted; only the two parties may read it
+        FHE.allow(rfq.encryptedLowestQuote, rfq.buyer);
+        FHE.allow(rfq.encryptedLowestQuote, rfq.winner);
+
+        emit RFQAwarded(rfqId, rfq.winner);
+    }
+
+    /// @notice Withdraw an RFQ before it is closed
+    function cancelRFQ(uint256 _rfqId) external {
+        RFQ storage rfq = rfqs[_rfqId];
+        require(rfq.buyer == msg.sender, "Not RFQ owner");
+        require(rfq.status == RFQStatus.OPEN, "RFQ not open");
+
+        rfq.status = RFQStatus.CANCELLED;
+
+        emit RFQCancelled(_rfqId);
+    }
+
+    function getRFQInfo(uint256 _rfqId) external view returns (RFQInfo memory) {
+        RFQ storage rfq = rfqs[_rfqId];
+        return RFQInfo({
+            buyer: rfq.buyer,
+            category: rfq.category,
+            qualityGrade: rfq.qualityGrade,
+            deadline: rfq.deadline,
+            status: rfq.status,
+            winner: rfq.winner,
+            quoteCount: quoteSuppliers[_rfqId].length
+        });
+    }
+
+    function getQuoteSuppliers(uint256 _rfqId) external view returns (address[] memory) {
+        return quoteSuppliers[_rfqId];
+    }
+
+    /// @notice Encrypted quote the caller submitted for an RFQ
+    function getMyQuote(uint256 _rfqId) external view returns (euint64) {
+        require(hasQuoted[_rfqId][msg.sender], "No quote submitted");
+        return quotes[_rfqId][msg.sender];
+    }
+
+    /// @notice Encrypted winning price, decryptable by the buyer and winner once awarded
+    function getWinningQuote(uint256 _rfqId) external view returns (euint64) {
+        require(rfqs[_rfqId].status == RFQStatus.AWARDED, "RFQ not awarded");
+        return rfqs[_rfqId].encryptedLowestQuote;
+    }
+
+    function getBuyerRFQs(address _buyer) external view returns (uint256[] memory) {
+        return buyerRfqs[_buyer];
+    }
+}
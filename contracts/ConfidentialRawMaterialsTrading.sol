@@ -1,14 +1,21 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool, euint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, ebool, euint64, externalEuint32, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IDeliveryManager } from "./interfaces/IDeliveryManager.sol";
+import { IPaymentProcessor } from "./interfaces/IPaymentProcessor.sol";
+import { IReputationTracker } from "./interfaces/IReputationTracker.sol";
 
 contract ConfidentialRawMaterialsTrading is SepoliaConfig {
 
     address public owner;
     uint256 public nextMaterialId;
     uint256 public nextOrderId;
+    uint256 public nextMatchId;
+    address public paymentProcessor;
+    address public reputationTracker;
+    address public deliveryManager;
 
     enum MaterialCategory {
         METALS,
@@ -49,6 +56,7 @@ contract ConfidentialRawMaterialsTrading is SepoliaConfig {
         uint256 matchedAt;
         address matchedSupplier;
         euint64 encryptedFinalPrice;
+        euint32 encryptedFilledQuantity;
         string deliveryLocation;
         bytes32 encryptedSpecialRequirements;
     }
@@ -67,17 +75,45 @@ contract ConfidentialRawMaterialsTrading is SepoliaConfig {
     mapping(uint256 => RawMaterial) public materials;
     mapping(uint256 => Order) public orders;
     mapping(uint256 => TradeMatch) public matches;
+    mapping(uint256 => uint256[]) public orderMatches;
     mapping(address => uint256[]) public supplierMaterials;
     mapping(address => uint256[]) public buyerOrders;
     mapping(address => bool) public verifiedSuppliers;
     mapping(address => bool) public verifiedBuyers;
 
+    // Decryption request ID => order ID awaiting a fill-status result
+    mapping(uint256 => uint256) private fillCheckRequests;
+    // Order ID => fill-status results still outstanding
+    mapping(uint256 => uint256) private pendingFillChecks;
+    // Order ID => whether the oracle has reported a non-zero fill
+    mapping(uint256 => bool) private orderHasFills;
+
+    // Material ID => encrypted minimum buyer reputation, if the supplier set one
+    mapping(uint256 => euint32) private minimumBuyerReputation;
+    // Order ID => encrypted result of the buyer's reputation check at order time
+    mapping(uint256 => ebool) private buyerReputationChecks;
+
+    // Order ID => latest delivery shipping it, and delivery ID => order ID
+    mapping(uint256 => bytes32) public orderDeliveries;
+    mapping(bytes32 => uint256) public deliveryOrders;
+
     event MaterialListed(uint256 indexed materialId, address indexed supplier, MaterialCategory category);
     event OrderPlaced(uint256 indexed orderId, address indexed buyer, uint256 indexed materialId);
-    event TradeMatched(uint256 indexed orderId, uint256 indexed materialId, address indexed buyer, address supplier);
+    event TradeMatched(
+        uint256 indexed orderId,
+        uint256 indexed materialId,
+        address indexed buyer,
+        address supplier,
+        uint256 matchId
+    );
+    event OrderFilled(uint256 indexed orderId);
+    event OrderClosed(uint256 indexed orderId);
     event TradeCompleted(uint256 indexed orderId, uint256 indexed materialId);
     event SupplierVerified(address indexed supplier);
     event BuyerVerified(address indexed buyer);
+    event ReputationRequirementSet(uint256 indexed materialId);
+    event TradeDeliveryRequested(uint256 indexed orderId, bytes32 indexed deliveryId, uint256 deadline);
+    event TradeDelivered(uint256 indexed orderId, bytes32 indexed deliveryId);
 
     modifier onlyOwner() {
         require(msg.sender == owner, "Not authorized");
@@ -98,6 +134,7 @@ contract ConfidentialRawMaterialsTrading is SepoliaConfig {
         owner = msg.sender;
         nextMaterialId = 1;
         nextOrderId = 1;
+        nextMatchId = 1;
     }
 
     function verifySupplier(address supplier) external onlyOwner {
@@ -110,6 +147,43 @@ contract ConfidentialRawMaterialsTrading is SepoliaConfig {
         emit BuyerVerified(buyer);
     }
 
+    /// @notice Set the PaymentProcessor whose trade escrows confirmTrade releases
+    function setPaymentProcessor(address _paymentProcessor) external onlyOwner {
+        paymentProcessor = _paymentProcessor;
+    }
+
+    /// @notice Set the ReputationTracker that listing reputation requirements are checked against
+    function setReputationTracker(address _reputationTracker) external onlyOwner {
+        reputationTracker = _reputationTracker;
+    }
+
+    /// @notice Set the DeliveryManager that ships matched orders
+    function setDeliveryManager(address _deliveryManager) external onlyOwner {
+        deliveryManager = _deliveryManager;
+    }
+
+    /// @notice Require buyers of a listing to have at least an encrypted reputation score
+    /// @dev The minimum is an average rating scaled by
+    /// ReputationTracker.REPUTATION_SCALE, so 35 asks for 3.5. Applies to orders
+    /// placed from now on. A buyer below the minimum can still place an order,
+    /// but it never fills; neither the minimum nor the buyer's score is revealed.
+    function setMinimumBuyerReputation(
+        uint256 _materialId,
+        externalEuint32 _encryptedMinimum,
+        bytes calldata _inputProof
+    ) external {
+        require(materials[_materialId].supplier == msg.sender, "Not material owner");
+        require(reputationTracker != address(0), "Reputation tracker not set");
+
+        euint32 minimum = FHE.fromExternal(_encryptedMinimum, _inputProof);
+        minimumBuyerReputation[_materialId] = minimum;
+
+        FHE.allowThis(minimum);
+        FHE.allow(minimum, msg.sender);
+
+        emit ReputationRequirementSet(_materialId);
+    }
+
     function listMaterial(
         string memory _name,
         MaterialCategory _category,
@@ -123,34 +197,38 @@ contract ConfidentialRawMaterialsTrading is SepoliaConfig {
         require(_pricePerUnit > 0, "Invalid price");
         require(_minOrder > 0, "Invalid minimum order");
 
-        euint32 encryptedQuantity = FHE.asEuint32(_quantity);
-        euint64 encryptedPricePerUnit = FHE.asEuint64(_pricePerUnit);
-        euint32 encryptedMinOrder = FHE.asEuint32(_minOrder);
-
-        materials[nextMaterialId] = RawMaterial({
-            name: _name,
-            category: _category,
-            supplier: msg.sender,
-            encryptedQuantity: encryptedQuantity,
-            encryptedPricePerUnit: encryptedPricePerUnit,
-            encryptedMinOrder: encryptedMinOrder,
-            isActive: true,
-            createdAt: block.timestamp,
-            qualityGrade: _qualityGrade,
-            deliveryTimeframe: _deliveryTimeframe
-        });
-
-        supplierMaterials[msg.sender].push(nextMaterialId);
-
-        FHE.allowThis(encryptedQuantity);
-        FHE.allowThis(encryptedPricePerUnit);
-        FHE.allowThis(encryptedMinOrder);
-        FHE.allow(encryptedQuantity, msg.sender);
-        FHE.allow(encryptedPricePerUnit, msg.sender);
-        FHE.allow(encryptedMinOrder, msg.sender);
+        _storeMaterial(
+            _name,
+            _category,
+            FHE.asEuint32(_quantity),
+            FHE.asEuint64(_pricePerUnit),
+            FHE.asEuint32(_minOrder),
+            _qualityGrade,
+            _deliveryTimeframe
+        );
+    }
 
-        emit MaterialListed(nextMaterialId, msg.sender, _category);
-        nextMaterialId++;
+    /// @notice List a material with client-side encrypted quantity, price and minimum order
+    /// @dev Values never appear in calldata, so they cannot be range-checked like listMaterial
+    function listMaterialEncrypted(
+        string memory _name,
+        MaterialCategory _category,
+        externalEuint32 _encryptedQuantity,
+        externalEuint64 _encryptedPricePerUnit,
+        externalEuint32 _encryptedMinOrder,
+        bytes calldata _inputProof,
+        string memory _qualityGrade,
+        uint256 _deliveryTimeframe
+    ) external onlyVerifiedSupplier {
+        _storeMaterial(
+            _name,
+            _category,
+            FHE.fromExternal(_encryptedQuantity, _inputProof),
+            FHE.fromExternal(_encryptedPricePerUnit, _inputProof),
+            FHE.fromExternal(_encryptedMinOrder, _inputProof),
+            _qualityGrade,
+            _deliveryTimeframe
+        );
     }
 
     function placeOrder(
@@ -164,34 +242,39 @@ contract ConfidentialRawMaterialsTrading is SepoliaConfig {
         require(_quantity > 0, "Invalid quantity");
         require(_maxPrice > 0, "Invalid max price");
 
-        euint32 encryptedQuantity = FHE.asEuint32(_quantity);
-        euint64 encryptedMaxPrice = FHE.asEuint64(_maxPrice);
-
-        orders[nextOrderId] = Order({
-            buyer: msg.sender,
-            materialId: _materialId,
-            encryptedQuantity: encryptedQuantity,
-            encryptedMaxPrice: encryptedMaxPrice,
-            status: OrderStatus.PENDING,
-            createdAt: block.timestamp,
-            matchedAt: 0,
-            matchedSupplier: address(0),
-            encryptedFinalPrice: FHE.asEuint64(0),
-            deliveryLocation: _deliveryLocation,
-            encryptedSpecialRequirements: _encryptedSpecialRequirements
-        });
-
-        buyerOrders[msg.sender].push(nextOrderId);
+        _storeOrder(
+            _materialId,
+            FHE.asEuint32(_quantity),
+            FHE.asEuint64(_maxPrice),
+            _deliveryLocation,
+            _encryptedSpecialRequirements
+        );
+    }
 
-        FHE.allowThis(encryptedQuantity);
-        FHE.allowThis(encryptedMaxPrice);
-        FHE.allow(encryptedQuantity, msg.sender);
-        FHE.allow(encryptedMaxPrice, msg.sender);
+    /// @notice Place an order with client-side encrypted quantity and maximum price
+    /// @dev Values never appear in calldata, so they cannot be range-checked like placeOrder
+    function placeOrderEncrypted(
+        uint256 _materialId,
+        externalEuint32 _encryptedQuantity,
+        externalEuint64 _encryptedMaxPrice,
+        bytes calldata _inputProof,
+        string memory _deliveryLocation,
+        bytes32 _encryptedSpecialRequirements
+    ) external onlyVerifiedBuyer {
+        require(materials[_materialId].isActive, "Material not available");
 
-        emit OrderPlaced(nextOrderId, msg.sender, _materialId);
-        nextOrderId++;
+        _storeOrder(
+            _materialId,
+            FHE.fromExternal(_encryptedQuantity, _inputProof),
+            FHE.fromExternal(_encryptedMaxPrice, _inputProof),
+            _deliveryLocation,
+            _encryptedSpecialRequirements
+        );
     }
 
+    /// @notice Fill as much of an open order as the listing allows
+    /// @dev Each call records a new TradeMatch; the order stays PENDING until the
+    /// oracle reports it fully filled or the buyer cancels the remainder
     function matchTrade(uint256 _orderId) external {
         Order storage order = orders[_orderId];
         require(order.status == OrderStatus.PENDING, "Order not pending");
@@ -200,55 +283,184 @@ contract ConfidentialRawMaterialsTrading is SepoliaConfig {
         require(material.supplier == msg.sender, "Not material supplier");
         require(material.isActive, "Material not active");
 
-        order.status = OrderStatus.MATCHED;
+        (euint32 filledQuantity, euint64 finalPrice) = _computeFill(_orderId, order, material);
+
+        uint256 matchId = nextMatchId++;
+
         order.matchedAt = block.timestamp;
         order.matchedSupplier = msg.sender;
-        order.encryptedFinalPrice = material.encryptedPricePerUnit;
+        order.encryptedFilledQuantity = FHE.add(order.encryptedFilledQuantity, filledQuantity);
+        order.encryptedFinalPrice = FHE.select(
+            FHE.gt(filledQuantity, 0),
+            finalPrice,
+            order.encryptedFinalPrice
+        );
 
-        // Update material quantity (encrypted subtraction)
-        euint32 remainingQuantity = FHE.sub(material.encryptedQuantity, order.encryptedQuantity);
+        // Update material quantity (cannot underflow: filled <= available)
+        euint32 remainingQuantity = FHE.sub(material.encryptedQuantity, filledQuantity);
         material.encryptedQuantity = remainingQuantity;
 
-        matches[_orderId] = TradeMatch({
+        matches[matchId] = TradeMatch({
             orderId: _orderId,
             materialId: order.materialId,
             buyer: order.buyer,
             supplier: msg.sender,
-            encryptedQuantity: order.encryptedQuantity,
-            encryptedPrice: material.encryptedPricePerUnit,
+            encryptedQuantity: filledQuantity,
+            encryptedPrice: finalPrice,
             timestamp: block.timestamp,
             isConfirmed: false
         });
+        orderMatches[_orderId].push(matchId);
 
         FHE.allowThis(remainingQuantity);
+        FHE.allow(remainingQuantity, msg.sender);
+        FHE.allowThis(filledQuantity);
+        FHE.allow(filledQuantity, order.buyer);
+        FHE.allow(filledQuantity, msg.sender);
+        FHE.allowThis(finalPrice);
+        FHE.allow(finalPrice, order.buyer);
+        FHE.allow(finalPrice, msg.sender);
+        FHE.allowThis(order.encryptedFilledQuantity);
+        FHE.allow(order.encryptedFilledQuantity, order.buyer);
+        FHE.allow(order.encryptedFilledQuantity, msg.sender);
         FHE.allowThis(order.encryptedFinalPrice);
         FHE.allow(order.encryptedFinalPrice, order.buyer);
         FHE.allow(order.encryptedFinalPrice, msg.sender);
 
-        emit TradeMatched(_orderId, order.materialId, order.buyer, msg.sender);
+        _requestFillCheck(_orderId, order);
+
+        emit TradeMatched(_orderId, order.materialId, order.buyer, msg.sender, matchId);
     }
 
+    /// @notice Oracle callback reporting whether an order is fully filled and
+    /// whether it has been filled at all
+    function fillStatusCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        uint256 orderId = fillCheckRequests[requestId];
+        delete fillCheckRequests[requestId];
+        pendingFillChecks[orderId]--;
+
+        (bool isFilled, bool hasFills) = abi.decode(cleartexts, (bool, bool));
+        if (hasFills) {
+            orderHasFills[orderId] = true;
+        }
+        if (isFilled && orders[orderId].status == OrderStatus.PENDING) {
+            orders[orderId].status = OrderStatus.MATCHED;
+            emit OrderFilled(orderId);
+        }
+    }
 
     function confirmTrade(uint256 _orderId) external {
         Order storage order = orders[_orderId];
-        TradeMatch storage tradeMatch = matches[_orderId];
 
         require(order.status == OrderStatus.MATCHED, "Order not matched");
         require(msg.sender == order.buyer || msg.sender == order.matchedSupplier, "Not authorized");
-        require(!tradeMatch.isConfirmed, "Already confirmed");
 
-        tradeMatch.isConfirmed = true;
-        order.status = OrderStatus.COMPLETED;
+        bool hasEscrow = _hasEscrow(_orderId);
+        // The buyer's confirmation is what releases their escrowed funds
+        require(!hasEscrow || msg.sender == order.buyer, "Only buyer can release payment");
 
-        emit TradeCompleted(_orderId, order.materialId);
+        _completeTrade(_orderId, order, hasEscrow);
     }
 
+    /// @notice Ship a matched order through the DeliveryManager
+    /// @dev The pickup location is encrypted for this contract and the matched
+    /// supplier. The buyer must confirm the delivery, which completes the
+    /// trade as confirmTrade would. A cancelled delivery can be replaced.
+    /// The deadline is matchedAt plus the listing's deliveryTimeframe in days.
+    function requestTradeDelivery(
+        uint256 _orderId,
+        externalEuint64 _encryptedPickupLocation,
+        bytes calldata _inputProof
+    ) external returns (bytes32 deliveryId) {
+        require(deliveryManager != address(0), "Delivery manager not set");
+
+        Order storage order = orders[_orderId];
+        require(order.status == OrderStatus.MATCHED, "Order not matched");
+        require(order.matchedSupplier == msg.sender, "Not matched supplier");
+
+        bytes32 previous = orderDeliveries[_orderId];
+        require(
+            previous == bytes32(0) ||
+                IDeliveryManager(deliveryManager).getDeliveryStatus(previous) ==
+                IDeliveryManager.DeliveryStatus.CANCELLED,
+            "Delivery already requested"
+        );
+
+        euint64 pickup = FHE.fromExternal(_encryptedPickupLocation, _inputProof);
+        FHE.allowTransient(pickup, deliveryManager);
+        deliveryId = IDeliveryManager(deliveryManager).createTradeDelivery(
+            _orderId,
+            msg.sender,
+            order.buyer,
+            pickup,
+            bytes(order.deliveryLocation)
+        );
+
+        orderDeliveries[_orderId] = deliveryId;
+        deliveryOrders[deliveryId] = _orderId;
+
+        uint256 deadline = order.matchedAt + materials[order.materialId].deliveryTimeframe * 1 days;
+        emit TradeDeliveryRequested(_orderId, deliveryId, deadline);
+    }
+
+    /// @notice Complete an order once its buyer confirmed the delivery
+    /// @dev Called by the DeliveryManager from confirmDelivery. An order the
+    /// parties already confirmed only records the delivery.
+    function onDeliveryCompleted(uint256 _orderId, bytes32 _deliveryId) external {
+        require(msg.sender == deliveryManager, "Not delivery manager");
+        require(deliveryOrders[_deliveryId] == _orderId && _orderId != 0, "Unknown delivery");
+
+        emit TradeDelivered(_orderId, _deliveryId);
+
+        Order storage order = orders[_orderId];
+        if (order.status == OrderStatus.MATCHED) {
+            _completeTrade(_orderId, order, _hasEscrow(_orderId));
+        }
+    }
+
+    /// @notice Cancel the unfilled remainder of an open order
+    /// @dev An order with fills moves to MATCHED so those fills can still be confirmed.
+    /// Matches that filled nothing do not count, which is only known once the
+    /// oracle has reported on every match.
     function cancelOrder(uint256 _orderId) external {
         Order storage order = orders[_orderId];
         require(order.buyer == msg.sender, "Not order owner");
         require(order.status == OrderStatus.PENDING, "Cannot cancel");
+        require(pendingFillChecks[_orderId] == 0, "Fill check pending");
 
-        order.status = OrderStatus.CANCELLED;
+        if (orderHasFills[_orderId]) {
+            order.status = OrderStatus.MATCHED;
+            emit OrderClosed(_orderId);
+        } else {
+            order.status = OrderStatus.CANCELLED;
+        }
+    }
+
+    /// @notice Add stock to an active listing so open orders can be filled further
+    /// @dev The added quantity is encrypted client-side, like listMaterialEncrypted,
+    /// so restocks do not reveal stock levels
+    function restockMaterial(
+        uint256 _materialId,
+        externalEuint32 _encryptedQuantity,
+        bytes calldata _inputProof
+    ) external {
+        RawMaterial storage material = materials[_materialId];
+        require(material.supplier == msg.sender, "Not material owner");
+        require(material.isActive, "Material not active");
+
+        material.encryptedQuantity = FHE.add(
+            material.encryptedQuantity,
+            FHE.fromExternal(_encryptedQuantity, _inputProof)
+        );
+
+        FHE.allowThis(material.encryptedQuantity);
+        FHE.allow(material.encryptedQuantity, msg.sender);
     }
 
     function deactivateMaterial(uint256 _materialId) external {
@@ -258,6 +470,157 @@ contract ConfidentialRawMaterialsTrading is SepoliaConfig {
         material.isActive = false;
     }
 
+    function _hasEscrow(uint256 _orderId) internal view returns (bool) {
+        return paymentProcessor != address(0) &&
+            IPaymentProcessor(paymentProcessor).getTradePayment(_orderId) != bytes32(0);
+    }
+
+    function _completeTrade(uint256 _orderId, Order storage order, bool hasEscrow) internal {
+        uint256[] storage matchIds = orderMatches[_orderId];
+        for (uint256 i = 0; i < matchIds.length; i++) {
+            matches[matchIds[i]].isConfirmed = true;
+        }
+        order.status = OrderStatus.COMPLETED;
+
+        if (hasEscrow) {
+            IPaymentProcessor(paymentProcessor).releaseTradePayment(_orderId);
+        }
+
+        emit TradeCompleted(_orderId, order.materialId);
+    }
+
+    function _storeMaterial(
+        string memory _name,
+        MaterialCategory _category,
+        euint32 encryptedQuantity,
+        euint64 encryptedPricePerUnit,
+        euint32 encryptedMinOrder,
+        string memory _qualityGrade,
+        uint256 _deliveryTimeframe
+    ) internal {
+        materials[nextMaterialId] = RawMaterial({
+            name: _name,
+            category: _category,
+            supplier: msg.sender,
+            encryptedQuantity: encryptedQuantity,
+            encryptedPricePerUnit: encryptedPricePerUnit,
+            encryptedMinOrder: encryptedMinOrder,
+            isActive: true,
+            createdAt: block.timestamp,
+            qualityGrade: _qualityGrade,
+            deliveryTimeframe: _deliveryTimeframe
+        });
+
+        supplierMaterials[msg.sender].push(nextMaterialId);
+
+        FHE.allowThis(encryptedQuantity);
+        FHE.allowThis(encryptedPricePerUnit);
+        FHE.allowThis(encryptedMinOrder);
+        FHE.allow(encryptedQuantity, msg.sender);
+        FHE.allow(encryptedPricePerUnit, msg.sender);
+        FHE.allow(encryptedMinOrder, msg.sender);
+
+        emit MaterialListed(nextMaterialId, msg.sender, _category);
+        nextMaterialId++;
+    }
+
+    function _storeOrder(
+        uint256 _materialId,
+        euint32 encryptedQuantity,
+        euint64 encryptedMaxPrice,
+        string memory _deliveryLocation,
+        bytes32 _encryptedSpecialRequirements
+    ) internal {
+        orders[nextOrderId] = Order({
+            buyer: msg.sender,
+            materialId: _materialId,
+            encryptedQuantity: encryptedQuantity,
+            encryptedMaxPrice: encryptedMaxPrice,
+            status: OrderStatus.PENDING,
+            createdAt: block.timestamp,
+            matchedAt: 0,
+            matchedSupplier: address(0),
+            encryptedFinalPrice: FHE.asEuint64(0),
+            encryptedFilledQuantity: FHE.asEuint32(0),
+            deliveryLocation: _deliveryLocation,
+            encryptedSpecialRequirements: _encryptedSpecialRequirements
+        });
+
+        buyerOrders[msg.sender].push(nextOrderId);
+        _checkBuyerReputation(_materialId, nextOrderId);
+
+        FHE.allowThis(encryptedQuantity);
+        FHE.allowThis(encryptedMaxPrice);
+        FHE.allow(encryptedQuantity, msg.sender);
+        FHE.allow(encryptedMaxPrice, msg.sender);
+        FHE.allowThis(orders[nextOrderId].encryptedFinalPrice);
+        FHE.allowThis(orders[nextOrderId].encryptedFilledQuantity);
+
+        emit OrderPlaced(nextOrderId, msg.sender, _materialId);
+        nextOrderId++;
+    }
+
+    /// @dev Compares the buyer's reputation with the listing's minimum, if set,
+    /// and keeps the encrypted outcome for matchTrade
+    function _checkBuyerReputation(uint256 _materialId, uint256 _orderId) internal {
+        euint32 minimum = minimumBuyerReputation[_materialId];
+        if (!FHE.isInitialized(minimum)) {
+            return;
+        }
+        require(reputationTracker != address(0), "Reputation tracker not set");
+
+        FHE.allowTransient(minimum, reputationTracker);
+        ebool passed = IReputationTracker(reputationTracker).meetsReputationThreshold(
+            msg.sender,
+            minimum
+        );
+        buyerReputationChecks[_orderId] = passed;
+        FHE.allowThis(passed);
+    }
+
+    /// @dev Fill is min(outstanding, stock), zeroed unless the listing price is
+    /// within the buyer's maximum, the fill meets the minimum order size and the
+    /// buyer passed the listing's reputation requirement, if any
+    function _computeFill(
+        uint256 _orderId,
+        Order storage order,
+        RawMaterial storage material
+    ) internal returns (euint32 filledQuantity, euint64 finalPrice) {
+        euint32 outstanding = FHE.sub(order.encryptedQuantity, order.encryptedFilledQuantity);
+        euint32 available = FHE.min(outstanding, material.encryptedQuantity);
+
+        // A remainder left below the minimum by an earlier partial fill may
+        // still be closed out, as long as this match covers all of it
+        ebool closesRemainder = FHE.and(
+            FHE.gt(order.encryptedFilledQuantity, 0),
+            FHE.eq(available, outstanding)
+        );
+        ebool acceptable = FHE.and(
+            FHE.le(material.encryptedPricePerUnit, order.encryptedMaxPrice),
+            FHE.or(FHE.ge(available, material.encryptedMinOrder), closesRemainder)
+        );
+
+        ebool reputationCheck = buyerReputationChecks[_orderId];
+        if (FHE.isInitialized(reputationCheck)) {
+            acceptable = FHE.and(acceptable, reputationCheck);
+        }
+
+        filledQuantity = FHE.select(acceptable, available, FHE.asEuint32(0));
+        finalPrice = FHE.select(acceptable, material.encryptedPricePerUnit, FHE.asEuint64(0));
+    }
+
+    function _requestFillCheck(uint256 _orderId, Order storage order) internal {
+        ebool isFilled = FHE.eq(order.encryptedFilledQuantity, order.encryptedQuantity);
+        ebool hasFills = FHE.gt(order.encryptedFilledQuantity, 0);
+
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(isFilled);
+        cts[1] = FHE.toBytes32(hasFills);
+        uint256 requestId = FHE.requestDecryption(cts, this.fillStatusCallback.selector);
+        fillCheckRequests[requestId] = _orderId;
+        pendingFillChecks[_orderId]++;
+    }
+
     function getMaterialInfo(uint256 _materialId) external view returns (
         string memory name,
         MaterialCategory category,
@@ -330,15 +693,21 @@ contract ConfidentialRawMaterialsTrading is SepoliaConfig {
         return activeMaterials;
     }
 
-    function getTradeMatch(uint256 _orderId) external view returns (
+    function getOrderMatches(uint256 _orderId) external view returns (uint256[] memory) {
+        return orderMatches[_orderId];
+    }
+
+    function getTradeMatch(uint256 _matchId) external view returns (
+        uint256 orderId,
         uint256 materialId,
         address buyer,
         address supplier,
         uint256 timestamp,
         bool isConfirmed
     ) {
-        TradeMatch storage tradeMatch = matches[_orderId];
+        TradeMatch storage tradeMatch = matches[_matchId];
         return (
+            tradeMatch.orderId,
             tradeMatch.materialId,
             tradeMatch.buyer,
             tradeMatch.supplier,
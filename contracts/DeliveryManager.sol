@@ -1,25 +1,63 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
+import { FHE, ebool, euint32, euint64, externalEuint32, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 import { IDeliveryManager } from "./interfaces/IDeliveryManager.sol";
+import { IRawMaterialsTrading } from "./interfaces/IRawMaterialsTrading.sol";
+import { IReputationTracker } from "./interfaces/IReputationTracker.sol";
 import { Errors } from "./libs/Errors.sol";
+import { PrivacyLayer } from "./PrivacyLayer.sol";
 
 /// @title DeliveryManager Contract
 /// @notice Manages the complete delivery lifecycle with FHE privacy
-/// @dev Stores encrypted delivery data that remains private throughout
-contract DeliveryManager is IDeliveryManager {
+/// @dev Stores encrypted delivery data that remains private throughout.
+/// Couriers must be within MAX_DISTANCE of the pickup and, once a
+/// ReputationTracker is set, meet MIN_COURIER_REPUTATION. Both checks run on
+/// encrypted data and only their combined outcome is decrypted.
+/// A delivery completes only when the recipient confirms the courier's
+/// proof of delivery within CONFIRMATION_WINDOW. The requester commits to
+/// the recipient up front, so no one else can confirm. Deliveries of trade
+/// orders are created by the trading contract, must be confirmed by the
+/// order's buyer, and report completion back to the order.
+contract DeliveryManager is IDeliveryManager, SepoliaConfig {
+    /// @notice Courier acceptance awaiting its acceptance check
+    struct PendingAcceptance {
+        bytes32 deliveryId;
+        address courier;
+    }
+
+    /// @notice Trade order a delivery was created for
+    struct TradeDelivery {
+        address trading;
+        uint256 orderId;
+        address buyer;
+    }
+
     /// @notice Mapping of delivery request ID to delivery request
     mapping(bytes32 => DeliveryRequest) private deliveries;
 
     /// @notice Mapping of delivery ID to encrypted recipient address
     mapping(bytes32 => bytes) private encryptedRecipients;
 
-    /// @notice Mapping of delivery ID to encrypted pickup location
-    mapping(bytes32 => bytes) private encryptedPickupLocations;
+    /// @notice Mapping of delivery ID to the requester's recipient commitment
+    mapping(bytes32 => bytes32) private recipientCommitments;
+
+    /// @notice Mapping of delivery ID to encrypted pickup coordinates
+    mapping(bytes32 => euint64) private pickupLocations;
 
     /// @notice Mapping of delivery ID to encrypted delivery location
     mapping(bytes32 => bytes) private encryptedDeliveryLocations;
 
+    /// @notice Mapping of delivery ID to courier checkpoints, oldest first
+    mapping(bytes32 => Checkpoint[]) private checkpoints;
+
+    /// @notice Mapping of delivery ID to proof of delivery awaiting confirmation
+    mapping(bytes32 => ProofOfDelivery) private proofsOfDelivery;
+
+    /// @notice Mapping of delivery ID to the trade order it ships
+    mapping(bytes32 => TradeDelivery) private tradeDeliveries;
+
     /// @notice Mapping of user address to array of delivery IDs
     mapping(address => bytes32[]) private userDeliveries;
 
@@ -32,78 +70,201 @@ contract DeliveryManager is IDeliveryManager {
     /// @notice Maximum distance for delivery acceptance (in units)
     uint256 public constant MAX_DISTANCE = 100;
 
-    /// @notice Minimum reputation required for courier
-    uint256 public constant MIN_COURIER_REPUTATION = 50;
+    /// @notice Maximum checkpoints per delivery
+    uint256 public constant MAX_CHECKPOINTS = 50;
+
+    /// @notice Time the recipient has to confirm a proof of delivery
+    uint256 public constant CONFIRMATION_WINDOW = 2 days;
+
+    /// @notice Mask selecting the longitude of a packed location
+    uint64 private constant LONGITUDE_MASK = type(uint32).max;
+
+    /// @notice Minimum average rating required for courier, scaled by
+    /// ReputationTracker.REPUTATION_SCALE (an average of 3.5)
+    uint256 public constant MIN_COURIER_REPUTATION = 35;
+
+    /// @notice Owner allowed to configure the contract
+    address public owner;
+
+    /// @notice ReputationTracker couriers are checked against (optional)
+    IReputationTracker public reputationTracker;
+
+    /// @notice Trading contract allowed to create trade deliveries (optional)
+    address public tradingContract;
+
+    /// @notice Mapping of decryption request ID to pending courier acceptance
+    mapping(uint256 => PendingAcceptance) private pendingAcceptances;
+
+    /// @notice Mapping of delivery ID to whether a courier check is in flight
+    mapping(bytes32 => bool) private acceptancePending;
 
     /// @notice Constructor initializes contract
     constructor() {
+        owner = msg.sender;
         deliveryCounter = 0;
     }
 
+    /// @notice Set the ReputationTracker used to gate couriers
+    /// @dev Zero turns the reputation gate off
+    /// @param _reputationTracker Address of the ReputationTracker
+    function setReputationTracker(address _reputationTracker) external {
+        if (msg.sender != owner) {
+            revert Errors.UnauthorizedAccess(msg.sender);
+        }
+        reputationTracker = IReputationTracker(_reputationTracker);
+    }
+
+    /// @notice Set the trading contract that creates deliveries for its orders
+    /// @dev Zero stops new trade deliveries; existing ones keep their link
+    /// @param _tradingContract Address of ConfidentialRawMaterialsTrading
+    function setTradingContract(address _tradingContract) external {
+        if (msg.sender != owner) {
+            revert Errors.UnauthorizedAccess(msg.sender);
+        }
+        tradingContract = _tradingContract;
+    }
+
     /// @notice Create a new delivery request with encrypted data
     /// @dev All sensitive data is encrypted and stored securely
     /// @param encryptedRecipient External encrypted recipient address
     /// @param recipientProof ZK proof for recipient encryption
-    /// @param encryptedPickupLocation External encrypted pickup location
+    /// @param encryptedPickupLocation External encrypted pickup coordinates,
+    /// packed as in PrivacyLayer.encodeLocation
     /// @param pickupProof ZK proof for pickup location
     /// @param encryptedDeliveryLocation External encrypted delivery location
     /// @param deliveryProof ZK proof for delivery location
+    /// @param recipientCommitment keccak256(abi.encodePacked(recipient, secret))
+    /// for the handover secret shared with the recipient
     /// @return requestId The ID of the created delivery request
     function createDeliveryRequest(
         bytes calldata encryptedRecipient,
         bytes calldata recipientProof,
-        bytes calldata encryptedPickupLocation,
+        externalEuint64 encryptedPickupLocation,
         bytes calldata pickupProof,
         bytes calldata encryptedDeliveryLocation,
-        bytes calldata deliveryProof
+        bytes calldata deliveryProof,
+        bytes32 recipientCommitment
     ) external returns (bytes32 requestId) {
         // ✅ Validate encrypted inputs
         if (
             encryptedRecipient.length == 0 ||
-            encryptedPickupLocation.length == 0 ||
+            pickupProof.length == 0 ||
             encryptedDeliveryLocation.length == 0
         ) {
             revert Errors.InvalidProof();
         }
+        if (recipientCommitment == bytes32(0)) {
+            revert Errors.InvalidInput();
+        }
 
+        euint64 pickup = FHE.fromExternal(encryptedPickupLocation, pickupProof);
+        requestId = _createDelivery(
+            msg.sender,
+            encryptedRecipient,
+            pickup,
+            encryptedDeliveryLocation
+        );
+        recipientCommitments[requestId] = recipientCommitment;
+
+        return requestId;
+    }
+
+    /// @notice Create the delivery of a matched trade order
+    /// @dev Only the trading contract. The supplier becomes the requester and
+    /// the buyer, already public on the order, is stored in place of an
+    /// encrypted recipient: confirmDelivery accepts no one else.
+    /// @param orderId ID of the order on the trading contract
+    /// @param supplier Supplier shipping the order, recorded as requester
+    /// @param buyer Buyer of the order, the only valid recipient
+    /// @param pickupLocation Encrypted pickup coordinates the caller may use
+    /// @param deliveryLocation Delivery location of the order
+    /// @return requestId The ID of the created delivery request
+    function createTradeDelivery(
+        uint256 orderId,
+        address supplier,
+        address buyer,
+        euint64 pickupLocation,
+        bytes calldata deliveryLocation
+    ) external returns (bytes32 requestId) {
+        if (tradingContract == address(0) || msg.sender != tradingContract) {
+            revert Errors.UnauthorizedAccess(msg.sender);
+        }
+        if (!FHE.isSenderAllowed(pickupLocation)) {
+            revert Errors.PermissionDenied();
+        }
+        if (
+            orderId == 0 ||
+            supplier == address(0) ||
+            buyer == address(0) ||
+            deliveryLocation.length == 0
+        ) {
+            revert Errors.InvalidInput();
+        }
+
+        requestId = _createDelivery(supplier, "", pickupLocation, deliveryLocation);
+        tradeDeliveries[requestId] = TradeDelivery({
+            trading: msg.sender,
+            orderId: orderId,
+            buyer: buyer
+        });
+
+        emit TradeDeliveryCreated(requestId, msg.sender, orderId);
+
+        return requestId;
+    }
+
+    /// @notice Store a new PENDING delivery for requester
+    function _createDelivery(
+        address requester,
+        bytes memory encryptedRecipient,
+        euint64 pickup,
+        bytes memory encryptedDeliveryLocation
+    ) private returns (bytes32 requestId) {
         // Generate unique delivery ID
         deliveryCounter++;
         requestId = keccak256(
-            abi.encodePacked(msg.sender, block.timestamp, deliveryCounter)
+            abi.encodePacked(requester, block.timestamp, deliveryCounter)
         );
 
         // ✅ Create delivery request with PENDING status
         DeliveryRequest storage delivery = deliveries[requestId];
         delivery.requestId = requestId;
-        delivery.requester = msg.sender;
+        delivery.requester = requester;
         delivery.assignedCourier = address(0);
         delivery.createdAt = block.timestamp;
         delivery.status = DeliveryStatus.PENDING;
 
         // ✅ Store encrypted data (never exposed)
         encryptedRecipients[requestId] = encryptedRecipient;
-        encryptedPickupLocations[requestId] = encryptedPickupLocation;
+        pickupLocations[requestId] = pickup;
+        FHE.allowThis(pickup);
+        FHE.allow(pickup, requester);
         encryptedDeliveryLocations[requestId] = encryptedDeliveryLocation;
 
-        // Track delivery for sender
-        userDeliveries[msg.sender].push(requestId);
+        // Track delivery for requester
+        userDeliveries[requester].push(requestId);
         allDeliveryIds.push(requestId);
 
         // ✅ Emit event (no sensitive data)
-        emit DeliveryRequested(requestId, msg.sender, block.timestamp);
+        emit DeliveryRequested(requestId, requester, block.timestamp);
 
         return requestId;
     }
 
-    /// @notice Accept a delivery based on location preferences
-    /// @dev Contract matches encrypted location without revealing actual coordinates
+    /// @notice Offer to carry a delivery from an encrypted location
+    /// @dev Contract matches encrypted location without revealing actual coordinates.
+    /// The courier must be within MAX_DISTANCE of the pickup and, with a
+    /// ReputationTracker set, meet MIN_COURIER_REPUTATION. The delivery is
+    /// assigned from acceptanceCallback if both hold. One check runs per
+    /// delivery at a time.
     /// @param requestId ID of the delivery request
-    /// @param courierLocation External encrypted courier location
+    /// @param courierLocation External encrypted courier coordinates,
+    /// packed as in PrivacyLayer.encodeLocation
     /// @param locationProof ZK proof for courier location
-    /// @return success True if delivery was accepted
+    /// @return success True once the courier's acceptance check was requested
     function acceptDelivery(
         bytes32 requestId,
-        bytes calldata courierLocation,
+        externalEuint64 courierLocation,
         bytes calldata locationProof
     ) external returns (bool success) {
         // ✅ Verify delivery exists
@@ -118,7 +279,7 @@ contract DeliveryManager is IDeliveryManager {
         }
 
         // ✅ Validate encrypted location proof
-        if (courierLocation.length == 0) {
+        if (locationProof.length == 0) {
             revert Errors.InvalidProof();
         }
 
@@ -127,31 +288,217 @@ contract DeliveryManager is IDeliveryManager {
             revert Errors.UnauthorizedAccess(msg.sender);
         }
 
-        // ✅ Location matching would be done with FHE operations
-        // In production: use FHE.le() on encrypted locations
-        // For this example: accept all valid proofs
-        // This prevents an attacker who doesn't have the proof
-        // from being able to call this function successfully
+        // ✅ Only one courier check in flight per delivery
+        if (acceptancePending[requestId]) {
+            revert Errors.AcceptancePending(requestId);
+        }
+
+        // ✅ Match locations on encrypted coordinates
+        ebool eligible = _withinDistance(
+            pickupLocations[requestId],
+            FHE.fromExternal(courierLocation, locationProof)
+        );
+
+        // ✅ Gate on reputation without revealing score or outcome separately
+        if (address(reputationTracker) != address(0)) {
+            euint32 threshold = FHE.asEuint32(uint32(MIN_COURIER_REPUTATION));
+            FHE.allowTransient(threshold, address(reputationTracker));
+            eligible = FHE.and(
+                eligible,
+                reputationTracker.meetsReputationThreshold(msg.sender, threshold)
+            );
+        }
+
+        _requestAcceptanceCheck(requestId, msg.sender, eligible);
 
+        return true;
+    }
+
+    /// @notice Oracle callback with the outcome of a courier acceptance check
+    /// @dev Assigns the courier if they passed and the delivery is still open
+    function acceptanceCallback(
+        uint256 decryptionRequestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        FHE.checkSignatures(decryptionRequestId, cleartexts, decryptionProof);
+
+        PendingAcceptance memory pending = pendingAcceptances[decryptionRequestId];
+        delete pendingAcceptances[decryptionRequestId];
+        delete acceptancePending[pending.deliveryId];
+
+        bool passed = abi.decode(cleartexts, (bool));
+        DeliveryRequest storage delivery = deliveries[pending.deliveryId];
+        if (passed && delivery.status == DeliveryStatus.PENDING) {
+            _assignCourier(delivery, pending.courier);
+        } else {
+            emit DeliveryAcceptanceRejected(
+                pending.deliveryId,
+                pending.courier,
+                block.timestamp
+            );
+        }
+    }
+
+    /// @notice Check whether a courier check is waiting on the oracle
+    /// @param requestId ID of the delivery request
+    /// @return pending True while a courier's eligibility is being checked
+    function isAcceptancePending(bytes32 requestId)
+        external
+        view
+        returns (bool pending)
+    {
+        return acceptancePending[requestId];
+    }
+
+    /// @notice Check that two encrypted locations are within MAX_DISTANCE
+    /// @dev Compares the squared Euclidean distance between the packed
+    /// coordinates with MAX_DISTANCE squared. Each axis difference is capped
+    /// at MAX_DISTANCE + 1 first, so squaring cannot overflow.
+    function _withinDistance(euint64 a, euint64 b) private returns (ebool) {
+        euint64 cap = FHE.asEuint64(uint64(MAX_DISTANCE + 1));
+        euint64 dLat = FHE.min(
+            _absDiff(FHE.shr(a, uint8(32)), FHE.shr(b, uint8(32))),
+            cap
+        );
+        euint64 dLon = FHE.min(
+            _absDiff(FHE.and(a, LONGITUDE_MASK), FHE.and(b, LONGITUDE_MASK)),
+            cap
+        );
+        euint64 squared = FHE.add(FHE.mul(dLat, dLat), FHE.mul(dLon, dLon));
+        return FHE.le(squared, uint64(MAX_DISTANCE * MAX_DISTANCE));
+    }
+
+    /// @notice Absolute difference of two encrypted values
+    function _absDiff(euint64 x, euint64 y) private returns (euint64) {
+        return FHE.select(FHE.ge(x, y), FHE.sub(x, y), FHE.sub(y, x));
+    }
+
+    /// @notice Send a courier's encrypted eligibility to the oracle
+    function _requestAcceptanceCheck(
+        bytes32 requestId,
+        address courier,
+        ebool eligible
+    ) private {
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(eligible);
+        uint256 decryptionRequestId = FHE.requestDecryption(
+            cts,
+            this.acceptanceCallback.selector
+        );
+        pendingAcceptances[decryptionRequestId] = PendingAcceptance({
+            deliveryId: requestId,
+            courier: courier
+        });
+        acceptancePending[requestId] = true;
+
+        emit DeliveryAcceptanceRequested(requestId, courier, block.timestamp);
+    }
+
+    /// @notice Assign a courier to a pending delivery
+    function _assignCourier(DeliveryRequest storage delivery, address courier) private {
         // ✅ Update delivery
-        delivery.assignedCourier = msg.sender;
+        delivery.assignedCourier = courier;
         delivery.acceptedAt = block.timestamp;
         delivery.status = DeliveryStatus.ACCEPTED;
 
         // Track delivery for courier
-        userDeliveries[msg.sender].push(requestId);
+        userDeliveries[courier].push(delivery.requestId);
+
+        // The courier needs the pickup coordinates to collect the goods
+        FHE.allow(pickupLocations[delivery.requestId], courier);
 
         // ✅ Emit event
-        emit DeliveryAccepted(requestId, msg.sender, block.timestamp);
+        emit DeliveryAccepted(delivery.requestId, courier, block.timestamp);
+    }
 
-        return true;
+    /// @notice Record where a delivery is, moving it into IN_TRANSIT
+    /// @dev Only the assigned courier can record checkpoints, from acceptance
+    /// until completion. The location and condition reading stay encrypted and
+    /// are shared with the requester and the courier.
+    /// @param requestId ID of the delivery request
+    /// @param encryptedLocation External encrypted current coordinates,
+    /// packed as in PrivacyLayer.encodeLocation
+    /// @param encryptedCondition External encrypted condition reading (e.g.
+    /// temperature for chemicals), ignored unless hasCondition is set
+    /// @param hasCondition Whether encryptedCondition carries a reading
+    /// @param inputProof ZK proof covering both inputs
+    /// @return index Index of the new checkpoint
+    function recordCheckpoint(
+        bytes32 requestId,
+        externalEuint64 encryptedLocation,
+        externalEuint32 encryptedCondition,
+        bool hasCondition,
+        bytes calldata inputProof
+    ) external returns (uint256 index) {
+        // ✅ Verify delivery exists
+        DeliveryRequest storage delivery = deliveries[requestId];
+        if (delivery.requester == address(0)) {
+            revert Errors.DeliveryNotFound(requestId);
+        }
+
+        // ✅ Verify caller is assigned courier
+        if (delivery.assignedCourier != msg.sender) {
+            revert Errors.UnauthorizedAccess(msg.sender);
+        }
+
+        // ✅ Verify delivery is accepted or in transit
+        if (
+            delivery.status != DeliveryStatus.ACCEPTED &&
+            delivery.status != DeliveryStatus.IN_TRANSIT
+        ) {
+            revert Errors.InvalidDeliveryStatus();
+        }
+
+        if (inputProof.length == 0) {
+            revert Errors.InvalidProof();
+        }
+
+        Checkpoint[] storage trail = checkpoints[requestId];
+        if (trail.length >= MAX_CHECKPOINTS) {
+            revert Errors.TooManyCheckpoints(requestId);
+        }
+
+        // ✅ Store encrypted checkpoint
+        euint64 location = FHE.fromExternal(encryptedLocation, inputProof);
+        FHE.allowThis(location);
+        FHE.allow(location, delivery.requester);
+        FHE.allow(location, msg.sender);
+
+        euint32 condition;
+        if (hasCondition) {
+            condition = FHE.fromExternal(encryptedCondition, inputProof);
+            FHE.allowThis(condition);
+            FHE.allow(condition, delivery.requester);
+            FHE.allow(condition, msg.sender);
+        }
+
+        index = trail.length;
+        trail.push(
+            Checkpoint({
+                location: location,
+                timestamp: block.timestamp,
+                condition: condition,
+                hasCondition: hasCondition
+            })
+        );
+
+        // ✅ First checkpoint puts the delivery in transit
+        delivery.status = DeliveryStatus.IN_TRANSIT;
+
+        // ✅ Emit event (no sensitive data)
+        emit CheckpointRecorded(requestId, index, block.timestamp);
+
+        return index;
     }
 
-    /// @notice Complete a delivery
-    /// @dev Only assigned courier can complete
+    /// @notice Submit the courier's proof of delivery
+    /// @dev Only assigned courier. The commitment hides the recipient until
+    /// confirmation; resubmitting replaces it and restarts the window.
     /// @param requestId ID of the delivery request
-    /// @return success True if delivery was completed
-    function completeDelivery(bytes32 requestId)
+    /// @param commitment keccak256(abi.encodePacked(requestId, recipient, secret))
+    /// @return success True if the proof was recorded
+    function submitProofOfDelivery(bytes32 requestId, bytes32 commitment)
         external
         returns (bool success)
     {
@@ -174,16 +521,135 @@ contract DeliveryManager is IDeliveryManager {
             revert Errors.InvalidDeliveryStatus();
         }
 
+        if (commitment == bytes32(0)) {
+            revert Errors.InvalidProof();
+        }
+
+        proofsOfDelivery[requestId] = ProofOfDelivery({
+            commitment: commitment,
+            submittedAt: block.timestamp
+        });
+
+        emit ProofOfDeliverySubmitted(
+            requestId,
+            msg.sender,
+            commitment,
+            block.timestamp + CONFIRMATION_WINDOW
+        );
+
+        return true;
+    }
+
+    /// @notice Complete a delivery with the recipient's confirmation
+    /// @dev Anyone may relay the confirmation. The recipient and secret must
+    /// open both the requester's recipient commitment (the buyer stands in
+    /// for it on trade deliveries) and the courier's commitment, and the
+    /// recipient must have signed proofOfDeliveryMessage.
+    /// @param requestId ID of the delivery request
+    /// @param recipient Address of the recipient
+    /// @param secret Secret the recipient handed to the courier
+    /// @param signature Recipient's signature over the proof of delivery
+    /// @return success True if delivery was completed
+    function confirmDelivery(
+        bytes32 requestId,
+        address recipient,
+        bytes32 secret,
+        bytes calldata signature
+    ) external returns (bool success) {
+        // ✅ Verify delivery exists
+        DeliveryRequest storage delivery = deliveries[requestId];
+        if (delivery.requester == address(0)) {
+            revert Errors.DeliveryNotFound(requestId);
+        }
+
+        // ✅ Verify delivery is in transit or accepted
+        if (
+            delivery.status != DeliveryStatus.ACCEPTED &&
+            delivery.status != DeliveryStatus.IN_TRANSIT
+        ) {
+            revert Errors.InvalidDeliveryStatus();
+        }
+
+        // ✅ Verify the courier's proof is present and still open
+        ProofOfDelivery memory proof = proofsOfDelivery[requestId];
+        if (proof.submittedAt == 0) {
+            revert Errors.ProofOfDeliveryMissing(requestId);
+        }
+        if (block.timestamp > proof.submittedAt + CONFIRMATION_WINDOW) {
+            revert Errors.ConfirmationExpired(requestId);
+        }
+
+        // ✅ Verify the committed recipient opens the proof and signed it
+        TradeDelivery memory trade = tradeDeliveries[requestId];
+        if (
+            (
+                trade.orderId != 0
+                    ? recipient != trade.buyer
+                    : keccak256(abi.encodePacked(recipient, secret)) !=
+                        recipientCommitments[requestId]
+            ) ||
+            keccak256(abi.encodePacked(requestId, recipient, secret)) !=
+            proof.commitment ||
+            !PrivacyLayer.verifySignature(
+                proofOfDeliveryMessage(requestId, proof.commitment),
+                signature,
+                recipient
+            )
+        ) {
+            revert Errors.ConfirmationMismatch(requestId);
+        }
+
         // ✅ Update delivery status
+        delete proofsOfDelivery[requestId];
         delivery.status = DeliveryStatus.COMPLETED;
         delivery.completedAt = block.timestamp;
 
         // ✅ Emit event
-        emit DeliveryCompleted(requestId, msg.sender, block.timestamp);
+        emit DeliveryCompleted(
+            requestId,
+            delivery.assignedCourier,
+            block.timestamp
+        );
+
+        // ✅ The buyer's confirmation completes the trade order
+        if (trade.orderId != 0) {
+            IRawMaterialsTrading(trade.trading).onDeliveryCompleted(
+                trade.orderId,
+                requestId
+            );
+        }
 
         return true;
     }
 
+    /// @notice Get the pending proof of delivery
+    /// @param requestId ID of the delivery request
+    /// @return proof Commitment and submission time, zero if none
+    function getProofOfDelivery(bytes32 requestId)
+        external
+        view
+        returns (ProofOfDelivery memory proof)
+    {
+        if (deliveries[requestId].requester == address(0)) {
+            revert Errors.DeliveryNotFound(requestId);
+        }
+        return proofsOfDelivery[requestId];
+    }
+
+    /// @notice Message the recipient signs to confirm a proof of delivery
+    /// @dev Bound to the chain and this contract so it cannot be replayed
+    /// @param requestId ID of the delivery request
+    /// @param commitment Courier's proof of delivery commitment
+    /// @return message Bytes to sign with an EIP-191 personal signature of
+    /// their keccak256 hash
+    function proofOfDeliveryMessage(bytes32 requestId, bytes32 commitment)
+        public
+        view
+        returns (bytes memory message)
+    {
+        return abi.encodePacked(block.chainid, address(this), requestId, commitment);
+    }
+
     /// @notice Cancel a delivery
     /// @dev Only requester can cancel pending deliveries
     /// @param requestId ID of the delivery request
@@ -247,6 +713,44 @@ contract DeliveryManager is IDeliveryManager {
         return d;
     }
 
+    /// @notice Get how many checkpoints a delivery has recorded
+    /// @dev Public, unlike the trail itself: CheckpointRecorded already
+    /// reveals the count
+    /// @param requestId ID of the delivery request
+    /// @return count Number of checkpoints recorded
+    function getCheckpointCount(bytes32 requestId)
+        external
+        view
+        returns (uint256 count)
+    {
+        if (deliveries[requestId].requester == address(0)) {
+            revert Errors.DeliveryNotFound(requestId);
+        }
+        return checkpoints[requestId].length;
+    }
+
+    /// @notice Get the checkpoints of a delivery
+    /// @dev Only the requester and the assigned courier may read the trail
+    /// @param requestId ID of the delivery request
+    /// @return trail Checkpoints in the order they were recorded
+    function getCheckpoints(bytes32 requestId)
+        external
+        view
+        returns (Checkpoint[] memory trail)
+    {
+        DeliveryRequest storage delivery = deliveries[requestId];
+        if (delivery.requester == address(0)) {
+            revert Errors.DeliveryNotFound(requestId);
+        }
+        if (
+            delivery.requester != msg.sender &&
+            delivery.assignedCourier != msg.sender
+        ) {
+            revert Errors.UnauthorizedAccess(msg.sender);
+        }
+        return checkpoints[requestId];
+    }
+
     /// @notice Get total number of deliveries
     /// @return count Total number of delivery requests
     function getDeliveryCount() external view returns (uint256 count) {
@@ -264,6 +768,22 @@ contract DeliveryManager is IDeliveryManager {
         return userDeliveries[user];
     }
 
+    /// @notice Get the trade order a delivery was created for
+    /// @param requestId ID of the delivery request
+    /// @return trading Trading contract of the order, zero if none
+    /// @return orderId ID of the order, zero if none
+    function getTradeOrder(bytes32 requestId)
+        external
+        view
+        returns (address trading, uint256 orderId)
+    {
+        if (deliveries[requestId].requester == address(0)) {
+            revert Errors.DeliveryNotFound(requestId);
+        }
+        TradeDelivery storage trade = tradeDeliveries[requestId];
+        return (trade.trading, trade.orderId);
+    }
+
     /// @notice Get encrypted recipient (only for authorized parties)
     /// @param requestId ID of the delivery request
     /// @return encrypted The encrypted recipient data
@@ -284,18 +804,22 @@ contract DeliveryManager is IDeliveryManager {
     }
 
     /// @notice Get encrypted pickup location
+    /// @dev Decryptable by the requester and the assigned courier
     /// @param requestId ID of the delivery request
-    /// @return encrypted The encrypted pickup location
+    /// @return encrypted The encrypted pickup coordinates
     function getEncryptedPickupLocation(bytes32 requestId)
         external
         view
-        returns (bytes memory encrypted)
+        returns (euint64 encrypted)
     {
         DeliveryRequest storage delivery = deliveries[requestId];
-        if (delivery.assignedCourier != msg.sender) {
+        if (
+            delivery.requester != msg.sender &&
+            delivery.assignedCourier != msg.sender
+        ) {
             revert Errors.UnauthorizedAccess(msg.sender);
         }
-        return encryptedPickupLocations[requestId];
+        return pickupLocations[requestId];
     }
 
     /// @notice Get encrypted delivery location
@@ -1,13 +1,28 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
+import {
+    FHE,
+    ebool,
+    euint16,
+    euint64,
+    euint256,
+    externalEuint16,
+    externalEuint64,
+    externalEuint256
+} from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 import { IPaymentProcessor } from "./interfaces/IPaymentProcessor.sol";
+import { IERC20 } from "./interfaces/IERC20.sol";
+import { IConfidentialToken } from "./interfaces/IConfidentialToken.sol";
+import { IRawMaterialsTrading } from "./interfaces/IRawMaterialsTrading.sol";
+import { IDeliveryManager } from "./interfaces/IDeliveryManager.sol";
 import { Errors } from "./libs/Errors.sol";
 
 /// @title PaymentProcessor Contract
 /// @notice Handles all payment operations with FHE privacy
 /// @dev Payment amounts are encrypted and never exposed in plaintext
-contract PaymentProcessor is IPaymentProcessor {
+contract PaymentProcessor is IPaymentProcessor, SepoliaConfig {
     /// @notice Mapping of payment ID to payment details
     mapping(bytes32 => Payment) private payments;
 
@@ -38,6 +53,61 @@ contract PaymentProcessor is IPaymentProcessor {
     /// @notice Platform balance for collected fees
     uint256 public platformBalance;
 
+    /// @notice Trading contract allowed to release trade payments
+    address public tradingContract;
+
+    /// @notice Mapping of trade order ID to its escrowed payment ID
+    mapping(uint256 => bytes32) private tradePayments;
+
+    /// @notice Whether a payment is settled through the trading contract
+    mapping(bytes32 => bool) private isTradePayment;
+
+    /// @notice Addresses the platform owner has made arbiters
+    mapping(address => bool) public arbiters;
+
+    /// @notice Mapping of payment ID to its dispute
+    mapping(bytes32 => Dispute) private disputes;
+
+    /// @notice Mapping of payment ID to encrypted evidence hashes
+    mapping(bytes32 => euint256[]) private disputeEvidence;
+
+    /// @notice Mapping of decryption request ID to the disputed payment
+    mapping(uint256 => bytes32) private splitRequests;
+
+    /// @notice Basis points denominator for dispute splits
+    uint16 public constant SPLIT_DENOMINATOR = 10000;
+
+    /// @notice Dispute split shares awaiting withdrawal, per account and asset
+    /// (the ERC-20 token, or address(0) for ETH)
+    mapping(address => mapping(address => uint256)) public withdrawable;
+
+    /// @notice Mapping of payment ID to escrowed confidential-token amount
+    mapping(bytes32 => euint64) private confidentialAmounts;
+
+    /// @notice Collected ERC-20 fees per token
+    mapping(address => uint256) public tokenPlatformBalance;
+
+    /// @notice Collected confidential-token fees per token (encrypted)
+    mapping(address => euint64) private confidentialPlatformBalance;
+
+    /// @notice DeliveryManager consulted by time-locked payments
+    address public deliveryManager;
+
+    /// @notice Mapping of payment ID to its escrow time lock
+    mapping(bytes32 => TimeLock) private timeLocks;
+
+    /// @notice Maximum tranches in a milestone payment
+    uint256 public constant MAX_MILESTONES = 10;
+
+    /// @notice Mapping of payment ID to its milestones
+    mapping(bytes32 => Milestone[]) private milestones;
+
+    /// @notice Mapping of payment ID to the encrypted sum of its milestones
+    mapping(bytes32 => euint64) private milestoneTotals;
+
+    /// @notice Mapping of payment ID to the encrypted sum released so far
+    mapping(bytes32 => euint64) private milestoneReleased;
+
     /// @notice Constructor initializes contract
     constructor() {
         paymentCounter = 0;
@@ -52,6 +122,346 @@ contract PaymentProcessor is IPaymentProcessor {
         _;
     }
 
+    /// @notice Modifier to check if caller is the trading contract
+    modifier onlyTradingContract() {
+        if (tradingContract == address(0)) {
+            revert Errors.TradingNotConfigured();
+        }
+        if (msg.sender != tradingContract) {
+            revert Errors.PermissionDenied();
+        }
+        _;
+    }
+
+    /// @notice Modifier to keep trade payments out of payer-driven flows
+    modifier notTradePayment(bytes32 paymentId) {
+        if (isTradePayment[paymentId]) {
+            revert Errors.TradePaymentLocked(paymentId);
+        }
+        _;
+    }
+
+    /// @notice Modifier to check if caller is the arbiter assigned to a dispute
+    modifier onlyAssignedArbiter(bytes32 paymentId) {
+        Dispute storage dispute = disputes[paymentId];
+        if (dispute.openedBy == address(0)) {
+            revert Errors.DisputeNotFound(paymentId);
+        }
+        if (dispute.arbiter != msg.sender || !arbiters[msg.sender]) {
+            revert Errors.NotArbiter(msg.sender);
+        }
+        if (dispute.splitPending) {
+            revert Errors.DisputeResolutionPending(paymentId);
+        }
+        if (payments[paymentId].status != PaymentStatus.DISPUTED) {
+            revert Errors.InvalidPaymentStatus();
+        }
+        _;
+    }
+
+    /// @notice Set the trading contract whose orders can be settled here
+    /// @param trading Address of ConfidentialRawMaterialsTrading
+    function setTradingContract(address trading) external onlyPlatformOwner {
+        if (trading == address(0)) {
+            revert Errors.ZeroAddress();
+        }
+        tradingContract = trading;
+    }
+
+    /// @notice Set the DeliveryManager that time-locked payments check
+    /// @param manager Address of DeliveryManager
+    function setDeliveryManager(address manager) external onlyPlatformOwner {
+        if (manager == address(0)) {
+            revert Errors.ZeroAddress();
+        }
+        deliveryManager = manager;
+    }
+
+    /// @notice Create a confidential-token payment released in milestones
+    /// @dev Pulls the encrypted sum of the tranches. If the sum overflows or
+    /// the payer's balance cannot cover it nothing moves and every tranche is
+    /// zeroed, so the plan always matches what was escrowed. The payment's
+    /// confidential amount tracks the unreleased remainder, which is what a
+    /// refund, dispute or time-lock claim acts on. Each milestone names the
+    /// index of a checkpoint on the DeliveryManager, as returned by
+    /// recordCheckpoint.
+    /// @param deliveryId ID of the associated delivery
+    /// @param payee Address of the courier (payee)
+    /// @param token Confidential token to pay in
+    /// @param trancheAmounts External encrypted amount per milestone
+    /// @param checkpoints Index of the delivery checkpoint each milestone is tied to
+    /// @param amountProof ZK proof covering every tranche amount
+    /// @return paymentId The ID of the created payment
+    function createMilestonePayment(
+        bytes32 deliveryId,
+        address payee,
+        address token,
+        externalEuint64[] calldata trancheAmounts,
+        uint32[] calldata checkpoints,
+        bytes calldata amountProof
+    ) external returns (bytes32 paymentId) {
+        // ✅ Validate inputs
+        if (deliveryManager == address(0)) {
+            revert Errors.DeliveryManagerNotConfigured();
+        }
+        if (payee == address(0) || token == address(0)) {
+            revert Errors.ZeroAddress();
+        }
+        if (payee == msg.sender) {
+            revert Errors.InvalidInput();
+        }
+        uint256 count = trancheAmounts.length;
+        if (count == 0 || count > MAX_MILESTONES || count != checkpoints.length) {
+            revert Errors.InvalidInput();
+        }
+
+        // ✅ Reverts with DeliveryNotFound for an unknown delivery
+        IDeliveryManager(deliveryManager).getDelivery(deliveryId);
+
+        paymentId = _createPayment(
+            deliveryId,
+            payee,
+            0,
+            PaymentAsset.CONFIDENTIAL,
+            token
+        );
+
+        // ✅ Pull the sum of the tranches (all or nothing)
+        (
+            euint64[] memory tranches,
+            euint64 transferred,
+            ebool funded
+        ) = _pullTranches(token, trancheAmounts, amountProof);
+
+        confidentialAmounts[paymentId] = transferred;
+        milestoneTotals[paymentId] = transferred;
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, msg.sender);
+        FHE.allow(transferred, payee);
+
+        _storeMilestones(paymentId, payee, tranches, checkpoints, funded);
+
+        emit MilestonePaymentCreated(paymentId, count);
+
+        return paymentId;
+    }
+
+    /// @notice Release one milestone tranche to the payee
+    /// @dev Only payer, while the payment is escrowed, and only once the
+    /// delivery has recorded the milestone's checkpoint or been completed.
+    /// Milestones can be released in any order; the payment completes with
+    /// the last one.
+    /// @param paymentId ID of the payment
+    /// @param index Index of the milestone
+    function releaseMilestone(bytes32 paymentId, uint256 index) external {
+        Payment storage payment = payments[paymentId];
+        if (payment.payer == address(0)) {
+            revert Errors.PaymentNotFound(paymentId);
+        }
+        if (payment.payer != msg.sender) {
+            revert Errors.UnauthorizedPaymentAccess(msg.sender);
+        }
+        if (payment.status != PaymentStatus.ESCROW) {
+            revert Errors.InvalidPaymentStatus();
+        }
+
+        Milestone[] storage plan = milestones[paymentId];
+        if (plan.length == 0) {
+            revert Errors.NotMilestonePayment(paymentId);
+        }
+        if (index >= plan.length) {
+            revert Errors.InvalidInput();
+        }
+
+        Milestone storage milestone = plan[index];
+        if (milestone.released) {
+            revert Errors.MilestoneAlreadyReleased(paymentId, index);
+        }
+        if (!_checkpointReached(payment.deliveryId, milestone.checkpoint)) {
+            revert Errors.CheckpointNotReached(payment.deliveryId, milestone.checkpoint);
+        }
+
+        milestone.released = true;
+        milestone.releasedAt = block.timestamp;
+
+        // ✅ Update encrypted aggregates
+        euint64 remaining = FHE.sub(confidentialAmounts[paymentId], milestone.amount);
+        euint64 released = FHE.add(milestoneReleased[paymentId], milestone.amount);
+        confidentialAmounts[paymentId] = remaining;
+        milestoneReleased[paymentId] = released;
+
+        FHE.allowThis(remaining);
+        FHE.allow(remaining, payment.payer);
+        FHE.allow(remaining, payment.payee);
+        FHE.allowThis(released);
+        FHE.allow(released, payment.payer);
+        FHE.allow(released, payment.payee);
+
+        // ✅ Pay the tranche minus the platform fee
+        euint64 fee = _confidentialFee(milestone.amount);
+        _collectConfidentialFee(payment.token, fee);
+        _confidentialPayOut(payment.token, payment.payee, FHE.sub(milestone.amount, fee));
+
+        emit MilestoneReleased(paymentId, index, milestone.checkpoint, block.timestamp);
+
+        for (uint256 i = 0; i < plan.length; i++) {
+            if (!plan[i].released) {
+                return;
+            }
+        }
+
+        payment.status = PaymentStatus.COMPLETED;
+        payment.completedAt = block.timestamp;
+
+        emit PaymentCompleted(paymentId, payment.payee, 0, block.timestamp);
+    }
+
+    /// @notice Get the milestones of a payment
+    /// @param paymentId ID of the payment
+    /// @return plan The milestones in order
+    function getMilestones(bytes32 paymentId)
+        external
+        view
+        returns (Milestone[] memory plan)
+    {
+        return milestones[paymentId];
+    }
+
+    /// @notice Get the encrypted aggregates of a milestone payment
+    /// @dev Decryptable by the payer and the payee. `released` is
+    /// uninitialised until the first milestone is paid out.
+    /// @param paymentId ID of the payment
+    /// @return total Sum of all tranches escrowed
+    /// @return released Sum of the tranches released so far
+    /// @return remaining Amount still held in escrow
+    function getMilestoneTotals(bytes32 paymentId)
+        external
+        view
+        returns (euint64 total, euint64 released, euint64 remaining)
+    {
+        if (milestones[paymentId].length == 0) {
+            revert Errors.NotMilestonePayment(paymentId);
+        }
+        return (
+            milestoneTotals[paymentId],
+            milestoneReleased[paymentId],
+            confidentialAmounts[paymentId]
+        );
+    }
+
+    /// @notice Escrow payment for a matched trade order
+    /// @dev Funds go straight to escrow and can only be released by the
+    /// trading contract when the trade is confirmed
+    /// @param orderId ID of the order on the trading contract
+    /// @return paymentId The ID of the created payment
+    function createTradePayment(uint256 orderId)
+        external
+        payable
+        returns (bytes32 paymentId)
+    {
+        if (tradingContract == address(0)) {
+            revert Errors.TradingNotConfigured();
+        }
+        if (tradePayments[orderId] != bytes32(0)) {
+            revert Errors.TradePaymentExists(orderId);
+        }
+        if (msg.value == 0 || msg.value < MINIMUM_PAYMENT) {
+            revert Errors.InvalidPaymentAmount();
+        }
+        if (msg.value > MAXIMUM_PAYMENT) {
+            revert Errors.InvalidPaymentAmount();
+        }
+
+        // ✅ Order must be matched and funded by its buyer
+        (
+            address buyer,
+            ,
+            IRawMaterialsTrading.OrderStatus status,
+            ,
+            ,
+            address supplier,
+
+        ) = IRawMaterialsTrading(tradingContract).getOrderInfo(orderId);
+        if (buyer != msg.sender) {
+            revert Errors.UnauthorizedPaymentAccess(msg.sender);
+        }
+        if (status != IRawMaterialsTrading.OrderStatus.MATCHED) {
+            revert Errors.OrderNotSettleable(orderId);
+        }
+
+        paymentCounter++;
+        paymentId = keccak256(
+            abi.encodePacked(msg.sender, block.timestamp, paymentCounter)
+        );
+
+        Payment storage payment = payments[paymentId];
+        payment.paymentId = paymentId;
+        payment.payer = msg.sender;
+        payment.payee = supplier;
+        payment.amount = msg.value;
+        payment.fee = (msg.value * PLATFORM_FEE_PERCENT) / 100;
+        payment.status = PaymentStatus.ESCROW;
+        payment.createdAt = block.timestamp;
+
+        tradePayments[orderId] = paymentId;
+        isTradePayment[paymentId] = true;
+
+        userPayments[msg.sender].push(paymentId);
+        userPayments[supplier].push(paymentId);
+        allPaymentIds.push(paymentId);
+
+        emit PaymentCreated(paymentId, bytes32(0), msg.sender, supplier, block.timestamp);
+        emit PaymentEscrowed(paymentId, block.timestamp);
+        emit TradePaymentCreated(paymentId, orderId, msg.sender, supplier);
+
+        return paymentId;
+    }
+
+    /// @notice Release a trade payment to the supplier
+    /// @dev Called by the trading contract when a trade completes. Leaves a
+    /// disputed escrow for the arbiter, so the trade can still complete, and
+    /// is a no-op once a dispute settled it.
+    /// @param orderId ID of the confirmed order
+    /// @return success True if payment was released
+    function releaseTradePayment(uint256 orderId)
+        external
+        onlyTradingContract
+        returns (bool success)
+    {
+        bytes32 paymentId = tradePayments[orderId];
+        if (paymentId == bytes32(0)) {
+            revert Errors.PaymentNotFound(paymentId);
+        }
+
+        // An arbiter settled or will settle this escrow; nothing to release
+        Payment storage payment = payments[paymentId];
+        if (
+            disputes[paymentId].outcome != DisputeOutcome.NONE ||
+            payment.status == PaymentStatus.DISPUTED
+        ) {
+            return false;
+        }
+
+        if (payment.status != PaymentStatus.ESCROW) {
+            revert Errors.InvalidPaymentStatus();
+        }
+
+        _release(payment);
+
+        return true;
+    }
+
+    /// @notice Get the payment escrowed for a trade order
+    /// @param orderId ID of the order
+    /// @return paymentId Payment ID, or zero if none
+    function getTradePayment(uint256 orderId)
+        external
+        view
+        returns (bytes32 paymentId)
+    {
+        return tradePayments[orderId];
+    }
+
     /// @notice Create a payment with encrypted amount
     /// @dev Amount is encrypted and remains private
     /// @param deliveryId ID of the associated delivery
@@ -82,33 +492,120 @@ contract PaymentProcessor is IPaymentProcessor {
             revert Errors.InvalidPaymentAmount();
         }
 
-        // Generate unique payment ID
-        paymentCounter++;
-        paymentId = keccak256(
-            abi.encodePacked(msg.sender, block.timestamp, paymentCounter)
+        paymentId = _createPayment(
+            deliveryId,
+            payee,
+            msg.value,
+            PaymentAsset.NATIVE,
+            address(0)
         );
 
-        // ✅ Create payment
-        Payment storage payment = payments[paymentId];
-        payment.paymentId = paymentId;
-        payment.deliveryId = deliveryId;
-        payment.payer = msg.sender;
-        payment.payee = payee;
-        payment.amount = msg.value;
-        payment.fee = (msg.value * PLATFORM_FEE_PERCENT) / 100;
-        payment.status = PaymentStatus.PENDING;
-        payment.createdAt = block.timestamp;
-
         // ✅ Store encrypted amount
         encryptedAmounts[paymentId] = encryptedAmount;
 
-        // Track payment for payer and payee
-        userPayments[msg.sender].push(paymentId);
-        userPayments[payee].push(paymentId);
-        allPaymentIds.push(paymentId);
+        return paymentId;
+    }
 
-        // ✅ Emit event (no amount exposed)
-        emit PaymentCreated(paymentId, deliveryId, msg.sender, payee, block.timestamp);
+    /// @notice Create a payment in an ERC-20 token
+    /// @dev Pulls `amount` from the payer's allowance. The payment records
+    /// what actually arrived, so fee-on-transfer tokens are handled. The
+    /// amount is public like any ERC-20 transfer; use createConfidentialPayment
+    /// to keep it private.
+    /// @param deliveryId ID of the associated delivery
+    /// @param payee Address of the courier (payee)
+    /// @param token ERC-20 token to pay in
+    /// @param amount Token amount to pull from the payer
+    /// @return paymentId The ID of the created payment
+    function createTokenPayment(
+        bytes32 deliveryId,
+        address payee,
+        address token,
+        uint256 amount
+    ) external returns (bytes32 paymentId) {
+        // ✅ Validate inputs
+        if (payee == address(0) || token == address(0)) {
+            revert Errors.ZeroAddress();
+        }
+        if (payee == msg.sender) {
+            revert Errors.InvalidInput();
+        }
+        if (amount == 0) {
+            revert Errors.InvalidPaymentAmount();
+        }
+
+        // ✅ Pull tokens from the payer
+        uint256 balanceBefore = IERC20(token).balanceOf(address(this));
+        if (
+            !_callToken(
+                token,
+                abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), amount))
+            )
+        ) {
+            revert Errors.TokenTransferFailed(token);
+        }
+        uint256 received = IERC20(token).balanceOf(address(this)) - balanceBefore;
+        if (received == 0) {
+            revert Errors.InvalidPaymentAmount();
+        }
+
+        paymentId = _createPayment(
+            deliveryId,
+            payee,
+            received,
+            PaymentAsset.ERC20,
+            token
+        );
+
+        return paymentId;
+    }
+
+    /// @notice Create a payment in a confidential token
+    /// @dev The amount is never decrypted. The payer must have made this
+    /// contract an operator on the token. As with any ERC-7984 transfer, an
+    /// insufficient balance moves zero rather than reverting, and the
+    /// escrowed amount is whatever the token reports as transferred.
+    /// @param deliveryId ID of the associated delivery
+    /// @param payee Address of the courier (payee)
+    /// @param token Confidential token to pay in
+    /// @param encryptedAmount External encrypted token amount
+    /// @param amountProof ZK proof for amount encryption
+    /// @return paymentId The ID of the created payment
+    function createConfidentialPayment(
+        bytes32 deliveryId,
+        address payee,
+        address token,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof
+    ) external returns (bytes32 paymentId) {
+        // ✅ Validate inputs
+        if (payee == address(0) || token == address(0)) {
+            revert Errors.ZeroAddress();
+        }
+        if (payee == msg.sender) {
+            revert Errors.InvalidInput();
+        }
+
+        // ✅ Pull the encrypted amount from the payer
+        euint64 requested = FHE.fromExternal(encryptedAmount, amountProof);
+        FHE.allowTransient(requested, token);
+        euint64 transferred = IConfidentialToken(token).confidentialTransferFrom(
+            msg.sender,
+            address(this),
+            requested
+        );
+
+        paymentId = _createPayment(
+            deliveryId,
+            payee,
+            0,
+            PaymentAsset.CONFIDENTIAL,
+            token
+        );
+
+        confidentialAmounts[paymentId] = transferred;
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, msg.sender);
+        FHE.allow(transferred, payee);
 
         return paymentId;
     }
@@ -152,6 +649,7 @@ contract PaymentProcessor is IPaymentProcessor {
     /// @return success True if payment was completed
     function completePayment(bytes32 paymentId)
         external
+        notTradePayment(paymentId)
         returns (bool success)
     {
         // ✅ Verify payment exists
@@ -170,31 +668,7 @@ contract PaymentProcessor is IPaymentProcessor {
             revert Errors.InvalidPaymentStatus();
         }
 
-        // ✅ Calculate amounts
-        uint256 courierAmount = payment.amount - payment.fee;
-
-        // ✅ Update payment
-        payment.status = PaymentStatus.COMPLETED;
-        payment.completedAt = block.timestamp;
-
-        // ✅ Update platform balance
-        platformBalance += payment.fee;
-
-        // ✅ Transfer to courier
-        (bool courierTransfer, ) = payment.payee.call{value: courierAmount}(
-            ""
-        );
-        if (!courierTransfer) {
-            revert Errors.TransactionFailed();
-        }
-
-        // ✅ Emit event (no sensitive amounts exposed)
-        emit PaymentCompleted(
-            paymentId,
-            payment.payee,
-            courierAmount,
-            block.timestamp
-        );
+        _release(payment);
 
         return true;
     }
@@ -209,7 +683,7 @@ contract PaymentProcessor is IPaymentProcessor {
         bytes32 paymentId,
         bytes calldata encryptedAmount,
         bytes calldata amountProof
-    ) external returns (bool success) {
+    ) external notTradePayment(paymentId) returns (bool success) {
         // ✅ Verify payment exists
         Payment storage payment = payments[paymentId];
         if (payment.payer == address(0)) {
@@ -229,26 +703,401 @@ contract PaymentProcessor is IPaymentProcessor {
             revert Errors.InvalidPaymentStatus();
         }
 
+        // ✅ Time-locked escrow is only returned through reclaimPayment
+        if (
+            payment.status == PaymentStatus.ESCROW &&
+            timeLocks[paymentId].deliveryDeadline != 0
+        ) {
+            revert Errors.TimeLockActive(paymentId);
+        }
+
         // ✅ Validate encrypted amount proof
         if (encryptedAmount.length == 0) {
             revert Errors.InvalidProof();
         }
 
-        // ✅ Update payment
-        payment.status = PaymentStatus.REFUNDED;
+        _refund(payment);
 
-        // ✅ Transfer back to payer (full amount)
-        (bool refundSuccess, ) = msg.sender.call{value: payment.amount}("");
-        if (!refundSuccess) {
-            revert Errors.RefundFailed();
+        return true;
+    }
+
+    /// @notice Attach a delivery deadline and release window to a payment
+    /// @dev Only the payer, while the payment is still pending. Once escrowed,
+    /// the payer can no longer refund at will: the payee may claim after
+    /// the release window following an on-time delivery, and the payer may
+    /// reclaim once the deadline passes without one.
+    /// @param paymentId ID of the payment
+    /// @param deliveryDeadline Timestamp the delivery must be completed by
+    /// @param releaseWindow Seconds the payer has after delivery to release or dispute
+    function setTimeLock(
+        bytes32 paymentId,
+        uint256 deliveryDeadline,
+        uint256 releaseWindow
+    ) external {
+        if (deliveryManager == address(0)) {
+            revert Errors.DeliveryManagerNotConfigured();
         }
 
-        // ✅ Emit event
-        emit PaymentRefunded(paymentId, msg.sender, payment.amount, block.timestamp);
+        Payment storage payment = payments[paymentId];
+        if (payment.payer == address(0)) {
+            revert Errors.PaymentNotFound(paymentId);
+        }
+        if (payment.payer != msg.sender) {
+            revert Errors.UnauthorizedPaymentAccess(msg.sender);
+        }
+        if (payment.status != PaymentStatus.PENDING) {
+            revert Errors.InvalidPaymentStatus();
+        }
+        if (deliveryDeadline <= block.timestamp || releaseWindow == 0) {
+            revert Errors.InvalidInput();
+        }
+
+        // ✅ Reverts with DeliveryNotFound for an unknown delivery
+        IDeliveryManager(deliveryManager).getDelivery(payment.deliveryId);
+
+        timeLocks[paymentId] = TimeLock({
+            deliveryDeadline: deliveryDeadline,
+            releaseWindow: releaseWindow
+        });
+
+        emit TimeLockSet(paymentId, deliveryDeadline, releaseWindow);
+    }
+
+    /// @notice Claim a time-locked payment the payer has not acted on
+    /// @dev Only the payee, once the delivery was completed by the deadline
+    /// and the release window since completion has passed
+    /// @param paymentId ID of the payment
+    /// @return success True if payment was completed
+    function claimPayment(bytes32 paymentId) external returns (bool success) {
+        Payment storage payment = payments[paymentId];
+        if (payment.payer == address(0)) {
+            revert Errors.PaymentNotFound(paymentId);
+        }
+        if (payment.payee != msg.sender) {
+            revert Errors.UnauthorizedPaymentAccess(msg.sender);
+        }
+        if (payment.status != PaymentStatus.ESCROW) {
+            revert Errors.InvalidPaymentStatus();
+        }
+
+        TimeLock storage timeLock = timeLocks[paymentId];
+        if (timeLock.deliveryDeadline == 0) {
+            revert Errors.NoTimeLock(paymentId);
+        }
+
+        uint256 completedAt = _onTimeCompletion(payment.deliveryId, timeLock);
+        if (completedAt == 0) {
+            revert Errors.DeliveryNotCompleted(payment.deliveryId);
+        }
+        if (block.timestamp < completedAt + timeLock.releaseWindow) {
+            revert Errors.TimeLockActive(paymentId);
+        }
+
+        _release(payment);
+
+        return true;
+    }
+
+    /// @notice Reclaim a time-locked payment whose delivery missed its deadline
+    /// @dev Only the payer, once the deadline has passed without an on-time
+    /// confirmDelivery on the DeliveryManager
+    /// @param paymentId ID of the payment
+    /// @return success True if payment was refunded
+    function reclaimPayment(bytes32 paymentId) external returns (bool success) {
+        Payment storage payment = payments[paymentId];
+        if (payment.payer == address(0)) {
+            revert Errors.PaymentNotFound(paymentId);
+        }
+        if (payment.payer != msg.sender) {
+            revert Errors.UnauthorizedPaymentAccess(msg.sender);
+        }
+        if (payment.status != PaymentStatus.ESCROW) {
+            revert Errors.InvalidPaymentStatus();
+        }
+
+        TimeLock storage timeLock = timeLocks[paymentId];
+        if (timeLock.deliveryDeadline == 0) {
+            revert Errors.NoTimeLock(paymentId);
+        }
+        if (block.timestamp <= timeLock.deliveryDeadline) {
+            revert Errors.TimeLockActive(paymentId);
+        }
+        if (_onTimeCompletion(payment.deliveryId, timeLock) != 0) {
+            revert Errors.DeliveryCompleted(payment.deliveryId);
+        }
+
+        _refund(payment);
 
         return true;
     }
 
+    /// @notice Get the time lock of a payment
+    /// @param paymentId ID of the payment
+    /// @return timeLock The time lock terms (zero if none)
+    function getTimeLock(bytes32 paymentId)
+        external
+        view
+        returns (TimeLock memory timeLock)
+    {
+        return timeLocks[paymentId];
+    }
+
+    /// @notice Grant or revoke the arbiter role
+    /// @param arbiter Address to update
+    /// @param enabled Whether the address may resolve disputes
+    function setArbiter(address arbiter, bool enabled) external onlyPlatformOwner {
+        if (arbiter == address(0)) {
+            revert Errors.ZeroAddress();
+        }
+        arbiters[arbiter] = enabled;
+        emit ArbiterUpdated(arbiter, enabled);
+    }
+
+    /// @notice Dispute an escrowed payment
+    /// @dev Freezes the escrow: neither release path works until resolution
+    /// @param paymentId ID of the payment
+    function openDispute(bytes32 paymentId) external {
+        Payment storage payment = payments[paymentId];
+        if (payment.payer == address(0)) {
+            revert Errors.PaymentNotFound(paymentId);
+        }
+        if (msg.sender != payment.payer && msg.sender != payment.payee) {
+            revert Errors.UnauthorizedPaymentAccess(msg.sender);
+        }
+        if (payment.status != PaymentStatus.ESCROW) {
+            revert Errors.InvalidPaymentStatus();
+        }
+
+        payment.status = PaymentStatus.DISPUTED;
+
+        Dispute storage dispute = disputes[paymentId];
+        dispute.paymentId = paymentId;
+        dispute.openedBy = msg.sender;
+        dispute.openedAt = block.timestamp;
+
+        emit DisputeOpened(paymentId, msg.sender, block.timestamp);
+    }
+
+    /// @notice Assign an arbiter to a dispute
+    /// @dev The arbiter gains access to all evidence submitted so far
+    /// @param paymentId ID of the disputed payment
+    /// @param arbiter Address holding the arbiter role
+    function assignArbiter(bytes32 paymentId, address arbiter) external onlyPlatformOwner {
+        Dispute storage dispute = disputes[paymentId];
+        if (dispute.openedBy == address(0)) {
+            revert Errors.DisputeNotFound(paymentId);
+        }
+        if (!arbiters[arbiter]) {
+            revert Errors.NotArbiter(arbiter);
+        }
+        if (payments[paymentId].status != PaymentStatus.DISPUTED) {
+            revert Errors.InvalidPaymentStatus();
+        }
+
+        dispute.arbiter = arbiter;
+
+        euint256[] storage evidence = disputeEvidence[paymentId];
+        for (uint256 i = 0; i < evidence.length; i++) {
+            FHE.allow(evidence[i], arbiter);
+        }
+
+        emit ArbiterAssigned(paymentId, arbiter);
+    }
+
+    /// @notice Submit an encrypted hash of off-chain evidence
+    /// @param paymentId ID of the disputed payment
+    /// @param encryptedHash External encrypted evidence hash
+    /// @param hashProof ZK proof for the hash encryption
+    function submitEvidence(
+        bytes32 paymentId,
+        externalEuint256 encryptedHash,
+        bytes calldata hashProof
+    ) external {
+        Payment storage payment = payments[paymentId];
+        if (payment.status != PaymentStatus.DISPUTED) {
+            revert Errors.InvalidPaymentStatus();
+        }
+        if (msg.sender != payment.payer && msg.sender != payment.payee) {
+            revert Errors.UnauthorizedPaymentAccess(msg.sender);
+        }
+
+        euint256 evidenceHash = FHE.fromExternal(encryptedHash, hashProof);
+        FHE.allowThis(evidenceHash);
+        FHE.allow(evidenceHash, msg.sender);
+
+        Dispute storage dispute = disputes[paymentId];
+        if (dispute.arbiter != address(0)) {
+            FHE.allow(evidenceHash, dispute.arbiter);
+        }
+
+        disputeEvidence[paymentId].push(evidenceHash);
+        dispute.evidenceCount++;
+
+        emit EvidenceSubmitted(paymentId, msg.sender, dispute.evidenceCount - 1);
+    }
+
+    /// @notice Resolve a dispute wholly in favour of one party
+    /// @param paymentId ID of the disputed payment
+    /// @param outcome RELEASED (pay payee minus fee) or REFUNDED (full refund to payer)
+    function resolveDispute(bytes32 paymentId, DisputeOutcome outcome)
+        external
+        onlyAssignedArbiter(paymentId)
+    {
+        Payment storage payment = payments[paymentId];
+
+        if (outcome == DisputeOutcome.RELEASED) {
+            _release(payment);
+        } else if (outcome == DisputeOutcome.REFUNDED) {
+            _refund(payment);
+        } else {
+            revert Errors.InvalidDisputeOutcome();
+        }
+
+        _closeDispute(paymentId, outcome);
+    }
+
+    /// @notice Resolve a dispute with an encrypted split of the escrow
+    /// @dev The payee's share (basis points, capped at 100%) stays encrypted
+    /// until the oracle decrypts it in splitCallback
+    /// @param paymentId ID of the disputed payment
+    /// @param encryptedPayeeShare External encrypted payee share in basis points
+    /// @param shareProof ZK proof for the share encryption
+    function resolveDisputeWithSplit(
+        bytes32 paymentId,
+        externalEuint16 encryptedPayeeShare,
+        bytes calldata shareProof
+    ) external onlyAssignedArbiter(paymentId) {
+        euint16 share = FHE.min(
+            FHE.fromExternal(encryptedPayeeShare, shareProof),
+            SPLIT_DENOMINATOR
+        );
+        FHE.allowThis(share);
+
+        disputes[paymentId].splitPending = true;
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(share);
+        uint256 requestId = FHE.requestDecryption(cts, this.splitCallback.selector);
+        splitRequests[requestId] = paymentId;
+
+        emit DisputeSplitRequested(paymentId, requestId);
+    }
+
+    /// @notice Oracle callback paying out a decrypted dispute split
+    /// @dev The platform fee comes off the top; the rest is divided by share.
+    /// Plaintext shares are credited to withdrawable rather than sent, so a
+    /// party rejecting transfers cannot lock the escrow.
+    /// @param requestId Decryption request being fulfilled
+    /// @param cleartexts ABI-encoded uint16 payee share in basis points
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function splitCallback(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        bytes32 paymentId = splitRequests[requestId];
+        delete splitRequests[requestId];
+
+        Dispute storage dispute = disputes[paymentId];
+        if (!dispute.splitPending) {
+            revert Errors.DisputeNotFound(paymentId);
+        }
+        dispute.splitPending = false;
+
+        uint16 share = abi.decode(cleartexts, (uint16));
+
+        Payment storage payment = payments[paymentId];
+        payment.status = PaymentStatus.COMPLETED;
+        payment.completedAt = block.timestamp;
+
+        // Confidential payments split the encrypted amount; payeeAmount stays 0
+        uint256 payeeAmount;
+        if (payment.asset == PaymentAsset.CONFIDENTIAL) {
+            euint64 amount = confidentialAmounts[paymentId];
+            euint64 fee = _confidentialFee(amount);
+            euint64 distributable = FHE.sub(amount, fee);
+            euint64 payeeShare = FHE.asEuint64(
+                FHE.div(
+                    FHE.mul(FHE.asEuint128(distributable), uint128(share)),
+                    uint128(SPLIT_DENOMINATOR)
+                )
+            );
+
+            _collectConfidentialFee(payment.token, fee);
+            _confidentialPayOut(payment.token, payment.payee, payeeShare);
+            _confidentialPayOut(
+                payment.token,
+                payment.payer,
+                FHE.sub(distributable, payeeShare)
+            );
+        } else {
+            uint256 distributable = payment.amount - payment.fee;
+            payeeAmount = (distributable * share) / SPLIT_DENOMINATOR;
+            uint256 payerAmount = distributable - payeeAmount;
+
+            _collectFee(payment);
+
+            address asset = payment.asset == PaymentAsset.ERC20 ? payment.token : address(0);
+            withdrawable[payment.payee][asset] += payeeAmount;
+            withdrawable[payment.payer][asset] += payerAmount;
+        }
+
+        emit PaymentCompleted(paymentId, payment.payee, payeeAmount, block.timestamp);
+
+        _closeDispute(paymentId, DisputeOutcome.SPLIT);
+    }
+
+    /// @notice Withdraw the caller's credited dispute split shares
+    /// @param token ERC-20 token to withdraw, or address(0) for ETH
+    function withdraw(address token) external {
+        uint256 amount = withdrawable[msg.sender][token];
+        if (amount == 0) {
+            revert Errors.InsufficientFunds();
+        }
+
+        withdrawable[msg.sender][token] = 0;
+
+        if (token == address(0)) {
+            (bool success, ) = msg.sender.call{value: amount}("");
+            if (!success) {
+                revert Errors.TransactionFailed();
+            }
+        } else if (!_callToken(token, abi.encodeCall(IERC20.transfer, (msg.sender, amount)))) {
+            revert Errors.TokenTransferFailed(token);
+        }
+
+        emit Withdrawn(msg.sender, token, amount);
+    }
+
+    /// @notice Get dispute details
+    /// @param paymentId ID of the disputed payment
+    /// @return dispute The dispute details
+    function getDispute(bytes32 paymentId)
+        external
+        view
+        returns (Dispute memory dispute)
+    {
+        dispute = disputes[paymentId];
+        if (dispute.openedBy == address(0)) {
+            revert Errors.DisputeNotFound(paymentId);
+        }
+    }
+
+    /// @notice Get an encrypted evidence hash
+    /// @dev Decryptable by its submitter and the assigned arbiter
+    /// @param paymentId ID of the disputed payment
+    /// @param index Evidence index
+    /// @return evidenceHash The encrypted hash
+    function getEvidence(bytes32 paymentId, uint256 index)
+        external
+        view
+        returns (euint256 evidenceHash)
+    {
+        return disputeEvidence[paymentId][index];
+    }
+
     /// @notice Get payment status
     /// @param paymentId ID of the payment
     /// @return status Current status of the payment
@@ -321,6 +1170,46 @@ contract PaymentProcessor is IPaymentProcessor {
         }
     }
 
+    /// @notice Withdraw collected ERC-20 fees (only owner)
+    /// @param token Token the fees were paid in
+    /// @param amount Amount to withdraw
+    function withdrawTokenFees(address token, uint256 amount) external onlyPlatformOwner {
+        if (amount > tokenPlatformBalance[token]) {
+            revert Errors.InsufficientFunds();
+        }
+
+        tokenPlatformBalance[token] -= amount;
+
+        if (!_callToken(token, abi.encodeCall(IERC20.transfer, (msg.sender, amount)))) {
+            revert Errors.TokenTransferFailed(token);
+        }
+    }
+
+    /// @notice Withdraw all collected confidential-token fees (only owner)
+    /// @param token Confidential token the fees were paid in
+    function withdrawConfidentialFees(address token) external onlyPlatformOwner {
+        euint64 balance = confidentialPlatformBalance[token];
+        if (!FHE.isInitialized(balance)) {
+            revert Errors.InsufficientFunds();
+        }
+
+        confidentialPlatformBalance[token] = euint64.wrap(bytes32(0));
+
+        _confidentialPayOut(token, msg.sender, balance);
+    }
+
+    /// @notice Get collected confidential-token fees
+    /// @dev Decryptable by the platform owner
+    /// @param token Confidential token the fees were paid in
+    /// @return balance The encrypted fee balance
+    function getConfidentialPlatformBalance(address token)
+        external
+        view
+        returns (euint64 balance)
+    {
+        return confidentialPlatformBalance[token];
+    }
+
     /// @notice Get encrypted amount for a payment
     /// @param paymentId ID of the payment
     /// @return encrypted The encrypted amount
@@ -340,6 +1229,302 @@ contract PaymentProcessor is IPaymentProcessor {
         return encryptedAmounts[paymentId];
     }
 
+    /// @notice Get the escrowed amount of a confidential-token payment
+    /// @dev Decryptable by the payer and the payee
+    /// @param paymentId ID of the payment
+    /// @return amount The encrypted token amount
+    function getConfidentialAmount(bytes32 paymentId)
+        external
+        view
+        returns (euint64 amount)
+    {
+        Payment storage payment = payments[paymentId];
+        if (payment.payer == address(0)) {
+            revert Errors.PaymentNotFound(paymentId);
+        }
+        return confidentialAmounts[paymentId];
+    }
+
+    /// @notice Record a new pending payment from the caller
+    /// @param deliveryId ID of the associated delivery
+    /// @param payee Address of the payee
+    /// @param amount Plaintext amount held (zero for confidential payments)
+    /// @param asset What the payment is denominated in
+    /// @param token Token address, or zero for native ETH
+    /// @return paymentId The ID of the created payment
+    function _createPayment(
+        bytes32 deliveryId,
+        address payee,
+        uint256 amount,
+        PaymentAsset asset,
+        address token
+    ) private returns (bytes32 paymentId) {
+        // Generate unique payment ID
+        paymentCounter++;
+        paymentId = keccak256(
+            abi.encodePacked(msg.sender, block.timestamp, paymentCounter)
+        );
+
+        // ✅ Create payment
+        Payment storage payment = payments[paymentId];
+        payment.paymentId = paymentId;
+        payment.deliveryId = deliveryId;
+        payment.payer = msg.sender;
+        payment.payee = payee;
+        payment.amount = amount;
+        payment.fee = (amount * PLATFORM_FEE_PERCENT) / 100;
+        payment.status = PaymentStatus.PENDING;
+        payment.createdAt = block.timestamp;
+        payment.asset = asset;
+        payment.token = token;
+
+        // Track payment for payer and payee
+        userPayments[msg.sender].push(paymentId);
+        userPayments[payee].push(paymentId);
+        allPaymentIds.push(paymentId);
+
+        // ✅ Emit event (no amount exposed)
+        emit PaymentCreated(paymentId, deliveryId, msg.sender, payee, block.timestamp);
+    }
+
+    /// @notice Pull the encrypted sum of milestone tranches from the caller
+    /// @dev Nothing moves if the sum wraps around or the balance cannot cover it
+    /// @param token Confidential token to pay in
+    /// @param trancheAmounts External encrypted amount per milestone
+    /// @param amountProof ZK proof covering every tranche amount
+    /// @return tranches The imported tranche amounts
+    /// @return transferred Encrypted amount actually escrowed
+    /// @return funded Whether the full sum was escrowed
+    function _pullTranches(
+        address token,
+        externalEuint64[] calldata trancheAmounts,
+        bytes calldata amountProof
+    ) private returns (euint64[] memory tranches, euint64 transferred, ebool funded) {
+        // ✅ Sum the tranches, watching for wrap-around
+        tranches = new euint64[](trancheAmounts.length);
+        euint64 total = FHE.asEuint64(0);
+        ebool valid = FHE.asEbool(true);
+        for (uint256 i = 0; i < trancheAmounts.length; i++) {
+            tranches[i] = FHE.fromExternal(trancheAmounts[i], amountProof);
+            euint64 sum = FHE.add(total, tranches[i]);
+            valid = FHE.and(valid, FHE.ge(sum, total));
+            total = sum;
+        }
+
+        euint64 requested = FHE.select(valid, total, FHE.asEuint64(0));
+        FHE.allowTransient(requested, token);
+        transferred = IConfidentialToken(token).confidentialTransferFrom(
+            msg.sender,
+            address(this),
+            requested
+        );
+        funded = FHE.and(valid, FHE.eq(transferred, total));
+    }
+
+    /// @notice Store the milestone plan of a payment
+    /// @dev Every tranche is zeroed unless `funded`, so the plan always
+    /// matches what was escrowed
+    /// @param paymentId ID of the payment
+    /// @param payee Address of the payee
+    /// @param tranches Encrypted amount per milestone
+    /// @param checkpoints Delivery checkpoint each milestone is tied to
+    /// @param funded Whether the full total was escrowed
+    function _storeMilestones(
+        bytes32 paymentId,
+        address payee,
+        euint64[] memory tranches,
+        uint32[] calldata checkpoints,
+        ebool funded
+    ) private {
+        Milestone[] storage plan = milestones[paymentId];
+        for (uint256 i = 0; i < tranches.length; i++) {
+            euint64 amount = FHE.select(funded, tranches[i], FHE.asEuint64(0));
+            plan.push(
+                Milestone({
+                    checkpoint: checkpoints[i],
+                    amount: amount,
+                    released: false,
+                    releasedAt: 0
+                })
+            );
+
+            FHE.allowThis(amount);
+            FHE.allow(amount, msg.sender);
+            FHE.allow(amount, payee);
+        }
+    }
+
+    /// @notice Record the outcome of a dispute
+    /// @param paymentId ID of the disputed payment
+    /// @param outcome How the dispute was resolved
+    function _closeDispute(bytes32 paymentId, DisputeOutcome outcome) private {
+        Dispute storage dispute = disputes[paymentId];
+        dispute.outcome = outcome;
+        dispute.resolvedAt = block.timestamp;
+
+        emit DisputeResolved(paymentId, dispute.arbiter, outcome, block.timestamp);
+    }
+
+    /// @notice Pay out an escrowed payment minus the platform fee
+    /// @param payment Payment to complete
+    /// @dev Confidential payments report a zero amount in PaymentCompleted
+    function _release(Payment storage payment) private {
+        // ✅ Update payment
+        payment.status = PaymentStatus.COMPLETED;
+        payment.completedAt = block.timestamp;
+
+        uint256 payeeAmount;
+        if (payment.asset == PaymentAsset.CONFIDENTIAL) {
+            euint64 amount = confidentialAmounts[payment.paymentId];
+            euint64 fee = _confidentialFee(amount);
+
+            _collectConfidentialFee(payment.token, fee);
+            _confidentialPayOut(payment.token, payment.payee, FHE.sub(amount, fee));
+        } else {
+            // ✅ Calculate amounts
+            payeeAmount = payment.amount - payment.fee;
+
+            // ✅ Update platform balance
+            _collectFee(payment);
+
+            // ✅ Transfer to payee
+            if (!_payOut(payment, payment.payee, payeeAmount)) {
+                revert Errors.TransactionFailed();
+            }
+        }
+
+        // ✅ Emit event (no sensitive amounts exposed)
+        emit PaymentCompleted(
+            payment.paymentId,
+            payment.payee,
+            payeeAmount,
+            block.timestamp
+        );
+    }
+
+    /// @notice Whether a delivery has recorded a checkpoint or been completed
+    /// @param deliveryId ID of the delivery on the DeliveryManager
+    /// @param checkpoint Index of the checkpoint
+    /// @return reached True once the checkpoint is recorded or the delivery completed
+    function _checkpointReached(bytes32 deliveryId, uint32 checkpoint)
+        private
+        view
+        returns (bool reached)
+    {
+        IDeliveryManager manager = IDeliveryManager(deliveryManager);
+        if (manager.getCheckpointCount(deliveryId) > checkpoint) {
+            return true;
+        }
+        return manager.getDelivery(deliveryId).status == IDeliveryManager.DeliveryStatus.COMPLETED;
+    }
+
+    /// @notice When a delivery was completed, if it was by the deadline
+    /// @param deliveryId ID of the delivery on the DeliveryManager
+    /// @param timeLock Time lock holding the deadline
+    /// @return completedAt Completion timestamp, or zero if not completed on time
+    function _onTimeCompletion(bytes32 deliveryId, TimeLock storage timeLock)
+        private
+        view
+        returns (uint256 completedAt)
+    {
+        IDeliveryManager.DeliveryRequest memory delivery =
+            IDeliveryManager(deliveryManager).getDelivery(deliveryId);
+
+        if (
+            delivery.status == IDeliveryManager.DeliveryStatus.COMPLETED &&
+            delivery.completedAt <= timeLock.deliveryDeadline
+        ) {
+            return delivery.completedAt;
+        }
+        return 0;
+    }
+
+    /// @notice Return the full escrowed amount to the payer
+    /// @param payment Payment to refund
+    function _refund(Payment storage payment) private {
+        payment.status = PaymentStatus.REFUNDED;
+
+        if (payment.asset == PaymentAsset.CONFIDENTIAL) {
+            _confidentialPayOut(
+                payment.token,
+                payment.payer,
+                confidentialAmounts[payment.paymentId]
+            );
+        } else if (!_payOut(payment, payment.payer, payment.amount)) {
+            revert Errors.RefundFailed();
+        }
+
+        emit PaymentRefunded(payment.paymentId, payment.payer, payment.amount, block.timestamp);
+    }
+
+    /// @notice Credit a plaintext payment's fee to the matching platform balance
+    /// @param payment Payment being completed
+    function _collectFee(Payment storage payment) private {
+        if (payment.asset == PaymentAsset.ERC20) {
+            tokenPlatformBalance[payment.token] += payment.fee;
+        } else {
+            platformBalance += payment.fee;
+        }
+    }
+
+    /// @notice Send ETH or ERC-20 tokens held for a payment
+    /// @param payment Payment the funds belong to
+    /// @param to Recipient
+    /// @param amount Amount to send
+    /// @return success True if the transfer went through
+    function _payOut(Payment storage payment, address to, uint256 amount) private returns (bool success) {
+        if (payment.asset == PaymentAsset.ERC20) {
+            return _callToken(payment.token, abi.encodeCall(IERC20.transfer, (to, amount)));
+        }
+        (success, ) = to.call{value: amount}("");
+    }
+
+    /// @notice Call an ERC-20 token, accepting tokens that return no value
+    /// @param token Token to call
+    /// @param data Encoded transfer or transferFrom call
+    /// @return success True if the call succeeded and did not return false
+    function _callToken(address token, bytes memory data) private returns (bool success) {
+        if (token.code.length == 0) {
+            return false;
+        }
+        bytes memory result;
+        (success, result) = token.call(data);
+        return success && (result.length == 0 || abi.decode(result, (bool)));
+    }
+
+    /// @notice Platform fee on an encrypted amount
+    /// @dev Widened to 128 bits so the multiplication cannot wrap
+    /// @param amount Encrypted payment amount
+    /// @return fee Encrypted fee
+    function _confidentialFee(euint64 amount) private returns (euint64 fee) {
+        return FHE.asEuint64(
+            FHE.div(
+                FHE.mul(FHE.asEuint128(amount), uint128(PLATFORM_FEE_PERCENT)),
+                100
+            )
+        );
+    }
+
+    /// @notice Add an encrypted fee to a confidential token's platform balance
+    /// @param token Confidential token the fee is in
+    /// @param fee Encrypted fee
+    function _collectConfidentialFee(address token, euint64 fee) private {
+        euint64 balance = FHE.add(confidentialPlatformBalance[token], fee);
+        confidentialPlatformBalance[token] = balance;
+
+        FHE.allowThis(balance);
+        FHE.allow(balance, platformOwner);
+    }
+
+    /// @notice Send an encrypted amount of a confidential token held here
+    /// @param token Confidential token to send
+    /// @param to Recipient
+    /// @param amount Encrypted amount
+    function _confidentialPayOut(address token, address to, euint64 amount) private {
+        FHE.allowTransient(amount, token);
+        IConfidentialToken(token).confidentialTransfer(to, amount);
+    }
+
     /// @notice Receive function to accept ETH
     receive() external payable {}
 }
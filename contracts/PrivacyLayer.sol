@@ -11,11 +11,11 @@ library PrivacyLayer {
     /// @dev In full FHE: uses FHE.eq() for encrypted comparison
     /// @param address1 First address to compare
     /// @param address2 Second address to compare
-    /// @return match True if addresses are equal
+    /// @return matched True if addresses are equal
     function addressesMatch(uint64 address1, uint64 address2)
         internal
         pure
-        returns (bool match)
+        returns (bool matched)
     {
         // ✅ Simulates encrypted address comparison
         // In production: use FHE operations
@@ -136,30 +136,50 @@ library PrivacyLayer {
         return uint64(uint256(keccak256(abi.encodePacked(location))));
     }
 
-    /// @notice Verify signatures for multi-party computation
-    /// @dev In production: implement secure multi-sig verification
+    /// @notice Verify an ECDSA signature over data
+    /// @dev The signer signs keccak256(data) as an EIP-191 personal message,
+    /// as ethers' signMessage does. High-s signatures are rejected.
     /// @param data Data being signed
-    /// @param signature Signature to verify
+    /// @param signature 65-byte r, s, v signature to verify
     /// @param signer Expected signer address
-    /// @return valid True if signature is valid
+    /// @return valid True if signer signed data
     function verifySignature(
         bytes memory data,
         bytes memory signature,
         address signer
     ) internal pure returns (bool valid) {
-        // ✅ Placeholder for signature verification
-        // In production: implement ECDSA verification
-        // or BLS signature scheme for privacy
-
-        // This would use the signer's public key to verify
-        // the signature over the data
-
-        // For now: return true (should be implemented properly)
         require(signer != address(0), "Invalid signer");
         require(data.length > 0, "Invalid data");
         require(signature.length == 65, "Invalid signature");
 
-        return true;
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := mload(add(signature, 0x20))
+            s := mload(add(signature, 0x40))
+            v := byte(0, mload(add(signature, 0x60)))
+        }
+        if (v < 27) {
+            v += 27;
+        }
+
+        // ✅ Reject malleable signatures (s in the upper half of the curve order)
+        if (
+            uint256(s) >
+            0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0
+        ) {
+            return false;
+        }
+
+        bytes32 digest = keccak256(
+            abi.encodePacked(
+                "\x19Ethereum Signed Message:\n32",
+                keccak256(data)
+            )
+        );
+        address recovered = ecrecover(digest, v, r, s);
+        return recovered != address(0) && recovered == signer;
     }
 
     /// @notice Encode location pair for distance calculation
@@ -308,6 +328,15 @@ contract PrivacyLayerContract {
         return PrivacyLayer.decodeLocation(encoded);
     }
 
+    /// @notice Verify an ECDSA signature over data
+    function verifySignature(
+        bytes memory data,
+        bytes memory signature,
+        address signer
+    ) external pure returns (bool) {
+        return PrivacyLayer.verifySignature(data, signature, signer);
+    }
+
     /// @notice Create deterministic ID
     function createDeterministicId(address component1, bytes32 component2)
         external
@@ -1,12 +1,25 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
+import { FHE, ebool, euint8, euint32, euint64, externalEuint8, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IDeliveryManager } from "./interfaces/IDeliveryManager.sol";
+import { IRawMaterialsTrading } from "./interfaces/IRawMaterialsTrading.sol";
+import { IReputationTracker } from "./interfaces/IReputationTracker.sol";
 import { Errors } from "./libs/Errors.sol";
 
 /// @title ReputationTracker Contract
 /// @notice Manages anonymous reputation system with FHE privacy
-/// @dev Ratings are stored encrypted, reputation scores calculated on encrypted data
-contract ReputationTracker {
+/// @dev Ratings are stored encrypted, reputation scores calculated on encrypted data.
+/// Only the rating count is public; scores and totals never leave ciphertext.
+/// Ratings are limited to the two parties of a completed delivery or trade,
+/// one rating per side. Reputation thresholds are minimum average ratings
+/// scaled by REPUTATION_SCALE, and only DeliveryManager and the trading
+/// contract may compare against them, since the caller can decrypt every
+/// outcome. Besides the plain average, getWeightedRating scores a
+/// participant with exponential time decay and rater weighting; sdk/reputation.ts
+/// replays the same model from RatingSubmitted events.
+contract ReputationTracker is IReputationTracker, SepoliaConfig {
     /// @notice Rating event
     event RatingSubmitted(
         bytes32 indexed deliveryId,
@@ -18,7 +31,7 @@ contract ReputationTracker {
     /// @notice Reputation structure
     struct ReputationRecord {
         address participant;
-        uint256 totalRating;
+        euint32 encryptedTotal;
         uint256 ratingCount;
         uint256 lastUpdated;
     }
@@ -28,18 +41,25 @@ contract ReputationTracker {
         bytes32 deliveryId;
         address rater;
         address ratedParticipant;
-        uint8 score; // 1-5 scale
+        euint8 encryptedScore; // 1-5 scale
         uint256 timestamp;
+        euint8 raterWeight; // Rater's own average when rating, 1-5
     }
 
     /// @notice Mapping of participant to reputation record
     mapping(address => ReputationRecord) private reputations;
 
-    /// @notice Mapping of delivery ID to rating
+    /// @notice Mapping of rating key (subject ID and rater) to rating
     mapping(bytes32 => Rating) private ratings;
 
-    /// @notice Mapping of delivery ID to encrypted rating
-    mapping(bytes32 => bytes) private encryptedRatings;
+    /// @notice DeliveryManager whose completed deliveries can be rated
+    IDeliveryManager public immutable deliveryManager;
+
+    /// @notice Trading contract whose completed trades can be rated (optional)
+    IRawMaterialsTrading public immutable tradingContract;
+
+    /// @notice Rating keys each participant has received, oldest first
+    mapping(address => bytes32[]) private receivedRatings;
 
     /// @notice Array of all participants
     address[] private participants;
@@ -53,16 +73,40 @@ contract ReputationTracker {
     /// @notice Maximum rating score
     uint8 public constant MAX_RATING = 5;
 
+    /// @notice Fixed-point scale of reputation thresholds (an average of 3.5 is 35)
+    uint32 public constant REPUTATION_SCALE = 10;
+
+    /// @notice Weight of a rater who has not been rated yet
+    uint8 public constant DEFAULT_RATER_WEIGHT = 3;
+
+    /// @notice Age at which a rating counts half as much
+    uint256 public constant DECAY_HALF_LIFE = 180 days;
+
+    /// @notice Fixed-point scale of decayFactor (1.0 = DECAY_PRECISION)
+    uint64 public constant DECAY_PRECISION = 1_000_000;
+
+    /// @notice Most recent ratings considered by getWeightedRating
+    uint256 public constant MAX_WEIGHTED_RATINGS = 50;
+
     /// @notice Constructor initializes contract
-    constructor() {
+    /// @param _deliveryManager DeliveryManager consulted for delivery ratings
+    /// @param _tradingContract Trading contract consulted for trade ratings,
+    /// or zero to disable trade ratings
+    constructor(address _deliveryManager, address _tradingContract) {
+        if (_deliveryManager == address(0)) {
+            revert Errors.ZeroAddress();
+        }
+        deliveryManager = IDeliveryManager(_deliveryManager);
+        tradingContract = IRawMaterialsTrading(_tradingContract);
         ratingCounter = 0;
     }
 
-    /// @notice Submit a rating for a delivery participant
-    /// @dev Rating is encrypted to maintain privacy
+    /// @notice Submit a rating for the other party of a completed delivery
+    /// @dev Rating is encrypted to maintain privacy. Only the requester or the
+    /// assigned courier may rate, each the other, once.
     /// @param deliveryId ID of the delivery being rated
-    /// @param ratedParticipant Address of the participant being rated
-    /// @param encryptedScore External encrypted rating score (1-5)
+    /// @param ratedParticipant Address of the counterparty being rated
+    /// @param encryptedScore External encrypted rating score, clamped to 1-5
     /// @param scoreProof ZK proof for score encryption
     /// @param encryptedComment External encrypted comment (optional)
     /// @param commentProof ZK proof for comment encryption
@@ -70,7 +114,7 @@ contract ReputationTracker {
     function submitRating(
         bytes32 deliveryId,
         address ratedParticipant,
-        bytes calldata encryptedScore,
+        externalEuint8 encryptedScore,
         bytes calldata scoreProof,
         bytes calldata encryptedComment,
         bytes calldata commentProof
@@ -82,7 +126,7 @@ contract ReputationTracker {
         if (ratedParticipant == msg.sender) {
             revert Errors.InvalidInput(); // Cannot rate yourself
         }
-        if (encryptedScore.length == 0) {
+        if (scoreProof.length == 0) {
             revert Errors.InvalidProof();
         }
 
@@ -91,24 +135,122 @@ contract ReputationTracker {
             revert Errors.InvalidInput();
         }
 
-        // ✅ Check if rating already exists for this delivery
-        if (ratings[deliveryId].rater != address(0)) {
-            revert Errors.DuplicateRating(deliveryId);
+        // ✅ Only the two parties of a completed delivery may rate each other
+        IDeliveryManager.DeliveryRequest memory delivery = deliveryManager.getDelivery(deliveryId);
+        if (delivery.status != IDeliveryManager.DeliveryStatus.COMPLETED) {
+            revert Errors.InvalidDeliveryStatus();
+        }
+        _checkCounterparties(
+            delivery.requester,
+            delivery.assignedCourier,
+            ratedParticipant
+        );
+
+        _recordRating(deliveryId, ratedParticipant, encryptedScore, scoreProof);
+
+        return true;
+    }
+
+    /// @notice Submit a rating for the other party of a completed trade
+    /// @dev Only the buyer or the matched supplier may rate, each the other,
+    /// once. The rating is stored under tradeRatingId(orderId).
+    /// @param orderId ID of the order on the trading contract
+    /// @param ratedParticipant Address of the counterparty being rated
+    /// @param encryptedScore External encrypted rating score, clamped to 1-5
+    /// @param scoreProof ZK proof for score encryption
+    /// @return success True if rating was submitted
+    function submitTradeRating(
+        uint256 orderId,
+        address ratedParticipant,
+        externalEuint8 encryptedScore,
+        bytes calldata scoreProof
+    ) external returns (bool success) {
+        if (address(tradingContract) == address(0)) {
+            revert Errors.TradingNotConfigured();
+        }
+        if (ratedParticipant == address(0)) {
+            revert Errors.ZeroAddress();
+        }
+        if (ratedParticipant == msg.sender) {
+            revert Errors.InvalidInput(); // Cannot rate yourself
+        }
+        if (scoreProof.length == 0) {
+            revert Errors.InvalidProof();
+        }
+
+        (
+            address buyer,
+            ,
+            IRawMaterialsTrading.OrderStatus status,
+            ,
+            ,
+            address supplier,
+
+        ) = tradingContract.getOrderInfo(orderId);
+        if (status != IRawMaterialsTrading.OrderStatus.COMPLETED) {
+            revert Errors.TradeNotCompleted(orderId);
+        }
+        _checkCounterparties(buyer, supplier, ratedParticipant);
+
+        _recordRating(
+            tradeRatingId(orderId),
+            ratedParticipant,
+            encryptedScore,
+            scoreProof
+        );
+
+        return true;
+    }
+
+    /// @notice Subject ID that trade ratings are stored under
+    /// @param orderId ID of the order on the trading contract
+    /// @return subjectId ID to pass to getRating and getEncryptedRating
+    function tradeRatingId(uint256 orderId) public view returns (bytes32 subjectId) {
+        return keccak256(abi.encodePacked(address(tradingContract), orderId));
+    }
+
+    /// @notice Store a rating by the caller and add it to the rated total
+    /// @param subjectId Delivery ID or trade rating ID
+    /// @param ratedParticipant Address of the participant being rated
+    /// @param encryptedScore External encrypted rating score
+    /// @param scoreProof ZK proof for score encryption
+    function _recordRating(
+        bytes32 subjectId,
+        address ratedParticipant,
+        externalEuint8 encryptedScore,
+        bytes calldata scoreProof
+    ) private {
+        // ✅ One rating per side
+        bytes32 key = _ratingKey(subjectId, msg.sender);
+        if (ratings[key].rater != address(0)) {
+            revert Errors.DuplicateRating(subjectId);
         }
 
-        // ✅ Create rating (score validated in real scenario with FHE)
-        // In production: use FHE.ge(score, MIN_RATING) and FHE.le(score, MAX_RATING)
-        // For this implementation: trust the proof validates the score range
+        // ✅ Clamp the score into MIN_RATING..MAX_RATING without decrypting it
+        euint8 score = FHE.min(
+            FHE.max(FHE.fromExternal(encryptedScore, scoreProof), MIN_RATING),
+            MAX_RATING
+        );
+
+        // ✅ Fix the rater's weight at their current average
+        ReputationRecord storage raterReputation = reputations[msg.sender];
+        euint8 raterWeight = raterReputation.participant == address(0)
+            ? FHE.asEuint8(DEFAULT_RATER_WEIGHT)
+            : _averageOf(raterReputation);
+        FHE.allowThis(raterWeight);
 
-        Rating storage rating = ratings[deliveryId];
-        rating.deliveryId = deliveryId;
+        Rating storage rating = ratings[key];
+        rating.deliveryId = subjectId;
         rating.rater = msg.sender;
         rating.ratedParticipant = ratedParticipant;
-        rating.score = 3; // Default for demonstration (would be decrypted in production)
+        rating.encryptedScore = score;
         rating.timestamp = block.timestamp;
+        rating.raterWeight = raterWeight;
+        receivedRatings[ratedParticipant].push(key);
 
-        // ✅ Store encrypted rating
-        encryptedRatings[deliveryId] = encryptedScore;
+        // Only the rater can read back an individual score
+        FHE.allowThis(score);
+        FHE.allow(score, msg.sender);
 
         // ✅ Update reputation record
         ReputationRecord storage reputation = reputations[ratedParticipant];
@@ -119,87 +261,180 @@ contract ReputationTracker {
             participants.push(ratedParticipant);
         }
 
-        // ✅ Add rating to total (in production: FHE.add)
-        reputation.totalRating += rating.score;
+        // ✅ Add rating to the encrypted total
+        reputation.encryptedTotal = FHE.add(
+            reputation.encryptedTotal,
+            FHE.asEuint32(score)
+        );
         reputation.ratingCount += 1;
         reputation.lastUpdated = block.timestamp;
 
+        // The participant can read their own total
+        FHE.allowThis(reputation.encryptedTotal);
+        FHE.allow(reputation.encryptedTotal, ratedParticipant);
+
         // ✅ Emit event
         emit RatingSubmitted(
-            deliveryId,
+            subjectId,
             ratedParticipant,
             msg.sender,
             block.timestamp
         );
 
         ratingCounter++;
+    }
 
-        return true;
+    /// @notice Require the caller and the rated participant to be the two parties
+    /// @param partyA One party of the delivery or trade
+    /// @param partyB The other party
+    /// @param ratedParticipant Address being rated
+    function _checkCounterparties(
+        address partyA,
+        address partyB,
+        address ratedParticipant
+    ) private view {
+        if (msg.sender != partyA && msg.sender != partyB) {
+            revert Errors.UnauthorizedRatingAccess();
+        }
+        address counterparty = msg.sender == partyA ? partyB : partyA;
+        if (ratedParticipant != counterparty) {
+            revert Errors.InvalidInput();
+        }
+    }
+
+    /// @notice Storage key of the rating a rater gave on a subject
+    function _ratingKey(bytes32 subjectId, address rater) private pure returns (bytes32) {
+        return keccak256(abi.encodePacked(subjectId, rater));
     }
 
     /// @notice Get reputation score for a participant
-    /// @dev Returns total reputation points (encrypted in full FHE implementation)
+    /// @dev Returns the encrypted total, decryptable by the participant only
     /// @param participant Address of the participant
-    /// @return score The reputation score
+    /// @return score The encrypted reputation score
     function getReputationScore(address participant)
         external
         view
-        returns (uint256 score)
+        returns (euint32 score)
     {
         ReputationRecord storage reputation = reputations[participant];
         if (reputation.participant == address(0)) {
             revert Errors.ParticipantNotFound(participant);
         }
-        return reputation.totalRating;
+        return reputation.encryptedTotal;
     }
 
-    /// @notice Get average rating for a participant
-    /// @dev Calculates average on encrypted data in FHE implementation
-    /// @param participant Address of the participant
-    /// @return average The average rating (scale 1-5)
+    /// @notice Compute the encrypted average rating of the caller
+    /// @dev Divides the encrypted total by the public rating count. Only the
+    /// participant may ask, since anyone else could decrypt the result.
+    /// @param participant Address of the participant (must be the caller)
+    /// @return average The encrypted average rating (scale 1-5)
     function getAverageRating(address participant)
         external
-        view
-        returns (uint8 average)
+        returns (euint8 average)
     {
         ReputationRecord storage reputation = reputations[participant];
         if (reputation.participant == address(0)) {
             revert Errors.ParticipantNotFound(participant);
         }
-        if (reputation.ratingCount == 0) {
-            return 0;
+        if (msg.sender != participant) {
+            revert Errors.UnauthorizedRatingAccess();
         }
 
-        // ✅ Calculate average (in FHE: division on encrypted values)
-        uint256 avgRating = reputation.totalRating / reputation.ratingCount;
+        average = _averageOf(reputation);
 
-        // Ensure within valid range
-        if (avgRating > MAX_RATING) {
-            return MAX_RATING;
+        FHE.allowThis(average);
+        FHE.allow(average, participant);
+        return average;
+    }
+
+    /// @notice Compute the caller's time-decayed, rater-weighted rating
+    /// @dev Each of the latest MAX_WEIGHTED_RATINGS ratings counts with weight
+    /// raterWeight * decayFactor(asOf - timestamp). The rater weights are
+    /// encrypted, so the weighted average is returned as an encrypted
+    /// numerator and denominator for the participant to divide after
+    /// decrypting. Only the participant may ask, as with getAverageRating.
+    /// @param participant Address of the participant (must be the caller)
+    /// @param asOf Timestamp to measure rating age from, not before lastUpdated
+    /// @return weightedScore Encrypted sum of score * weight
+    /// @return totalWeight Encrypted sum of weight
+    function getWeightedRating(address participant, uint256 asOf)
+        external
+        returns (euint64 weightedScore, euint64 totalWeight)
+    {
+        ReputationRecord storage reputation = reputations[participant];
+        if (reputation.participant == address(0)) {
+            revert Errors.ParticipantNotFound(participant);
+        }
+        if (msg.sender != participant) {
+            revert Errors.UnauthorizedRatingAccess();
         }
-        if (avgRating < MIN_RATING) {
-            return MIN_RATING;
+        if (asOf < reputation.lastUpdated) {
+            revert Errors.InvalidInput();
         }
 
-        return uint8(avgRating);
+        bytes32[] storage keys = receivedRatings[participant];
+        uint256 start = keys.length > MAX_WEIGHTED_RATINGS
+            ? keys.length - MAX_WEIGHTED_RATINGS
+            : 0;
+
+        weightedScore = FHE.asEuint64(0);
+        totalWeight = FHE.asEuint64(0);
+        for (uint256 i = start; i < keys.length; i++) {
+            Rating storage rating = ratings[keys[i]];
+            euint64 weight = FHE.mul(
+                FHE.asEuint64(rating.raterWeight),
+                decayFactor(asOf - rating.timestamp)
+            );
+            weightedScore = FHE.add(
+                weightedScore,
+                FHE.mul(weight, FHE.asEuint64(rating.encryptedScore))
+            );
+            totalWeight = FHE.add(totalWeight, weight);
+        }
+
+        FHE.allowThis(weightedScore);
+        FHE.allow(weightedScore, participant);
+        FHE.allowThis(totalWeight);
+        FHE.allow(totalWeight, participant);
+        return (weightedScore, totalWeight);
     }
 
-    /// @notice Check if participant meets minimum reputation
-    /// @dev In FHE implementation: comparison on encrypted values
+    /// @notice Exponential decay of a rating's weight with its age
+    /// @dev Halves every DECAY_HALF_LIFE and interpolates linearly in between,
+    /// so the result is exact integer math that off-chain code can reproduce
+    /// @param age Seconds since the rating was submitted
+    /// @return factor Weight multiplier scaled by DECAY_PRECISION
+    function decayFactor(uint256 age) public pure returns (uint64 factor) {
+        uint256 halvings = age / DECAY_HALF_LIFE;
+        if (halvings >= 64) {
+            return 0;
+        }
+        factor = DECAY_PRECISION >> halvings;
+        factor -= uint64(
+            (uint256(factor) * (age % DECAY_HALF_LIFE)) / (2 * DECAY_HALF_LIFE)
+        );
+    }
+
+    /// @notice Check if participant meets the caller's minimum reputation
+    /// @dev Only DeliveryManager or the trading contract. Compares the
+    /// encrypted average against an encrypted threshold; the caller may
+    /// decrypt the result, but learns nothing else
     /// @param participant Address of the participant
-    /// @param minimumScore External encrypted minimum score
+    /// @param minimumScore External encrypted minimum average rating, scaled
+    /// by REPUTATION_SCALE
     /// @param proof ZK proof for minimum score
-    /// @return meetsRequirement True if reputation meets minimum
+    /// @return meetsRequirement Encrypted true if reputation meets minimum
     function meetsMinimumReputation(
         address participant,
-        bytes calldata minimumScore,
+        externalEuint32 minimumScore,
         bytes calldata proof
-    ) external view returns (bool meetsRequirement) {
+    ) external returns (ebool meetsRequirement) {
         // ✅ Validate inputs
+        _checkPlatformCaller();
         if (participant == address(0)) {
             revert Errors.ZeroAddress();
         }
-        if (minimumScore.length == 0) {
+        if (proof.length == 0) {
             revert Errors.InvalidProof();
         }
 
@@ -208,10 +443,42 @@ contract ReputationTracker {
             revert Errors.ParticipantNotFound(participant);
         }
 
-        // ✅ In production: FHE.ge(reputation.totalRating, minimumScore)
-        // For now: simple comparison with default minimum (50 points)
-        uint256 minimumRequired = 50;
-        return reputation.totalRating >= minimumRequired;
+        // ✅ Compare on encrypted values
+        meetsRequirement = _averageAtLeast(
+            reputation,
+            FHE.fromExternal(minimumScore, proof)
+        );
+
+        FHE.allowThis(meetsRequirement);
+        FHE.allow(meetsRequirement, msg.sender);
+        return meetsRequirement;
+    }
+
+    /// @notice Check a participant's reputation against another contract's threshold
+    /// @dev Only DeliveryManager or the trading contract, to gate on
+    /// reputation without either the threshold or the score being revealed.
+    /// The caller may decrypt the result; nobody else learns anything.
+    /// @param participant Address of the participant (unrated counts as zero)
+    /// @param threshold Encrypted minimum average rating, scaled by
+    /// REPUTATION_SCALE, the caller is allowed on
+    /// @return meetsThreshold Encrypted true if reputation meets the threshold
+    function meetsReputationThreshold(address participant, euint32 threshold)
+        external
+        returns (ebool meetsThreshold)
+    {
+        _checkPlatformCaller();
+        if (participant == address(0)) {
+            revert Errors.ZeroAddress();
+        }
+        if (!FHE.isSenderAllowed(threshold)) {
+            revert Errors.UnauthorizedRatingAccess();
+        }
+
+        meetsThreshold = _averageAtLeast(reputations[participant], threshold);
+
+        FHE.allowThis(meetsThreshold);
+        FHE.allow(meetsThreshold, msg.sender);
+        return meetsThreshold;
     }
 
     /// @notice Get rating count for a participant
@@ -229,18 +496,19 @@ contract ReputationTracker {
         return reputation.ratingCount;
     }
 
-    /// @notice Get rating for a specific delivery
-    /// @param deliveryId ID of the delivery
+    /// @notice Get the rating a rater gave for a delivery or trade
+    /// @param deliveryId ID of the delivery, or tradeRatingId(orderId)
+    /// @param rater Address of the rater
     /// @return rating The rating record
-    function getRating(bytes32 deliveryId)
+    function getRating(bytes32 deliveryId, address rater)
         external
         view
         returns (Rating memory rating)
     {
-        if (ratings[deliveryId].rater == address(0)) {
+        rating = ratings[_ratingKey(deliveryId, rater)];
+        if (rating.rater == address(0)) {
             revert Errors.InvalidInput();
         }
-        return ratings[deliveryId];
     }
 
     /// @notice Get reputation for a participant
@@ -274,28 +542,36 @@ contract ReputationTracker {
         return participants.length;
     }
 
-    /// @notice Get encrypted rating for a delivery (confidential)
-    /// @param deliveryId ID of the delivery
+    /// @notice Get encrypted rating for a delivery or trade (confidential)
+    /// @dev Decryptable by the rater only
+    /// @param deliveryId ID of the delivery, or tradeRatingId(orderId)
+    /// @param rater Address of the rater
     /// @return encrypted The encrypted rating
-    function getEncryptedRating(bytes32 deliveryId)
+    function getEncryptedRating(bytes32 deliveryId, address rater)
         external
         view
-        returns (bytes memory encrypted)
+        returns (euint8 encrypted)
     {
-        // In production: verify caller authorization
-        return encryptedRatings[deliveryId];
+        Rating storage rating = ratings[_ratingKey(deliveryId, rater)];
+        if (rating.rater == address(0)) {
+            revert Errors.InvalidInput();
+        }
+        return rating.encryptedScore;
     }
 
     /// @notice Check if two participants have similar reputation
-    /// @dev Used for matching or fraud detection
+    /// @dev Only DeliveryManager or the trading contract, for matching or
+    /// fraud detection. The caller may decrypt the result, but not either
+    /// average.
     /// @param participant1 First participant
     /// @param participant2 Second participant
-    /// @return similar True if reputations are similar (within 2 points)
+    /// @return similar Encrypted true if averages are within 2 points
     function haveSimilarReputation(address participant1, address participant2)
         external
-        view
-        returns (bool similar)
+        returns (ebool similar)
     {
+        _checkPlatformCaller();
+
         ReputationRecord storage rep1 = reputations[participant1];
         ReputationRecord storage rep2 = reputations[participant2];
 
@@ -303,14 +579,63 @@ contract ReputationTracker {
             revert Errors.ParticipantNotFound(address(0));
         }
 
-        uint8 avg1 = this.getAverageRating(participant1);
-        uint8 avg2 = this.getAverageRating(participant2);
+        euint8 avg1 = _averageOf(rep1);
+        euint8 avg2 = _averageOf(rep2);
 
-        int256 difference = int256(uint256(avg1)) - int256(uint256(avg2));
-        if (difference < 0) {
-            difference = -difference;
+        euint8 difference = FHE.select(
+            FHE.ge(avg1, avg2),
+            FHE.sub(avg1, avg2),
+            FHE.sub(avg2, avg1)
+        );
+        similar = FHE.le(difference, 2);
+
+        FHE.allowThis(similar);
+        FHE.allow(similar, msg.sender);
+        return similar;
+    }
+
+    /// @notice Revert unless the caller is DeliveryManager or the trading contract
+    /// @dev Comparison outcomes are decryptable by the caller, so anyone else
+    /// could binary-search a participant's average with repeated thresholds
+    function _checkPlatformCaller() private view {
+        if (
+            msg.sender != address(deliveryManager) &&
+            msg.sender != address(tradingContract)
+        ) {
+            revert Errors.UnauthorizedRatingAccess();
         }
+    }
 
-        return difference <= 2;
+    /// @notice Encrypted check that a record's average meets a scaled threshold
+    /// @dev Compares total * REPUTATION_SCALE with threshold * ratingCount, which
+    /// needs no encrypted division and keeps the fraction of the average. An
+    /// unrated record averages zero.
+    /// @param reputation Record to check, possibly unrated
+    /// @param threshold Encrypted minimum average, scaled by REPUTATION_SCALE
+    /// @return meets Encrypted true if the average is at least the threshold
+    function _averageAtLeast(ReputationRecord storage reputation, euint32 threshold)
+        private
+        returns (ebool meets)
+    {
+        if (reputation.ratingCount == 0) {
+            return FHE.eq(threshold, 0);
+        }
+        return FHE.ge(
+            FHE.mul(FHE.asEuint64(reputation.encryptedTotal), uint64(REPUTATION_SCALE)),
+            FHE.mul(FHE.asEuint64(threshold), uint64(reputation.ratingCount))
+        );
+    }
+
+    /// @notice Encrypted average of a reputation record
+    /// @dev Every score is clamped to 1-5, so the average is too
+    /// @param reputation Record with at least one rating
+    /// @return average The encrypted average rating
+    function _averageOf(ReputationRecord storage reputation)
+        private
+        returns (euint8 average)
+    {
+        return FHE.asEuint8(
+            FHE.div(reputation.encryptedTotal, uint32(reputation.ratingCount))
+        );
     }
 }
@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title Blind Auction
 /// @notice A sealed-bid auction where bids remain confidential until revealed
 /// @dev Advanced example demonstrating privacy-preserving auction mechanics
-contract BlindAuction is ZamaEthereumConfig {
+contract BlindAuction is SepoliaConfig {
     /// @notice Auction item description
     string public itemDescription;
 
@@ -36,33 +36,63 @@ contract BlindAuction is ZamaEthereumConfig {
     /// @notice Highest bid (encrypted until reveal)
     euint32 public highestBid;
 
+    /// @notice Index into `bidders` of the highest bid (encrypted until reveal)
+    euint32 private highestBidIndex;
+
     /// @notice Highest bidder (revealed at auction end)
     address public highestBidder;
 
+    /// @notice Winning bid amount (revealed at auction end)
+    uint32 public winningBid;
+
+    /// @notice Whether the oracle has revealed the winner
+    bool public winnerRevealed;
+
+    /// @notice Fixed deposit every bidder locks with their bid
+    /// @dev The same for everyone so the deposit leaks nothing about the bid
+    uint256 public immutable bidDeposit;
+
+    /// @notice Deposits still held for each bidder
+    mapping(address => uint256) public deposits;
+
+    /// @notice Whether the auctioneer has collected the winner's deposit
+    bool public proceedsClaimed;
+
+    /// @notice Pending decryption request for the winner reveal
+    uint256 private revealRequestId;
+
     /// @notice Events
     event BidPlaced(address indexed bidder);
     event AuctionEnded(address winner);
+    event WinnerRevealRequested(uint256 requestId);
+    event DepositWithdrawn(address indexed bidder, uint256 amount);
+    event ProceedsClaimed(address indexed auctioneer, uint256 amount);
 
     /// @notice Creates a new blind auction
     /// @param description Description of the item
     /// @param duration Duration of the auction in seconds
-    constructor(string memory description, uint256 duration) {
+    /// @param deposit Wei each bidder must send with their bid
+    constructor(string memory description, uint256 duration, uint256 deposit) {
         itemDescription = description;
         auctionEndTime = block.timestamp + duration;
         auctioneer = msg.sender;
+        bidDeposit = deposit;
 
         // Initialize highest bid to encrypted zero
         highestBid = FHE.asEuint32(0);
+        highestBidIndex = FHE.asEuint32(0);
         FHE.allowThis(highestBid);
+        FHE.allowThis(highestBidIndex);
     }
 
     /// @notice Submit an encrypted bid
     /// @param encryptedAmount Encrypted bid amount
     /// @param inputProof Proof of correct encryption
     /// @dev Bids remain private until auction ends
-    function placeBid(externalEuint32 encryptedAmount, bytes calldata inputProof) external {
+    function placeBid(externalEuint32 encryptedAmount, bytes calldata inputProof) external payable {
         require(block.timestamp < auctionEndTime, "Auction has ended");
         require(!bids[msg.sender].exists, "Already placed a bid");
+        require(msg.value == bidDeposit, "Incorrect deposit");
 
         // Convert and store encrypted bid
         euint32 bidAmount = FHE.fromExternal(encryptedAmount, inputProof);
@@ -73,7 +103,9 @@ contract BlindAuction is ZamaEthereumConfig {
             exists: true
         });
 
+        uint32 index = uint32(bidders.length);
         bidders.push(msg.sender);
+        deposits[msg.sender] = msg.value;
 
         // Grant permissions
         FHE.allowThis(bidAmount);
@@ -84,6 +116,10 @@ contract BlindAuction is ZamaEthereumConfig {
 
         // Update highest bid if this bid is greater (conditional on encrypted values)
         highestBid = FHE.select(isGreater, bidAmount, highestBid);
+        highestBidIndex = FHE.select(isGreater, FHE.asEuint32(index), highestBidIndex);
+
+        FHE.allowThis(highestBid);
+        FHE.allowThis(highestBidIndex);
 
         emit BidPlaced(msg.sender);
     }
@@ -95,8 +131,9 @@ contract BlindAuction is ZamaEthereumConfig {
         return bids[msg.sender].amount;
     }
 
-    /// @notice End the auction and determine winner
-    /// @dev In production, this would use the relayer to decrypt the highest bid
+    /// @notice End the auction and request the winner reveal
+    /// @dev The highest bid and its index are decrypted by the oracle, which
+    /// calls back into revealWinner
     function endAuction() external {
         require(block.timestamp >= auctionEndTime, "Auction not yet ended");
         require(!ended, "Auction already ended");
@@ -104,13 +141,75 @@ contract BlindAuction is ZamaEthereumConfig {
 
         ended = true;
 
-        // Determine winner by comparing all bids
-        // In production, this would involve decrypting the highest bid via relayer
-        // For now, we track the highest bidder based on encrypted comparisons
+        if (bidders.length == 0) {
+            // Nothing to reveal
+            winnerRevealed = true;
+            emit AuctionEnded(address(0));
+            return;
+        }
+
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(highestBid);
+        cts[1] = FHE.toBytes32(highestBidIndex);
+        revealRequestId = FHE.requestDecryption(cts, this.revealWinner.selector);
+
+        emit WinnerRevealRequested(revealRequestId);
+    }
+
+    /// @notice Oracle callback recording the decrypted winner
+    /// @param requestId Decryption request being fulfilled
+    /// @param cleartexts ABI-encoded (uint32 highestBid, uint32 highestBidIndex)
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function revealWinner(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        require(requestId == revealRequestId, "Unknown request");
+        require(!winnerRevealed, "Winner already revealed");
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        (uint32 amount, uint32 index) = abi.decode(cleartexts, (uint32, uint32));
+
+        winningBid = amount;
+        highestBidder = bidders[index];
+        winnerRevealed = true;
 
         emit AuctionEnded(highestBidder);
     }
 
+    /// @notice Reclaim the deposit of a losing bid
+    function withdrawDeposit() external {
+        require(winnerRevealed, "Winner not revealed");
+        require(msg.sender != highestBidder, "Winner cannot withdraw");
+
+        uint256 amount = deposits[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+
+        deposits[msg.sender] = 0;
+        (bool sent, ) = payable(msg.sender).call{value: amount}("");
+        require(sent, "Transfer failed");
+
+        emit DepositWithdrawn(msg.sender, amount);
+    }
+
+    /// @notice Collect the winner's deposit
+    function claimProceeds() external {
+        require(msg.sender == auctioneer, "Only auctioneer can claim");
+        require(winnerRevealed, "Winner not revealed");
+        require(highestBidder != address(0), "No winner");
+        require(!proceedsClaimed, "Proceeds already claimed");
+
+        proceedsClaimed = true;
+        uint256 amount = deposits[highestBidder];
+        deposits[highestBidder] = 0;
+
+        (bool sent, ) = payable(auctioneer).call{value: amount}("");
+        require(sent, "Transfer failed");
+
+        emit ProceedsClaimed(auctioneer, amount);
+    }
+
     /// @notice Get number of bids
     /// @return Number of bids placed
     function getBidCount() external view returns (uint256) {
@@ -127,7 +226,8 @@ contract BlindAuction is ZamaEthereumConfig {
     /// @dev Key privacy features:
     /// - Bid amounts remain encrypted on-chain
     /// - Winner is determined on encrypted values
-    /// - Bids are only decryptable by their submitter
+    /// - Only the winning bid and winner are ever decrypted, at auction end
+    /// - Losing bids are only decryptable by their submitter
     /// - Highest bid comparison happens without decryption
     function privacyExplanation() external pure {
         // Privacy Benefits:
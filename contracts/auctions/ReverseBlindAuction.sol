@@ -0,0 +1,254 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "@fhevm/solidity/config/ZamaConfig.sol";
+import { ConfidentialRawMaterialsTrading } from "../ConfidentialRawMaterialsTrading.sol";
+
+/// @title Reverse Blind Auction
+/// @notice A procurement auction for a raw material lot where the lowest
+/// sealed unit price at or below an encrypted reserve wins
+/// @dev Mirrors BlindAuction with the comparison inverted. Only the winner is
+/// decrypted at the end; the winning price stays encrypted for the two parties.
+contract ReverseBlindAuction is SepoliaConfig {
+    /// @notice Marks "no acceptable bid" in the encrypted winner index
+    uint32 public constant NO_WINNER = type(uint32).max;
+
+    /// @notice Buyer running the procurement
+    address public auctioneer;
+
+    /// @notice Units in the lot
+    uint32 public lotQuantity;
+
+    /// @notice Category of the material being procured
+    ConfidentialRawMaterialsTrading.MaterialCategory public category;
+
+    /// @notice Auction end time
+    uint256 public auctionEndTime;
+
+    /// @notice Whether the encrypted reserve price has been set
+    bool public reserveSet;
+
+    /// @notice Whether auction has ended
+    bool public ended;
+
+    /// @notice Whether the oracle has revealed the outcome
+    bool public settled;
+
+    /// @notice Maximum acceptable unit price (encrypted)
+    euint64 private reservePrice;
+
+    /// @notice Lowest acceptable bid so far (encrypted)
+    euint64 private lowestBid;
+
+    /// @notice Index into `bidders` of the lowest acceptable bid, or NO_WINNER
+    euint32 private lowestBidIndex;
+
+    /// @notice Maps bidder addresses to their encrypted unit prices
+    mapping(address => euint64) private bids;
+
+    /// @notice Whether an address has bid
+    mapping(address => bool) public hasBid;
+
+    /// @notice Array of bidder addresses
+    address[] public bidders;
+
+    /// @notice Settlement of the lot, shaped like a trading TradeMatch
+    struct Settlement {
+        address buyer;
+        address supplier;
+        ConfidentialRawMaterialsTrading.MaterialCategory category;
+        euint32 encryptedQuantity;
+        euint64 encryptedPrice;
+        uint256 timestamp;
+        bool isConfirmed;
+    }
+
+    /// @notice Settlement record, filled in by the oracle callback
+    Settlement public settlement;
+
+    /// @notice Pending decryption request for the outcome
+    uint256 private settleRequestId;
+
+    /// @notice Events
+    event ReservePriceSet();
+    event BidPlaced(address indexed bidder);
+    event SettlementRequested(uint256 requestId);
+    event AuctionSettled(address indexed supplier);
+    event ReserveNotMet();
+    event SettlementConfirmed(address indexed supplier);
+
+    /// @notice Creates a reverse auction for a lot
+    /// @param _lotQuantity Units being procured
+    /// @param _category Material category of the lot
+    /// @param _duration Duration of the auction in seconds
+    /// @dev The reserve is set separately with setReservePrice, since the
+    /// encrypted input must be bound to this contract's address
+    constructor(
+        uint32 _lotQuantity,
+        ConfidentialRawMaterialsTrading.MaterialCategory _category,
+        uint256 _duration
+    ) {
+        require(_lotQuantity > 0, "Invalid quantity");
+
+        auctioneer = msg.sender;
+        lotQuantity = _lotQuantity;
+        category = _category;
+        auctionEndTime = block.timestamp + _duration;
+
+        lowestBid = FHE.asEuint64(type(uint64).max);
+        lowestBidIndex = FHE.asEuint32(NO_WINNER);
+        FHE.allowThis(lowestBid);
+        FHE.allowThis(lowestBidIndex);
+    }
+
+    /// @notice Set the encrypted reserve price before bidding opens
+    /// @param encryptedReserve Encrypted maximum unit price
+    /// @param inputProof Proof of correct encryption
+    function setReservePrice(externalEuint64 encryptedReserve, bytes calldata inputProof) external {
+        require(msg.sender == auctioneer, "Only auctioneer can set reserve");
+        require(!reserveSet, "Reserve already set");
+        require(bidders.length == 0, "Bidding started");
+
+        reservePrice = FHE.fromExternal(encryptedReserve, inputProof);
+        reserveSet = true;
+
+        FHE.allowThis(reservePrice);
+        FHE.allow(reservePrice, auctioneer);
+
+        emit ReservePriceSet();
+    }
+
+    /// @notice Submit an encrypted unit price for the whole lot
+    /// @param encryptedPrice Encrypted unit price
+    /// @param inputProof Proof of correct encryption
+    /// @dev Bids above the reserve are accepted but can never win
+    function placeBid(externalEuint64 encryptedPrice, bytes calldata inputProof) external {
+        require(reserveSet, "Reserve not set");
+        require(block.timestamp < auctionEndTime, "Auction has ended");
+        require(msg.sender != auctioneer, "Auctioneer cannot bid");
+        require(!hasBid[msg.sender], "Already placed a bid");
+
+        euint64 price = FHE.fromExternal(encryptedPrice, inputProof);
+        uint32 index = uint32(bidders.length);
+
+        bids[msg.sender] = price;
+        hasBid[msg.sender] = true;
+        bidders.push(msg.sender);
+
+        // Lower than the current best and within the reserve (still encrypted)
+        ebool isBetter = FHE.and(FHE.lt(price, lowestBid), FHE.le(price, reservePrice));
+
+        lowestBid = FHE.select(isBetter, price, lowestBid);
+        lowestBidIndex = FHE.select(isBetter, FHE.asEuint32(index), lowestBidIndex);
+
+        FHE.allowThis(price);
+        FHE.allow(price, msg.sender);
+        FHE.allowThis(lowestBid);
+        FHE.allowThis(lowestBidIndex);
+
+        emit BidPlaced(msg.sender);
+    }
+
+    /// @notice End the auction and request the winner reveal
+    function endAuction() external {
+        require(block.timestamp >= auctionEndTime, "Auction not yet ended");
+        require(!ended, "Auction already ended");
+        require(msg.sender == auctioneer, "Only auctioneer can end");
+
+        ended = true;
+
+        if (bidders.length == 0) {
+            settled = true;
+            emit ReserveNotMet();
+            return;
+        }
+
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(lowestBidIndex);
+        settleRequestId = FHE.requestDecryption(cts, this.settle.selector);
+
+        emit SettlementRequested(settleRequestId);
+    }
+
+    /// @notice Oracle callback recording the winning supplier
+    /// @param requestId Decryption request being fulfilled
+    /// @param cleartexts ABI-encoded uint32 winner index
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function settle(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        require(requestId == settleRequestId, "Unknown request");
+        require(ended && !settled, "Not awaiting settlement");
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        settled = true;
+
+        uint32 index = abi.decode(cleartexts, (uint32));
+        if (index == NO_WINNER) {
+            emit ReserveNotMet();
+            return;
+        }
+
+        address supplier = bidders[index];
+        euint32 quantity = FHE.asEuint32(lotQuantity);
+
+        settlement = Settlement({
+            buyer: auctioneer,
+            supplier: supplier,
+            category: category,
+            encryptedQuantity: quantity,
+            encryptedPrice: lowestBid,
+            timestamp: block.timestamp,
+            isConfirmed: false
+        });
+
+        FHE.allowThis(quantity);
+        FHE.allow(quantity, auctioneer);
+        FHE.allow(quantity, supplier);
+        FHE.allow(lowestBid, auctioneer);
+        FHE.allow(lowestBid, supplier);
+
+        emit AuctionSettled(supplier);
+    }
+
+    /// @notice Confirm the settled lot (buyer or winning supplier)
+    function confirmSettlement() external {
+        require(settlement.supplier != address(0), "No settlement");
+        require(
+            msg.sender == settlement.buyer || msg.sender == settlement.supplier,
+            "Not authorized"
+        );
+        require(!settlement.isConfirmed, "Already confirmed");
+
+        settlement.isConfirmed = true;
+
+        emit SettlementConfirmed(settlement.supplier);
+    }
+
+    /// @notice Retrieves encrypted bid for the caller
+    /// @return The encrypted unit price
+    function getMyBid() external view returns (euint64) {
+        require(hasBid[msg.sender], "No bid placed");
+        return bids[msg.sender];
+    }
+
+    /// @notice Encrypted reserve price, decryptable by the auctioneer
+    function getReservePrice() external view returns (euint64) {
+        return reservePrice;
+    }
+
+    /// @notice Get number of bids
+    /// @return Number of bids placed
+    function getBidCount() external view returns (uint256) {
+        return bidders.length;
+    }
+
+    /// @notice Check if auction is still accepting bids
+    /// @return True if auction is active
+    function isActive() external view returns (bool) {
+        return reserveSet && block.timestamp < auctionEndTime && !ended;
+    }
+}
@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title Access Control for FHE
 /// @notice Demonstrates FHE access control patterns
 /// @dev Shows FHE.allow, FHE.allowTransient, and permission management
-contract AccessControl is ZamaEthereumConfig {
+contract AccessControl is SepoliaConfig {
     /// @notice Maps addresses to their confidential data
     mapping(address => euint32) private userData;
 
@@ -43,7 +43,7 @@ contract AccessControl is ZamaEthereumConfig {
     function processTemporaryData(
         externalEuint32 encryptedValue,
         bytes calldata inputProof
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         euint32 value = FHE.fromExternal(encryptedValue, inputProof);
 
         // ✅ FHE.allowTransient: Temporary permission
@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title FHE Counter
 /// @notice A simple counter contract using Fully Homomorphic Encryption
 /// @dev Demonstrates basic FHE operations: increment and decrement on encrypted values
-contract FHECounter is ZamaEthereumConfig {
+contract FHECounter is SepoliaConfig {
     /// @notice Encrypted counter value stored on-chain
     euint32 private _counter;
 
@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title Public Decrypt Multiple Values
 /// @notice Demonstrates public decryption of multiple encrypted values
 /// @dev Shows aggregation of multiple encrypted results
-contract PublicDecryptMultipleValues is ZamaEthereumConfig {
+contract PublicDecryptMultipleValues is SepoliaConfig {
     /// @notice Stores encrypted results that are publicly decryptable
     euint32[] public encryptedResults;
 
@@ -44,7 +44,7 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
     /// @notice Computes statistics on encrypted values
     /// @return Sum of all values (encrypted)
     /// @dev Public can decrypt this result
-    function getEncryptedSum() external view returns (euint32) {
+    function getEncryptedSum() external returns (euint32) {
         require(encryptedResults.length > 0, "No results stored");
 
         euint32 sum = encryptedResults[0];
@@ -59,7 +59,7 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
     /// @notice Computes average of public decryptable results
     /// @return Average value (encrypted)
     /// @dev Anyone can decrypt this average
-    function getEncryptedAverage() external view returns (euint32) {
+    function getEncryptedAverage() external returns (euint32) {
         require(encryptedResults.length > 0, "No results stored");
 
         euint32 sum = encryptedResults[0];
@@ -68,9 +68,8 @@ contract PublicDecryptMultipleValues is ZamaEthereumConfig {
             sum = FHE.add(sum, encryptedResults[i]);
         }
 
-        // Divide by count (approximate with encrypted value)
-        euint32 count = FHE.asEuint32(uint32(encryptedResults.length));
-        euint32 average = FHE.div(sum, count);
+        // Divide by count (FHE division takes a plaintext divisor)
+        euint32 average = FHE.div(sum, uint32(encryptedResults.length));
 
         return average;
     }
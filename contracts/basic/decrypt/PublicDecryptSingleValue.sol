@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title Public Decrypt Single Value
 /// @notice Demonstrates public decryption of encrypted values
 /// @dev Shows how to decrypt values that don't require user privacy
-contract PublicDecryptSingleValue is ZamaEthereumConfig {
+contract PublicDecryptSingleValue is SepoliaConfig {
     /// @notice Public state that anyone can decrypt
     euint32 public publicEncryptedValue;
 
@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title User Decrypt Multiple Values
 /// @notice Demonstrates user decryption of multiple encrypted values
 /// @dev Shows permission handling for arrays of encrypted data
-contract UserDecryptMultipleValues is ZamaEthereumConfig {
+contract UserDecryptMultipleValues is SepoliaConfig {
     /// @notice Stores multiple encrypted values per user
     struct UserData {
         euint32[] encryptedValues;
@@ -80,7 +80,7 @@ contract UserDecryptMultipleValues is ZamaEthereumConfig {
 
     /// @notice Performs computation on multiple encrypted values
     /// @return The sum of all encrypted values
-    function computeOnMultiple() external view returns (euint32) {
+    function computeOnMultiple() external returns (euint32) {
         require(userData[msg.sender].valueCount > 0, "No values stored");
 
         euint32[] memory values = userData[msg.sender].encryptedValues;
@@ -99,7 +99,7 @@ contract UserDecryptMultipleValues is ZamaEthereumConfig {
     /// @notice Demonstrates conditional operations on multiple values
     /// @return The maximum of all encrypted values (in encrypted form)
     /// @dev Shows how to compare multiple encrypted values
-    function findMaxEncrypted() external view returns (euint32) {
+    function findMaxEncrypted() external returns (euint32) {
         require(userData[msg.sender].valueCount > 0, "No values stored");
 
         euint32[] memory values = userData[msg.sender].encryptedValues;
@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title User Decrypt Single Value
 /// @notice Demonstrates user decryption with proper permission management
 /// @dev Shows how to decrypt encrypted values for specific users
-contract UserDecryptSingleValue is ZamaEthereumConfig {
+contract UserDecryptSingleValue is SepoliaConfig {
     /// @notice Maps user addresses to their encrypted secrets
     mapping(address => euint32) public userSecrets;
 
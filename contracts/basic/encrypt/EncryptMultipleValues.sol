@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title Encrypt Multiple Values
 /// @notice Demonstrates FHE encryption and handling of multiple encrypted values
 /// @dev Shows how to store and manage multiple encrypted data points
-contract EncryptMultipleValues is ZamaEthereumConfig {
+contract EncryptMultipleValues is SepoliaConfig {
     /// @notice Stores encrypted values
     struct EncryptedData {
         euint32 value1;
@@ -66,7 +66,7 @@ contract EncryptMultipleValues is ZamaEthereumConfig {
     /// @notice Computes on multiple encrypted values
     /// @return Sum of all three encrypted values
     /// @dev Demonstrates operations on multiple values
-    function sumAllValues() external view returns (euint32) {
+    function sumAllValues() external returns (euint32) {
         EncryptedData memory data = userDatasets[msg.sender];
 
         // Perform operations on multiple values
@@ -136,7 +136,7 @@ contract EncryptMultipleValues is ZamaEthereumConfig {
     function iterateAndSum(
         externalEuint32[] calldata encryptedValues,
         bytes[] calldata inputProofs
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         require(encryptedValues.length == inputProofs.length, "Length mismatch");
         require(encryptedValues.length > 0, "No values provided");
 
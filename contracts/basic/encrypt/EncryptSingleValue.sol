@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title Encrypt Single Value
 /// @notice Demonstrates FHE encryption mechanism for a single value
 /// @dev Shows proper encryption patterns and common pitfalls
-contract EncryptSingleValue is ZamaEthereumConfig {
+contract EncryptSingleValue is SepoliaConfig {
     /// @notice Stores encrypted secret value
     euint32 private encryptedSecret;
 
@@ -55,7 +55,7 @@ contract EncryptSingleValue is ZamaEthereumConfig {
         bytes calldata proofAlice,
         externalEuint32 encryptedFromBob,
         bytes calldata proofBob
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         // ✅ CORRECT: Use encryptions from the message sender
         euint32 valueAlice = FHE.fromExternal(encryptedFromAlice, proofAlice);
 
@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title FHE Add Operation
 /// @notice Demonstrates FHE addition operations on encrypted values
 /// @dev Shows how to perform arithmetic on encrypted data without decryption
-contract FHEAdd is ZamaEthereumConfig {
+contract FHEAdd is SepoliaConfig {
     /// @notice Adds two encrypted uint32 values
     /// @param encryptedA First encrypted value
     /// @param encryptedB Second encrypted value
@@ -18,7 +18,7 @@ contract FHEAdd is ZamaEthereumConfig {
         externalEuint32 encryptedA,
         externalEuint32 encryptedB,
         bytes calldata inputProof
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         // Convert external encrypted inputs to internal encrypted values
         euint32 a = FHE.fromExternal(encryptedA, inputProof);
         euint32 b = FHE.fromExternal(encryptedB, inputProof);
@@ -39,7 +39,7 @@ contract FHEAdd is ZamaEthereumConfig {
         externalEuint32 encryptedValue,
         uint32 publicValue,
         bytes calldata inputProof
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         euint32 encrypted = FHE.fromExternal(encryptedValue, inputProof);
 
         // FHE supports operations with both encrypted and public values
@@ -56,7 +56,7 @@ contract FHEAdd is ZamaEthereumConfig {
     function accumulateSum(
         externalEuint32[] calldata values,
         bytes[] calldata inputProofs
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         require(values.length == inputProofs.length, "Mismatched input lengths");
         require(values.length > 0, "Empty values array");
 
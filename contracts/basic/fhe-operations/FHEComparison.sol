@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title FHE Comparison Operations
 /// @notice Demonstrates FHE comparison operations (eq, lt, gt, le, ge)
 /// @dev Shows how to compare encrypted values without decryption
-contract FHEComparison is ZamaEthereumConfig {
+contract FHEComparison is SepoliaConfig {
     /// @notice Checks if two encrypted values are equal
     /// @param encryptedA First encrypted value
     /// @param encryptedB Second encrypted value
@@ -17,7 +17,7 @@ contract FHEComparison is ZamaEthereumConfig {
         externalEuint32 encryptedA,
         externalEuint32 encryptedB,
         bytes calldata inputProof
-    ) external view returns (ebool) {
+    ) external returns (ebool) {
         euint32 a = FHE.fromExternal(encryptedA, inputProof);
         euint32 b = FHE.fromExternal(encryptedB, inputProof);
 
@@ -34,7 +34,7 @@ contract FHEComparison is ZamaEthereumConfig {
         externalEuint32 encryptedA,
         externalEuint32 encryptedB,
         bytes calldata inputProof
-    ) external view returns (ebool) {
+    ) external returns (ebool) {
         euint32 a = FHE.fromExternal(encryptedA, inputProof);
         euint32 b = FHE.fromExternal(encryptedB, inputProof);
 
@@ -50,7 +50,7 @@ contract FHEComparison is ZamaEthereumConfig {
         externalEuint32 encryptedA,
         externalEuint32 encryptedB,
         bytes calldata inputProof
-    ) external view returns (ebool) {
+    ) external returns (ebool) {
         euint32 a = FHE.fromExternal(encryptedA, inputProof);
         euint32 b = FHE.fromExternal(encryptedB, inputProof);
 
@@ -66,7 +66,7 @@ contract FHEComparison is ZamaEthereumConfig {
         externalEuint32 encryptedA,
         externalEuint32 encryptedB,
         bytes calldata inputProof
-    ) external view returns (ebool) {
+    ) external returns (ebool) {
         euint32 a = FHE.fromExternal(encryptedA, inputProof);
         euint32 b = FHE.fromExternal(encryptedB, inputProof);
 
@@ -82,7 +82,7 @@ contract FHEComparison is ZamaEthereumConfig {
         externalEuint32 encryptedA,
         externalEuint32 encryptedB,
         bytes calldata inputProof
-    ) external view returns (ebool) {
+    ) external returns (ebool) {
         euint32 a = FHE.fromExternal(encryptedA, inputProof);
         euint32 b = FHE.fromExternal(encryptedB, inputProof);
 
@@ -98,7 +98,7 @@ contract FHEComparison is ZamaEthereumConfig {
         externalEuint32 encryptedValue,
         uint32 publicValue,
         bytes calldata inputProof
-    ) external view returns (ebool) {
+    ) external returns (ebool) {
         euint32 encrypted = FHE.fromExternal(encryptedValue, inputProof);
         euint32 publicEncrypted = FHE.asEuint32(publicValue);
 
@@ -116,7 +116,7 @@ contract FHEComparison is ZamaEthereumConfig {
         externalEuint32 valueIfTrue,
         externalEuint32 valueIfFalse,
         bytes calldata proofs
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         euint32 a = FHE.fromExternal(valueIfTrue, proofs);
         euint32 b = FHE.fromExternal(valueIfFalse, proofs);
 
@@ -198,7 +198,7 @@ contract FHEComparison is ZamaEthereumConfig {
         externalEuint32 encryptedB,
         bytes calldata proofA,
         bytes calldata proofB
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         euint32 a = FHE.fromExternal(encryptedA, proofA);
         euint32 b = FHE.fromExternal(encryptedB, proofB);
         euint32 thousand = FHE.asEuint32(1000);
@@ -7,7 +7,7 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
 /// @title FHE If-Then-Else
 /// @notice Demonstrates conditional operations on encrypted values
 /// @dev Shows how to perform branching logic on encrypted data without decryption
-contract FHEIfThenElse is ZamaEthereumConfig {
+contract FHEIfThenElse is SepoliaConfig {
     /// @notice Conditional transfer based on encrypted condition
     /// @param condition Encrypted boolean condition
     /// @param amountIfTrue Amount to transfer if true
@@ -19,7 +19,7 @@ contract FHEIfThenElse is ZamaEthereumConfig {
         externalEuint32 amountIfTrue,
         externalEuint32 amountIfFalse,
         bytes calldata proofs
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         euint32 a = FHE.fromExternal(amountIfTrue, proofs);
         euint32 b = FHE.fromExternal(amountIfFalse, proofs);
 
@@ -36,7 +36,7 @@ contract FHEIfThenElse is ZamaEthereumConfig {
     function applyDiscount(
         externalEuint32 purchaseAmount,
         bytes calldata inputProof
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         euint32 amount = FHE.fromExternal(purchaseAmount, inputProof);
         euint32 threshold = FHE.asEuint32(100);
 
@@ -46,7 +46,7 @@ contract FHEIfThenElse is ZamaEthereumConfig {
         // Calculate 90% of amount (10% discount)
         euint32 discountedPrice = FHE.div(
             FHE.mul(amount, FHE.asEuint32(90)),
-            FHE.asEuint32(100)
+            100
         );
 
         // Select: discounted if qualifies, full price otherwise
@@ -61,7 +61,7 @@ contract FHEIfThenElse is ZamaEthereumConfig {
     function calculateFee(
         externalEuint32 amount,
         bytes calldata proof
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         euint32 amountValue = FHE.fromExternal(amount, proof);
 
         // Tier 1: amount < 1000 -> 1% fee
@@ -77,9 +77,9 @@ contract FHEIfThenElse is ZamaEthereumConfig {
             FHE.lt(amountValue, threshold2)
         );
 
-        euint32 fee1 = FHE.div(amountValue, FHE.asEuint32(100)); // 1%
-        euint32 fee2 = FHE.div(amountValue, FHE.asEuint32(200)); // 0.5%
-        euint32 fee3 = FHE.div(amountValue, FHE.asEuint32(1000)); // 0.1%
+        euint32 fee1 = FHE.div(amountValue, 100); // 1%
+        euint32 fee2 = FHE.div(amountValue, 200); // 0.5%
+        euint32 fee3 = FHE.div(amountValue, 1000); // 0.1%
 
         // Nested selects for multi-tier logic
         euint32 feeAfterTier1 = FHE.select(isTier1, fee1, fee2);
@@ -161,7 +161,7 @@ contract FHEIfThenElse is ZamaEthereumConfig {
         externalEuint32 valueA,
         externalEuint32 valueB,
         bytes calldata proofs
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         // ✅ CORRECT: Pure value selection, no side effects
         euint32 a = FHE.fromExternal(valueA, proofs);
         euint32 b = FHE.fromExternal(valueB, proofs);
@@ -188,7 +188,7 @@ contract FHEIfThenElse is ZamaEthereumConfig {
     function complexBranching(
         externalEuint32 value,
         bytes calldata proof
-    ) external view returns (euint32) {
+    ) external returns (euint32) {
         euint32 val = FHE.fromExternal(value, proof);
 
         // Define multiple thresholds
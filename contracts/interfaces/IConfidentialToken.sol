@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { euint64 } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title IConfidentialToken Interface
+/// @notice Minimal ERC-7984 style confidential token with euint64 balances
+/// @dev Transfers never revert on insufficient balance; they move zero
+/// instead and return the encrypted amount actually transferred
+interface IConfidentialToken {
+    /// @notice Let an operator move the caller's tokens until a timestamp
+    function setOperator(address operator, uint48 until) external;
+
+    /// @notice Whether `spender` may currently move `holder`'s tokens
+    function isOperator(address holder, address spender) external view returns (bool);
+
+    /// @notice Encrypted balance of an account
+    function confidentialBalanceOf(address account) external view returns (euint64);
+
+    /// @notice Transfer an encrypted amount the caller has ACL access to
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred);
+
+    /// @notice Transfer on behalf of `from`; the caller must be its operator
+    function confidentialTransferFrom(
+        address from,
+        address to,
+        euint64 amount
+    ) external returns (euint64 transferred);
+}
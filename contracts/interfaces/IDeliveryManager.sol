@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
+import { euint32, euint64, externalEuint32, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+
 /// @title IDeliveryManager Interface
 /// @notice Interface for the DeliveryManager contract
 interface IDeliveryManager {
@@ -24,6 +26,20 @@ interface IDeliveryManager {
         DeliveryStatus status;
     }
 
+    /// @notice Courier-submitted progress update while a delivery is under way
+    struct Checkpoint {
+        euint64 location; // Packed as in PrivacyLayer.encodeLocation
+        uint256 timestamp;
+        euint32 condition; // e.g. temperature; zero handle when not reported
+        bool hasCondition;
+    }
+
+    /// @notice Courier's proof of delivery awaiting the recipient's confirmation
+    struct ProofOfDelivery {
+        bytes32 commitment; // keccak256(requestId, recipient, secret)
+        uint256 submittedAt;
+    }
+
     /// @notice Event emitted when delivery is requested
     event DeliveryRequested(
         bytes32 indexed requestId,
@@ -38,6 +54,35 @@ interface IDeliveryManager {
         uint256 timestamp
     );
 
+    /// @notice Event emitted when a courier's acceptance check is sent to the oracle
+    event DeliveryAcceptanceRequested(
+        bytes32 indexed requestId,
+        address indexed courier,
+        uint256 timestamp
+    );
+
+    /// @notice Event emitted when a courier fails the acceptance check
+    event DeliveryAcceptanceRejected(
+        bytes32 indexed requestId,
+        address indexed courier,
+        uint256 timestamp
+    );
+
+    /// @notice Event emitted when the courier records a checkpoint
+    event CheckpointRecorded(
+        bytes32 indexed requestId,
+        uint256 indexed index,
+        uint256 timestamp
+    );
+
+    /// @notice Event emitted when the courier submits a proof of delivery
+    event ProofOfDeliverySubmitted(
+        bytes32 indexed requestId,
+        address indexed courier,
+        bytes32 commitment,
+        uint256 expiresAt
+    );
+
     /// @notice Event emitted when delivery is completed
     event DeliveryCompleted(
         bytes32 indexed requestId,
@@ -45,6 +90,13 @@ interface IDeliveryManager {
         uint256 timestamp
     );
 
+    /// @notice Event emitted when a delivery is created for a trade order
+    event TradeDeliveryCreated(
+        bytes32 indexed requestId,
+        address indexed trading,
+        uint256 indexed orderId
+    );
+
     /// @notice Event emitted when delivery is cancelled
     event DeliveryCancelled(
         bytes32 indexed requestId,
@@ -54,35 +106,119 @@ interface IDeliveryManager {
     /// @notice Create a new delivery request with encrypted data
     /// @param encryptedRecipient External encrypted recipient address
     /// @param recipientProof ZK proof for recipient encryption
-    /// @param encryptedPickupLocation External encrypted pickup location
+    /// @param encryptedPickupLocation External encrypted pickup coordinates,
+    /// packed as in PrivacyLayer.encodeLocation
     /// @param pickupProof ZK proof for pickup location
     /// @param encryptedDeliveryLocation External encrypted delivery location
     /// @param deliveryProof ZK proof for delivery location
+    /// @param recipientCommitment keccak256(abi.encodePacked(recipient, secret))
+    /// for the handover secret shared with the recipient
     /// @return requestId The ID of the created delivery request
     function createDeliveryRequest(
         bytes calldata encryptedRecipient,
         bytes calldata recipientProof,
-        bytes calldata encryptedPickupLocation,
+        externalEuint64 encryptedPickupLocation,
         bytes calldata pickupProof,
         bytes calldata encryptedDeliveryLocation,
-        bytes calldata deliveryProof
+        bytes calldata deliveryProof,
+        bytes32 recipientCommitment
     ) external returns (bytes32 requestId);
 
-    /// @notice Accept a delivery based on location
+    /// @notice Create the delivery of a matched trade order
+    /// @param orderId ID of the order on the trading contract
+    /// @param supplier Supplier shipping the order, recorded as requester
+    /// @param buyer Buyer of the order, the only valid recipient
+    /// @param pickupLocation Encrypted pickup coordinates the caller may use
+    /// @param deliveryLocation Delivery location of the order
+    /// @return requestId The ID of the created delivery request
+    function createTradeDelivery(
+        uint256 orderId,
+        address supplier,
+        address buyer,
+        euint64 pickupLocation,
+        bytes calldata deliveryLocation
+    ) external returns (bytes32 requestId);
+
+    /// @notice Get the trade order a delivery was created for
     /// @param requestId ID of the delivery request
-    /// @param courierLocation External encrypted courier location
+    /// @return trading Trading contract of the order, zero if none
+    /// @return orderId ID of the order, zero if none
+    function getTradeOrder(bytes32 requestId)
+        external
+        view
+        returns (address trading, uint256 orderId);
+
+    /// @notice Offer to carry a delivery from an encrypted location
+    /// @param requestId ID of the delivery request
+    /// @param courierLocation External encrypted courier coordinates,
+    /// packed as in PrivacyLayer.encodeLocation
     /// @param locationProof ZK proof for courier location
-    /// @return success True if delivery was accepted
+    /// @return success True once the courier's acceptance check was requested
     function acceptDelivery(
         bytes32 requestId,
-        bytes calldata courierLocation,
+        externalEuint64 courierLocation,
         bytes calldata locationProof
     ) external returns (bool success);
 
-    /// @notice Complete a delivery
+    /// @notice Record a checkpoint, moving the delivery into IN_TRANSIT
+    /// @param requestId ID of the delivery request
+    /// @param encryptedLocation External encrypted current coordinates
+    /// @param encryptedCondition External encrypted condition reading
+    /// @param hasCondition Whether encryptedCondition carries a reading
+    /// @param inputProof ZK proof covering both inputs
+    /// @return index Index of the new checkpoint
+    function recordCheckpoint(
+        bytes32 requestId,
+        externalEuint64 encryptedLocation,
+        externalEuint32 encryptedCondition,
+        bool hasCondition,
+        bytes calldata inputProof
+    ) external returns (uint256 index);
+
+    /// @notice Get how many checkpoints a delivery has recorded
+    /// @param requestId ID of the delivery request
+    /// @return count Number of checkpoints recorded
+    function getCheckpointCount(bytes32 requestId)
+        external
+        view
+        returns (uint256 count);
+
+    /// @notice Get the checkpoints of a delivery
     /// @param requestId ID of the delivery request
+    /// @return checkpoints Checkpoints in the order they were recorded
+    function getCheckpoints(bytes32 requestId)
+        external
+        view
+        returns (Checkpoint[] memory checkpoints);
+
+    /// @notice Submit the courier's proof of delivery
+    /// @param requestId ID of the delivery request
+    /// @param commitment keccak256(abi.encodePacked(requestId, recipient, secret))
+    /// @return success True if the proof was recorded
+    function submitProofOfDelivery(bytes32 requestId, bytes32 commitment)
+        external
+        returns (bool success);
+
+    /// @notice Complete a delivery with the recipient's confirmation
+    /// @param requestId ID of the delivery request
+    /// @param recipient Address of the recipient
+    /// @param secret Secret the recipient handed to the courier
+    /// @param signature Recipient's signature over the proof of delivery
     /// @return success True if delivery was completed
-    function completeDelivery(bytes32 requestId) external returns (bool success);
+    function confirmDelivery(
+        bytes32 requestId,
+        address recipient,
+        bytes32 secret,
+        bytes calldata signature
+    ) external returns (bool success);
+
+    /// @notice Get the pending proof of delivery
+    /// @param requestId ID of the delivery request
+    /// @return proof Commitment and submission time, zero if none
+    function getProofOfDelivery(bytes32 requestId)
+        external
+        view
+        returns (ProofOfDelivery memory proof);
 
     /// @notice Cancel a delivery
     /// @param requestId ID of the delivery request
@@ -1,6 +1,8 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
+import { euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+
 /// @title IPaymentProcessor Interface
 /// @notice Interface for the PaymentProcessor contract
 interface IPaymentProcessor {
@@ -13,6 +15,13 @@ interface IPaymentProcessor {
         DISPUTED
     }
 
+    /// @notice What a payment is denominated in
+    enum PaymentAsset {
+        NATIVE,
+        ERC20,
+        CONFIDENTIAL
+    }
+
     /// @notice Payment structure
     struct Payment {
         bytes32 paymentId;
@@ -24,6 +33,42 @@ interface IPaymentProcessor {
         PaymentStatus status;
         uint256 createdAt;
         uint256 completedAt;
+        PaymentAsset asset;
+        address token;
+    }
+
+    /// @notice Dispute resolution outcome
+    enum DisputeOutcome {
+        NONE,
+        RELEASED,
+        REFUNDED,
+        SPLIT
+    }
+
+    /// @notice Dispute structure
+    struct Dispute {
+        bytes32 paymentId;
+        address openedBy;
+        address arbiter;
+        uint256 openedAt;
+        uint256 resolvedAt;
+        DisputeOutcome outcome;
+        bool splitPending;
+        uint256 evidenceCount;
+    }
+
+    /// @notice Escrow time lock terms
+    struct TimeLock {
+        uint256 deliveryDeadline;
+        uint256 releaseWindow;
+    }
+
+    /// @notice One tranche of a milestone payment
+    struct Milestone {
+        uint32 checkpoint;
+        euint64 amount;
+        bool released;
+        uint256 releasedAt;
     }
 
     /// @notice Event emitted when payment is created
@@ -49,6 +94,14 @@ interface IPaymentProcessor {
         uint256 timestamp
     );
 
+    /// @notice Event emitted when a payment is escrowed against a trade order
+    event TradePaymentCreated(
+        bytes32 indexed paymentId,
+        uint256 indexed orderId,
+        address indexed buyer,
+        address supplier
+    );
+
     /// @notice Event emitted when payment is refunded
     event PaymentRefunded(
         bytes32 indexed paymentId,
@@ -57,6 +110,58 @@ interface IPaymentProcessor {
         uint256 timestamp
     );
 
+    /// @notice Event emitted when a payer attaches a time lock to a payment
+    event TimeLockSet(
+        bytes32 indexed paymentId,
+        uint256 deliveryDeadline,
+        uint256 releaseWindow
+    );
+
+    /// @notice Event emitted when a payment is split into milestones
+    event MilestonePaymentCreated(bytes32 indexed paymentId, uint256 milestoneCount);
+
+    /// @notice Event emitted when a milestone tranche is paid out
+    event MilestoneReleased(
+        bytes32 indexed paymentId,
+        uint256 indexed index,
+        uint32 checkpoint,
+        uint256 timestamp
+    );
+
+    /// @notice Event emitted when the platform owner grants or revokes an arbiter
+    event ArbiterUpdated(address indexed arbiter, bool enabled);
+
+    /// @notice Event emitted when a party disputes an escrowed payment
+    event DisputeOpened(
+        bytes32 indexed paymentId,
+        address indexed openedBy,
+        uint256 timestamp
+    );
+
+    /// @notice Event emitted when an arbiter is assigned to a dispute
+    event ArbiterAssigned(bytes32 indexed paymentId, address indexed arbiter);
+
+    /// @notice Event emitted when encrypted evidence is submitted
+    event EvidenceSubmitted(
+        bytes32 indexed paymentId,
+        address indexed submitter,
+        uint256 evidenceIndex
+    );
+
+    /// @notice Event emitted when an encrypted split awaits decryption
+    event DisputeSplitRequested(bytes32 indexed paymentId, uint256 requestId);
+
+    /// @notice Event emitted when an account withdraws its credited split shares
+    event Withdrawn(address indexed account, address indexed token, uint256 amount);
+
+    /// @notice Event emitted when a dispute is resolved
+    event DisputeResolved(
+        bytes32 indexed paymentId,
+        address indexed arbiter,
+        DisputeOutcome outcome,
+        uint256 timestamp
+    );
+
     /// @notice Create a payment with encrypted amount
     /// @param deliveryId ID of the delivery
     /// @param encryptedAmount External encrypted payment amount
@@ -70,6 +175,89 @@ interface IPaymentProcessor {
         address payee
     ) external payable returns (bytes32 paymentId);
 
+    /// @notice Create a payment in an ERC-20 token pulled from the payer's allowance
+    /// @param deliveryId ID of the delivery
+    /// @param payee Address of the payee (courier)
+    /// @param token ERC-20 token to pay in
+    /// @param amount Token amount to pull
+    /// @return paymentId The ID of the created payment
+    function createTokenPayment(
+        bytes32 deliveryId,
+        address payee,
+        address token,
+        uint256 amount
+    ) external returns (bytes32 paymentId);
+
+    /// @notice Create a payment in a confidential token with an encrypted amount
+    /// @param deliveryId ID of the delivery
+    /// @param payee Address of the payee (courier)
+    /// @param token Confidential token to pay in
+    /// @param encryptedAmount External encrypted token amount
+    /// @param amountProof ZK proof for amount encryption
+    /// @return paymentId The ID of the created payment
+    function createConfidentialPayment(
+        bytes32 deliveryId,
+        address payee,
+        address token,
+        externalEuint64 encryptedAmount,
+        bytes calldata amountProof
+    ) external returns (bytes32 paymentId);
+
+    /// @notice Create a confidential-token payment released in encrypted tranches
+    /// @param deliveryId ID of the delivery
+    /// @param payee Address of the payee (courier)
+    /// @param token Confidential token to pay in
+    /// @param trancheAmounts External encrypted amount per milestone
+    /// @param checkpoints Index of the delivery checkpoint each milestone is tied to
+    /// @param amountProof ZK proof covering every tranche amount
+    /// @return paymentId The ID of the created payment
+    function createMilestonePayment(
+        bytes32 deliveryId,
+        address payee,
+        address token,
+        externalEuint64[] calldata trancheAmounts,
+        uint32[] calldata checkpoints,
+        bytes calldata amountProof
+    ) external returns (bytes32 paymentId);
+
+    /// @notice Release one milestone tranche to the payee (payer only)
+    /// @dev Only once the delivery has recorded the milestone's checkpoint or completed
+    /// @param paymentId ID of the payment
+    /// @param index Index of the milestone
+    function releaseMilestone(bytes32 paymentId, uint256 index) external;
+
+    /// @notice Get the milestones of a payment
+    /// @param paymentId ID of the payment
+    /// @return plan The milestones in order
+    function getMilestones(bytes32 paymentId)
+        external
+        view
+        returns (Milestone[] memory plan);
+
+    /// @notice Escrow payment for a matched trade order
+    /// @param orderId ID of the order on the trading contract
+    /// @return paymentId The ID of the created payment
+    function createTradePayment(uint256 orderId)
+        external
+        payable
+        returns (bytes32 paymentId);
+
+    /// @notice Release a trade payment to the supplier (trading contract only)
+    /// @dev Releases nothing while the payment is disputed or once a dispute settled it
+    /// @param orderId ID of the confirmed order
+    /// @return success True if payment was released
+    function releaseTradePayment(uint256 orderId)
+        external
+        returns (bool success);
+
+    /// @notice Get the payment escrowed for a trade order
+    /// @param orderId ID of the order
+    /// @return paymentId Payment ID, or zero if none
+    function getTradePayment(uint256 orderId)
+        external
+        view
+        returns (bytes32 paymentId);
+
     /// @notice Move payment to escrow
     /// @param paymentId ID of the payment
     /// @return success True if payment moved to escrow
@@ -93,6 +281,34 @@ interface IPaymentProcessor {
         bytes calldata amountProof
     ) external returns (bool success);
 
+    /// @notice Attach a delivery deadline and release window to a pending payment
+    /// @param paymentId ID of the payment
+    /// @param deliveryDeadline Timestamp the delivery must be completed by
+    /// @param releaseWindow Seconds the payer has after delivery to release or dispute
+    function setTimeLock(
+        bytes32 paymentId,
+        uint256 deliveryDeadline,
+        uint256 releaseWindow
+    ) external;
+
+    /// @notice Claim a time-locked payment once the release window has passed (payee)
+    /// @param paymentId ID of the payment
+    /// @return success True if payment was completed
+    function claimPayment(bytes32 paymentId) external returns (bool success);
+
+    /// @notice Reclaim a time-locked payment after a missed deadline (payer)
+    /// @param paymentId ID of the payment
+    /// @return success True if payment was refunded
+    function reclaimPayment(bytes32 paymentId) external returns (bool success);
+
+    /// @notice Get the time lock of a payment
+    /// @param paymentId ID of the payment
+    /// @return timeLock The time lock terms (zero if none)
+    function getTimeLock(bytes32 paymentId)
+        external
+        view
+        returns (TimeLock memory timeLock);
+
     /// @notice Get payment status
     /// @param paymentId ID of the payment
     /// @return status Current status of the payment
@@ -124,4 +340,20 @@ interface IPaymentProcessor {
     /// @notice Get platform fee percentage
     /// @return feePercentage Fee as percentage (e.g., 2 for 2%)
     function getPlatformFee() external view returns (uint256 feePercentage);
+
+    /// @notice Dispute an escrowed payment (payer or payee)
+    /// @param paymentId ID of the payment
+    function openDispute(bytes32 paymentId) external;
+
+    /// @notice Get dispute details
+    /// @param paymentId ID of the disputed payment
+    /// @return dispute The dispute details
+    function getDispute(bytes32 paymentId)
+        external
+        view
+        returns (Dispute memory dispute);
+
+    /// @notice Withdraw the caller's credited dispute split shares
+    /// @param token ERC-20 token to withdraw, or address(0) for ETH
+    function withdraw(address token) external;
 }
@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+/// @title IRawMaterialsTrading Interface
+/// @notice Minimal view of ConfidentialRawMaterialsTrading used by settlement contracts
+interface IRawMaterialsTrading {
+    /// @notice Order status, mirrors ConfidentialRawMaterialsTrading.OrderStatus
+    enum OrderStatus {
+        PENDING,
+        MATCHED,
+        COMPLETED,
+        CANCELLED
+    }
+
+    /// @notice Get public order data
+    /// @param orderId ID of the order
+    function getOrderInfo(uint256 orderId)
+        external
+        view
+        returns (
+            address buyer,
+            uint256 materialId,
+            OrderStatus status,
+            uint256 createdAt,
+            uint256 matchedAt,
+            address matchedSupplier,
+            string memory deliveryLocation
+        );
+
+    /// @notice Report that the delivery of an order was confirmed by its buyer
+    /// @dev Called by the DeliveryManager the delivery was created on
+    /// @param orderId ID of the order
+    /// @param deliveryId ID of the completed delivery
+    function onDeliveryCompleted(uint256 orderId, bytes32 deliveryId) external;
+}
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { ebool, euint32 } from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title IReputationTracker Interface
+/// @notice Minimal view of ReputationTracker used by contracts that gate on reputation
+interface IReputationTracker {
+    /// @notice Compare a participant's encrypted average rating with an encrypted threshold
+    /// @dev Only the DeliveryManager and trading contract the tracker was deployed
+    /// with may call. The caller must be allowed on the threshold and is allowed
+    /// on the result. A participant without ratings averages zero.
+    /// @param participant Address of the participant
+    /// @param threshold Encrypted minimum average rating, scaled by
+    /// ReputationTracker.REPUTATION_SCALE
+    /// @return meetsThreshold Encrypted true if the average is at least the threshold
+    function meetsReputationThreshold(address participant, euint32 threshold)
+        external
+        returns (ebool meetsThreshold);
+}
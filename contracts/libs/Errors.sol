@@ -12,6 +12,11 @@ library Errors {
     error DeliveryNotPending(bytes32 requestId);
     error InvalidProof();
     error LocationMismatch();
+    error AcceptancePending(bytes32 requestId);
+    error TooManyCheckpoints(bytes32 requestId);
+    error ProofOfDeliveryMissing(bytes32 requestId);
+    error ConfirmationMismatch(bytes32 requestId);
+    error ConfirmationExpired(bytes32 requestId);
 
     // PaymentProcessor errors
     error PaymentNotFound(bytes32 paymentId);
@@ -21,6 +26,23 @@ library Errors {
     error PaymentAlreadyProcessed(bytes32 paymentId);
     error InvalidPaymentStatus();
     error RefundFailed();
+    error TradingNotConfigured();
+    error OrderNotSettleable(uint256 orderId);
+    error TradePaymentExists(uint256 orderId);
+    error TradePaymentLocked(bytes32 paymentId);
+    error NotArbiter(address user);
+    error DisputeNotFound(bytes32 paymentId);
+    error DisputeResolutionPending(bytes32 paymentId);
+    error InvalidDisputeOutcome();
+    error TokenTransferFailed(address token);
+    error DeliveryManagerNotConfigured();
+    error NoTimeLock(bytes32 paymentId);
+    error TimeLockActive(bytes32 paymentId);
+    error DeliveryNotCompleted(bytes32 deliveryId);
+    error DeliveryCompleted(bytes32 deliveryId);
+    error NotMilestonePayment(bytes32 paymentId);
+    error MilestoneAlreadyReleased(bytes32 paymentId, uint256 index);
+    error CheckpointNotReached(bytes32 deliveryId, uint32 checkpoint);
 
     // ReputationTracker errors
     error ParticipantNotFound(address participant);
@@ -28,6 +50,7 @@ library Errors {
     error RatingOutOfRange();
     error DuplicateRating(bytes32 deliveryId);
     error UnauthorizedRatingAccess();
+    error TradeNotCompleted(uint256 orderId);
 
     // General errors
     error ZeroAddress();
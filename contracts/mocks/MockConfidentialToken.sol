@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { FHE, ebool, euint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { IConfidentialToken } from "../interfaces/IConfidentialToken.sol";
+
+/// @title Mock Confidential Token
+/// @notice Mintable ERC-7984 style token with encrypted balances for tests
+contract MockConfidentialToken is IConfidentialToken, SepoliaConfig {
+    string public name;
+    string public symbol;
+
+    mapping(address => euint64) private balances;
+    mapping(address => mapping(address => uint48)) private operators;
+
+    event ConfidentialTransfer(address indexed from, address indexed to, euint64 amount);
+    event OperatorSet(address indexed holder, address indexed operator, uint48 until);
+
+    constructor(string memory _name, string memory _symbol) {
+        name = _name;
+        symbol = _symbol;
+    }
+
+    /// @notice Mint a plaintext amount to any address
+    function mint(address to, uint64 amount) external {
+        balances[to] = FHE.add(balances[to], FHE.asEuint64(amount));
+        FHE.allowThis(balances[to]);
+        FHE.allow(balances[to], to);
+    }
+
+    function setOperator(address operator, uint48 until) external override {
+        operators[msg.sender][operator] = until;
+        emit OperatorSet(msg.sender, operator, until);
+    }
+
+    function isOperator(address holder, address spender) public view override returns (bool) {
+        return holder == spender || block.timestamp <= operators[holder][spender];
+    }
+
+    function confidentialBalanceOf(address account) external view override returns (euint64) {
+        return balances[account];
+    }
+
+    function confidentialTransfer(address to, euint64 amount)
+        external
+        override
+        returns (euint64 transferred)
+    {
+        require(FHE.isSenderAllowed(amount), "Unauthorized amount");
+        return _transfer(msg.sender, to, amount);
+    }
+
+    function confidentialTransferFrom(address from, address to, euint64 amount)
+        external
+        override
+        returns (euint64 transferred)
+    {
+        require(FHE.isSenderAllowed(amount), "Unauthorized amount");
+        require(isOperator(from, msg.sender), "Not an operator");
+        return _transfer(from, to, amount);
+    }
+
+    /// @dev Moves zero instead of reverting when the balance is too low
+    function _transfer(address from, address to, euint64 amount) private returns (euint64 transferred) {
+        require(to != address(0), "Invalid receiver");
+
+        ebool sufficient = FHE.le(amount, balances[from]);
+        transferred = FHE.select(sufficient, amount, FHE.asEuint64(0));
+
+        balances[from] = FHE.sub(balances[from], transferred);
+        balances[to] = FHE.add(balances[to], transferred);
+
+        FHE.allowThis(balances[from]);
+        FHE.allow(balances[from], from);
+        FHE.allowThis(balances[to]);
+        FHE.allow(balances[to], to);
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, from);
+        FHE.allow(transferred, to);
+        FHE.allowTransient(transferred, msg.sender);
+
+        emit ConfidentialTransfer(from, to, transferred);
+    }
+}
@@ -1,28 +1,52 @@
-import { ethers } from "hardhat";
+/**
+ * Deploy Script
+ *
+ * Deploys the six platform contracts in dependency order, wires them to each
+ * other and records addresses, transaction hashes, block numbers and
+ * constructor arguments in deployments/<network>.json (see
+ * sdk/deployments.ts). The other scripts and the frontend read their
+ * addresses from that manifest.
+ *
+ * Re-running is safe: contracts already in the manifest are reused, and only
+ * missing or stale ones are deployed again.
+ *
+ * Environment:
+ *   GATE_COURIERS  set to "true" to make DeliveryManager require a minimum
+ *                  courier reputation (default off)
+ *
+ * Usage: npx hardhat run scripts/deploy.ts --network sepolia
+ */
+
+import hre, { ethers } from "hardhat";
+import { deployPlatform, manifestPath } from "../sdk";
 
 async function main() {
-  console.log("Deploying Anonymous Delivery Network contract...");
-
-  const AnonymousDelivery = await ethers.getContractFactory("AnonymousDelivery");
-  const contract = await AnonymousDelivery.deploy();
-
-  await contract.deployed();
-
-  console.log("✅ AnonymousDelivery contract deployed to:", contract.address);
-  console.log("🔒 Contract supports FHE encryption for privacy-preserving deliveries");
-
-  // Update the contract address in the frontend
-  console.log("\n📝 Update the CONTRACT_ADDRESS in index.html to:");
-  console.log(`const CONTRACT_ADDRESS = "${contract.address}";`);
-
-  console.log("\n🌐 Network Information:");
-  console.log("- Zama Devnet: https://devnet.zama.ai/");
-  console.log("- Sepolia Testnet: https://rpc.sepolia.org");
-
-  console.log("\n🚀 Deployment completed successfully!");
+  const [deployer] = await ethers.getSigners();
+  const network = hre.network.name;
+
+  console.log(`🚀 Deploying platform contracts to ${network}`);
+  console.log("Deployer:", deployer.address);
+  console.log();
+
+  const { manifest, deployed, reused, wired } = await deployPlatform(deployer, {
+    network,
+    gateCouriersOnReputation: process.env.GATE_COURIERS === "true",
+    log: console.log,
+  });
+
+  console.log("\n═══════════════════════════════════════");
+  for (const [name, record] of Object.entries(manifest.contracts)) {
+    console.log(`${name}: ${record.address}`);
+  }
+  console.log("═══════════════════════════════════════");
+  console.log(
+    `Deployed ${deployed.length}, reused ${reused.length}, wired ${wired.length}`
+  );
+  console.log("📝 Manifest:", manifestPath(network));
+  console.log("\n✅ Deployment complete!");
 }
 
 main().catch((error) => {
   console.error("❌ Deployment failed:", error);
   process.exitCode = 1;
-});
\ No newline at end of file
+});
@@ -202,6 +202,15 @@ const EXAMPLES_CONFIG: Record<string, DocsConfig> = {
     output: 'docs/blind-auction.md',
     category: 'Advanced - Auctions',
   },
+
+  'reverse-blind-auction': {
+    title: 'Reverse Blind Auction',
+    description: 'This example demonstrates a procurement auction where the lowest sealed price within an encrypted reserve wins a raw material lot.',
+    contract: 'contracts/auctions/ReverseBlindAuction.sol',
+    test: 'test/auctions/ReverseBlindAuction.test.ts',
+    output: 'docs/reverse-blind-auction.md',
+    category: 'Advanced - Auctions',
+  },
 };
 
 function readFile(filePath: string): string {
@@ -0,0 +1,96 @@
+/**
+ * Event Indexer Script
+ *
+ * Backfills the platform contracts' events into a local JSON store and keeps
+ * polling for new blocks. Stopping and restarting resumes from the last
+ * indexed block. Contract addresses come from the network's deployment
+ * manifest (deployments/<network>.json).
+ *
+ * Environment:
+ *   START_BLOCK    first block on a fresh store (default: the earliest
+ *                  deployment block in the manifest)
+ *   CONFIRMATIONS  blocks to stay behind the head (default 12)
+ *   INDEX_FILE     store location (default data/events.json)
+ *   POLL_INTERVAL  seconds between syncs (default 15)
+ *
+ * Usage: npx hardhat run scripts/index-events.ts --network sepolia
+ */
+
+import hre, { ethers } from "hardhat";
+import {
+  EventIndexer,
+  JsonEventStore,
+  loadManifest,
+  manifestContracts,
+} from "../sdk";
+
+async function main() {
+  const manifest = await loadManifest(hre.network.name);
+  const contracts = manifestContracts(manifest);
+  const firstBlock = Math.min(
+    ...Object.values(manifest.contracts).map((record) => record.blockNumber)
+  );
+
+  const file = process.env.INDEX_FILE ?? "data/events.json";
+  const store = await JsonEventStore.open(file);
+  const indexer = new EventIndexer(ethers.provider, store, contracts, {
+    startBlock: Number(process.env.START_BLOCK ?? firstBlock),
+    confirmations: process.env.CONFIRMATIONS
+      ? Number(process.env.CONFIRMATIONS)
+      : undefined,
+  });
+  const interval = Number(process.env.POLL_INTERVAL ?? 15) * 1000;
+
+  console.log("🗂️  Indexing events into", file);
+  for (const { name, address } of contracts) {
+    console.log(`  - ${name}: ${address}`);
+  }
+  const cursor = store.getCursor();
+  console.log(
+    cursor
+      ? `Resuming after block ${cursor.blockNumber} (${
+          store.getEvents().length
+        } events)`
+      : `Starting at block ${indexer.startBlock}`
+  );
+  console.log("Press Ctrl+C to stop\n");
+
+  let stopped = false;
+  process.on("SIGINT", () => {
+    stopped = true;
+  });
+
+  while (!stopped) {
+    const result = await indexer.sync();
+    if (result.rolledBackTo !== undefined) {
+      console.log(
+        `⚠️  Reorg detected, rolled back to block ${result.rolledBackTo}`
+      );
+    }
+    if (result.toBlock !== undefined) {
+      console.log(
+        `✓ Blocks ${result.fromBlock}-${result.toBlock}: ${result.eventCount} events`
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+
+  const events = store.getEvents();
+  const orders = new Set(
+    events
+      .filter((e) => e.event === "OrderPlaced")
+      .map((e) => `${e.address}:${e.args.orderId}`)
+  );
+  const payments = events.filter((e) => e.event === "PaymentCreated");
+  console.log("\n═══════════════════════════════════════");
+  console.log(`Indexed up to block ${store.getCursor()?.blockNumber ?? "-"}`);
+  console.log(`Events: ${events.length}`);
+  console.log(`Orders: ${orders.size}`);
+  console.log(`Payments: ${payments.length}`);
+  console.log("═══════════════════════════════════════");
+}
+
+main().catch((error) => {
+  console.error("❌ Indexer failed:", error);
+  process.exitCode = 1;
+});
@@ -6,10 +6,19 @@
  * - Buyer verification
  * - Test data setup
  *
+ * The trading contract address comes from the network's deployment manifest
+ * (deployments/<network>.json), written by scripts/deploy.ts.
+ *
  * Usage: npx hardhat run scripts/initialize.ts --network sepolia
  */
 
-import { ethers } from "hardhat";
+import hre, { ethers } from "hardhat";
+import {
+  loadManifest,
+  manifestAddress,
+  MaterialCategory,
+  TradingClient,
+} from "../sdk";
 
 async function main() {
   console.log("⚙️ Initializing ConfidentialRawMaterialsTrading...\n");
@@ -18,18 +27,14 @@ async function main() {
     await ethers.getSigners();
 
   // Get deployed contract
-  const contractAddress = process.env.CONTRACT_ADDRESS;
-  if (!contractAddress) {
-    throw new Error(
-      "CONTRACT_ADDRESS not set in environment. Deploy first!"
-    );
-  }
-
-  const contract = await ethers.getContractAt(
-    "ConfidentialRawMaterialsTrading",
-    contractAddress
+  const manifest = await loadManifest(hre.network.name);
+  const contractAddress = manifestAddress(
+    manifest,
+    "ConfidentialRawMaterialsTrading"
   );
 
+  const client = TradingClient.connect(contractAddress, owner);
+
   console.log("Contract:", contractAddress);
   console.log("Owner:", owner.address);
   console.log("Supplier 1:", supplier1.address);
@@ -40,30 +45,26 @@ async function main() {
 
   // Verify suppliers
   console.log("📌 Verifying suppliers...");
-  let tx = await contract.connect(owner).verifySupplier(supplier1.address);
-  await tx.wait();
+  await client.verifySupplier(supplier1.address);
   console.log("✓ Supplier 1 verified");
 
-  tx = await contract.connect(owner).verifySupplier(supplier2.address);
-  await tx.wait();
+  await client.verifySupplier(supplier2.address);
   console.log("✓ Supplier 2 verified");
 
   // Verify buyers
   console.log("\n📌 Verifying buyers...");
-  tx = await contract.connect(owner).verifyBuyer(buyer1.address);
-  await tx.wait();
+  await client.verifyBuyer(buyer1.address);
   console.log("✓ Buyer 1 verified");
 
-  tx = await contract.connect(owner).verifyBuyer(buyer2.address);
-  await tx.wait();
+  await client.verifyBuyer(buyer2.address);
   console.log("✓ Buyer 2 verified");
 
   // Check verification status
   console.log("\n✅ Verification status:");
-  const isSupplier1 = await contract.verifiedSuppliers(supplier1.address);
-  const isSupplier2 = await contract.verifiedSuppliers(supplier2.address);
-  const isBuyer1 = await contract.verifiedBuyers(buyer1.address);
-  const isBuyer2 = await contract.verifiedBuyers(buyer2.address);
+  const isSupplier1 = await client.isVerifiedSupplier(supplier1.address);
+  const isSupplier2 = await client.isVerifiedSupplier(supplier2.address);
+  const isBuyer1 = await client.isVerifiedBuyer(buyer1.address);
+  const isBuyer2 = await client.isVerifiedBuyer(buyer2.address);
 
   console.log("Supplier 1 verified:", isSupplier1);
   console.log("Supplier 2 verified:", isSupplier2);
@@ -75,60 +76,61 @@ async function main() {
 
   try {
     // Add material from supplier 1
-    tx = await contract.connect(supplier1).listMaterial(
-      "Steel Coils",
-      0, // METALS
-      1000, // quantity
-      50000n, // price per unit ($500)
-      100, // min order
-      "A1", // quality grade
-      14 // delivery timeframe in days
-    );
-    await tx.wait();
+    await client.withRunner(supplier1).listMaterial({
+      name: "Steel Coils",
+      category: MaterialCategory.METALS,
+      quantity: 1000,
+      pricePerUnit: 50000n, // $500
+      minOrder: 100,
+      qualityGrade: "A1",
+      deliveryTimeframeDays: 14,
+    });
     console.log("✓ Added: Steel Coils");
 
     // Add material from supplier 2
-    tx = await contract.connect(supplier2).listMaterial(
-      "Copper Sheets",
-      0, // METALS
-      500, // quantity
-      75000n, // price per unit ($750)
-      50, // min order
-      "AAA", // quality grade
-      10 // delivery timeframe
-    );
-    await tx.wait();
+    await client.withRunner(supplier2).listMaterial({
+      name: "Copper Sheets",
+      category: MaterialCategory.METALS,
+      quantity: 500,
+      pricePerUnit: 75000n, // $750
+      minOrder: 50,
+      qualityGrade: "AAA",
+      deliveryTimeframeDays: 10,
+    });
     console.log("✓ Added: Copper Sheets");
 
     // Add chemical material
-    tx = await contract.connect(supplier1).listMaterial(
-      "Industrial Polymer",
-      1, // CHEMICALS
-      2000, // quantity
-      25000n, // price per unit ($250)
-      200, // min order
-      "B2", // quality grade
-      21 // delivery timeframe
-    );
-    await tx.wait();
+    await client.withRunner(supplier1).listMaterial({
+      name: "Industrial Polymer",
+      category: MaterialCategory.CHEMICALS,
+      quantity: 2000,
+      pricePerUnit: 25000n, // $250
+      minOrder: 200,
+      qualityGrade: "B2",
+      deliveryTimeframeDays: 21,
+    });
     console.log("✓ Added: Industrial Polymer");
 
     // Get materials by category
     console.log("\n📊 Materials by category:");
-    const metalMaterials = await contract.getMaterialsByCategory(0); // METALS
+    const metalMaterials = await client.getMaterialsByCategory(
+      MaterialCategory.METALS
+    );
     console.log("Metals:", metalMaterials.length, "materials");
 
-    const chemMaterials = await contract.getMaterialsByCategory(1); // CHEMICALS
+    const chemMaterials = await client.getMaterialsByCategory(
+      MaterialCategory.CHEMICALS
+    );
     console.log("Chemicals:", chemMaterials.length, "materials");
 
     console.log("\n✅ Initialization complete!");
     console.log("\nDeployed Materials:");
     for (const materialId of metalMaterials) {
-      const info = await contract.getMaterialInfo(materialId);
+      const info = await client.getMaterialInfo(materialId);
       console.log(`  - ID ${materialId}: ${info.name}`);
     }
     for (const materialId of chemMaterials) {
-      const info = await contract.getMaterialInfo(materialId);
+      const info = await client.getMaterialInfo(materialId);
       console.log(`  - ID ${materialId}: ${info.name}`);
     }
   } catch (error) {
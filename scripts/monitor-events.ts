@@ -1,129 +1,158 @@
 /**
  * Monitor Events Script
  *
- * Listens for contract events in real-time
- * Usage: npx hardhat run scripts/monitor-events.ts --network sepolia
+ * Listens for events of several deployed contracts in real-time and prints
+ * the ones matching the configured filters, either as NDJSON on stdout for
+ * ops tooling or as readable boxes. In NDJSON mode status messages go to
+ * stderr, so stdout can be piped straight into jq or a log shipper.
+ *
+ * Set MONITOR_CONFIG to a JSON file:
+ *   {
+ *     "format": "ndjson",
+ *     "contracts": [
+ *       { "name": "ConfidentialRawMaterialsTrading", "address": "0x..." },
+ *       { "name": "PaymentProcessor", "address": "0x..." }
+ *     ],
+ *     "filters": [
+ *       { "events": ["TradeMatched"], "args": { "supplier": "0x..." } },
+ *       { "events": ["DisputeOpened", "DisputeResolved"] }
+ *     ]
+ *   }
+ * An event is shown if it matches any filter, and every event when there
+ * are none. Contract names are those of the event indexer.
+ *
+ * Without a config file every contract in the network's deployment manifest
+ * (deployments/<network>.json) is watched, with no filters. MONITOR_FORMAT
+ * overrides the output format either way.
+ *
+ * Set ALERT_RULES to a JSON rules file to also raise alerts (see
+ * sdk/alerts.ts), checked against chain time every ALERT_INTERVAL seconds
+ * (default 60):
+ *   {
+ *     "rules": [
+ *       { "name": "stale-match", "type": "unconfirmedMatch", "hours": 24 },
+ *       { "name": "late-escrow", "type": "overdueEscrow", "hours": 72 },
+ *       { "name": "metals", "type": "categoryListing", "categories": ["METALS"] }
+ *     ],
+ *     "sinks": [
+ *       { "type": "webhook", "url": "https://ops.example.com/hooks/trading" },
+ *       { "type": "file", "path": "data/alerts.ndjson" }
+ *     ]
+ *   }
+ * Rules see every event of the configured contracts, whatever the filters,
+ * but only events seen since the monitor started.
+ *
+ * Usage: MONITOR_CONFIG=monitor.json npx hardhat run scripts/monitor-events.ts --network sepolia
  */
 
-import { ethers } from "hardhat";
+import { promises as fs } from "fs";
+import hre, { ethers } from "hardhat";
+import {
+  AlertEngine,
+  createSinks,
+  formatEvent,
+  loadManifest,
+  manifestContracts,
+  MonitorConfig,
+  parseAlertConfig,
+  parseMonitorConfig,
+  watchEvents,
+} from "../sdk";
 
-async function main() {
-  console.log("👂 Listening for contract events...\n");
-
-  const contractAddress = process.env.CONTRACT_ADDRESS;
-  if (!contractAddress) {
-    throw new Error(
-      "CONTRACT_ADDRESS not set in environment. Deploy first!"
-    );
+async function loadConfig(): Promise<MonitorConfig> {
+  let raw: unknown;
+  const file = process.env.MONITOR_CONFIG;
+  if (file) {
+    raw = JSON.parse(await fs.readFile(file, "utf8"));
+  } else {
+    raw = {
+      contracts: manifestContracts(await loadManifest(hre.network.name)),
+    };
+  }
+  const format = process.env.MONITOR_FORMAT;
+  if (format && typeof raw === "object") {
+    raw = { ...raw, format };
   }
+  return parseMonitorConfig(raw);
+}
 
-  const contract = await ethers.getContractAt(
-    "ConfidentialRawMaterialsTrading",
-    contractAddress
+async function loadAlerts(): Promise<AlertEngine | undefined> {
+  const file = process.env.ALERT_RULES;
+  if (!file) {
+    return undefined;
+  }
+  const config = parseAlertConfig(JSON.parse(await fs.readFile(file, "utf8")));
+  return new AlertEngine(
+    ethers.provider,
+    config.rules,
+    createSinks(config.sinks)
   );
+}
+
+async function main() {
+  const config = await loadConfig();
+  const alerts = await loadAlerts();
+  // Keep stdout for events in NDJSON mode
+  const status = config.format === "ndjson" ? console.error : console.log;
 
-  // Counters for events
   let eventCount = 0;
   const startTime = new Date();
 
-  // Listen for MaterialListed
-  contract.on("MaterialListed", (materialId, supplier, category, event) => {
-    eventCount++;
-    const categoryNames = [
-      "METALS",
-      "CHEMICALS",
-      "ENERGY",
-      "AGRICULTURAL",
-      "TEXTILES",
-      "MINERALS",
-    ];
-    console.log(`
-┌─ EVENT #${eventCount}: MaterialListed
-├─ Material ID: ${materialId}
-├─ Supplier: ${supplier.substring(0, 10)}...
-├─ Category: ${categoryNames[category] || "Unknown"}
-├─ Block: ${event.blockNumber}
-└─ Tx Hash: ${event.transactionHash.substring(0, 20)}...
-    `);
-  });
-
-  // Listen for OrderPlaced
-  contract.on("OrderPlaced", (orderId, buyer, materialId, event) => {
-    eventCount++;
-    console.log(`
-┌─ EVENT #${eventCount}: OrderPlaced
-├─ Order ID: ${orderId}
-├─ Buyer: ${buyer.substring(0, 10)}...
-├─ Material ID: ${materialId}
-├─ Block: ${event.blockNumber}
-└─ Tx Hash: ${event.transactionHash.substring(0, 20)}...
-    `);
-  });
-
-  // Listen for TradeMatched
-  contract.on("TradeMatched", (orderId, materialId, buyer, supplier, event) => {
-    eventCount++;
-    console.log(`
-┌─ EVENT #${eventCount}: TradeMatched
-├─ Order ID: ${orderId}
-├─ Material ID: ${materialId}
-├─ Buyer: ${buyer.substring(0, 10)}...
-├─ Supplier: ${supplier.substring(0, 10)}...
-├─ Block: ${event.blockNumber}
-└─ Tx Hash: ${event.transactionHash.substring(0, 20)}...
-    `);
-  });
-
-  // Listen for TradeCompleted
-  contract.on("TradeCompleted", (orderId, materialId, event) => {
-    eventCount++;
-    console.log(`
-┌─ EVENT #${eventCount}: TradeCompleted
-├─ Order ID: ${orderId}
-├─ Material ID: ${materialId}
-├─ Block: ${event.blockNumber}
-└─ Tx Hash: ${event.transactionHash.substring(0, 20)}...
-    `);
-  });
-
-  // Listen for SupplierVerified
-  contract.on("SupplierVerified", (supplier, event) => {
-    eventCount++;
-    console.log(`
-┌─ EVENT #${eventCount}: SupplierVerified
-├─ Supplier: ${supplier.substring(0, 10)}...
-├─ Block: ${event.blockNumber}
-└─ Tx Hash: ${event.transactionHash.substring(0, 20)}...
-    `);
-  });
+  const stops = [
+    await watchEvents(ethers.provider, config, (event) => {
+      eventCount++;
+      console.log(formatEvent(event, config.format, eventCount));
+      if (config.format === "pretty") {
+        console.log();
+      }
+    }),
+  ];
 
-  // Listen for BuyerVerified
-  contract.on("BuyerVerified", (buyer, event) => {
-    eventCount++;
-    console.log(`
-┌─ EVENT #${eventCount}: BuyerVerified
-├─ Buyer: ${buyer.substring(0, 10)}...
-├─ Block: ${event.blockNumber}
-└─ Tx Hash: ${event.transactionHash.substring(0, 20)}...
-    `);
-  });
+  // Alert rules see the unfiltered stream, so completions clear alerts
+  let alertInterval: NodeJS.Timeout | undefined;
+  if (alerts) {
+    const report = (error: unknown) =>
+      console.error("Alert rules failed:", error);
+    stops.push(
+      await watchEvents(
+        ethers.provider,
+        { contracts: config.contracts, filters: [] },
+        (event) => alerts.handle(event).catch(report)
+      )
+    );
+    const seconds = Number(process.env.ALERT_INTERVAL ?? 60);
+    alertInterval = setInterval(
+      () => alerts.tick().catch(report),
+      seconds * 1000
+    );
+  }
 
   // Display monitoring info
-  console.log("═══════════════════════════════════════");
-  console.log("CONTRACT EVENT MONITOR");
-  console.log("═══════════════════════════════════════");
-  console.log(`Contract: ${contractAddress}`);
-  console.log(`Started: ${startTime.toISOString()}`);
-  console.log("═══════════════════════════════════════");
-  console.log("Monitoring events:");
-  console.log("  - MaterialListed");
-  console.log("  - OrderPlaced");
-  console.log("  - TradeMatched");
-  console.log("  - TradeCompleted");
-  console.log("  - SupplierVerified");
-  console.log("  - BuyerVerified");
-  console.log("═══════════════════════════════════════\n");
-  console.log("Press Ctrl+C to stop monitoring\n");
+  status("═══════════════════════════════════════");
+  status("CONTRACT EVENT MONITOR");
+  status("═══════════════════════════════════════");
+  for (const { name, address } of config.contracts) {
+    status(`${name}: ${address}`);
+  }
+  status(`Started: ${startTime.toISOString()}`);
+  if (config.filters.length === 0) {
+    status("Filters: none (all events)");
+  }
+  config.filters.forEach((filter, i) => {
+    const parts = [
+      filter.events && `events=${filter.events.join(",")}`,
+      filter.addresses && `addresses=${filter.addresses.join(",")}`,
+      ...Object.entries(filter.args ?? {}).map(([k, v]) => `${k}=${v}`),
+    ].filter(Boolean);
+    status(`Filter ${i + 1}: ${parts.join(" ") || "(any)"}`);
+  });
+  if (alerts) {
+    for (const rule of alerts.rules) {
+      status(`Alert: ${rule.name} (${rule.type})`);
+    }
+  }
+  status("═══════════════════════════════════════");
+  status("Press Ctrl+C to stop monitoring\n");
 
   // Periodic status
   let lastCount = 0;
@@ -132,25 +161,31 @@ async function main() {
       (new Date().getTime() - startTime.getTime()) / 1000
     );
     const newEvents = eventCount - lastCount;
-    console.log(
-      `⏱️  [${elapsed}s] Events: ${eventCount} | New: ${newEvents} | Rate: ${(newEvents / 60).toFixed(2)}/min`
+    status(
+      `⏱️  [${elapsed}s] Events: ${eventCount} | New: ${newEvents} | Rate: ${(
+        newEvents / 60
+      ).toFixed(2)}/min`
     );
     lastCount = eventCount;
   }, 60000); // Every minute
 
   // Handle exit gracefully
-  process.on("SIGINT", () => {
+  process.on("SIGINT", async () => {
     clearInterval(statusInterval);
+    clearInterval(alertInterval);
+    for (const stop of stops) {
+      await stop();
+    }
     const elapsed = Math.floor(
       (new Date().getTime() - startTime.getTime()) / 1000
     );
-    console.log("\n\n═══════════════════════════════════════");
-    console.log("MONITORING STOPPED");
-    console.log("═══════════════════════════════════════");
-    console.log(`Total Events: ${eventCount}`);
-    console.log(`Duration: ${elapsed} seconds`);
-    console.log(`Average Rate: ${(eventCount / (elapsed / 60)).toFixed(2)}/min`);
-    console.log("═══════════════════════════════════════\n");
+    status("\n═══════════════════════════════════════");
+    status("MONITORING STOPPED");
+    status("═══════════════════════════════════════");
+    status(`Total Events: ${eventCount}`);
+    status(`Duration: ${elapsed} seconds`);
+    status(`Average Rate: ${(eventCount / (elapsed / 60)).toFixed(2)}/min`);
+    status("═══════════════════════════════════════\n");
     process.exit(0);
   });
 }
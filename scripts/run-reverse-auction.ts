@@ -0,0 +1,103 @@
+/**
+ * Reverse Auction Script
+ *
+ * Deploys a ReverseBlindAuction for a raw material lot and drives it:
+ * - Sets the encrypted reserve price
+ * - Collects sealed unit prices from suppliers
+ * - Ends the auction and waits for the oracle to settle it
+ *
+ * Encrypting inputs and fulfilling decryptions needs the FHEVM runtime, so
+ * run it against a local `npx hardhat node`, where the FHEVM plugin mocks both.
+ *
+ * Usage: npx hardhat run scripts/run-reverse-auction.ts --network localhost
+ */
+
+import hre, { ethers } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { MaterialCategory } from "../sdk";
+import { ReverseBlindAuction__factory } from "../typechain-types";
+
+const LOT_QUANTITY = 5000;
+const RESERVE_PRICE = 50000n;
+const BIDS: bigint[] = [51000n, 47250n, 49900n];
+const DURATION = 3600;
+
+async function main() {
+  const { fhevm } = hre;
+  await fhevm.initializeCLIApi();
+  if (!fhevm.isMock) {
+    throw new Error("Needs the FHEVM mock. Run with --network localhost.");
+  }
+
+  const [buyer, ...suppliers] = await ethers.getSigners();
+  const bidding = suppliers.slice(0, BIDS.length);
+
+  console.log("🔻 Deploying ReverseBlindAuction...");
+  const Factory = await ethers.getContractFactory("ReverseBlindAuction");
+  const deployed = await Factory.deploy(
+    LOT_QUANTITY,
+    MaterialCategory.METALS,
+    DURATION
+  );
+  await deployed.waitForDeployment();
+  const auctionAddress = await deployed.getAddress();
+  const auction = ReverseBlindAuction__factory.connect(auctionAddress, buyer);
+
+  console.log("Auction:", auctionAddress);
+  console.log(`Lot: ${LOT_QUANTITY} units of METALS`);
+  console.log();
+
+  // Encrypted reserve
+  const reserve = await fhevm
+    .createEncryptedInput(auctionAddress, buyer.address)
+    .add64(RESERVE_PRICE)
+    .encrypt();
+  await (
+    await auction.setReservePrice(reserve.handles[0], reserve.inputProof)
+  ).wait();
+  console.log("✓ Reserve price set (encrypted)");
+
+  // Sealed bids
+  for (let i = 0; i < bidding.length; i++) {
+    const supplier = bidding[i];
+    const encrypted = await fhevm
+      .createEncryptedInput(auctionAddress, supplier.address)
+      .add64(BIDS[i])
+      .encrypt();
+
+    await (
+      await auction
+        .connect(supplier)
+        .placeBid(encrypted.handles[0], encrypted.inputProof)
+    ).wait();
+    console.log(`✓ Bid from ${supplier.address.substring(0, 10)}...`);
+  }
+
+  // End and settle
+  await ethers.provider.send("evm_increaseTime", [DURATION]);
+  await ethers.provider.send("evm_mine", []);
+
+  await (await auction.endAuction()).wait();
+  console.log("\n⏳ Waiting for the decryption oracle...");
+  await fhevm.awaitDecryptionOracle();
+
+  const settlement = await auction.settlement();
+  if (settlement.supplier === ethers.ZeroAddress) {
+    console.log("\n❌ Reserve not met, lot not awarded");
+    return;
+  }
+
+  console.log(`\n🏆 Lot awarded to: ${settlement.supplier}`);
+  const price = await fhevm.userDecryptEuint(
+    FhevmType.euint64,
+    settlement.encryptedPrice,
+    auctionAddress,
+    buyer
+  );
+  console.log(`💰 Unit price (visible to buyer and supplier only): ${price}`);
+}
+
+main().catch((error) => {
+  console.error("❌ Reverse auction failed:", error);
+  process.exitCode = 1;
+});
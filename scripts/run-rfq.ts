@@ -0,0 +1,117 @@
+/**
+ * RFQ Round Script
+ *
+ * Drives one full request-for-quote round:
+ * - Deploys (or attaches to) the trading and RFQ contracts
+ * - Verifies a buyer and three suppliers
+ * - Posts an RFQ, collects encrypted quotes and closes it
+ * - Waits for the oracle to reveal the winning supplier
+ *
+ * Encrypting quotes and fulfilling decryptions needs the FHEVM runtime, so
+ * run it against a local `npx hardhat node`, where the FHEVM plugin mocks both.
+ *
+ * Usage: npx hardhat run scripts/run-rfq.ts --network localhost
+ *        TRADING_ADDRESS=0x... RFQ_ADDRESS=0x... npx hardhat run scripts/run-rfq.ts --network localhost
+ */
+
+import hre, { ethers } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { MaterialCategory, TradingClient } from "../sdk";
+import { ConfidentialRFQ__factory } from "../typechain-types";
+
+const QUOTES: bigint[] = [52000n, 48500n, 50100n];
+const RFQ_DURATION = 3600;
+
+async function main() {
+  const { fhevm } = hre;
+  await fhevm.initializeCLIApi();
+  if (!fhevm.isMock) {
+    throw new Error("Needs the FHEVM mock. Run with --network localhost.");
+  }
+
+  const [owner, buyer, ...suppliers] = await ethers.getSigners();
+  const quoting = suppliers.slice(0, QUOTES.length);
+
+  let tradingAddress = process.env.TRADING_ADDRESS;
+  if (!tradingAddress) {
+    const Trading = await ethers.getContractFactory(
+      "ConfidentialRawMaterialsTrading"
+    );
+    const trading = await Trading.deploy();
+    await trading.waitForDeployment();
+    tradingAddress = await trading.getAddress();
+  }
+
+  let rfqAddress = process.env.RFQ_ADDRESS;
+  if (!rfqAddress) {
+    const RFQ = await ethers.getContractFactory("ConfidentialRFQ");
+    const deployed = await RFQ.deploy(tradingAddress);
+    await deployed.waitForDeployment();
+    rfqAddress = await deployed.getAddress();
+  }
+
+  console.log("📋 Running RFQ round");
+  console.log("Trading:", tradingAddress);
+  console.log("RFQ:", rfqAddress);
+  console.log();
+
+  // Verify participants on the trading contract
+  const client = TradingClient.connect(tradingAddress, owner);
+  if (!(await client.isVerifiedBuyer(buyer.address))) {
+    await client.verifyBuyer(buyer.address);
+  }
+  for (const supplier of quoting) {
+    if (!(await client.isVerifiedSupplier(supplier.address))) {
+      await client.verifySupplier(supplier.address);
+    }
+  }
+  console.log("✓ Buyer and suppliers verified");
+
+  // Post the RFQ
+  const rfq = ConfidentialRFQ__factory.connect(rfqAddress, buyer);
+  const rfqId = await rfq.nextRfqId();
+  await (
+    await rfq.createRFQ(MaterialCategory.METALS, "A1", RFQ_DURATION)
+  ).wait();
+  console.log(`✓ RFQ #${rfqId} posted (METALS, grade A1)`);
+
+  // Collect sealed quotes
+  for (let i = 0; i < quoting.length; i++) {
+    const supplier = quoting[i];
+    const encrypted = await fhevm
+      .createEncryptedInput(rfqAddress, supplier.address)
+      .add64(QUOTES[i])
+      .encrypt();
+
+    await (
+      await rfq
+        .connect(supplier)
+        .submitQuote(rfqId, encrypted.handles[0], encrypted.inputProof)
+    ).wait();
+    console.log(`✓ Quote from ${supplier.address.substring(0, 10)}...`);
+  }
+
+  // Close after the deadline and reveal the winner
+  await ethers.provider.send("evm_increaseTime", [RFQ_DURATION]);
+  await ethers.provider.send("evm_mine", []);
+
+  await (await rfq.closeRFQ(rfqId)).wait();
+  console.log("\n⏳ Waiting for the decryption oracle...");
+  await fhevm.awaitDecryptionOracle();
+
+  const info = await rfq.getRFQInfo(rfqId);
+  console.log(`\n🏆 Winner: ${info.winner}`);
+
+  const winningQuote = await fhevm.userDecryptEuint(
+    FhevmType.euint64,
+    await rfq.getWinningQuote(rfqId),
+    rfqAddress,
+    buyer
+  );
+  console.log(`💰 Winning unit price (visible to buyer only): ${winningQuote}`);
+}
+
+main().catch((error) => {
+  console.error("❌ RFQ round failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,45 @@
+/**
+ * API Gateway Script
+ *
+ * Serves the platform contracts over HTTP (see sdk/gateway.ts): read
+ * endpoints for materials, orders, matches, deliveries, payments and
+ * reputation, and a relay for transactions signed by the caller. The
+ * OpenAPI description is at /openapi.json. Contract addresses come from the
+ * network's deployment manifest (deployments/<network>.json); contracts
+ * missing from it are left out, and their endpoints answer NOT_CONFIGURED.
+ *
+ * Environment:
+ *   API_HOST  interface to bind (default 127.0.0.1)
+ *   API_PORT  port (default 8080)
+ *
+ * Usage: npx hardhat run scripts/serve-api.ts --network sepolia
+ */
+
+import hre, { ethers } from "hardhat";
+import { createGateway, loadManifest, manifestContracts } from "../sdk";
+
+async function main() {
+  const contracts = manifestContracts(await loadManifest(hre.network.name));
+
+  const host = process.env.API_HOST ?? "127.0.0.1";
+  const port = Number(process.env.API_PORT ?? 8080);
+  const server = createGateway(ethers.provider, contracts);
+  await new Promise<void>((resolve) => server.listen(port, host, resolve));
+
+  console.log(`🌐 Gateway listening on http://${host}:${port}`);
+  for (const { name, address } of contracts) {
+    console.log(`  - ${name}: ${address}`);
+  }
+  console.log(`OpenAPI: http://${host}:${port}/openapi.json`);
+  console.log("Press Ctrl+C to stop\n");
+
+  // Keep running until interrupted
+  await new Promise<void>((resolve) => process.on("SIGINT", resolve));
+  await new Promise((resolve) => server.close(resolve));
+  console.log("\nGateway stopped");
+}
+
+main().catch((error) => {
+  console.error("❌ Gateway failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,58 @@
+/**
+ * Delivery Tracking Script
+ *
+ * Prints the timeline of a delivery request: when it was requested,
+ * accepted, each courier checkpoint and its completion or cancellation.
+ *
+ * Checkpoints can only be read by the requester or the assigned courier, so
+ * the script signs as TRACKER_ACCOUNT (an index into the configured signers,
+ * default 0). Checkpoint locations and condition readings are decrypted for
+ * that account through the FHEVM plugin, so run it against a local node or
+ * Sepolia.
+ *
+ * Usage: DELIVERY_MANAGER_ADDRESS=0x... REQUEST_ID=0x... npx hardhat run scripts/track-delivery.ts --network localhost
+ */
+
+import hre, { ethers } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import {
+  CheckpointDecryptor,
+  DeliveryStatus,
+  formatTimeline,
+  getDeliveryTimeline,
+} from "../sdk";
+import { DeliveryManager__factory } from "../typechain-types";
+
+async function main() {
+  const managerAddress = process.env.DELIVERY_MANAGER_ADDRESS;
+  const requestId = process.env.REQUEST_ID;
+  if (!managerAddress || !requestId) {
+    throw new Error("Set DELIVERY_MANAGER_ADDRESS and REQUEST_ID");
+  }
+
+  const signers = await ethers.getSigners();
+  const signer = signers[Number(process.env.TRACKER_ACCOUNT ?? 0)];
+  const manager = DeliveryManager__factory.connect(managerAddress, signer);
+
+  const { fhevm } = hre;
+  await fhevm.initializeCLIApi();
+  const decrypt: CheckpointDecryptor = {
+    location: (handle) =>
+      fhevm.userDecryptEuint(FhevmType.euint64, handle, managerAddress, signer),
+    condition: (handle) =>
+      fhevm.userDecryptEuint(FhevmType.euint32, handle, managerAddress, signer),
+  };
+
+  const delivery = await manager.getDelivery(requestId);
+  console.log("🚚 Delivery", requestId);
+  console.log("Status:", DeliveryStatus[Number(delivery.status)]);
+  console.log();
+
+  const timeline = await getDeliveryTimeline(manager, requestId, decrypt);
+  console.log(formatTimeline(timeline));
+}
+
+main().catch((error) => {
+  console.error("❌ Tracking failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,416 @@
+/**
+ * TradingClient
+ *
+ * Typed wrapper around the ConfidentialRawMaterialsTrading contract.
+ * Built on the typechain bindings generated by `npm run compile`.
+ *
+ * Usage:
+ *   const client = TradingClient.connect(address, signer);
+ *   const materialId = await client.listMaterial({ ... });
+ */
+
+import {
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Signer,
+  ZeroHash,
+} from "ethers";
+import {
+  ConfidentialRawMaterialsTrading,
+  ConfidentialRawMaterialsTrading__factory,
+} from "../typechain-types";
+import {
+  encryptListingInputs,
+  encryptOrderInputs,
+  FhevmEncryptor,
+} from "./encryption";
+import { toTradingError, TradingError } from "./errors";
+import { Coordinates, encryptLocation } from "./location";
+import {
+  FillRecord,
+  ListMaterialParams,
+  MaterialCategory,
+  MaterialInfo,
+  OrderInfo,
+  OrderStatus,
+  PlaceOrderParams,
+  QuantityDecryptor,
+  TradeMatchInfo,
+} from "./types";
+
+export class TradingClient {
+  readonly contract: ConfidentialRawMaterialsTrading;
+
+  constructor(contract: ConfidentialRawMaterialsTrading) {
+    this.contract = contract;
+  }
+
+  /**
+   * Creates a client for an already deployed contract
+   */
+  static connect(address: string, runner: ContractRunner): TradingClient {
+    return new TradingClient(
+      ConfidentialRawMaterialsTrading__factory.connect(address, runner)
+    );
+  }
+
+  /**
+   * Returns a client bound to a different signer
+   */
+  withRunner(runner: ContractRunner): TradingClient {
+    return new TradingClient(this.contract.connect(runner));
+  }
+
+  async getAddress(): Promise<string> {
+    return this.contract.getAddress();
+  }
+
+  // ========== Administration ==========
+
+  async verifySupplier(supplier: string): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.verifySupplier(supplier));
+  }
+
+  async verifyBuyer(buyer: string): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.verifyBuyer(buyer));
+  }
+
+  async isVerifiedSupplier(supplier: string): Promise<boolean> {
+    return this.contract.verifiedSuppliers(supplier);
+  }
+
+  async isVerifiedBuyer(buyer: string): Promise<boolean> {
+    return this.contract.verifiedBuyers(buyer);
+  }
+
+  // ========== Trading ==========
+
+  /**
+   * Lists a material and returns its assigned ID
+   */
+  async listMaterial(params: ListMaterialParams): Promise<bigint> {
+    const receipt = await this.send(() =>
+      this.contract.listMaterial(
+        params.name,
+        params.category,
+        params.quantity,
+        params.pricePerUnit,
+        params.minOrder,
+        params.qualityGrade,
+        params.deliveryTimeframeDays
+      )
+    );
+    return this.eventArg(receipt, "MaterialListed", "materialId");
+  }
+
+  /**
+   * Places an order and returns its assigned ID
+   */
+  async placeOrder(params: PlaceOrderParams): Promise<bigint> {
+    const receipt = await this.send(() =>
+      this.contract.placeOrder(
+        params.materialId,
+        params.quantity,
+        params.maxPrice,
+        params.deliveryLocation,
+        params.encryptedSpecialRequirements ?? ZeroHash
+      )
+    );
+    return this.eventArg(receipt, "OrderPlaced", "orderId");
+  }
+
+  /**
+   * Lists a material with quantity, price and minimum order encrypted
+   * client-side, so none of them appear in calldata
+   */
+  async listMaterialEncrypted(
+    params: ListMaterialParams,
+    encryptor: FhevmEncryptor
+  ): Promise<bigint> {
+    const inputs = await encryptListingInputs(
+      encryptor,
+      await this.getAddress(),
+      await this.signerAddress(),
+      params
+    );
+    const receipt = await this.send(() =>
+      this.contract.listMaterialEncrypted(
+        params.name,
+        params.category,
+        inputs.quantity,
+        inputs.pricePerUnit,
+        inputs.minOrder,
+        inputs.inputProof,
+        params.qualityGrade,
+        params.deliveryTimeframeDays
+      )
+    );
+    return this.eventArg(receipt, "MaterialListed", "materialId");
+  }
+
+  /**
+   * Places an order with quantity and maximum price encrypted client-side
+   */
+  async placeOrderEncrypted(
+    params: PlaceOrderParams,
+    encryptor: FhevmEncryptor
+  ): Promise<bigint> {
+    const inputs = await encryptOrderInputs(
+      encryptor,
+      await this.getAddress(),
+      await this.signerAddress(),
+      params
+    );
+    const receipt = await this.send(() =>
+      this.contract.placeOrderEncrypted(
+        params.materialId,
+        inputs.quantity,
+        inputs.maxPrice,
+        inputs.inputProof,
+        params.deliveryLocation,
+        params.encryptedSpecialRequirements ?? ZeroHash
+      )
+    );
+    return this.eventArg(receipt, "OrderPlaced", "orderId");
+  }
+
+  /**
+   * Fills as much of an order as the listing allows; each call adds a match
+   */
+  async matchTrade(orderId: bigint): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.matchTrade(orderId));
+  }
+
+  async confirmTrade(orderId: bigint): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.confirmTrade(orderId));
+  }
+
+  /**
+   * Cancels an open order; a partially filled order moves to MATCHED instead
+   */
+  async cancelOrder(orderId: bigint): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.cancelOrder(orderId));
+  }
+
+  /**
+   * Ships a matched order from an encrypted pickup location and returns the
+   * DeliveryManager request ID. The buyer's delivery confirmation completes
+   * the trade.
+   */
+  async requestTradeDelivery(
+    orderId: bigint,
+    pickup: Coordinates,
+    encryptor: FhevmEncryptor
+  ): Promise<string> {
+    const location = await encryptLocation(
+      encryptor,
+      await this.getAddress(),
+      await this.signerAddress(),
+      pickup
+    );
+    await this.send(() =>
+      this.contract.requestTradeDelivery(
+        orderId,
+        location.handle,
+        location.inputProof
+      )
+    );
+    return this.getOrderDelivery(orderId);
+  }
+
+  /**
+   * Adds stock to a listing with the quantity encrypted client-side
+   */
+  async restockMaterial(
+    materialId: bigint,
+    quantity: number,
+    encryptor: FhevmEncryptor
+  ): Promise<ContractTransactionReceipt> {
+    const encrypted = await encryptor
+      .createEncryptedInput(
+        await this.getAddress(),
+        await this.signerAddress()
+      )
+      .add32(quantity)
+      .encrypt();
+    return this.send(() =>
+      this.contract.restockMaterial(
+        materialId,
+        encrypted.handles[0],
+        encrypted.inputProof
+      )
+    );
+  }
+
+  async deactivateMaterial(
+    materialId: bigint
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(() => this.contract.deactivateMaterial(materialId));
+  }
+
+  // ========== Views ==========
+
+  async getMaterialInfo(materialId: bigint): Promise<MaterialInfo> {
+    const info = await this.call(() =>
+      this.contract.getMaterialInfo(materialId)
+    );
+    return {
+      materialId,
+      name: info.name,
+      category: Number(info.category) as MaterialCategory,
+      supplier: info.supplier,
+      isActive: info.isActive,
+      createdAt: info.createdAt,
+      qualityGrade: info.qualityGrade,
+      deliveryTimeframe: info.deliveryTimeframe,
+    };
+  }
+
+  async getOrderInfo(orderId: bigint): Promise<OrderInfo> {
+    const info = await this.call(() => this.contract.getOrderInfo(orderId));
+    return {
+      orderId,
+      buyer: info.buyer,
+      materialId: info.materialId,
+      status: Number(info.status) as OrderStatus,
+      createdAt: info.createdAt,
+      matchedAt: info.matchedAt,
+      matchedSupplier: info.matchedSupplier,
+      deliveryLocation: info.deliveryLocation,
+    };
+  }
+
+  async getTradeMatch(matchId: bigint): Promise<TradeMatchInfo> {
+    const info = await this.call(() => this.contract.getTradeMatch(matchId));
+    return {
+      matchId,
+      orderId: info.orderId,
+      materialId: info.materialId,
+      buyer: info.buyer,
+      supplier: info.supplier,
+      timestamp: info.timestamp,
+      isConfirmed: info.isConfirmed,
+    };
+  }
+
+  async getOrderMatches(orderId: bigint): Promise<bigint[]> {
+    return this.call(() => this.contract.getOrderMatches(orderId));
+  }
+
+  /**
+   * Reconstructs the fills of an order from its TradeMatched events, oldest
+   * first. Quantities are decrypted only when a decryptor is given.
+   */
+  async getFillHistory(
+    orderId: bigint,
+    decrypt?: QuantityDecryptor
+  ): Promise<FillRecord[]> {
+    const events = await this.call(() =>
+      this.contract.queryFilter(this.contract.filters.TradeMatched(orderId))
+    );
+
+    const fills: FillRecord[] = [];
+    for (const event of events) {
+      const matchId = event.args.matchId;
+      const tradeMatch = await this.call(() => this.contract.matches(matchId));
+      fills.push({
+        matchId,
+        orderId: event.args.orderId,
+        materialId: event.args.materialId,
+        supplier: event.args.supplier,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        encryptedQuantity: tradeMatch.encryptedQuantity,
+        quantity: decrypt
+          ? await decrypt(tradeMatch.encryptedQuantity)
+          : undefined,
+      });
+    }
+    return fills;
+  }
+
+  /**
+   * Latest delivery requested for an order, or ZeroHash if none
+   */
+  async getOrderDelivery(orderId: bigint): Promise<string> {
+    return this.call(() => this.contract.orderDeliveries(orderId));
+  }
+
+  async getSupplierMaterials(supplier: string): Promise<bigint[]> {
+    return this.call(() => this.contract.getSupplierMaterials(supplier));
+  }
+
+  async getBuyerOrders(buyer: string): Promise<bigint[]> {
+    return this.call(() => this.contract.getBuyerOrders(buyer));
+  }
+
+  async getMaterialsByCategory(category: MaterialCategory): Promise<bigint[]> {
+    return this.call(() => this.contract.getMaterialsByCategory(category));
+  }
+
+  // ========== Internals ==========
+
+  /**
+   * Address of the signer the contract is connected to
+   */
+  private async signerAddress(): Promise<string> {
+    const runner = this.contract.runner as Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") {
+      throw new TradingError(
+        "UNKNOWN",
+        "Encrypted inputs require a client connected to a signer"
+      );
+    }
+    return runner.getAddress();
+  }
+
+  /**
+   * Sends a transaction, waits for it to be mined and maps reverts
+   */
+  private async send(
+    submit: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    try {
+      const tx = await submit();
+      const receipt = await tx.wait();
+      if (!receipt) {
+        throw new TradingError("UNKNOWN", "Transaction was not mined");
+      }
+      return receipt;
+    } catch (error) {
+      throw toTradingError(error, this.contract.interface);
+    }
+  }
+
+  /**
+   * Performs a read-only call and maps reverts
+   */
+  private async call<T>(read: () => Promise<T>): Promise<T> {
+    try {
+      return await read();
+    } catch (error) {
+      throw toTradingError(error, this.contract.interface);
+    }
+  }
+
+  /**
+   * Reads a bigint argument from the first matching event in a receipt
+   */
+  private eventArg(
+    receipt: ContractTransactionReceipt,
+    eventName: string,
+    argName: string
+  ): bigint {
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === eventName) {
+        return parsed.args[argName] as bigint;
+      }
+    }
+    throw new TradingError(
+      "UNKNOWN",
+      `${eventName} event not found in transaction ${receipt.hash}`
+    );
+  }
+}
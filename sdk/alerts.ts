@@ -0,0 +1,432 @@
+/**
+ * Alert rules
+ *
+ * Evaluates declarative rules against the platform event stream and chain
+ * time, and hands the resulting alerts to pluggable sinks:
+ * - unconfirmedMatch: a TradeMatched whose order has not completed within
+ *   `hours` of the match
+ * - overdueEscrow: a PaymentEscrowed still in escrow past its time-lock
+ *   deadline, or `hours` after escrow for payments without one
+ * - categoryListing: a MaterialListed in one of `categories`
+ *
+ * Feed every event (unfiltered, so completions clear pending alerts) to
+ * handle() and call tick() periodically; each alert fires once.
+ *
+ * Usage:
+ *   const config = parseAlertConfig(JSON.parse(text));
+ *   const engine = new AlertEngine(provider, config.rules, createSinks(config.sinks));
+ *   await watchEvents(provider, { contracts, filters: [] }, (e) => engine.handle(e));
+ *   setInterval(() => engine.tick(), 60_000);
+ */
+
+import { promises as fs } from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as path from "path";
+import { Provider } from "ethers";
+import { formatEvent, OutputFormat } from "./monitor";
+import { IndexedEvent, MaterialCategory } from "./types";
+
+export type AlertRuleType =
+  | "unconfirmedMatch"
+  | "overdueEscrow"
+  | "categoryListing";
+
+export interface AlertRule {
+  /** Unique name, reported with each alert */
+  name: string;
+  type: AlertRuleType;
+  /** Age limit for unconfirmedMatch, and overdueEscrow without a time lock */
+  hours?: number;
+  /** Watched categories for categoryListing */
+  categories?: MaterialCategory[];
+}
+
+export interface Alert {
+  rule: string;
+  type: AlertRuleType;
+  message: string;
+  /** Event that started the alert */
+  event: IndexedEvent;
+  /** Latest block timestamp when the alert fired */
+  chainTime: number;
+}
+
+/** Destination for alerts */
+export interface AlertSink {
+  send(alert: Alert): Promise<void>;
+}
+
+export type SinkConfig =
+  | { type: "stdout"; format?: OutputFormat }
+  | { type: "file"; path: string }
+  | { type: "webhook"; url: string; headers?: Record<string, string> };
+
+export interface AlertConfig {
+  rules: AlertRule[];
+  sinks: SinkConfig[];
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid alert config: ${message}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validates a parsed JSON alert config. Categories may be given by name
+ * ("METALS") or number.
+ */
+export function parseAlertConfig(raw: unknown): AlertConfig {
+  if (!isRecord(raw) || !Array.isArray(raw.rules) || raw.rules.length === 0) {
+    fail("rules must be a non-empty list");
+  }
+
+  const names = new Set<string>();
+  const rules: AlertRule[] = raw.rules.map((r: unknown): AlertRule => {
+    const { name, type, hours, categories } = isRecord(r) ? r : {};
+    if (typeof name !== "string" || names.has(name)) {
+      fail(`rule names must be unique strings (${name})`);
+    }
+    names.add(name);
+
+    switch (type) {
+      case "unconfirmedMatch":
+      case "overdueEscrow":
+        if (hours !== undefined && !(typeof hours === "number" && hours > 0)) {
+          fail(`${name}: hours must be positive`);
+        }
+        if (type === "unconfirmedMatch" && hours === undefined) {
+          fail(`${name}: hours is required`);
+        }
+        return { name, type, hours };
+      case "categoryListing": {
+        if (!Array.isArray(categories) || categories.length === 0) {
+          fail(`${name}: categories must be a non-empty list`);
+        }
+        const watched = categories.map((c: unknown) => {
+          const value =
+            typeof c === "string" && c in MaterialCategory
+              ? MaterialCategory[c as keyof typeof MaterialCategory]
+              : c;
+          if (
+            typeof value !== "number" ||
+            MaterialCategory[value] === undefined
+          ) {
+            fail(`${name}: unknown category ${c}`);
+          }
+          return value;
+        });
+        return { name, type, categories: watched };
+      }
+      default:
+        fail(`${name}: unknown rule type ${type}`);
+    }
+  });
+
+  const sinkList = raw.sinks ?? [{ type: "stdout" }];
+  if (!Array.isArray(sinkList)) {
+    fail("sinks must be a list");
+  }
+  const sinks: SinkConfig[] = sinkList.map((s: unknown): SinkConfig => {
+    const { type, format, path, url, headers } = isRecord(s) ? s : {};
+    switch (type) {
+      case "stdout":
+        if (
+          format !== undefined &&
+          format !== "ndjson" &&
+          format !== "pretty"
+        ) {
+          fail(`unknown stdout format ${format}`);
+        }
+        return { type: "stdout", format };
+      case "file":
+        if (typeof path !== "string") fail("file sink needs a path");
+        return { type: "file", path };
+      case "webhook":
+        if (typeof url !== "string" || !/^https?:\/\//.test(url)) {
+          fail("webhook sink needs an http(s) url");
+        }
+        if (
+          headers !== undefined &&
+          (!isRecord(headers) ||
+            Object.values(headers).some((v) => typeof v !== "string"))
+        ) {
+          fail("webhook headers must map names to strings");
+        }
+        return {
+          type: "webhook",
+          url,
+          headers: headers as Record<string, string> | undefined,
+        };
+      default:
+        fail(`unknown sink type ${type}`);
+    }
+  });
+
+  return { rules, sinks };
+}
+
+/** Prints alerts, as NDJSON or one readable block each */
+export class StdoutSink implements AlertSink {
+  constructor(readonly format: OutputFormat = "pretty") {}
+
+  async send(alert: Alert): Promise<void> {
+    if (this.format === "ndjson") {
+      console.log(JSON.stringify(alert));
+      return;
+    }
+    console.log(`🚨 [${alert.rule}] ${alert.message}`);
+    console.log(formatEvent(alert.event, "pretty"));
+    console.log();
+  }
+}
+
+/** Appends alerts to a file as NDJSON */
+export class FileSink implements AlertSink {
+  constructor(readonly file: string) {}
+
+  async send(alert: Alert): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.appendFile(this.file, JSON.stringify(alert) + "\n");
+  }
+}
+
+/** POSTs each alert as JSON; non-2xx responses reject */
+export class WebhookSink implements AlertSink {
+  constructor(
+    readonly url: string,
+    readonly headers: Record<string, string> = {},
+    readonly timeoutMs = 10000
+  ) {}
+
+  send(alert: Alert): Promise<void> {
+    const body = JSON.stringify(alert);
+    const request = this.url.startsWith("https:")
+      ? https.request
+      : http.request;
+
+    return new Promise((resolve, reject) => {
+      const req = request(
+        this.url,
+        {
+          method: "POST",
+          timeout: this.timeoutMs,
+          headers: {
+            ...this.headers,
+            "Content-Type": "application/json",
+            "Content-Length": Buffer.byteLength(body),
+          },
+        },
+        (res) => {
+          res.resume();
+          const status = res.statusCode ?? 0;
+          if (status >= 200 && status < 300) {
+            resolve();
+          } else {
+            reject(new Error(`Webhook ${this.url} responded ${status}`));
+          }
+        }
+      );
+      req.on("timeout", () =>
+        req.destroy(new Error(`Webhook ${this.url} timed out`))
+      );
+      req.on("error", reject);
+      req.end(body);
+    });
+  }
+}
+
+export function createSinks(configs: SinkConfig[]): AlertSink[] {
+  return configs.map((config) => {
+    switch (config.type) {
+      case "stdout":
+        return new StdoutSink(config.format);
+      case "file":
+        return new FileSink(config.path);
+      case "webhook":
+        return new WebhookSink(config.url, config.headers);
+    }
+  });
+}
+
+interface PendingAlert {
+  rule: AlertRule;
+  event: IndexedEvent;
+  /** Chain time after which the alert fires */
+  dueAt: number;
+  message: string;
+}
+
+const HOUR = 3600;
+
+// Pending alerts are keyed per contract so two deployments never collide
+function key(event: IndexedEvent, id: string | boolean): string {
+  return `${event.address.toLowerCase()}:${id}`;
+}
+
+export class AlertEngine {
+  /** Unconfirmed matches by order */
+  private readonly matches = new Map<string, PendingAlert[]>();
+  /** Escrowed payments by payment ID */
+  private readonly escrows = new Map<string, PendingAlert[]>();
+  /** Time-lock deadlines by payment ID */
+  private readonly deadlines = new Map<string, number>();
+  private readonly blockTimes = new Map<number, number>();
+
+  constructor(
+    readonly provider: Provider,
+    readonly rules: AlertRule[],
+    readonly sinks: AlertSink[],
+    /** Called when a sink rejects; other sinks still receive the alert */
+    readonly onSinkError: (error: unknown, alert: Alert) => void = (error) =>
+      console.error("Alert sink failed:", error)
+  ) {}
+
+  /**
+   * Processes one event; listings in watched categories alert at once
+   */
+  async handle(event: IndexedEvent): Promise<void> {
+    const { args } = event;
+    switch (event.event) {
+      case "MaterialListed":
+        for (const rule of this.rulesOf("categoryListing")) {
+          const category = Number(args.category) as MaterialCategory;
+          if (rule.categories!.includes(category)) {
+            await this.dispatch({
+              rule: rule.name,
+              type: rule.type,
+              message: `Material #${args.materialId} listed in ${MaterialCategory[category]} by ${args.supplier}`,
+              event,
+              chainTime: await this.chainTime(),
+            });
+          }
+        }
+        break;
+
+      case "TradeMatched": {
+        const matchedAt = await this.blockTime(event.blockNumber);
+        const pending = this.rulesOf("unconfirmedMatch").map((rule) => ({
+          rule,
+          event,
+          dueAt: matchedAt + rule.hours! * HOUR,
+          message: `Match #${args.matchId} on order #${args.orderId} unconfirmed for ${rule.hours}h`,
+        }));
+        const orderKey = key(event, args.orderId);
+        this.matches.set(orderKey, [
+          ...(this.matches.get(orderKey) ?? []),
+          ...pending,
+        ]);
+        break;
+      }
+      case "TradeCompleted":
+        this.matches.delete(key(event, args.orderId));
+        break;
+
+      case "TimeLockSet":
+        this.deadlines.set(
+          key(event, args.paymentId),
+          Number(args.deliveryDeadline)
+        );
+        break;
+      case "PaymentEscrowed": {
+        const paymentKey = key(event, args.paymentId);
+        const escrowedAt = await this.blockTime(event.blockNumber);
+        const deadline = this.deadlines.get(paymentKey);
+        const pending: PendingAlert[] = [];
+        for (const rule of this.rulesOf("overdueEscrow")) {
+          const dueAt =
+            deadline ??
+            (rule.hours !== undefined
+              ? escrowedAt + rule.hours * HOUR
+              : undefined);
+          if (dueAt !== undefined) {
+            pending.push({
+              rule,
+              event,
+              dueAt,
+              message: `Payment ${args.paymentId} still in escrow past its deadline`,
+            });
+          }
+        }
+        this.escrows.set(paymentKey, pending);
+        break;
+      }
+      case "PaymentCompleted":
+      case "PaymentRefunded":
+      case "DisputeOpened":
+        this.escrows.delete(key(event, args.paymentId));
+        this.deadlines.delete(key(event, args.paymentId));
+        break;
+    }
+  }
+
+  /**
+   * Fires every pending alert that is due at the current chain time
+   * @returns Number of alerts fired
+   */
+  async tick(): Promise<number> {
+    const now = await this.chainTime();
+    let fired = 0;
+    for (const pendingByKey of [this.matches, this.escrows]) {
+      for (const [id, pending] of pendingByKey) {
+        const due = pending.filter((p) => p.dueAt <= now);
+        if (due.length === 0) {
+          continue;
+        }
+        const rest = pending.filter((p) => p.dueAt > now);
+        if (rest.length > 0) {
+          pendingByKey.set(id, rest);
+        } else {
+          pendingByKey.delete(id);
+        }
+        for (const p of due) {
+          await this.dispatch({
+            rule: p.rule.name,
+            type: p.rule.type,
+            message: p.message,
+            event: p.event,
+            chainTime: now,
+          });
+          fired++;
+        }
+      }
+    }
+    return fired;
+  }
+
+  private rulesOf(type: AlertRuleType): AlertRule[] {
+    return this.rules.filter((rule) => rule.type === type);
+  }
+
+  private async dispatch(alert: Alert): Promise<void> {
+    const results = await Promise.allSettled(
+      this.sinks.map((sink) => sink.send(alert))
+    );
+    for (const result of results) {
+      if (result.status === "rejected") {
+        this.onSinkError(result.reason, alert);
+      }
+    }
+  }
+
+  private async blockTime(blockNumber: number): Promise<number> {
+    let timestamp = this.blockTimes.get(blockNumber);
+    if (timestamp === undefined) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (!block) {
+        throw new Error(`Block ${blockNumber} not found`);
+      }
+      timestamp = block.timestamp;
+      this.blockTimes.set(blockNumber, timestamp);
+    }
+    return timestamp;
+  }
+
+  private async chainTime(): Promise<number> {
+    const latest = await this.provider.getBlock("latest");
+    return latest!.timestamp;
+  }
+}
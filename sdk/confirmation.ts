@@ -0,0 +1,96 @@
+/**
+ * Proof-of-delivery helpers
+ *
+ * The requester picks a secret, shares it with the recipient and passes
+ * recipientCommitment(recipient, secret) to createDeliveryRequest. A
+ * delivery then completes in two steps. At handover the recipient gives the
+ * courier their address and the secret; the courier submits
+ * deliveryCommitment(requestId, recipient, secret). The recipient then signs
+ * the commitment and anyone relays confirmDelivery before
+ * DeliveryManager.CONFIRMATION_WINDOW runs out.
+ *
+ * Usage:
+ *   const secret = generateDeliverySecret();
+ *   await manager.connect(requester).createDeliveryRequest(
+ *     ...encryptedInputs, recipientCommitment(recipient.address, secret)
+ *   );
+ *
+ *   const commitment = deliveryCommitment(requestId, recipient.address, secret);
+ *   await manager.connect(courier).submitProofOfDelivery(requestId, commitment);
+ *
+ *   const signature = await signDeliveryConfirmation(
+ *     recipient, managerAddress, requestId, commitment
+ *   );
+ *   await manager.confirmDelivery(requestId, recipient.address, secret, signature);
+ */
+
+import {
+  getBytes,
+  hexlify,
+  keccak256,
+  randomBytes,
+  Signer,
+  solidityPacked,
+  solidityPackedKeccak256,
+} from "ethers";
+
+/** Random 32-byte secret for one delivery */
+export function generateDeliverySecret(): string {
+  return hexlify(randomBytes(32));
+}
+
+/** Commitment the requester submits, as DeliveryManager recomputes it */
+export function recipientCommitment(
+  recipient: string,
+  secret: string
+): string {
+  return solidityPackedKeccak256(["address", "bytes32"], [recipient, secret]);
+}
+
+/** Commitment the courier submits, as DeliveryManager recomputes it */
+export function deliveryCommitment(
+  requestId: string,
+  recipient: string,
+  secret: string
+): string {
+  return solidityPackedKeccak256(
+    ["bytes32", "address", "bytes32"],
+    [requestId, recipient, secret]
+  );
+}
+
+/** Mirrors DeliveryManager.proofOfDeliveryMessage */
+export function proofOfDeliveryMessage(
+  chainId: bigint,
+  managerAddress: string,
+  requestId: string,
+  commitment: string
+): string {
+  return solidityPacked(
+    ["uint256", "address", "bytes32", "bytes32"],
+    [chainId, managerAddress, requestId, commitment]
+  );
+}
+
+/**
+ * Signs the recipient's confirmation of `commitment`. The signer must be
+ * connected to a provider on the manager's chain.
+ */
+export async function signDeliveryConfirmation(
+  recipient: Signer,
+  managerAddress: string,
+  requestId: string,
+  commitment: string
+): Promise<string> {
+  if (!recipient.provider) {
+    throw new Error("Recipient signer has no provider");
+  }
+  const { chainId } = await recipient.provider.getNetwork();
+  const message = proofOfDeliveryMessage(
+    chainId,
+    managerAddress,
+    requestId,
+    commitment
+  );
+  return recipient.signMessage(getBytes(keccak256(message)));
+}
@@ -0,0 +1,342 @@
+/**
+ * Platform deployment and address manifest
+ *
+ * Deploys the six platform contracts in dependency order, wires them to
+ * each other and records each deployment in deployments/<network>.json:
+ * address, transaction hash, block number, constructor arguments and
+ * deployer. Scripts and the frontend read addresses from the manifest.
+ *
+ * Re-running is idempotent: a recorded contract is reused while code is
+ * still deployed at its address and its constructor arguments are unchanged,
+ * so a contract is only redeployed along with the dependencies it was built
+ * against, and wiring calls are only sent for settings that differ.
+ * Contracts set their owner to msg.sender, so deployments are plain CREATE
+ * from the deployer rather than through a CREATE2 factory.
+ *
+ * Usage:
+ *   const { manifest } = await deployPlatform(deployer, { network: "sepolia" });
+ *   const contracts = manifestContracts(await loadManifest("sepolia"));
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { ContractFactory, ContractTransactionResponse, Signer } from "ethers";
+import {
+  AnonymousDelivery__factory,
+  ConfidentialRawMaterialsTrading__factory,
+  ConfidentialRFQ__factory,
+  DeliveryManager__factory,
+  PaymentProcessor__factory,
+  ReputationTracker__factory,
+} from "../typechain-types";
+import { INDEXED_CONTRACT_NAMES } from "./events";
+import { IndexedContract, IndexedContractName } from "./types";
+
+/** Where manifests are kept, relative to the working directory */
+export const DEFAULT_DEPLOYMENTS_DIR = "deployments";
+
+/** Platform contracts in deployment order */
+export const PLATFORM_CONTRACTS = [
+  "ConfidentialRawMaterialsTrading",
+  "DeliveryManager",
+  "PaymentProcessor",
+  "ReputationTracker",
+  "ConfidentialRFQ",
+  "AnonymousDelivery",
+] as const;
+
+export type PlatformContractName = (typeof PLATFORM_CONTRACTS)[number];
+
+/** One deployed contract as recorded in a manifest */
+export interface DeploymentRecord {
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  constructorArgs: string[];
+  deployer: string;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  /** Decimal chain ID */
+  chainId: string;
+  contracts: Partial<Record<PlatformContractName, DeploymentRecord>>;
+}
+
+export interface DeployOptions {
+  /** Network name, used for the manifest file name */
+  network: string;
+  dir?: string;
+  /**
+   * Also make DeliveryManager gate courier acceptance on ReputationTracker.
+   * Off by default: unrated couriers could not accept any delivery.
+   */
+  gateCouriersOnReputation?: boolean;
+  /** Progress messages (default: none) */
+  log?: (message: string) => void;
+}
+
+export interface DeployResult {
+  manifest: DeploymentManifest;
+  deployed: PlatformContractName[];
+  reused: PlatformContractName[];
+  /** Wiring calls that were sent, as "Contract.setter" */
+  wired: string[];
+}
+
+export function manifestPath(
+  network: string,
+  dir = DEFAULT_DEPLOYMENTS_DIR
+): string {
+  return path.join(dir, `${network}.json`);
+}
+
+/**
+ * Reads the manifest of `network`, or undefined if there is none yet
+ */
+export async function readManifest(
+  network: string,
+  dir = DEFAULT_DEPLOYMENTS_DIR
+): Promise<DeploymentManifest | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(manifestPath(network, dir), "utf8"));
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the manifest of `network`, failing with a hint if it is missing
+ */
+export async function loadManifest(
+  network: string,
+  dir = DEFAULT_DEPLOYMENTS_DIR
+): Promise<DeploymentManifest> {
+  const manifest = await readManifest(network, dir);
+  if (!manifest) {
+    throw new Error(
+      `No deployment manifest at ${manifestPath(network, dir)}. Deploy first!`
+    );
+  }
+  return manifest;
+}
+
+/**
+ * Writes a manifest atomically (temporary file, then rename)
+ */
+export async function writeManifest(
+  manifest: DeploymentManifest,
+  dir = DEFAULT_DEPLOYMENTS_DIR
+): Promise<void> {
+  const file = manifestPath(manifest.network, dir);
+  await fs.mkdir(dir, { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(manifest, null, 2) + "\n");
+  await fs.rename(tmp, file);
+}
+
+/**
+ * Address of a deployed contract, failing if the manifest lacks it
+ */
+export function manifestAddress(
+  manifest: DeploymentManifest,
+  name: PlatformContractName
+): string {
+  const record = manifest.contracts[name];
+  if (!record) {
+    throw new Error(`${name} is not in the ${manifest.network} manifest`);
+  }
+  return record.address;
+}
+
+/**
+ * Deployed contracts the indexer, monitor and gateway understand
+ */
+export function manifestContracts(
+  manifest: DeploymentManifest
+): IndexedContract[] {
+  return INDEXED_CONTRACT_NAMES.filter((name) => manifest.contracts[name]).map(
+    (name) => ({ name, address: manifest.contracts[name]!.address })
+  );
+}
+
+const FACTORIES: {
+  [K in PlatformContractName]: new (signer: Signer) => ContractFactory;
+} = {
+  ConfidentialRawMaterialsTrading: ConfidentialRawMaterialsTrading__factory,
+  DeliveryManager: DeliveryManager__factory,
+  PaymentProcessor: PaymentProcessor__factory,
+  ReputationTracker: ReputationTracker__factory,
+  ConfidentialRFQ: ConfidentialRFQ__factory,
+  AnonymousDelivery: AnonymousDelivery__factory,
+};
+
+/** Constructor arguments, from the addresses deployed so far */
+function constructorArgs(
+  name: PlatformContractName,
+  address: (name: PlatformContractName) => string
+): string[] {
+  switch (name) {
+    case "ReputationTracker":
+      return [
+        address("DeliveryManager"),
+        address("ConfidentialRawMaterialsTrading"),
+      ];
+    case "ConfidentialRFQ":
+      return [address("ConfidentialRawMaterialsTrading")];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Deploys whatever is missing or stale, wires the contracts and saves the
+ * manifest after every deployment, so an interrupted run resumes
+ */
+export async function deployPlatform(
+  deployer: Signer,
+  options: DeployOptions
+): Promise<DeployResult> {
+  const { network, dir = DEFAULT_DEPLOYMENTS_DIR } = options;
+  const log = options.log ?? (() => undefined);
+  const provider = deployer.provider;
+  if (!provider) {
+    throw new Error("Deployer must be connected to a provider");
+  }
+
+  const chainId = (await provider.getNetwork()).chainId.toString();
+  const existing = await readManifest(network, dir);
+  if (existing && existing.chainId !== chainId) {
+    throw new Error(
+      `${manifestPath(network, dir)} is for chain ${
+        existing.chainId
+      }, not ${chainId}`
+    );
+  }
+  const manifest: DeploymentManifest = existing ?? {
+    network,
+    chainId,
+    contracts: {},
+  };
+  const deployerAddress = await deployer.getAddress();
+  const result: DeployResult = {
+    manifest,
+    deployed: [],
+    reused: [],
+    wired: [],
+  };
+  const address = (name: PlatformContractName) =>
+    manifestAddress(manifest, name);
+
+  for (const name of PLATFORM_CONTRACTS) {
+    const args = constructorArgs(name, address);
+    const record = manifest.contracts[name];
+    if (
+      record &&
+      JSON.stringify(record.constructorArgs) === JSON.stringify(args) &&
+      (await provider.getCode(record.address)) !== "0x"
+    ) {
+      log(`✓ ${name} already at ${record.address}`);
+      result.reused.push(name);
+      continue;
+    }
+
+    log(`⏳ Deploying ${name}...`);
+    const contract = await new FACTORIES[name](deployer).deploy(...args);
+    await contract.waitForDeployment();
+    const tx = contract.deploymentTransaction()!;
+    const receipt = await provider.getTransactionReceipt(tx.hash);
+
+    manifest.contracts[name] = {
+      address: await contract.getAddress(),
+      transactionHash: tx.hash,
+      blockNumber: receipt!.blockNumber,
+      constructorArgs: args,
+      deployer: deployerAddress,
+    };
+    await writeManifest(manifest, dir);
+    log(`✅ ${name} deployed to ${address(name)}`);
+    result.deployed.push(name);
+  }
+
+  // ========== Wiring ==========
+
+  const trading = ConfidentialRawMaterialsTrading__factory.connect(
+    address("ConfidentialRawMaterialsTrading"),
+    deployer
+  );
+  const manager = DeliveryManager__factory.connect(
+    address("DeliveryManager"),
+    deployer
+  );
+  const processor = PaymentProcessor__factory.connect(
+    address("PaymentProcessor"),
+    deployer
+  );
+
+  const settings: [
+    string,
+    () => Promise<string>,
+    (to: string) => Promise<ContractTransactionResponse>,
+    string
+  ][] = [
+    [
+      "ConfidentialRawMaterialsTrading.setDeliveryManager",
+      () => trading.deliveryManager(),
+      (to) => trading.setDeliveryManager(to),
+      address("DeliveryManager"),
+    ],
+    [
+      "ConfidentialRawMaterialsTrading.setPaymentProcessor",
+      () => trading.paymentProcessor(),
+      (to) => trading.setPaymentProcessor(to),
+      address("PaymentProcessor"),
+    ],
+    [
+      "ConfidentialRawMaterialsTrading.setReputationTracker",
+      () => trading.reputationTracker(),
+      (to) => trading.setReputationTracker(to),
+      address("ReputationTracker"),
+    ],
+    [
+      "DeliveryManager.setTradingContract",
+      () => manager.tradingContract(),
+      (to) => manager.setTradingContract(to),
+      address("ConfidentialRawMaterialsTrading"),
+    ],
+    [
+      "PaymentProcessor.setTradingContract",
+      () => processor.tradingContract(),
+      (to) => processor.setTradingContract(to),
+      address("ConfidentialRawMaterialsTrading"),
+    ],
+    [
+      "PaymentProcessor.setDeliveryManager",
+      () => processor.deliveryManager(),
+      (to) => processor.setDeliveryManager(to),
+      address("DeliveryManager"),
+    ],
+  ];
+  if (options.gateCouriersOnReputation) {
+    settings.push([
+      "DeliveryManager.setReputationTracker",
+      () => manager.reputationTracker(),
+      (to) => manager.setReputationTracker(to),
+      address("ReputationTracker"),
+    ]);
+  }
+
+  for (const [label, current, set, target] of settings) {
+    if ((await current()).toLowerCase() === target.toLowerCase()) {
+      continue;
+    }
+    await (await set(target)).wait();
+    log(`🔗 ${label}(${target})`);
+    result.wired.push(label);
+  }
+
+  return result;
+}
@@ -0,0 +1,88 @@
+/**
+ * Client-side encryption helpers
+ *
+ * The shapes below match the FHEVM instance returned by the relayer SDK
+ * (and the test helper in test/utils/instance.ts), so either can be passed
+ * wherever an FhevmEncryptor is expected.
+ */
+
+import { BytesLike } from "ethers";
+
+export interface EncryptedInputs {
+  handles: BytesLike[];
+  inputProof: BytesLike;
+}
+
+export interface EncryptedInputBuilder {
+  add32(value: number | bigint): EncryptedInputBuilder;
+  add64(value: number | bigint): EncryptedInputBuilder;
+  encrypt(): Promise<EncryptedInputs>;
+}
+
+export interface FhevmEncryptor {
+  createEncryptedInput(
+    contractAddress: string,
+    userAddress: string
+  ): EncryptedInputBuilder;
+}
+
+/** Encrypted handles for listMaterialEncrypted, sharing one input proof */
+export interface EncryptedListingInputs {
+  quantity: BytesLike;
+  pricePerUnit: BytesLike;
+  minOrder: BytesLike;
+  inputProof: BytesLike;
+}
+
+/** Encrypted handles for placeOrderEncrypted, sharing one input proof */
+export interface EncryptedOrderInputs {
+  quantity: BytesLike;
+  maxPrice: BytesLike;
+  inputProof: BytesLike;
+}
+
+/**
+ * Encrypts listing values for `userAddress` calling `contractAddress`
+ */
+export async function encryptListingInputs(
+  encryptor: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  values: { quantity: number; pricePerUnit: bigint; minOrder: number }
+): Promise<EncryptedListingInputs> {
+  const encrypted = await encryptor
+    .createEncryptedInput(contractAddress, userAddress)
+    .add32(values.quantity)
+    .add64(values.pricePerUnit)
+    .add32(values.minOrder)
+    .encrypt();
+
+  return {
+    quantity: encrypted.handles[0],
+    pricePerUnit: encrypted.handles[1],
+    minOrder: encrypted.handles[2],
+    inputProof: encrypted.inputProof,
+  };
+}
+
+/**
+ * Encrypts order values for `userAddress` calling `contractAddress`
+ */
+export async function encryptOrderInputs(
+  encryptor: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  values: { quantity: number; maxPrice: bigint }
+): Promise<EncryptedOrderInputs> {
+  const encrypted = await encryptor
+    .createEncryptedInput(contractAddress, userAddress)
+    .add32(values.quantity)
+    .add64(values.maxPrice)
+    .encrypt();
+
+  return {
+    quantity: encrypted.handles[0],
+    maxPrice: encrypted.handles[1],
+    inputProof: encrypted.inputProof,
+  };
+}
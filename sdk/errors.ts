@@ -0,0 +1,199 @@
+/**
+ * Typed errors for the ConfidentialRawMaterialsTrading client SDK
+ *
+ * The contract reverts with plain require() strings. Every known string is
+ * mapped to a stable code and one of three error classes so callers can
+ * branch on `instanceof` instead of string matching.
+ */
+
+import { Interface, isHexString } from "ethers";
+
+export type TradingErrorCode =
+  | "NOT_AUTHORIZED"
+  | "NOT_VERIFIED_SUPPLIER"
+  | "NOT_VERIFIED_BUYER"
+  | "NOT_MATERIAL_SUPPLIER"
+  | "NOT_MATERIAL_OWNER"
+  | "NOT_ORDER_OWNER"
+  | "INVALID_QUANTITY"
+  | "INVALID_PRICE"
+  | "INVALID_MIN_ORDER"
+  | "INVALID_MAX_PRICE"
+  | "MATERIAL_NOT_AVAILABLE"
+  | "MATERIAL_NOT_ACTIVE"
+  | "ORDER_NOT_PENDING"
+  | "ORDER_NOT_MATCHED"
+  | "CANNOT_CANCEL"
+  | "ALREADY_CONFIRMED"
+  | "ONLY_BUYER_CAN_RELEASE"
+  | "NOT_MATCHED_SUPPLIER"
+  | "DELIVERY_MANAGER_NOT_SET"
+  | "DELIVERY_ALREADY_REQUESTED"
+  | "UNKNOWN";
+
+/** Base class for every error raised by TradingClient */
+export class TradingError extends Error {
+  readonly code: TradingErrorCode;
+  readonly reason?: string;
+
+  constructor(code: TradingErrorCode, message: string, reason?: string) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.reason = reason;
+  }
+}
+
+/** Caller lacks the role or ownership required for the call */
+export class TradingAuthorizationError extends TradingError {}
+
+/** A plaintext argument failed contract validation */
+export class TradingValidationError extends TradingError {}
+
+/** The material or order is not in a state that allows the call */
+export class TradingStateError extends TradingError {}
+
+type ErrorClass = new (
+  code: TradingErrorCode,
+  message: string,
+  reason?: string
+) => TradingError;
+
+const REVERT_REASONS: Record<string, [TradingErrorCode, ErrorClass]> = {
+  "Not authorized": ["NOT_AUTHORIZED", TradingAuthorizationError],
+  "Not verified supplier": ["NOT_VERIFIED_SUPPLIER", TradingAuthorizationError],
+  "Not verified buyer": ["NOT_VERIFIED_BUYER", TradingAuthorizationError],
+  "Not material supplier": ["NOT_MATERIAL_SUPPLIER", TradingAuthorizationError],
+  "Not material owner": ["NOT_MATERIAL_OWNER", TradingAuthorizationError],
+  "Not order owner": ["NOT_ORDER_OWNER", TradingAuthorizationError],
+  "Invalid quantity": ["INVALID_QUANTITY", TradingValidationError],
+  "Invalid price": ["INVALID_PRICE", TradingValidationError],
+  "Invalid minimum order": ["INVALID_MIN_ORDER", TradingValidationError],
+  "Invalid max price": ["INVALID_MAX_PRICE", TradingValidationError],
+  "Material not available": ["MATERIAL_NOT_AVAILABLE", TradingStateError],
+  "Material not active": ["MATERIAL_NOT_ACTIVE", TradingStateError],
+  "Order not pending": ["ORDER_NOT_PENDING", TradingStateError],
+  "Order not matched": ["ORDER_NOT_MATCHED", TradingStateError],
+  "Cannot cancel": ["CANNOT_CANCEL", TradingStateError],
+  "Already confirmed": ["ALREADY_CONFIRMED", TradingStateError],
+  "Only buyer can release payment": [
+    "ONLY_BUYER_CAN_RELEASE",
+    TradingAuthorizationError,
+  ],
+  "Not matched supplier": ["NOT_MATCHED_SUPPLIER", TradingAuthorizationError],
+  "Delivery manager not set": ["DELIVERY_MANAGER_NOT_SET", TradingStateError],
+  "Delivery already requested": [
+    "DELIVERY_ALREADY_REQUESTED",
+    TradingStateError,
+  ],
+};
+
+const ERROR_STRING = new Interface(["error Error(string)"]);
+
+const REASON_PATTERNS = [
+  /reverted with reason string '(.*)'/,
+  /reverted with custom error '(\w+)\(/,
+  /execution reverted: ([^"]+)/,
+];
+
+/**
+ * Collects the revert data and messages carried by an error and the errors
+ * it wraps (ethers nests the provider's error under info and error)
+ */
+function unwrapError(error: unknown): { data: string[]; messages: string[] } {
+  const data: string[] = [];
+  const messages: string[] = [];
+  const seen = new Set<unknown>();
+  const queue: unknown[] = [error];
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (typeof current !== "object" || current === null || seen.has(current)) {
+      continue;
+    }
+    seen.add(current);
+    const {
+      data: revertData,
+      message,
+      info,
+      error: cause,
+    } = current as {
+      data?: unknown;
+      message?: unknown;
+      info?: unknown;
+      error?: unknown;
+    };
+    if (typeof revertData === "string" && isHexString(revertData)) {
+      // A selector at least, or there is nothing to decode
+      if (revertData.length >= 10) {
+        data.push(revertData);
+      }
+    } else {
+      queue.push(revertData);
+    }
+    if (typeof message === "string") {
+      messages.push(message);
+    }
+    queue.push(info, cause);
+  }
+  return { data, messages };
+}
+
+/**
+ * Extracts the revert reason from an error thrown by a contract call
+ *
+ * Returns the require() string, or the name of a custom error when `iface`
+ * declares it. Falls back to the reason quoted in the error message, which is
+ * all hardhat's in-process provider reports.
+ */
+export function extractRevertReason(
+  error: unknown,
+  iface?: Interface
+): string | undefined {
+  const err = error as { reason?: unknown; revert?: { args?: unknown[] } };
+  if (typeof err?.reason === "string") {
+    return err.reason;
+  }
+  if (typeof err?.revert?.args?.[0] === "string") {
+    return err.revert.args[0];
+  }
+
+  const { data, messages } = unwrapError(error);
+  for (const revertData of data) {
+    for (const candidate of iface ? [iface, ERROR_STRING] : [ERROR_STRING]) {
+      const parsed = candidate.parseError(revertData);
+      if (parsed) {
+        return parsed.name === "Error" ? String(parsed.args[0]) : parsed.name;
+      }
+    }
+  }
+  for (const message of messages) {
+    for (const pattern of REASON_PATTERNS) {
+      const match = message.match(pattern);
+      if (match) {
+        return match[1];
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Converts any error thrown by a contract call into a TradingError
+ */
+export function toTradingError(
+  error: unknown,
+  iface?: Interface
+): TradingError {
+  if (error instanceof TradingError) {
+    return error;
+  }
+
+  const reason = extractRevertReason(error, iface);
+  if (reason !== undefined && REVERT_REASONS[reason]) {
+    const [code, ErrorType] = REVERT_REASONS[reason];
+    return new ErrorType(code, reason, reason);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new TradingError("UNKNOWN", message, reason);
+}
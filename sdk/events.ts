@@ -0,0 +1,97 @@
+/**
+ * Event decoding
+ *
+ * Turns raw logs of the platform contracts into IndexedEvent records, the
+ * shape shared by the indexer and the event monitor. Integer arguments
+ * become decimal strings so records can be written out as JSON as-is.
+ */
+
+import { Interface, Log } from "ethers";
+import {
+  ConfidentialRawMaterialsTrading__factory,
+  DeliveryManager__factory,
+  PaymentProcessor__factory,
+  ReputationTracker__factory,
+} from "../typechain-types";
+import { IndexedContract, IndexedContractName, IndexedEvent } from "./types";
+
+const INTERFACES: Record<IndexedContractName, Interface> = {
+  ConfidentialRawMaterialsTrading:
+    ConfidentialRawMaterialsTrading__factory.createInterface(),
+  DeliveryManager: DeliveryManager__factory.createInterface(),
+  PaymentProcessor: PaymentProcessor__factory.createInterface(),
+  ReputationTracker: ReputationTracker__factory.createInterface(),
+};
+
+/** Contract names an EventDecoder accepts */
+export const INDEXED_CONTRACT_NAMES = Object.keys(
+  INTERFACES
+) as IndexedContractName[];
+
+/**
+ * ABI of a platform contract
+ */
+export function contractInterface(name: IndexedContractName): Interface {
+  return INTERFACES[name];
+}
+
+/**
+ * Event names declared by a contract, for validating filters
+ */
+export function contractEventNames(name: IndexedContractName): string[] {
+  const names: string[] = [];
+  INTERFACES[name].forEachEvent((event) => names.push(event.name));
+  return names;
+}
+
+export class EventDecoder {
+  private readonly contracts: Map<string, IndexedContractName>;
+
+  constructor(contracts: IndexedContract[]) {
+    for (const { name } of contracts) {
+      if (!INTERFACES[name]) {
+        throw new Error(`Unknown contract: ${name}`);
+      }
+    }
+    this.contracts = new Map(
+      contracts.map((c) => [c.address.toLowerCase(), c.name])
+    );
+  }
+
+  /** Lower-cased addresses of the decoded contracts */
+  get addresses(): string[] {
+    return [...this.contracts.keys()];
+  }
+
+  /**
+   * Decodes a log from one of the contracts; unknown logs are skipped
+   */
+  decode(log: Log): IndexedEvent | undefined {
+    const name = this.contracts.get(log.address.toLowerCase());
+    if (!name) {
+      return undefined;
+    }
+    const parsed = INTERFACES[name].parseLog(log);
+    if (!parsed) {
+      return undefined;
+    }
+
+    const args: Record<string, string | boolean> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      const value = parsed.args[i];
+      args[input.name || `arg${i}`] =
+        typeof value === "boolean" ? value : value.toString();
+    });
+
+    return {
+      contract: name,
+      address: log.address,
+      event: parsed.name,
+      args,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+  }
+}
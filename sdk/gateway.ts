@@ -0,0 +1,597 @@
+/**
+ * HTTP gateway
+ *
+ * Exposes the platform contracts over plain HTTP/JSON for systems that do
+ * not speak JSON-RPC: read endpoints for materials, orders, matches,
+ * deliveries, payments and reputation, and a relay for transactions the
+ * caller signed with its own key. The gateway never holds keys; it only
+ * builds unsigned transactions and broadcasts signed ones, and only to the
+ * configured contracts. The OpenAPI description is served at /openapi.json.
+ *
+ * Usage:
+ *   const server = createGateway(provider, [
+ *     { name: "ConfidentialRawMaterialsTrading", address: tradingAddress },
+ *     { name: "PaymentProcessor", address: processorAddress },
+ *   ]);
+ *   server.listen(8080);
+ */
+
+import * as http from "http";
+import {
+  ErrorFragment,
+  Interface,
+  isAddress,
+  isError,
+  isHexString,
+  Provider,
+  Transaction,
+  TransactionReceipt,
+  TransactionResponse,
+  ZeroAddress,
+  ZeroHash,
+} from "ethers";
+import {
+  DeliveryManager__factory,
+  PaymentProcessor__factory,
+  ReputationTracker__factory,
+} from "../typechain-types";
+import { extractRevertReason } from "./errors";
+import { contractInterface, EventDecoder } from "./events";
+import { OPENAPI_SPEC } from "./openapi";
+import { TradingClient } from "./TradingClient";
+import {
+  DeliveryStatus,
+  IndexedContract,
+  IndexedContractName,
+  MaterialCategory,
+  OrderStatus,
+  PaymentStatus,
+} from "./types";
+
+/** Largest request body accepted, in bytes */
+const MAX_BODY_SIZE = 1024 * 1024;
+
+/** Mirrors IPaymentProcessor.PaymentAsset */
+const PAYMENT_ASSETS = ["NATIVE", "ERC20", "CONFIDENTIAL"];
+
+/** Custom errors the contracts revert with for unknown IDs */
+const NOT_FOUND_ERRORS = [
+  "DeliveryNotFound",
+  "PaymentNotFound",
+  "ParticipantNotFound",
+];
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+type Handler = (params: string[], body: unknown) => Promise<[number, unknown]>;
+
+interface Route {
+  method: "GET" | "POST";
+  pattern: RegExp;
+  handler: Handler;
+}
+
+function uintId(value: string): bigint {
+  if (!/^[0-9]+$/.test(value)) {
+    throw new HttpError(400, "INVALID_ID", `Not an integer ID: ${value}`);
+  }
+  return BigInt(value);
+}
+
+function bytes32Id(value: string): string {
+  if (!isHexString(value, 32)) {
+    throw new HttpError(400, "INVALID_ID", `Not a bytes32 ID: ${value}`);
+  }
+  return value;
+}
+
+function notFound(what: string): HttpError {
+  return new HttpError(404, "NOT_FOUND", `${what} not found`);
+}
+
+// bigints (IDs, timestamps, amounts) become decimal strings
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
+}
+
+class Gateway {
+  readonly routes: Route[];
+  private readonly decoder: EventDecoder;
+  /** Custom errors of every configured contract, for decoding reverts */
+  private readonly errors: Interface;
+
+  constructor(
+    readonly provider: Provider,
+    readonly contracts: IndexedContract[]
+  ) {
+    this.decoder = new EventDecoder(contracts);
+    const errors = new Map<string, ErrorFragment>();
+    for (const { name } of contracts) {
+      contractInterface(name).forEachError((fragment) =>
+        errors.set(fragment.format(), fragment)
+      );
+    }
+    this.errors = new Interface([...errors.values()]);
+    this.routes = [
+      { method: "GET", pattern: /^\/health$/, handler: () => this.health() },
+      {
+        method: "GET",
+        pattern: /^\/openapi\.json$/,
+        handler: async () => [200, OPENAPI_SPEC],
+      },
+      {
+        method: "GET",
+        pattern: /^\/materials\/([^/]+)$/,
+        handler: ([id]) => this.material(uintId(id)),
+      },
+      {
+        method: "GET",
+        pattern: /^\/orders\/([^/]+)$/,
+        handler: ([id]) => this.order(uintId(id)),
+      },
+      {
+        method: "GET",
+        pattern: /^\/matches\/([^/]+)$/,
+        handler: ([id]) => this.match(uintId(id)),
+      },
+      {
+        method: "GET",
+        pattern: /^\/deliveries\/([^/]+)$/,
+        handler: ([id]) => this.delivery(bytes32Id(id)),
+      },
+      {
+        method: "GET",
+        pattern: /^\/payments\/([^/]+)$/,
+        handler: ([id]) => this.payment(bytes32Id(id)),
+      },
+      {
+        method: "GET",
+        pattern: /^\/reputation\/([^/]+)$/,
+        handler: ([id]) => this.reputation(id),
+      },
+      {
+        method: "POST",
+        pattern: /^\/transactions\/prepare$/,
+        handler: (_, body) => this.prepare(body),
+      },
+      {
+        method: "POST",
+        pattern: /^\/transactions$/,
+        handler: (_, body) => this.relay(body),
+      },
+    ];
+  }
+
+  async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    let status: number;
+    let payload: unknown;
+    try {
+      const path = new URL(req.url ?? "/", "http://gateway").pathname;
+      const route = this.routes.find(
+        (r) => r.method === req.method && r.pattern.test(path)
+      );
+      if (!route) {
+        throw new HttpError(
+          404,
+          "NOT_FOUND",
+          `No route for ${req.method} ${path}`
+        );
+      }
+      const params = route.pattern.exec(path)!.slice(1).map(decodeURIComponent);
+      const body = route.method === "POST" ? await readBody(req) : undefined;
+      [status, payload] = await route.handler(params, body);
+    } catch (error) {
+      const httpError = toHttpError(error, this.errors);
+      status = httpError.status;
+      payload = {
+        error: { code: httpError.code, message: httpError.message },
+      };
+    }
+
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(toJson(payload));
+  }
+
+  // ========== Reads ==========
+
+  private async health(): Promise<[number, unknown]> {
+    const [network, blockNumber] = await Promise.all([
+      this.provider.getNetwork(),
+      this.provider.getBlockNumber(),
+    ]);
+    return [
+      200,
+      { chainId: network.chainId, blockNumber, contracts: this.contracts },
+    ];
+  }
+
+  private async material(materialId: bigint): Promise<[number, unknown]> {
+    const info = await this.trading().getMaterialInfo(materialId);
+    if (info.supplier === ZeroAddress) {
+      throw notFound(`Material ${materialId}`);
+    }
+    return [200, { ...info, category: MaterialCategory[info.category] }];
+  }
+
+  private async order(orderId: bigint): Promise<[number, unknown]> {
+    const trading = this.trading();
+    const info = await trading.getOrderInfo(orderId);
+    if (info.buyer === ZeroAddress) {
+      throw notFound(`Order ${orderId}`);
+    }
+    const [matchIds, deliveryId] = await Promise.all([
+      trading.getOrderMatches(orderId),
+      trading.getOrderDelivery(orderId),
+    ]);
+    return [
+      200,
+      {
+        ...info,
+        status: OrderStatus[info.status],
+        matchIds,
+        deliveryId: deliveryId === ZeroHash ? null : deliveryId,
+      },
+    ];
+  }
+
+  private async match(matchId: bigint): Promise<[number, unknown]> {
+    const info = await this.trading().getTradeMatch(matchId);
+    if (info.buyer === ZeroAddress) {
+      throw notFound(`Match ${matchId}`);
+    }
+    return [200, info];
+  }
+
+  private async delivery(requestId: string): Promise<[number, unknown]> {
+    const manager = DeliveryManager__factory.connect(
+      this.addressOf("DeliveryManager"),
+      this.provider
+    );
+    const [d, trade] = await Promise.all([
+      manager.getDelivery(requestId),
+      manager.getTradeOrder(requestId),
+    ]);
+    return [
+      200,
+      {
+        requestId: d.requestId,
+        requester: d.requester,
+        assignedCourier: d.assignedCourier,
+        createdAt: d.createdAt,
+        acceptedAt: d.acceptedAt,
+        completedAt: d.completedAt,
+        status: DeliveryStatus[Number(d.status)],
+        tradeOrder:
+          trade.trading === ZeroAddress
+            ? null
+            : { trading: trade.trading, orderId: trade.orderId },
+      },
+    ];
+  }
+
+  private async payment(paymentId: string): Promise<[number, unknown]> {
+    const processor = PaymentProcessor__factory.connect(
+      this.addressOf("PaymentProcessor"),
+      this.provider
+    );
+    const p = await processor.getPayment(paymentId);
+    return [
+      200,
+      {
+        paymentId: p.paymentId,
+        deliveryId: p.deliveryId,
+        payer: p.payer,
+        payee: p.payee,
+        amount: p.amount,
+        fee: p.fee,
+        status: PaymentStatus[Number(p.status)],
+        asset: PAYMENT_ASSETS[Number(p.asset)],
+        token: p.token,
+        createdAt: p.createdAt,
+        completedAt: p.completedAt,
+      },
+    ];
+  }
+
+  private async reputation(participant: string): Promise<[number, unknown]> {
+    if (!isAddress(participant)) {
+      throw new HttpError(400, "INVALID_ID", `Not an address: ${participant}`);
+    }
+    const tracker = ReputationTracker__factory.connect(
+      this.addressOf("ReputationTracker"),
+      this.provider
+    );
+    const r = await tracker.getReputation(participant);
+    return [
+      200,
+      {
+        participant: r.participant,
+        ratingCount: r.ratingCount,
+        lastUpdated: r.lastUpdated,
+        encryptedTotal: r.encryptedTotal,
+      },
+    ];
+  }
+
+  // ========== Writes ==========
+
+  /**
+   * Builds an unsigned transaction calling `method` on a configured contract
+   */
+  private async prepare(body: unknown): Promise<[number, unknown]> {
+    const { from, contract, method, args = [], value = "0" } = bodyFields(body);
+    if (!isAddress(from)) {
+      throw new HttpError(400, "INVALID_BODY", "from must be an address");
+    }
+    if (
+      typeof method !== "string" ||
+      !Array.isArray(args) ||
+      !/^[0-9]+$/.test(String(value))
+    ) {
+      throw new HttpError(
+        400,
+        "INVALID_BODY",
+        "method must be a string, args a list and value a decimal integer"
+      );
+    }
+    const target = this.contracts.find(
+      (c) =>
+        c.name === contract ||
+        c.address.toLowerCase() === String(contract).toLowerCase()
+    );
+    if (!target) {
+      throw new HttpError(
+        404,
+        "NOT_CONFIGURED",
+        `Contract ${contract} is not configured`
+      );
+    }
+
+    const iface = contractInterface(target.name);
+    let data: string;
+    try {
+      const fragment = iface.getFunction(method);
+      if (!fragment) {
+        throw new HttpError(
+          400,
+          "UNKNOWN_METHOD",
+          `${target.name} has no function ${method}`
+        );
+      }
+      data = iface.encodeFunctionData(fragment, args);
+    } catch (error) {
+      if (error instanceof HttpError) throw error;
+      throw new HttpError(400, "INVALID_BODY", errorMessage(error));
+    }
+
+    const request = {
+      from,
+      to: target.address,
+      data,
+      value: BigInt(String(value)),
+    };
+    const [network, nonce, fees, gasLimit] = await Promise.all([
+      this.provider.getNetwork(),
+      this.provider.getTransactionCount(from, "pending"),
+      this.provider.getFeeData(),
+      this.provider.estimateGas(request),
+    ]);
+
+    const pricing =
+      fees.maxFeePerGas !== null
+        ? {
+            type: 2,
+            maxFeePerGas: fees.maxFeePerGas,
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+          }
+        : { type: 0, gasPrice: fees.gasPrice };
+    return [
+      200,
+      { ...pricing, chainId: network.chainId, ...request, nonce, gasLimit },
+    ];
+  }
+
+  /**
+   * Broadcasts a signed transaction to a configured contract
+   */
+  private async relay(body: unknown): Promise<[number, unknown]> {
+    const { signedTransaction, wait } = bodyFields(body);
+    const invalid = new HttpError(
+      400,
+      "INVALID_TRANSACTION",
+      "signedTransaction must be a serialized transaction"
+    );
+    if (typeof signedTransaction !== "string") {
+      throw invalid;
+    }
+    let tx: Transaction;
+    try {
+      tx = Transaction.from(signedTransaction);
+    } catch {
+      throw invalid;
+    }
+    if (!tx.signature || !tx.from) {
+      throw new HttpError(
+        400,
+        "INVALID_TRANSACTION",
+        "Transaction is not signed"
+      );
+    }
+
+    const network = await this.provider.getNetwork();
+    if (tx.chainId !== network.chainId) {
+      throw new HttpError(
+        400,
+        "WRONG_CHAIN",
+        `Transaction is for chain ${tx.chainId}, not ${network.chainId}`
+      );
+    }
+    const target = this.contracts.find(
+      (c) => c.address.toLowerCase() === tx.to?.toLowerCase()
+    );
+    if (!target) {
+      throw new HttpError(
+        403,
+        "CONTRACT_NOT_ALLOWED",
+        `Transactions to ${tx.to} are not relayed`
+      );
+    }
+    const parsed = contractInterface(target.name).parseTransaction({
+      data: tx.data,
+      value: tx.value,
+    });
+    if (!parsed) {
+      throw new HttpError(
+        400,
+        "UNKNOWN_METHOD",
+        `Calldata does not match a ${target.name} function`
+      );
+    }
+
+    let response: TransactionResponse;
+    try {
+      response = await this.provider.broadcastTransaction(tx.serialized);
+    } catch (error) {
+      throw new HttpError(400, "BROADCAST_FAILED", errorMessage(error));
+    }
+
+    const result = {
+      hash: response.hash,
+      from: tx.from,
+      to: target.address,
+      contract: target.name,
+      method: parsed.name,
+    };
+    if (!wait) {
+      return [202, result];
+    }
+
+    let receipt: TransactionReceipt | null;
+    try {
+      receipt = await response.wait();
+    } catch (error) {
+      // wait() throws for reverted transactions, which are reported as such
+      if (!isError(error, "CALL_EXCEPTION") || !error.receipt) {
+        throw error;
+      }
+      receipt = error.receipt;
+    }
+    const events = receipt!.logs
+      .map((log) => this.decoder.decode(log))
+      .filter((event) => event !== undefined)
+      .map((event) => ({
+        contract: event!.contract,
+        address: event!.address,
+        event: event!.event,
+        args: event!.args,
+      }));
+    return [
+      200,
+      {
+        ...result,
+        status: receipt!.status === 1 ? "success" : "reverted",
+        blockNumber: receipt!.blockNumber,
+        events,
+      },
+    ];
+  }
+
+  // ========== Internals ==========
+
+  private addressOf(name: IndexedContractName): string {
+    const contract = this.contracts.find((c) => c.name === name);
+    if (!contract) {
+      throw new HttpError(404, "NOT_CONFIGURED", `${name} is not configured`);
+    }
+    return contract.address;
+  }
+
+  private trading(): TradingClient {
+    return TradingClient.connect(
+      this.addressOf("ConfidentialRawMaterialsTrading"),
+      this.provider
+    );
+  }
+}
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new HttpError(400, "INVALID_BODY", "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "INVALID_BODY", "Request body must be JSON");
+  }
+}
+
+// Fields of a JSON object body; any other body has none
+function bodyFields(body: unknown): Record<string, unknown> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return {};
+  }
+  return body as Record<string, unknown>;
+}
+
+// ethers' one-line summary when there is one, else the full message
+function errorMessage(error: unknown): string {
+  if (
+    typeof error === "object" &&
+    error !== null &&
+    "shortMessage" in error &&
+    typeof error.shortMessage === "string"
+  ) {
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Maps a failure to a response: reverts become 404 for unknown IDs and 400
+ * otherwise, with the require() string or custom error name as message
+ */
+function toHttpError(error: unknown, errors: Interface): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+  const reason = extractRevertReason(error, errors);
+  if (reason !== undefined) {
+    if (NOT_FOUND_ERRORS.includes(reason)) {
+      return new HttpError(404, "NOT_FOUND", reason);
+    }
+    return new HttpError(400, "CALL_FAILED", reason);
+  }
+  if (isError(error, "CALL_EXCEPTION")) {
+    return new HttpError(400, "CALL_FAILED", error.shortMessage);
+  }
+  return new HttpError(500, "INTERNAL_ERROR", errorMessage(error));
+}
+
+/**
+ * Creates an HTTP server for the gateway; call listen() to start it
+ */
+export function createGateway(
+  provider: Provider,
+  contracts: IndexedContract[]
+): http.Server {
+  const gateway = new Gateway(provider, contracts);
+  return http.createServer((req, res) => {
+    void gateway.handle(req, res);
+  });
+}
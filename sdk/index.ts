@@ -0,0 +1,139 @@
+export { TradingClient } from "./TradingClient";
+export { encryptListingInputs, encryptOrderInputs } from "./encryption";
+export type {
+  FhevmEncryptor,
+  EncryptedInputBuilder,
+  EncryptedInputs,
+  EncryptedListingInputs,
+  EncryptedOrderInputs,
+} from "./encryption";
+export {
+  COORDINATE_SCALE,
+  encodeLocation,
+  decodeLocation,
+  encryptLocation,
+} from "./location";
+export type { Coordinates, EncryptedLocation } from "./location";
+export {
+  generateDeliverySecret,
+  recipientCommitment,
+  deliveryCommitment,
+  proofOfDeliveryMessage,
+  signDeliveryConfirmation,
+} from "./confirmation";
+export {
+  TradingError,
+  TradingAuthorizationError,
+  TradingValidationError,
+  TradingStateError,
+  toTradingError,
+} from "./errors";
+export type { TradingErrorCode } from "./errors";
+export {
+  getMilestoneBalances,
+  formatMilestoneBalances,
+} from "./milestones";
+export {
+  MIN_RATING,
+  MAX_RATING,
+  DEFAULT_RATER_WEIGHT,
+  DECAY_HALF_LIFE,
+  DECAY_PRECISION,
+  MAX_WEIGHTED_RATINGS,
+  decayFactor,
+  fetchRatingEvents,
+  computeWeightedRating,
+  weightedAverage,
+} from "./reputation";
+export { getDeliveryTimeline, formatTimeline } from "./tracking";
+export {
+  INDEXED_CONTRACT_NAMES,
+  contractInterface,
+  contractEventNames,
+  EventDecoder,
+} from "./events";
+export { MemoryEventStore, JsonEventStore } from "./store";
+export type { EventStore } from "./store";
+export {
+  DEFAULT_CONFIRMATIONS,
+  DEFAULT_BATCH_SIZE,
+  EventIndexer,
+} from "./indexer";
+export type { IndexerOptions, SyncResult } from "./indexer";
+export {
+  getOrdersByBuyer,
+  getMatchesBySupplier,
+  getPaymentsByStatus,
+} from "./queries";
+export {
+  parseMonitorConfig,
+  matchesFilters,
+  formatEvent,
+  watchEvents,
+} from "./monitor";
+export type { EventFilter, MonitorConfig, OutputFormat } from "./monitor";
+export {
+  parseAlertConfig,
+  createSinks,
+  StdoutSink,
+  FileSink,
+  WebhookSink,
+  AlertEngine,
+} from "./alerts";
+export type {
+  Alert,
+  AlertConfig,
+  AlertRule,
+  AlertRuleType,
+  AlertSink,
+  SinkConfig,
+} from "./alerts";
+export { createGateway } from "./gateway";
+export { OPENAPI_SPEC } from "./openapi";
+export {
+  DEFAULT_DEPLOYMENTS_DIR,
+  PLATFORM_CONTRACTS,
+  manifestPath,
+  readManifest,
+  loadManifest,
+  writeManifest,
+  manifestAddress,
+  manifestContracts,
+  deployPlatform,
+} from "./deployments";
+export type {
+  PlatformContractName,
+  DeploymentRecord,
+  DeploymentManifest,
+  DeployOptions,
+  DeployResult,
+} from "./deployments";
+export {
+  DeliveryStatus,
+  MaterialCategory,
+  OrderStatus,
+  PaymentStatus,
+} from "./types";
+export type {
+  MaterialInfo,
+  OrderInfo,
+  TradeMatchInfo,
+  FillRecord,
+  QuantityDecryptor,
+  AmountDecryptor,
+  MilestoneBalance,
+  RatingEvent,
+  RatingScoreLookup,
+  WeightedRating,
+  CheckpointDecryptor,
+  TimelineEntry,
+  IndexedContractName,
+  IndexedContract,
+  IndexedEvent,
+  IndexCursor,
+  IndexedOrder,
+  IndexedMatch,
+  IndexedPayment,
+  ListMaterialParams,
+  PlaceOrderParams,
+} from "./types";
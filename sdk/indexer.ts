@@ -0,0 +1,143 @@
+/**
+ * Event indexer
+ *
+ * Backfills the events of the platform contracts from a start block into an
+ * EventStore and keeps it up to date. Only blocks at least `confirmations`
+ * deep are indexed; if a deeper reorg still replaces an indexed block, the
+ * indexer rolls back to the newest of its events that is still canonical and
+ * indexes forward again. Progress is saved after every batch, so a restarted
+ * indexer resumes from the store's cursor.
+ *
+ * Usage:
+ *   const store = await JsonEventStore.open("data/events.json");
+ *   const indexer = new EventIndexer(provider, store, [
+ *     { name: "ConfidentialRawMaterialsTrading", address: tradingAddress },
+ *     { name: "PaymentProcessor", address: processorAddress },
+ *   ], { startBlock: 5_000_000 });
+ *   await indexer.sync();
+ *   const orders = getOrdersByBuyer(store, buyer);
+ */
+
+import { Provider } from "ethers";
+import { EventDecoder } from "./events";
+import { EventStore } from "./store";
+import { IndexCursor, IndexedContract, IndexedEvent } from "./types";
+
+/** Blocks behind the head the indexer stays by default */
+export const DEFAULT_CONFIRMATIONS = 12;
+
+/** Blocks fetched per eth_getLogs call by default */
+export const DEFAULT_BATCH_SIZE = 2000;
+
+export interface IndexerOptions {
+  /** First block to index when the store is empty (default 0) */
+  startBlock?: number;
+  confirmations?: number;
+  batchSize?: number;
+}
+
+/** Outcome of one sync() call */
+export interface SyncResult {
+  /** Block the indexer rolled back to, if a reorg was detected */
+  rolledBackTo?: number;
+  /** Range indexed by this call, absent when already up to date */
+  fromBlock?: number;
+  toBlock?: number;
+  eventCount: number;
+}
+
+export class EventIndexer {
+  readonly startBlock: number;
+  readonly confirmations: number;
+  readonly batchSize: number;
+  readonly decoder: EventDecoder;
+
+  constructor(
+    readonly provider: Provider,
+    readonly store: EventStore,
+    contracts: IndexedContract[],
+    options: IndexerOptions = {}
+  ) {
+    this.startBlock = options.startBlock ?? 0;
+    this.confirmations = options.confirmations ?? DEFAULT_CONFIRMATIONS;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (this.batchSize < 1 || this.confirmations < 0 || this.startBlock < 0) {
+      throw new RangeError("Invalid indexer options");
+    }
+    this.decoder = new EventDecoder(contracts);
+  }
+
+  /**
+   * Indexes every confirmed block not yet in the store
+   */
+  async sync(): Promise<SyncResult> {
+    const result: SyncResult = { eventCount: 0 };
+
+    let cursor = this.store.getCursor();
+    if (cursor && !(await this.isCanonical(cursor))) {
+      cursor = await this.findCommonAncestor();
+      await this.store.rollback(cursor);
+      result.rolledBackTo = cursor ? cursor.blockNumber : this.startBlock - 1;
+    }
+
+    const head = await this.provider.getBlockNumber();
+    const target = head - this.confirmations;
+    let from = cursor ? cursor.blockNumber + 1 : this.startBlock;
+    if (from > target) {
+      return result;
+    }
+
+    result.fromBlock = from;
+    while (from <= target) {
+      const to = Math.min(from + this.batchSize - 1, target);
+      const logs = await this.provider.getLogs({
+        address: this.decoder.addresses,
+        fromBlock: from,
+        toBlock: to,
+      });
+      const events = logs
+        .map((log) => this.decoder.decode(log))
+        .filter((event): event is IndexedEvent => event !== undefined);
+
+      await this.store.append(events, await this.cursorAt(to));
+      result.eventCount += events.length;
+      result.toBlock = to;
+      from = to + 1;
+    }
+    return result;
+  }
+
+  private async cursorAt(blockNumber: number): Promise<IndexCursor> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block?.hash) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    return { blockNumber, blockHash: block.hash };
+  }
+
+  private async isCanonical(cursor: IndexCursor): Promise<boolean> {
+    const block = await this.provider.getBlock(cursor.blockNumber);
+    return block?.hash === cursor.blockHash;
+  }
+
+  /**
+   * Newest block holding one of our events that is still canonical. Blocks
+   * between it and the old cursor may have gained events, so indexing
+   * restarts right after it.
+   */
+  private async findCommonAncestor(): Promise<IndexCursor | undefined> {
+    const events = this.store.getEvents();
+    let checked: number | undefined;
+    for (let i = events.length - 1; i >= 0; i--) {
+      const { blockNumber, blockHash } = events[i];
+      if (blockNumber === checked) {
+        continue;
+      }
+      checked = blockNumber;
+      if (await this.isCanonical({ blockNumber, blockHash })) {
+        return { blockNumber, blockHash };
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Location encoding helpers
+ *
+ * DeliveryManager compares pickup and courier locations as encrypted
+ * euint64 values packed like PrivacyLayer.encodeLocation: latitude in the
+ * high 32 bits, longitude in the low 32 bits. Coordinates are stored as
+ * unsigned units of 1/COORDINATE_SCALE degree, offset so that -90/-180 is 0.
+ *
+ * With COORDINATE_SCALE = 1000, DeliveryManager.MAX_DISTANCE (100 units) is
+ * 0.1 degree, roughly 11 km north-south. Longitude is not wrapped at the
+ * antimeridian.
+ *
+ * Usage:
+ *   const location = await encryptLocation(fhevm, managerAddress, courier.address, {
+ *     latitude: 51.9244,
+ *     longitude: 4.4777,
+ *   });
+ *   await manager.acceptDelivery(requestId, location.handle, location.inputProof);
+ */
+
+import { BytesLike } from "ethers";
+import { FhevmEncryptor } from "./encryption";
+
+/** Units per degree of latitude or longitude */
+export const COORDINATE_SCALE = 1000;
+
+/** A point in decimal degrees */
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/** Encrypted packed location for createDeliveryRequest / acceptDelivery */
+export interface EncryptedLocation {
+  handle: BytesLike;
+  inputProof: BytesLike;
+}
+
+/** Packs decimal-degree coordinates the way PrivacyLayer.encodeLocation does */
+export function encodeLocation({ latitude, longitude }: Coordinates): bigint {
+  if (latitude < -90 || latitude > 90) {
+    throw new RangeError(`Latitude out of range: ${latitude}`);
+  }
+  if (longitude < -180 || longitude > 180) {
+    throw new RangeError(`Longitude out of range: ${longitude}`);
+  }
+
+  const lat = BigInt(Math.round((latitude + 90) * COORDINATE_SCALE));
+  const lon = BigInt(Math.round((longitude + 180) * COORDINATE_SCALE));
+  return (lat << 32n) | lon;
+}
+
+/** Inverse of encodeLocation, to COORDINATE_SCALE precision */
+export function decodeLocation(encoded: bigint): Coordinates {
+  // Remove the offset in whole units before scaling so that coordinates
+  // given to COORDINATE_SCALE precision come back exactly
+  const lat = Number(encoded >> 32n) - 90 * COORDINATE_SCALE;
+  const lon = Number(encoded & 0xffffffffn) - 180 * COORDINATE_SCALE;
+  return {
+    latitude: lat / COORDINATE_SCALE,
+    longitude: lon / COORDINATE_SCALE,
+  };
+}
+
+/**
+ * Encrypts a location for `userAddress` calling `contractAddress`
+ */
+export async function encryptLocation(
+  encryptor: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  coordinates: Coordinates
+): Promise<EncryptedLocation> {
+  const encrypted = await encryptor
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(encodeLocation(coordinates))
+    .encrypt();
+
+  return {
+    handle: encrypted.handles[0],
+    inputProof: encrypted.inputProof,
+  };
+}
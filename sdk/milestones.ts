@@ -0,0 +1,78 @@
+/**
+ * Milestone payment helpers
+ *
+ * Reads the tranches of a PaymentProcessor milestone payment and, for the
+ * payer or payee (the only parties with decrypt access), works out what is
+ * still owed under each milestone.
+ *
+ * Usage:
+ *   const balances = await getMilestoneBalances(processor, paymentId, (h) =>
+ *     fhevm.userDecryptEuint(FhevmType.euint64, h, processorAddress, signer)
+ *   );
+ *   console.log(formatMilestoneBalances(balances));
+ */
+
+import { PaymentProcessor } from "../typechain-types";
+import { AmountDecryptor, MilestoneBalance, PaymentStatus } from "./types";
+
+/**
+ * Lists the milestones of a payment. Amounts stay encrypted unless a
+ * decryptor is supplied.
+ */
+export async function getMilestoneBalances(
+  processor: PaymentProcessor,
+  paymentId: string,
+  decrypt?: AmountDecryptor
+): Promise<MilestoneBalance[]> {
+  const [payment, plan] = await Promise.all([
+    processor.getPayment(paymentId),
+    processor.getMilestones(paymentId),
+  ]);
+
+  // Completing or refunding the payment as a whole settles every tranche
+  const status = Number(payment.status) as PaymentStatus;
+  const settled =
+    status === PaymentStatus.COMPLETED || status === PaymentStatus.REFUNDED;
+
+  const balances: MilestoneBalance[] = [];
+  for (let index = 0; index < plan.length; index++) {
+    const milestone = plan[index];
+    const balance: MilestoneBalance = {
+      index,
+      checkpoint: Number(milestone.checkpoint),
+      released: milestone.released,
+      releasedAt:
+        milestone.releasedAt > 0n ? Number(milestone.releasedAt) : undefined,
+      encryptedAmount: milestone.amount,
+    };
+
+    if (decrypt) {
+      balance.amount = await decrypt(milestone.amount);
+      balance.remaining = milestone.released || settled ? 0n : balance.amount;
+    }
+    balances.push(balance);
+  }
+  return balances;
+}
+
+/**
+ * Renders milestone balances as a plain-text table, one line per milestone
+ * followed by the total still owed
+ */
+export function formatMilestoneBalances(balances: MilestoneBalance[]): string {
+  const lines = balances.map((balance) => {
+    const state = balance.released ? "released" : "pending";
+    const amount = balance.amount?.toString() ?? "(encrypted)";
+    const remaining = balance.remaining?.toString() ?? "(encrypted)";
+    return `#${balance.index} checkpoint ${balance.checkpoint}: ${amount} ${state}, remaining ${remaining}`;
+  });
+
+  if (balances.every((balance) => balance.remaining !== undefined)) {
+    const total = balances.reduce(
+      (sum, balance) => sum + (balance.remaining ?? 0n),
+      0n
+    );
+    lines.push(`Total remaining: ${total}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,215 @@
+/**
+ * Event monitor helpers
+ *
+ * Follow live events of several platform contracts, keep the ones matching
+ * a set of filters and render them as NDJSON (one JSON object per line, for
+ * log shippers and jq) or as the human-readable boxes of the monitor script.
+ *
+ * Usage:
+ *   const config = parseMonitorConfig(JSON.parse(text));
+ *   const stop = await watchEvents(provider, config, (event) =>
+ *     console.log(formatEvent(event, config.format))
+ *   );
+ */
+
+import { getAddress, Log, Provider } from "ethers";
+import {
+  contractEventNames,
+  EventDecoder,
+  INDEXED_CONTRACT_NAMES,
+} from "./events";
+import { IndexedContract, IndexedEvent } from "./types";
+
+export type OutputFormat = "ndjson" | "pretty";
+
+/**
+ * Events to keep. Every field that is set must match; a list matches if any
+ * entry does. Addresses and argument values compare case-insensitively, so
+ * `{ args: { supplier: "0xAb..." } }` follows one supplier across events.
+ */
+export interface EventFilter {
+  events?: string[];
+  /** Emitting contract addresses */
+  addresses?: string[];
+  /** Argument name to value, as decoded (integers in decimal) */
+  args?: Record<string, string>;
+}
+
+export interface MonitorConfig {
+  contracts: IndexedContract[];
+  /** An event is shown if it matches any filter; all events when empty */
+  filters: EventFilter[];
+  format: OutputFormat;
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid monitor config: ${message}`);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    fail(`${field} must be a list of strings`);
+  }
+  return value;
+}
+
+/**
+ * Validates a parsed JSON config, rejecting unknown contracts and event
+ * names so a typo does not silently filter everything out
+ */
+export function parseMonitorConfig(raw: unknown): MonitorConfig {
+  if (
+    !isRecord(raw) ||
+    !Array.isArray(raw.contracts) ||
+    raw.contracts.length === 0
+  ) {
+    fail("contracts must be a non-empty list");
+  }
+  const contracts: IndexedContract[] = raw.contracts.map((c: unknown) => {
+    const entry = isRecord(c) ? c : {};
+    const name = INDEXED_CONTRACT_NAMES.find((n) => n === entry.name);
+    if (!name) {
+      fail(`unknown contract ${entry.name}`);
+    }
+    const { address } = entry;
+    if (typeof address !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      fail(`bad address for ${name}`);
+    }
+    return { name, address };
+  });
+
+  const known = new Set(
+    contracts.flatMap(({ name }) => contractEventNames(name))
+  );
+  const filterList = raw.filters ?? [];
+  if (!Array.isArray(filterList)) {
+    fail("filters must be a list");
+  }
+  const filters: EventFilter[] = filterList.map((f: unknown, i: number) => {
+    if (!isRecord(f)) {
+      fail(`filters[${i}] must be an object`);
+    }
+    const events = stringList(f.events, `filters[${i}].events`);
+    const addresses = stringList(f.addresses, `filters[${i}].addresses`);
+    for (const event of events ?? []) {
+      if (!known.has(event)) {
+        fail(`no configured contract emits ${event}`);
+      }
+    }
+    const { args } = f;
+    if (
+      args !== undefined &&
+      (!isRecord(args) ||
+        Object.values(args).some((v) => typeof v !== "string"))
+    ) {
+      fail(`filters[${i}].args must map names to strings`);
+    }
+    return {
+      events,
+      addresses,
+      args: args as Record<string, string> | undefined,
+    };
+  });
+
+  const format = raw.format ?? "pretty";
+  if (format !== "ndjson" && format !== "pretty") {
+    fail(`unknown format ${format}`);
+  }
+  return { contracts, filters, format };
+}
+
+function sameValue(a: string | boolean | undefined, b: string): boolean {
+  return a !== undefined && String(a).toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Whether `event` passes `filters` (always true for no filters)
+ */
+export function matchesFilters(
+  event: IndexedEvent,
+  filters: EventFilter[]
+): boolean {
+  if (filters.length === 0) {
+    return true;
+  }
+  return filters.some(
+    ({ events, addresses, args }) =>
+      (!events || events.includes(event.event)) &&
+      (!addresses || addresses.some((a) => sameValue(event.address, a))) &&
+      (!args ||
+        Object.entries(args).every(([name, value]) =>
+          sameValue(event.args[name], value)
+        ))
+  );
+}
+
+function shorten(value: string | boolean): string {
+  if (typeof value !== "string" || !value.startsWith("0x")) {
+    return String(value);
+  }
+  if (value.length === 42) {
+    return `${value.substring(0, 10)}...`;
+  }
+  return value.length > 20 ? `${value.substring(0, 18)}...` : value;
+}
+
+/**
+ * Renders an event as one NDJSON line, or as a box for the terminal
+ */
+export function formatEvent(
+  event: IndexedEvent,
+  format: OutputFormat,
+  sequence?: number
+): string {
+  if (format === "ndjson") {
+    return JSON.stringify(event);
+  }
+
+  const title = sequence === undefined ? "EVENT" : `EVENT #${sequence}`;
+  return [
+    `┌─ ${title}: ${event.event} (${event.contract} ${shorten(event.address)})`,
+    ...Object.entries(event.args).map(
+      ([name, value]) => `├─ ${name}: ${shorten(value)}`
+    ),
+    `├─ Block: ${event.blockNumber}`,
+    `└─ Tx Hash: ${event.transactionHash.substring(0, 20)}...`,
+  ].join("\n");
+}
+
+/**
+ * Calls `onEvent` for each new event of the configured contracts that passes
+ * the filters. Resolves to a function that stops watching.
+ */
+export async function watchEvents(
+  provider: Provider,
+  config: Pick<MonitorConfig, "contracts" | "filters">,
+  onEvent: (event: IndexedEvent) => void
+): Promise<() => Promise<void>> {
+  const decoder = new EventDecoder(config.contracts);
+  const listener = (log: Log) => {
+    const event = decoder.decode(log);
+    if (event && matchesFilters(event, config.filters)) {
+      onEvent(event);
+    }
+  };
+
+  // Checksummed, as some providers compare filter and log addresses exactly
+  const subscriptions = decoder.addresses.map((address) => ({
+    address: getAddress(address),
+  }));
+  for (const filter of subscriptions) {
+    await provider.on(filter, listener);
+  }
+  return async () => {
+    for (const filter of subscriptions) {
+      await provider.off(filter, listener);
+    }
+  };
+}
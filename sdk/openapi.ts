@@ -0,0 +1,399 @@
+/**
+ * OpenAPI description of the HTTP gateway (sdk/gateway.ts)
+ *
+ * Served by the gateway at GET /openapi.json. Integers that may exceed 2^53
+ * (IDs, timestamps, wei amounts) are decimal strings; encrypted values are
+ * returned as their ciphertext handles.
+ */
+
+const id = (description: string) => ({
+  name: "id",
+  in: "path",
+  required: true,
+  description,
+  schema: { type: "string" },
+});
+
+const uint = { type: "string", pattern: "^[0-9]+$" };
+const address = { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" };
+const bytes32 = { type: "string", pattern: "^0x[0-9a-fA-F]{64}$" };
+
+const ok = (schema: string, description: string) => ({
+  "200": {
+    description,
+    content: {
+      "application/json": {
+        schema: { $ref: `#/components/schemas/${schema}` },
+      },
+    },
+  },
+  "400": { $ref: "#/components/responses/Error" },
+  "404": { $ref: "#/components/responses/Error" },
+});
+
+export const OPENAPI_SPEC = {
+  openapi: "3.0.3",
+  info: {
+    title: "Confidential Raw Materials Trading Gateway",
+    version: "1.0.0",
+    description:
+      "Read access to the platform contracts over HTTP, and relaying of transactions signed by the caller. The gateway holds no keys.",
+  },
+  paths: {
+    "/health": {
+      get: {
+        summary: "Chain and configured contracts",
+        responses: {
+          "200": {
+            description: "Gateway status",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Health" },
+              },
+            },
+          },
+        },
+      },
+    },
+    "/materials/{id}": {
+      get: {
+        summary: "Public listing data of a material",
+        parameters: [id("Material ID")],
+        responses: ok("Material", "The material"),
+      },
+    },
+    "/orders/{id}": {
+      get: {
+        summary: "Public data of an order, with its matches and delivery",
+        parameters: [id("Order ID")],
+        responses: ok("Order", "The order"),
+      },
+    },
+    "/matches/{id}": {
+      get: {
+        summary: "A fill of an order",
+        parameters: [id("Match ID")],
+        responses: ok("Match", "The match"),
+      },
+    },
+    "/deliveries/{id}": {
+      get: {
+        summary: "A delivery request",
+        parameters: [id("Delivery request ID (bytes32)")],
+        responses: ok("Delivery", "The delivery"),
+      },
+    },
+    "/payments/{id}": {
+      get: {
+        summary: "A payment",
+        parameters: [id("Payment ID (bytes32)")],
+        responses: ok("Payment", "The payment"),
+      },
+    },
+    "/reputation/{id}": {
+      get: {
+        summary: "Reputation record of a participant",
+        parameters: [id("Participant address")],
+        responses: ok("Reputation", "The reputation record"),
+      },
+    },
+    "/transactions/prepare": {
+      post: {
+        summary: "Build an unsigned transaction for the caller to sign",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/PrepareRequest" },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Unsigned EIP-1559 transaction",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/UnsignedTransaction" },
+              },
+            },
+          },
+          "400": { $ref: "#/components/responses/Error" },
+          "404": { $ref: "#/components/responses/Error" },
+        },
+      },
+    },
+    "/transactions": {
+      post: {
+        summary: "Relay a signed transaction to a platform contract",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/RelayRequest" },
+            },
+          },
+        },
+        responses: {
+          "200": {
+            description: "Mined, when `wait` was set",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/RelayReceipt" },
+              },
+            },
+          },
+          "202": {
+            description: "Broadcast",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/RelayResult" },
+              },
+            },
+          },
+          "400": { $ref: "#/components/responses/Error" },
+          "403": { $ref: "#/components/responses/Error" },
+        },
+      },
+    },
+  },
+  components: {
+    responses: {
+      Error: {
+        description: "Error",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Error" },
+          },
+        },
+      },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: {
+          error: {
+            type: "object",
+            required: ["code", "message"],
+            properties: {
+              code: {
+                type: "string",
+                example: "NOT_FOUND",
+                description:
+                  "NOT_FOUND, NOT_CONFIGURED, INVALID_ID, INVALID_BODY, INVALID_TRANSACTION, WRONG_CHAIN, CONTRACT_NOT_ALLOWED, UNKNOWN_METHOD, CALL_FAILED, BROADCAST_FAILED or INTERNAL_ERROR",
+              },
+              message: { type: "string" },
+            },
+          },
+        },
+      },
+      Health: {
+        type: "object",
+        properties: {
+          chainId: uint,
+          blockNumber: { type: "integer" },
+          contracts: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { name: { type: "string" }, address },
+            },
+          },
+        },
+      },
+      Material: {
+        type: "object",
+        properties: {
+          materialId: uint,
+          name: { type: "string" },
+          category: {
+            type: "string",
+            enum: [
+              "METALS",
+              "CHEMICALS",
+              "ENERGY",
+              "AGRICULTURAL",
+              "TEXTILES",
+              "MINERALS",
+            ],
+          },
+          supplier: address,
+          isActive: { type: "boolean" },
+          createdAt: uint,
+          qualityGrade: { type: "string" },
+          deliveryTimeframe: uint,
+        },
+      },
+      Order: {
+        type: "object",
+        properties: {
+          orderId: uint,
+          buyer: address,
+          materialId: uint,
+          status: {
+            type: "string",
+            enum: ["PENDING", "MATCHED", "COMPLETED", "CANCELLED"],
+          },
+          createdAt: uint,
+          matchedAt: uint,
+          matchedSupplier: address,
+          deliveryLocation: { type: "string" },
+          matchIds: { type: "array", items: uint },
+          deliveryId: { ...bytes32, nullable: true },
+        },
+      },
+      Match: {
+        type: "object",
+        properties: {
+          matchId: uint,
+          orderId: uint,
+          materialId: uint,
+          buyer: address,
+          supplier: address,
+          timestamp: uint,
+          isConfirmed: { type: "boolean" },
+        },
+      },
+      Delivery: {
+        type: "object",
+        properties: {
+          requestId: bytes32,
+          requester: address,
+          assignedCourier: address,
+          createdAt: uint,
+          acceptedAt: uint,
+          completedAt: uint,
+          status: {
+            type: "string",
+            enum: [
+              "PENDING",
+              "ACCEPTED",
+              "IN_TRANSIT",
+              "COMPLETED",
+              "CANCELLED",
+            ],
+          },
+          tradeOrder: {
+            type: "object",
+            nullable: true,
+            properties: { trading: address, orderId: uint },
+          },
+        },
+      },
+      Payment: {
+        type: "object",
+        properties: {
+          paymentId: bytes32,
+          deliveryId: bytes32,
+          payer: address,
+          payee: address,
+          amount: { ...uint, description: "Wei or token units" },
+          fee: uint,
+          status: {
+            type: "string",
+            enum: ["PENDING", "ESCROW", "COMPLETED", "REFUNDED", "DISPUTED"],
+          },
+          asset: { type: "string", enum: ["NATIVE", "ERC20", "CONFIDENTIAL"] },
+          token: address,
+          createdAt: uint,
+          completedAt: uint,
+        },
+      },
+      Reputation: {
+        type: "object",
+        properties: {
+          participant: address,
+          ratingCount: uint,
+          lastUpdated: uint,
+          encryptedTotal: {
+            ...bytes32,
+            description: "Handle of the encrypted rating total",
+          },
+        },
+      },
+      PrepareRequest: {
+        type: "object",
+        required: ["from", "contract", "method"],
+        properties: {
+          from: address,
+          contract: {
+            type: "string",
+            description: "Contract name, as listed by /health",
+          },
+          method: {
+            type: "string",
+            description: "Function name or full signature",
+          },
+          args: {
+            type: "array",
+            items: {},
+            description: "Arguments in ABI order; integers as strings",
+          },
+          value: { ...uint, description: "Wei to send" },
+        },
+      },
+      UnsignedTransaction: {
+        type: "object",
+        properties: {
+          type: { type: "integer", example: 2 },
+          chainId: uint,
+          to: address,
+          from: address,
+          data: { type: "string" },
+          value: uint,
+          nonce: { type: "integer" },
+          gasLimit: uint,
+          maxFeePerGas: uint,
+          maxPriorityFeePerGas: uint,
+        },
+      },
+      RelayRequest: {
+        type: "object",
+        required: ["signedTransaction"],
+        properties: {
+          signedTransaction: {
+            type: "string",
+            description: "Serialized signed transaction (0x-prefixed hex)",
+          },
+          wait: {
+            type: "boolean",
+            description: "Respond once the transaction is mined",
+          },
+        },
+      },
+      RelayResult: {
+        type: "object",
+        properties: {
+          hash: bytes32,
+          from: address,
+          to: address,
+          contract: { type: "string" },
+          method: { type: "string" },
+        },
+      },
+      RelayReceipt: {
+        allOf: [
+          { $ref: "#/components/schemas/RelayResult" },
+          {
+            type: "object",
+            properties: {
+              status: { type: "string", enum: ["success", "reverted"] },
+              blockNumber: { type: "integer" },
+              events: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    contract: { type: "string" },
+                    event: { type: "string" },
+                    args: { type: "object" },
+                  },
+                },
+              },
+            },
+          },
+        ],
+      },
+    },
+  },
+};
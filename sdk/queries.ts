@@ -0,0 +1,148 @@
+/**
+ * Queries over indexed events
+ *
+ * Rebuild orders, matches and payments from what an EventIndexer stored,
+ * without touching the chain. Addresses compare case-insensitively.
+ *
+ * Usage:
+ *   const escrowed = getPaymentsByStatus(store, PaymentStatus.ESCROW);
+ */
+
+import { EventStore } from "./store";
+import {
+  IndexedEvent,
+  IndexedMatch,
+  IndexedOrder,
+  IndexedPayment,
+  OrderStatus,
+  PaymentStatus,
+} from "./types";
+
+const PAYMENT_STATUS_EVENTS: Record<string, PaymentStatus> = {
+  PaymentCreated: PaymentStatus.PENDING,
+  PaymentEscrowed: PaymentStatus.ESCROW,
+  PaymentCompleted: PaymentStatus.COMPLETED,
+  PaymentRefunded: PaymentStatus.REFUNDED,
+  DisputeOpened: PaymentStatus.DISPUTED,
+};
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function eventsOf(
+  store: EventStore,
+  contract: IndexedEvent["contract"]
+): IndexedEvent[] {
+  return store.getEvents().filter((event) => event.contract === contract);
+}
+
+// Key for per-contract IDs, so two deployments never collide
+function key(event: IndexedEvent, id: string | boolean): string {
+  return `${event.address.toLowerCase()}:${id}`;
+}
+
+function rebuildOrders(store: EventStore): Map<string, IndexedOrder> {
+  const orders = new Map<string, IndexedOrder>();
+  for (const event of eventsOf(store, "ConfidentialRawMaterialsTrading")) {
+    const { args } = event;
+    const order = orders.get(key(event, args.orderId));
+    switch (event.event) {
+      case "OrderPlaced":
+        orders.set(key(event, args.orderId), {
+          address: event.address,
+          orderId: BigInt(args.orderId as string),
+          buyer: args.buyer as string,
+          materialId: BigInt(args.materialId as string),
+          status: OrderStatus.PENDING,
+          matchIds: [],
+          blockNumber: event.blockNumber,
+        });
+        break;
+      case "TradeMatched":
+        order?.matchIds.push(BigInt(args.matchId as string));
+        break;
+      case "OrderFilled":
+      case "OrderClosed":
+        if (order) order.status = OrderStatus.MATCHED;
+        break;
+      case "TradeCompleted":
+        if (order) order.status = OrderStatus.COMPLETED;
+        break;
+    }
+  }
+  return orders;
+}
+
+/** Orders placed by `buyer`, oldest first */
+export function getOrdersByBuyer(
+  store: EventStore,
+  buyer: string
+): IndexedOrder[] {
+  return [...rebuildOrders(store).values()].filter((order) =>
+    sameAddress(order.buyer, buyer)
+  );
+}
+
+/** Fills made by `supplier`, oldest first */
+export function getMatchesBySupplier(
+  store: EventStore,
+  supplier: string
+): IndexedMatch[] {
+  const orders = rebuildOrders(store);
+  return eventsOf(store, "ConfidentialRawMaterialsTrading")
+    .filter(
+      (event) =>
+        event.event === "TradeMatched" &&
+        sameAddress(event.args.supplier as string, supplier)
+    )
+    .map((event) => {
+      const { args } = event;
+      const order = orders.get(key(event, args.orderId));
+      return {
+        address: event.address,
+        matchId: BigInt(args.matchId as string),
+        orderId: BigInt(args.orderId as string),
+        materialId: BigInt(args.materialId as string),
+        buyer: args.buyer as string,
+        supplier: args.supplier as string,
+        confirmed: order?.status === OrderStatus.COMPLETED,
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+      };
+    });
+}
+
+/** Payments currently in `status`, oldest first */
+export function getPaymentsByStatus(
+  store: EventStore,
+  status: PaymentStatus
+): IndexedPayment[] {
+  const payments = new Map<string, IndexedPayment>();
+  for (const event of eventsOf(store, "PaymentProcessor")) {
+    const { args } = event;
+    if (event.event === "PaymentCreated") {
+      payments.set(key(event, args.paymentId), {
+        address: event.address,
+        paymentId: args.paymentId as string,
+        payer: args.payer as string,
+        payee: args.payee as string,
+        deliveryId: args.deliveryId as string,
+        status: PaymentStatus.PENDING,
+        blockNumber: event.blockNumber,
+      });
+      continue;
+    }
+
+    const payment = payments.get(key(event, args.paymentId));
+    if (!payment) {
+      continue;
+    }
+    if (event.event === "TradePaymentCreated") {
+      payment.orderId = BigInt(args.orderId as string);
+    } else if (event.event in PAYMENT_STATUS_EVENTS) {
+      payment.status = PAYMENT_STATUS_EVENTS[event.event];
+    }
+  }
+  return [...payments.values()].filter((payment) => payment.status === status);
+}
@@ -0,0 +1,135 @@
+/**
+ * Weighted reputation calculator
+ *
+ * Reproduces ReputationTracker.getWeightedRating off-chain from the
+ * RatingSubmitted event log, so a participant (or an auditor holding the
+ * scores) can check the figure the contract computed on encrypted data.
+ *
+ * Each rating is weighted by the rater's own average when they rated
+ * (DEFAULT_RATER_WEIGHT before they were first rated) times an exponential
+ * decay of its age. The same integer math as the contract is used, so the
+ * results match exactly.
+ *
+ * Usage:
+ *   const events = await fetchRatingEvents(tracker);
+ *   const result = await computeWeightedRating(events, scoreOf, participant, asOf);
+ *   console.log(weightedAverage(result));
+ */
+
+import { ReputationTracker } from "../typechain-types";
+import { RatingEvent, RatingScoreLookup, WeightedRating } from "./types";
+
+/** Mirrors ReputationTracker.MIN_RATING / MAX_RATING */
+export const MIN_RATING = 1n;
+export const MAX_RATING = 5n;
+
+/** Mirrors ReputationTracker.DEFAULT_RATER_WEIGHT */
+export const DEFAULT_RATER_WEIGHT = 3n;
+
+/** Mirrors ReputationTracker.DECAY_HALF_LIFE (180 days, in seconds) */
+export const DECAY_HALF_LIFE = 180n * 24n * 60n * 60n;
+
+/** Mirrors ReputationTracker.DECAY_PRECISION */
+export const DECAY_PRECISION = 1_000_000n;
+
+/** Mirrors ReputationTracker.MAX_WEIGHTED_RATINGS */
+export const MAX_WEIGHTED_RATINGS = 50;
+
+/**
+ * Weight multiplier for a rating of the given age, scaled by
+ * DECAY_PRECISION. Mirrors ReputationTracker.decayFactor.
+ */
+export function decayFactor(age: bigint): bigint {
+  const halvings = age / DECAY_HALF_LIFE;
+  if (halvings >= 64n) {
+    return 0n;
+  }
+  const factor = DECAY_PRECISION >> halvings;
+  return factor - (factor * (age % DECAY_HALF_LIFE)) / (2n * DECAY_HALF_LIFE);
+}
+
+/** Reads every RatingSubmitted event from the tracker, oldest first */
+export async function fetchRatingEvents(
+  tracker: ReputationTracker,
+  fromBlock = 0
+): Promise<RatingEvent[]> {
+  const logs = await tracker.queryFilter(
+    tracker.filters.RatingSubmitted(),
+    fromBlock
+  );
+  return logs.map((log) => ({
+    subjectId: log.args.deliveryId,
+    ratedParticipant: log.args.ratedParticipant,
+    rater: log.args.rater,
+    timestamp: log.args.timestamp,
+  }));
+}
+
+/**
+ * Replays the rating log and scores one participant as of a timestamp.
+ * Events must be in chain order and cover the whole log, since every
+ * rater's weight depends on the ratings they had received before.
+ */
+export async function computeWeightedRating(
+  events: RatingEvent[],
+  scoreOf: RatingScoreLookup,
+  participant: string,
+  asOf: bigint
+): Promise<WeightedRating> {
+  const totals = new Map<string, { total: bigint; count: bigint }>();
+  const received: { score: bigint; weight: bigint; timestamp: bigint }[] = [];
+  const target = participant.toLowerCase();
+
+  for (const event of events) {
+    const score = clamp(await scoreOf(event));
+
+    // Weight is fixed at the rater's average when they rated
+    const raterTotals = totals.get(event.rater.toLowerCase());
+    const weight = raterTotals
+      ? raterTotals.total / raterTotals.count
+      : DEFAULT_RATER_WEIGHT;
+
+    const rated = event.ratedParticipant.toLowerCase();
+    const ratedTotals = totals.get(rated) ?? { total: 0n, count: 0n };
+    totals.set(rated, {
+      total: ratedTotals.total + score,
+      count: ratedTotals.count + 1n,
+    });
+
+    if (rated === target) {
+      received.push({ score, weight, timestamp: event.timestamp });
+    }
+  }
+
+  let weightedScore = 0n;
+  let totalWeight = 0n;
+  const scored = received.slice(-MAX_WEIGHTED_RATINGS);
+  for (const rating of scored) {
+    if (asOf < rating.timestamp) {
+      throw new Error("asOf is earlier than a rating being scored");
+    }
+    const weight = rating.weight * decayFactor(asOf - rating.timestamp);
+    weightedScore += weight * rating.score;
+    totalWeight += weight;
+  }
+
+  return { weightedScore, totalWeight, ratingCount: scored.length };
+}
+
+/**
+ * Weighted average on the 1-5 scale, or undefined when every rating has
+ * decayed to nothing
+ */
+export function weightedAverage(result: WeightedRating): number | undefined {
+  if (result.totalWeight === 0n) {
+    return undefined;
+  }
+  return Number(result.weightedScore) / Number(result.totalWeight);
+}
+
+function clamp(score: bigint): bigint {
+  if (score < MIN_RATING) {
+    return MIN_RATING;
+  }
+  return score > MAX_RATING ? MAX_RATING : score;
+}
@@ -0,0 +1,111 @@
+/**
+ * Event stores for the indexer
+ *
+ * MemoryEventStore keeps indexed events in memory; JsonEventStore adds a
+ * JSON file so an indexer can stop and resume where it left off. Writes go
+ * to a temporary file that is renamed over the old one, so an interrupted
+ * write never leaves a truncated store behind.
+ *
+ * Usage:
+ *   const store = await JsonEventStore.open("data/events.json");
+ *   console.log(store.getCursor(), store.getEvents().length);
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { IndexCursor, IndexedEvent } from "./types";
+
+/** Where an indexer keeps its events and progress */
+export interface EventStore {
+  /** Last fully indexed block, or undefined before the first batch */
+  getCursor(): IndexCursor | undefined;
+  /** Indexed events in chain order */
+  getEvents(): readonly IndexedEvent[];
+  /** Adds a batch of newer events and advances the cursor */
+  append(events: IndexedEvent[], cursor: IndexCursor): Promise<void>;
+  /** Drops events above `cursor` (all of them when undefined) after a reorg */
+  rollback(cursor: IndexCursor | undefined): Promise<void>;
+}
+
+interface StoreSnapshot {
+  version: 1;
+  cursor?: IndexCursor;
+  events: IndexedEvent[];
+}
+
+export class MemoryEventStore implements EventStore {
+  protected cursor?: IndexCursor;
+  protected events: IndexedEvent[] = [];
+
+  getCursor(): IndexCursor | undefined {
+    return this.cursor;
+  }
+
+  getEvents(): readonly IndexedEvent[] {
+    return this.events;
+  }
+
+  async append(events: IndexedEvent[], cursor: IndexCursor): Promise<void> {
+    if (this.cursor && cursor.blockNumber < this.cursor.blockNumber) {
+      throw new Error(
+        `Cursor moved backwards: ${this.cursor.blockNumber} -> ${cursor.blockNumber}`
+      );
+    }
+    this.events.push(...events);
+    this.cursor = cursor;
+    await this.persist();
+  }
+
+  async rollback(cursor: IndexCursor | undefined): Promise<void> {
+    const keepUpTo = cursor ? cursor.blockNumber : -1;
+    this.events = this.events.filter((event) => event.blockNumber <= keepUpTo);
+    this.cursor = cursor;
+    await this.persist();
+  }
+
+  protected async persist(): Promise<void> {
+    // In-memory only
+  }
+}
+
+export class JsonEventStore extends MemoryEventStore {
+  private constructor(readonly file: string) {
+    super();
+  }
+
+  /**
+   * Opens the store at `file`, starting empty if it does not exist yet
+   */
+  static async open(file: string): Promise<JsonEventStore> {
+    const store = new JsonEventStore(file);
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return store;
+      }
+      throw error;
+    }
+
+    const snapshot = JSON.parse(raw) as StoreSnapshot;
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported event store version in ${file}`);
+    }
+    store.cursor = snapshot.cursor;
+    store.events = snapshot.events;
+    return store;
+  }
+
+  protected async persist(): Promise<void> {
+    const snapshot: StoreSnapshot = {
+      version: 1,
+      cursor: this.cursor,
+      events: this.events,
+    };
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const temp = `${this.file}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(snapshot));
+    await fs.rename(temp, this.file);
+  }
+}
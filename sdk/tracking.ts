@@ -0,0 +1,109 @@
+/**
+ * Delivery tracking helpers
+ *
+ * Builds the timeline of a DeliveryManager request from its public
+ * timestamps and courier checkpoints. Checkpoint locations and condition
+ * readings are encrypted; the requester or assigned courier can pass a
+ * decryptor to see them.
+ *
+ * Usage:
+ *   const timeline = await getDeliveryTimeline(manager.connect(requester), requestId, {
+ *     location: (h) => fhevm.userDecryptEuint(FhevmType.euint64, h, managerAddress, requester),
+ *     condition: (h) => fhevm.userDecryptEuint(FhevmType.euint32, h, managerAddress, requester),
+ *   });
+ *   console.log(formatTimeline(timeline));
+ */
+
+import { DeliveryManager } from "../typechain-types";
+import { decodeLocation } from "./location";
+import { CheckpointDecryptor, DeliveryStatus, TimelineEntry } from "./types";
+
+/**
+ * Lists the steps of a delivery, oldest first. The manager must be
+ * connected as the requester or the assigned courier to read checkpoints.
+ */
+export async function getDeliveryTimeline(
+  manager: DeliveryManager,
+  requestId: string,
+  decrypt?: CheckpointDecryptor
+): Promise<TimelineEntry[]> {
+  const [delivery, checkpoints] = await Promise.all([
+    manager.getDelivery(requestId),
+    manager.getCheckpoints(requestId),
+  ]);
+
+  const timeline: TimelineEntry[] = [
+    {
+      timestamp: Number(delivery.createdAt),
+      label: `Requested by ${delivery.requester}`,
+    },
+  ];
+
+  if (delivery.acceptedAt > 0n) {
+    timeline.push({
+      timestamp: Number(delivery.acceptedAt),
+      label: `Accepted by ${delivery.assignedCourier}`,
+    });
+  }
+
+  for (let index = 0; index < checkpoints.length; index++) {
+    const checkpoint = checkpoints[index];
+    const entry: TimelineEntry = {
+      timestamp: Number(checkpoint.timestamp),
+      label: index === 0 ? "In transit" : "Checkpoint",
+      checkpoint: index,
+      hasCondition: checkpoint.hasCondition,
+    };
+
+    if (decrypt) {
+      entry.location = decodeLocation(
+        await decrypt.location(checkpoint.location)
+      );
+      if (checkpoint.hasCondition) {
+        entry.condition = await decrypt.condition(checkpoint.condition);
+      }
+    }
+    timeline.push(entry);
+  }
+
+  const status = Number(delivery.status) as DeliveryStatus;
+  if (status === DeliveryStatus.COMPLETED) {
+    timeline.push({
+      timestamp: Number(delivery.completedAt),
+      label: "Completed",
+    });
+  } else if (status === DeliveryStatus.CANCELLED) {
+    // Cancellation time is only recorded in the event
+    const [cancelled] = await manager.queryFilter(
+      manager.filters.DeliveryCancelled(requestId)
+    );
+    timeline.push({
+      timestamp: cancelled ? Number(cancelled.args.timestamp) : 0,
+      label: "Cancelled",
+    });
+  }
+
+  return timeline;
+}
+
+/**
+ * Renders a timeline as plain text, one line per step
+ */
+export function formatTimeline(timeline: TimelineEntry[]): string {
+  return timeline
+    .map((entry) => {
+      const time = new Date(entry.timestamp * 1000).toISOString();
+      let line = `${time}  ${entry.label}`;
+      if (entry.checkpoint !== undefined) {
+        line += ` #${entry.checkpoint}`;
+        line += entry.location
+          ? ` at ${entry.location.latitude.toFixed(3)}, ${entry.location.longitude.toFixed(3)}`
+          : " at (encrypted)";
+        if (entry.hasCondition) {
+          line += `, condition ${entry.condition?.toString() ?? "(encrypted)"}`;
+        }
+      }
+      return line;
+    })
+    .join("\n");
+}
@@ -0,0 +1,261 @@
+/**
+ * Shared types for the ConfidentialRawMaterialsTrading client SDK
+ *
+ * Enum values mirror the Solidity declaration order exactly, so they can be
+ * passed straight to the contract and compared against decoded results.
+ */
+
+/** Mirrors ConfidentialRawMaterialsTrading.MaterialCategory */
+export enum MaterialCategory {
+  METALS = 0,
+  CHEMICALS = 1,
+  ENERGY = 2,
+  AGRICULTURAL = 3,
+  TEXTILES = 4,
+  MINERALS = 5,
+}
+
+/** Mirrors ConfidentialRawMaterialsTrading.OrderStatus */
+export enum OrderStatus {
+  PENDING = 0,
+  MATCHED = 1,
+  COMPLETED = 2,
+  CANCELLED = 3,
+}
+
+/** Mirrors IPaymentProcessor.PaymentStatus */
+export enum PaymentStatus {
+  PENDING = 0,
+  ESCROW = 1,
+  COMPLETED = 2,
+  REFUNDED = 3,
+  DISPUTED = 4,
+}
+
+/** Mirrors IDeliveryManager.DeliveryStatus */
+export enum DeliveryStatus {
+  PENDING = 0,
+  ACCEPTED = 1,
+  IN_TRANSIT = 2,
+  COMPLETED = 3,
+  CANCELLED = 4,
+}
+
+/** Public (non-encrypted) listing data returned by getMaterialInfo */
+export interface MaterialInfo {
+  materialId: bigint;
+  name: string;
+  category: MaterialCategory;
+  supplier: string;
+  isActive: boolean;
+  createdAt: bigint;
+  qualityGrade: string;
+  deliveryTimeframe: bigint;
+}
+
+/** Public (non-encrypted) order data returned by getOrderInfo */
+export interface OrderInfo {
+  orderId: bigint;
+  buyer: string;
+  materialId: bigint;
+  status: OrderStatus;
+  createdAt: bigint;
+  matchedAt: bigint;
+  matchedSupplier: string;
+  deliveryLocation: string;
+}
+
+/** Public (non-encrypted) match data returned by getTradeMatch */
+export interface TradeMatchInfo {
+  matchId: bigint;
+  orderId: bigint;
+  materialId: bigint;
+  buyer: string;
+  supplier: string;
+  timestamp: bigint;
+  isConfirmed: boolean;
+}
+
+/** One fill of an order, reconstructed from a TradeMatched event */
+export interface FillRecord {
+  matchId: bigint;
+  orderId: bigint;
+  materialId: bigint;
+  supplier: string;
+  blockNumber: number;
+  transactionHash: string;
+  /** Handle of the encrypted filled quantity */
+  encryptedQuantity: string;
+  /** Cleartext filled quantity, present only when a decryptor was supplied */
+  quantity?: bigint;
+}
+
+/** Decrypts a euint32 handle the caller has been granted access to */
+export type QuantityDecryptor = (handle: string) => Promise<bigint>;
+
+/** Decrypts an encrypted token amount handle for the calling party */
+export type AmountDecryptor = (handle: string) => Promise<bigint>;
+
+/** One tranche of a PaymentProcessor milestone payment */
+export interface MilestoneBalance {
+  index: number;
+  /** Index of the delivery checkpoint that unlocks the tranche */
+  checkpoint: number;
+  released: boolean;
+  /** Unix timestamp of the release, if released */
+  releasedAt?: number;
+  /** Handle of the encrypted tranche amount */
+  encryptedAmount: string;
+  /** Cleartext tranche amount, present only when a decryptor was supplied */
+  amount?: bigint;
+  /**
+   * What is still owed under this milestone: the tranche amount until it is
+   * released, or zero once it is paid or the escrow was settled as a whole
+   */
+  remaining?: bigint;
+}
+
+/** One rating, reconstructed from a ReputationTracker RatingSubmitted event */
+export interface RatingEvent {
+  /** Delivery ID, or tradeRatingId(orderId) for trade ratings */
+  subjectId: string;
+  ratedParticipant: string;
+  rater: string;
+  timestamp: bigint;
+}
+
+/**
+ * Supplies the cleartext score of a rating, as decrypted by someone with
+ * access to it. Scores outside 1-5 are clamped the way the contract does.
+ */
+export type RatingScoreLookup = (rating: RatingEvent) => Promise<bigint>;
+
+/** Result of the time-decayed, rater-weighted scoring model */
+export interface WeightedRating {
+  /** Sum of score * weight, as returned encrypted by getWeightedRating */
+  weightedScore: bigint;
+  /** Sum of weight, as returned encrypted by getWeightedRating */
+  totalWeight: bigint;
+  /** Number of ratings that were scored */
+  ratingCount: number;
+}
+
+/** Decrypts the handles of a delivery checkpoint for the requester or courier */
+export interface CheckpointDecryptor {
+  /** Decrypts a euint64 packed location */
+  location(handle: string): Promise<bigint>;
+  /** Decrypts a euint32 condition reading */
+  condition(handle: string): Promise<bigint>;
+}
+
+/** One step in the life of a delivery, oldest first in a timeline */
+export interface TimelineEntry {
+  /** Unix timestamp of the step */
+  timestamp: number;
+  label: string;
+  /** Checkpoint index, for checkpoint entries */
+  checkpoint?: number;
+  /** Cleartext location, present only when a decryptor was supplied */
+  location?: { latitude: number; longitude: number };
+  /** Cleartext condition reading, if reported and decrypted */
+  condition?: bigint;
+  /** Whether the checkpoint reported a condition reading */
+  hasCondition?: boolean;
+}
+
+/** Platform contracts the event indexer understands */
+export type IndexedContractName =
+  | "ConfidentialRawMaterialsTrading"
+  | "DeliveryManager"
+  | "PaymentProcessor"
+  | "ReputationTracker";
+
+/** A deployed contract to index */
+export interface IndexedContract {
+  name: IndexedContractName;
+  address: string;
+}
+
+/**
+ * One decoded contract event as persisted by the indexer. Integer arguments
+ * are kept as decimal strings so the record survives JSON.
+ */
+export interface IndexedEvent {
+  contract: IndexedContractName;
+  address: string;
+  event: string;
+  args: Record<string, string | boolean>;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/** Last block the indexer has fully processed */
+export interface IndexCursor {
+  blockNumber: number;
+  blockHash: string;
+}
+
+/** Order state rebuilt from trading events */
+export interface IndexedOrder {
+  address: string;
+  orderId: bigint;
+  buyer: string;
+  materialId: bigint;
+  /**
+   * PENDING, MATCHED or COMPLETED. cancelOrder on an unfilled order emits
+   * nothing, so such orders still read PENDING.
+   */
+  status: OrderStatus;
+  matchIds: bigint[];
+  blockNumber: number;
+}
+
+/** A fill rebuilt from a TradeMatched event */
+export interface IndexedMatch {
+  address: string;
+  matchId: bigint;
+  orderId: bigint;
+  materialId: bigint;
+  buyer: string;
+  supplier: string;
+  /** Whether the order has since been completed */
+  confirmed: boolean;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/** Payment state rebuilt from PaymentProcessor events */
+export interface IndexedPayment {
+  address: string;
+  paymentId: string;
+  payer: string;
+  payee: string;
+  /** Zero hash for trade payments */
+  deliveryId: string;
+  /** Set for payments escrowed against a trade order */
+  orderId?: bigint;
+  status: PaymentStatus;
+  blockNumber: number;
+}
+
+/** Parameters for listing a material with plaintext inputs */
+export interface ListMaterialParams {
+  name: string;
+  category: MaterialCategory;
+  quantity: number;
+  pricePerUnit: bigint;
+  minOrder: number;
+  qualityGrade: string;
+  deliveryTimeframeDays: number;
+}
+
+/** Parameters for placing an order with plaintext inputs */
+export interface PlaceOrderParams {
+  materialId: bigint;
+  quantity: number;
+  maxPrice: bigint;
+  deliveryLocation: string;
+  encryptedSpecialRequirements?: string;
+}
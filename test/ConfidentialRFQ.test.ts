@@ -0,0 +1,246 @@
+/**
+ * Test Suite for ConfidentialRFQ
+ *
+ * Covers:
+ * - RFQ creation and verification checks against the trading contract
+ * - Sealed quote submission rules
+ * - Closing, oracle reveal of the lowest quote and cancellation
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ConfidentialRawMaterialsTrading,
+  ConfidentialRawMaterialsTrading__factory,
+  ConfidentialRFQ,
+  ConfidentialRFQ__factory,
+} from "../typechain-types";
+import { createInstance } from "./utils/instance";
+import {
+  awaitDecryptionOracle,
+  decryptEuint64,
+} from "./utils/decrypt";
+
+describe("ConfidentialRFQ", () => {
+  let trading: ConfidentialRawMaterialsTrading;
+  let rfq: ConfidentialRFQ;
+  let rfqAddress: string;
+  let owner: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let supplier1: HardhatEthersSigner;
+  let supplier2: HardhatEthersSigner;
+  let supplier3: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+
+  const DURATION = 3600;
+  const METALS = 0;
+
+  async function passDeadline() {
+    await ethers.provider.send("evm_increaseTime", [DURATION]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  async function createRFQ() {
+    const rfqId = await rfq.nextRfqId();
+    await rfq.connect(buyer).createRFQ(METALS, "A1", DURATION);
+    return rfqId;
+  }
+
+  async function quote(
+    rfqId: bigint,
+    supplier: HardhatEthersSigner,
+    price: bigint
+  ) {
+    const instance = await createInstance(rfqAddress, supplier);
+    const encrypted = await instance
+      .createEncryptedInput(rfqAddress, supplier.address)
+      .add64(price)
+      .encrypt();
+    return rfq
+      .connect(supplier)
+      .submitQuote(rfqId, encrypted.handles[0], encrypted.inputProof);
+  }
+
+  beforeEach(async () => {
+    [owner, buyer, supplier1, supplier2, supplier3, outsider] =
+      await ethers.getSigners();
+
+    trading = await new ConfidentialRawMaterialsTrading__factory(
+      owner
+    ).deploy();
+    await trading.waitForDeployment();
+
+    rfq = await new ConfidentialRFQ__factory(owner).deploy(
+      await trading.getAddress()
+    );
+    await rfq.waitForDeployment();
+    rfqAddress = await rfq.getAddress();
+
+    await trading.verifyBuyer(buyer.address);
+    await trading.verifySupplier(supplier1.address);
+    await trading.verifySupplier(supplier2.address);
+    await trading.verifySupplier(supplier3.address);
+  });
+
+  describe("RFQ Creation", () => {
+    it("Should create an RFQ for a verified buyer", async () => {
+      const rfqId = await rfq.nextRfqId();
+      await expect(rfq.connect(buyer).createRFQ(METALS, "A1", DURATION))
+        .to.emit(rfq, "RFQCreated");
+
+      const info = await rfq.getRFQInfo(rfqId);
+      expect(info.buyer).to.equal(buyer.address);
+      expect(info.category).to.equal(METALS);
+      expect(info.qualityGrade).to.equal("A1");
+      expect(info.status).to.equal(0); // OPEN
+      expect(await rfq.getBuyerRFQs(buyer.address)).to.deep.equal([rfqId]);
+    });
+
+    it("Should reject unverified buyers", async () => {
+      await expect(
+        rfq.connect(outsider).createRFQ(METALS, "A1", DURATION)
+      ).to.be.revertedWith("Not verified buyer");
+    });
+
+    it("Should reject a zero duration", async () => {
+      await expect(
+        rfq.connect(buyer).createRFQ(METALS, "A1", 0)
+      ).to.be.revertedWith("Invalid duration");
+    });
+  });
+
+  describe("Quote Submission", () => {
+    it("Should accept a sealed quote from a verified supplier", async () => {
+      const rfqId = await createRFQ();
+
+      await expect(quote(rfqId, supplier1, 50000n))
+        .to.emit(rfq, "QuoteSubmitted")
+        .withArgs(rfqId, supplier1.address);
+      expect(await rfq.hasQuoted(rfqId, supplier1.address)).to.be.true;
+      expect(await rfq.getQuoteSuppliers(rfqId)).to.deep.equal([
+        supplier1.address,
+      ]);
+    });
+
+    it("Should reject unverified suppliers", async () => {
+      const rfqId = await createRFQ();
+      await expect(quote(rfqId, outsider, 50000n)).to.be.revertedWith(
+        "Not verified supplier"
+      );
+    });
+
+    it("Should reject a second quote from the same supplier", async () => {
+      const rfqId = await createRFQ();
+      await quote(rfqId, supplier1, 50000n);
+
+      await expect(quote(rfqId, supplier1, 40000n)).to.be.revertedWith(
+        "Already quoted"
+      );
+    });
+
+    it("Should reject quotes after the deadline", async () => {
+      const rfqId = await createRFQ();
+      await passDeadline();
+
+      await expect(quote(rfqId, supplier1, 50000n)).to.be.revertedWith(
+        "RFQ deadline passed"
+      );
+    });
+  });
+
+  describe("Closing", () => {
+    it("Should not close before the deadline", async () => {
+      const rfqId = await createRFQ();
+      await quote(rfqId, supplier1, 50000n);
+
+      await expect(rfq.connect(buyer).closeRFQ(rfqId)).to.be.revertedWith(
+        "RFQ still open"
+      );
+    });
+
+    it("Should not close without quotes", async () => {
+      const rfqId = await createRFQ();
+      await passDeadline();
+
+      await expect(rfq.connect(buyer).closeRFQ(rfqId)).to.be.revertedWith(
+        "No quotes submitted"
+      );
+    });
+
+    it("Should only let the buyer close", async () => {
+      const rfqId = await createRFQ();
+      await quote(rfqId, supplier1, 50000n);
+      await passDeadline();
+
+      await expect(rfq.connect(supplier1).closeRFQ(rfqId)).to.be.revertedWith(
+        "Not RFQ owner"
+      );
+    });
+
+    it("Should let the buyer cancel an open RFQ", async () => {
+      const rfqId = await createRFQ();
+
+      await expect(rfq.connect(buyer).cancelRFQ(rfqId))
+        .to.emit(rfq, "RFQCancelled")
+        .withArgs(rfqId);
+      expect((await rfq.getRFQInfo(rfqId)).status).to.equal(3); // CANCELLED
+    });
+  });
+
+  describe("Awarding", () => {
+
+    it("Should award the RFQ to the lowest quote", async () => {
+      const rfqId = await createRFQ();
+      await quote(rfqId, supplier1, 52000n);
+      await quote(rfqId, supplier2, 48500n);
+      await quote(rfqId, supplier3, 50100n);
+      await passDeadline();
+
+      await expect(rfq.connect(buyer).closeRFQ(rfqId)).to.emit(
+        rfq,
+        "RFQClosing"
+      );
+      expect((await rfq.getRFQInfo(rfqId)).status).to.equal(1); // CLOSING
+
+      await awaitDecryptionOracle();
+
+      const info = await rfq.getRFQInfo(rfqId);
+      expect(info.status).to.equal(2); // AWARDED
+      expect(info.winner).to.equal(supplier2.address);
+
+      const winningQuote = await rfq.getWinningQuote(rfqId);
+      expect(await decryptEuint64(winningQuote, rfqAddress, buyer)).to.equal(
+        48500n
+      );
+      expect(
+        await decryptEuint64(winningQuote, rfqAddress, supplier2)
+      ).to.equal(48500n);
+    });
+
+    it("Should keep the first quote on a tie", async () => {
+      const rfqId = await createRFQ();
+      await quote(rfqId, supplier1, 50000n);
+      await quote(rfqId, supplier2, 50000n);
+      await passDeadline();
+
+      await rfq.connect(buyer).closeRFQ(rfqId);
+      await awaitDecryptionOracle();
+
+      expect((await rfq.getRFQInfo(rfqId)).winner).to.equal(supplier1.address);
+    });
+
+    it("Should let each supplier read back only their own quote", async () => {
+      const rfqId = await createRFQ();
+      await quote(rfqId, supplier1, 52000n);
+
+      const myQuote = await rfq.connect(supplier1).getMyQuote(rfqId);
+      expect(await decryptEuint64(myQuote, rfqAddress, supplier1)).to.equal(
+        52000n
+      );
+      await expect(
+        rfq.connect(supplier2).getMyQuote(rfqId)
+      ).to.be.revertedWith("No quote submitted");
+    });
+  });
+});
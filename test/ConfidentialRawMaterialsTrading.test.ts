@@ -15,6 +15,17 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { createInstance } from "./utils/instance";
+import {
+  awaitDecryptionOracle,
+  decryptEuint32,
+  decryptEuint64,
+} from "./utils/decrypt";
+import {
+  acceptDelivery,
+  completeDelivery,
+  requestDelivery,
+} from "./utils/delivery";
 
 describe("ConfidentialRawMaterialsTrading", () => {
   let contract: any;
@@ -32,13 +43,13 @@ describe("ConfidentialRawMaterialsTrading", () => {
       "ConfidentialRawMaterialsTrading"
     );
     contract = await Factory.deploy();
-    await contract.deployed();
+    await contract.waitForDeployment();
   });
 
   describe("Deployment", () => {
     it("Should deploy successfully", async () => {
-      expect(contract.address).to.not.be.undefined;
-      expect(contract.address).to.match(/^0x[a-fA-F0-9]{40}$/);
+      expect(await contract.getAddress()).to.not.be.undefined;
+      expect(await contract.getAddress()).to.match(/^0x[a-fA-F0-9]{40}$/);
     });
 
     it("Should set owner correctly", async () => {
@@ -390,21 +401,27 @@ describe("ConfidentialRawMaterialsTrading", () => {
       );
       await tx2.wait();
 
-      materialId = (await contract.nextMaterialId()).toNumber() - 1;
-      orderId = (await contract.nextOrderId()).toNumber() - 1;
+      materialId = Number(await contract.nextMaterialId()) - 1;
+      orderId = Number(await contract.nextOrderId()) - 1;
     });
 
     it("Should match trade between supplier and buyer", async () => {
       const tx = await contract.connect(supplier1).matchTrade(orderId);
       await tx.wait();
 
+      const matchIds = await contract.getOrderMatches(orderId);
+      expect(matchIds.length).to.equal(1);
+
+      // Stays open until the oracle reports the order fully filled
+      await awaitDecryptionOracle();
+
       const order = await contract.getOrderInfo(orderId);
       expect(order.status).to.equal(1); // MATCHED
       expect(order.matchedSupplier).to.equal(supplier1.address);
     });
 
     it("Should prevent non-supplier from matching", async () => {
-      const newOrderId = (await contract.nextOrderId()).toNumber();
+      const newOrderId = Number(await contract.nextOrderId());
       await contract.connect(buyer1).placeOrder(
         materialId,
         300,
@@ -426,7 +443,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
     });
 
     it("Should emit TradeMatched event", async () => {
-      const newOrderId = (await contract.nextOrderId()).toNumber();
+      const newOrderId = Number(await contract.nextOrderId());
       await contract.connect(buyer2).placeOrder(
         materialId,
         500,
@@ -459,7 +476,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
       );
       await tx1.wait();
 
-      const materialId = (await contract.nextMaterialId()).toNumber() - 1;
+      const materialId = Number(await contract.nextMaterialId()) - 1;
 
       const tx2 = await contract.connect(buyer1).placeOrder(
         materialId,
@@ -470,9 +487,10 @@ describe("ConfidentialRawMaterialsTrading", () => {
       );
       await tx2.wait();
 
-      orderId = (await contract.nextOrderId()).toNumber() - 1;
+      orderId = Number(await contract.nextOrderId()) - 1;
 
       await contract.connect(supplier1).matchTrade(orderId);
+      await awaitDecryptionOracle();
     });
 
     it("Should confirm matched trade", async () => {
@@ -484,8 +502,8 @@ describe("ConfidentialRawMaterialsTrading", () => {
     });
 
     it("Should prevent confirmation by unauthorized party", async () => {
-      const newOrderId = (await contract.nextOrderId()).toNumber();
-      const materialId = (await contract.nextMaterialId()).toNumber() - 1;
+      const newOrderId = Number(await contract.nextOrderId());
+      const materialId = Number(await contract.nextMaterialId()) - 1;
 
       await contract.connect(buyer2).placeOrder(
         materialId,
@@ -508,8 +526,8 @@ describe("ConfidentialRawMaterialsTrading", () => {
     });
 
     it("Should emit TradeCompleted event", async () => {
-      const newOrderId = (await contract.nextOrderId()).toNumber();
-      const materialId = (await contract.nextMaterialId()).toNumber() - 1;
+      const newOrderId = Number(await contract.nextOrderId());
+      const materialId = Number(await contract.nextMaterialId()) - 1;
 
       await contract.connect(buyer2).placeOrder(
         materialId,
@@ -520,6 +538,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
       );
 
       await contract.connect(supplier1).matchTrade(newOrderId);
+      await awaitDecryptionOracle();
 
       const tx = contract.connect(buyer2).confirmTrade(newOrderId);
       await expect(tx).to.emit(contract, "TradeCompleted");
@@ -544,7 +563,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
     });
 
     it("Should allow buyer to cancel pending order", async () => {
-      const materialId = (await contract.nextMaterialId()).toNumber() - 1;
+      const materialId = Number(await contract.nextMaterialId()) - 1;
 
       const tx1 = await contract.connect(buyer1).placeOrder(
         materialId,
@@ -555,7 +574,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
       );
       await tx1.wait();
 
-      const orderId = (await contract.nextOrderId()).toNumber() - 1;
+      const orderId = Number(await contract.nextOrderId()) - 1;
 
       const tx2 = await contract.connect(buyer1).cancelOrder(orderId);
       await tx2.wait();
@@ -565,7 +584,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
     });
 
     it("Should prevent non-owner from cancelling", async () => {
-      const materialId = (await contract.nextMaterialId()).toNumber() - 1;
+      const materialId = Number(await contract.nextMaterialId()) - 1;
 
       const tx1 = await contract.connect(buyer1).placeOrder(
         materialId,
@@ -576,7 +595,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
       );
       await tx1.wait();
 
-      const orderId = (await contract.nextOrderId()).toNumber() - 1;
+      const orderId = Number(await contract.nextOrderId()) - 1;
 
       await expect(
         contract.connect(buyer2).cancelOrder(orderId)
@@ -584,7 +603,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
     });
 
     it("Should prevent cancellation of matched orders", async () => {
-      const materialId = (await contract.nextMaterialId()).toNumber() - 1;
+      const materialId = Number(await contract.nextMaterialId()) - 1;
 
       const tx1 = await contract.connect(buyer1).placeOrder(
         materialId,
@@ -595,13 +614,81 @@ describe("ConfidentialRawMaterialsTrading", () => {
       );
       await tx1.wait();
 
-      const orderId = (await contract.nextOrderId()).toNumber() - 1;
+      const orderId = Number(await contract.nextOrderId()) - 1;
       await contract.connect(supplier1).matchTrade(orderId);
+      await awaitDecryptionOracle();
 
       await expect(
         contract.connect(buyer1).cancelOrder(orderId)
       ).to.be.revertedWith("Cannot cancel");
     });
+
+    it("Should settle fills when cancelling a partially filled order", async () => {
+      const materialId = Number(await contract.nextMaterialId()) - 1;
+
+      const tx1 = await contract.connect(buyer1).placeOrder(
+        materialId,
+        5000, // More than the listing holds
+        65000n,
+        "Savannah",
+        "0x" + "0".repeat(64)
+      );
+      await tx1.wait();
+
+      const orderId = Number(await contract.nextOrderId()) - 1;
+      await contract.connect(supplier1).matchTrade(orderId);
+      await awaitDecryptionOracle();
+
+      const tx2 = contract.connect(buyer1).cancelOrder(orderId);
+      await expect(tx2).to.emit(contract, "OrderClosed").withArgs(orderId);
+
+      const order = await contract.getOrderInfo(orderId);
+      expect(order.status).to.equal(1); // MATCHED, ready for confirmation
+    });
+
+    it("Should cancel an order whose matches filled nothing", async () => {
+      const materialId = Number(await contract.nextMaterialId()) - 1;
+
+      const tx1 = await contract.connect(buyer1).placeOrder(
+        materialId,
+        250,
+        1000n, // Below the listing price
+        "Macon",
+        "0x" + "0".repeat(64)
+      );
+      await tx1.wait();
+
+      const orderId = Number(await contract.nextOrderId()) - 1;
+      await contract.connect(supplier1).matchTrade(orderId);
+      await awaitDecryptionOracle();
+
+      const tx2 = contract.connect(buyer1).cancelOrder(orderId);
+      await expect(tx2).to.not.emit(contract, "OrderClosed");
+
+      const order = await contract.getOrderInfo(orderId);
+      expect(order.status).to.equal(3); // CANCELLED
+    });
+
+    it("Should wait for the fill check before cancelling", async () => {
+      const materialId = Number(await contract.nextMaterialId()) - 1;
+
+      const tx1 = await contract.connect(buyer1).placeOrder(
+        materialId,
+        5000,
+        65000n,
+        "Augusta",
+        "0x" + "0".repeat(64)
+      );
+      await tx1.wait();
+
+      const orderId = Number(await contract.nextOrderId()) - 1;
+      await contract.connect(supplier1).matchTrade(orderId);
+
+      await expect(
+        contract.connect(buyer1).cancelOrder(orderId)
+      ).to.be.revertedWith("Fill check pending");
+      await awaitDecryptionOracle();
+    });
   });
 
   describe("Material Deactivation", () => {
@@ -621,7 +708,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
     });
 
     it("Should allow supplier to deactivate material", async () => {
-      const materialId = (await contract.nextMaterialId()).toNumber() - 1;
+      const materialId = Number(await contract.nextMaterialId()) - 1;
 
       const tx = await contract.connect(supplier1).deactivateMaterial(materialId);
       await tx.wait();
@@ -631,7 +718,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
     });
 
     it("Should prevent non-owner from deactivating", async () => {
-      const materialId = (await contract.nextMaterialId()).toNumber() - 1;
+      const materialId = Number(await contract.nextMaterialId()) - 1;
 
       await expect(
         contract.connect(buyer1).deactivateMaterial(materialId)
@@ -639,6 +726,598 @@ describe("ConfidentialRawMaterialsTrading", () => {
     });
   });
 
+  describe("Encrypted Inputs", () => {
+    let contractAddress: string;
+
+    before(async () => {
+      await contract.verifySupplier(supplier1.address);
+      await contract.verifyBuyer(buyer1.address);
+      contractAddress = await contract.getAddress();
+    });
+
+    it("Should list material from encrypted inputs", async () => {
+      const instance = await createInstance(contractAddress, supplier1);
+      const encrypted = await instance
+        .createEncryptedInput(contractAddress, supplier1.address)
+        .add32(1000)
+        .add64(50000n)
+        .add32(100)
+        .encrypt();
+
+      const materialId = await contract.nextMaterialId();
+      const tx = contract.connect(supplier1).listMaterialEncrypted(
+        "Encrypted Nickel",
+        0, // METALS
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.inputProof,
+        "A1",
+        14
+      );
+      await expect(tx).to.emit(contract, "MaterialListed");
+
+      const material = await contract.getMaterialInfo(materialId);
+      expect(material.name).to.equal("Encrypted Nickel");
+      expect(material.supplier).to.equal(supplier1.address);
+      expect(material.isActive).to.be.true;
+    });
+
+    it("Should keep listing values out of calldata", async () => {
+      const instance = await createInstance(contractAddress, supplier1);
+      const encrypted = await instance
+        .createEncryptedInput(contractAddress, supplier1.address)
+        .add32(777)
+        .add64(123456789n)
+        .add32(77)
+        .encrypt();
+
+      const tx = await contract.connect(supplier1).listMaterialEncrypted(
+        "Calldata Check",
+        0,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.inputProof,
+        "A1",
+        14
+      );
+
+      const priceHex = ethers.toBeHex(123456789n, 32).slice(2);
+      expect(tx.data.toLowerCase()).to.not.contain(priceHex);
+    });
+
+    it("Should place order from encrypted inputs", async () => {
+      const materialId = (await contract.nextMaterialId()) - 1n;
+      const instance = await createInstance(contractAddress, buyer1);
+      const encrypted = await instance
+        .createEncryptedInput(contractAddress, buyer1.address)
+        .add32(250)
+        .add64(60000n)
+        .encrypt();
+
+      const orderId = await contract.nextOrderId();
+      const tx = contract.connect(buyer1).placeOrderEncrypted(
+        materialId,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.inputProof,
+        "Hamburg",
+        "0x" + "0".repeat(64)
+      );
+      await expect(tx).to.emit(contract, "OrderPlaced");
+
+      const order = await contract.getOrderInfo(orderId);
+      expect(order.buyer).to.equal(buyer1.address);
+      expect(order.status).to.equal(0); // PENDING
+    });
+
+    it("Should prevent unverified supplier from listing encrypted", async () => {
+      const unverified = (await ethers.getSigners())[8];
+      const instance = await createInstance(contractAddress, unverified);
+      const encrypted = await instance
+        .createEncryptedInput(contractAddress, unverified.address)
+        .add32(10)
+        .add64(10n)
+        .add32(1)
+        .encrypt();
+
+      await expect(
+        contract.connect(unverified).listMaterialEncrypted(
+          "Unverified",
+          0,
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.handles[2],
+          encrypted.inputProof,
+          "A1",
+          7
+        )
+      ).to.be.revertedWith("Not verified supplier");
+    });
+
+    it("Should reject encrypted order for unavailable material", async () => {
+      const instance = await createInstance(contractAddress, buyer1);
+      const encrypted = await instance
+        .createEncryptedInput(contractAddress, buyer1.address)
+        .add32(10)
+        .add64(10n)
+        .encrypt();
+
+      await expect(
+        contract.connect(buyer1).placeOrderEncrypted(
+          999, // Non-existent material
+          encrypted.handles[0],
+          encrypted.handles[1],
+          encrypted.inputProof,
+          "Location",
+          "0x" + "0".repeat(64)
+        )
+      ).to.be.revertedWith("Material not available");
+    });
+  });
+
+  describe("Encrypted Matching", () => {
+    let contractAddress: string;
+
+    // Lists 1000 units at 50000 with a minimum order of 100, then places
+    // and matches an order; returns the IDs involved
+    async function listOrderAndMatch(quantity: number, maxPrice: bigint) {
+      const materialId = await contract.nextMaterialId();
+      await contract.connect(supplier1).listMaterial(
+        "Matching Case",
+        0,
+        1000,
+        50000n,
+        100,
+        "A1",
+        7
+      );
+
+      const orderId = await contract.nextOrderId();
+      await contract.connect(buyer1).placeOrder(
+        materialId,
+        quantity,
+        maxPrice,
+        "Antwerp",
+        "0x" + "0".repeat(64)
+      );
+      await contract.connect(supplier1).matchTrade(orderId);
+
+      return { materialId, orderId };
+    }
+
+    async function firstMatch(orderId: bigint) {
+      const [matchId] = await contract.getOrderMatches(orderId);
+      return contract.matches(matchId);
+    }
+
+    async function filledQuantity(orderId: bigint) {
+      const tradeMatch = await firstMatch(orderId);
+      return decryptEuint32(
+        tradeMatch.encryptedQuantity,
+        contractAddress,
+        buyer1
+      );
+    }
+
+    async function matchedPrice(orderId: bigint) {
+      const tradeMatch = await firstMatch(orderId);
+      return decryptEuint64(tradeMatch.encryptedPrice, contractAddress, buyer1);
+    }
+
+    async function remainingStock(materialId: bigint) {
+      const material = await contract.materials(materialId);
+      return decryptEuint32(
+        material.encryptedQuantity,
+        contractAddress,
+        supplier1
+      );
+    }
+
+    before(async function () {
+      await contract.verifySupplier(supplier1.address);
+      await contract.verifyBuyer(buyer1.address);
+      contractAddress = await contract.getAddress();
+    });
+
+    it("Should fill a compatible order at the listing price", async () => {
+      const { materialId, orderId } = await listOrderAndMatch(400, 60000n);
+
+      expect(await filledQuantity(orderId)).to.equal(400n);
+      expect(await matchedPrice(orderId)).to.equal(50000n);
+      expect(await remainingStock(materialId)).to.equal(600n);
+    });
+
+    it("Should fill zero when price exceeds buyer maximum", async () => {
+      const { materialId, orderId } = await listOrderAndMatch(400, 49999n);
+
+      expect(await filledQuantity(orderId)).to.equal(0n);
+      expect(await matchedPrice(orderId)).to.equal(0n);
+      expect(await remainingStock(materialId)).to.equal(1000n);
+    });
+
+    it("Should fill zero when quantity is below minimum order", async () => {
+      const { materialId, orderId } = await listOrderAndMatch(99, 60000n);
+
+      expect(await filledQuantity(orderId)).to.equal(0n);
+      expect(await matchedPrice(orderId)).to.equal(0n);
+      expect(await remainingStock(materialId)).to.equal(1000n);
+    });
+
+    it("Should partially fill when quantity exceeds available stock", async () => {
+      const { materialId, orderId } = await listOrderAndMatch(1001, 60000n);
+
+      expect(await filledQuantity(orderId)).to.equal(1000n);
+      expect(await matchedPrice(orderId)).to.equal(50000n);
+      // No silent underflow of the encrypted stock
+      expect(await remainingStock(materialId)).to.equal(0n);
+    });
+
+    it("Should not reveal which condition failed", async () => {
+      const compatible = await listOrderAndMatch(400, 60000n);
+      const incompatible = await listOrderAndMatch(400, 1n);
+
+      const a = await contract.getOrderInfo(compatible.orderId);
+      const b = await contract.getOrderInfo(incompatible.orderId);
+      expect(a.status).to.equal(b.status);
+      expect(a.status).to.equal(0); // PENDING either way
+    });
+  });
+
+  describe("Reputation Requirements", () => {
+    let contractAddress: string;
+    let tracker: any;
+    let materialId: bigint;
+
+    async function encryptMinimum(minimum: number) {
+      const instance = await createInstance(contractAddress, supplier1);
+      return instance
+        .createEncryptedInput(contractAddress, supplier1.address)
+        .add32(minimum)
+        .encrypt();
+    }
+
+    async function setMinimum(minimum: number, signer = supplier1) {
+      const encrypted = await encryptMinimum(minimum);
+      return contract
+        .connect(signer)
+        .setMinimumBuyerReputation(
+          materialId,
+          encrypted.handles[0],
+          encrypted.inputProof
+        );
+    }
+
+    before(async () => {
+      await contract.verifySupplier(supplier1.address);
+      await contract.verifyBuyer(buyer1.address);
+      await contract.verifyBuyer(buyer2.address);
+      contractAddress = await contract.getAddress();
+
+      materialId = await contract.nextMaterialId();
+      await contract
+        .connect(supplier1)
+        .listMaterial("Gated Lot", 0, 1000, 50000n, 100, "A1", 7);
+
+      const DeliveryManagerFactory = await ethers.getContractFactory(
+        "DeliveryManager"
+      );
+      const deliveryManager = await DeliveryManagerFactory.deploy();
+      await deliveryManager.waitForDeployment();
+      const TrackerFactory = await ethers.getContractFactory(
+        "ReputationTracker"
+      );
+      tracker = await TrackerFactory.deploy(
+        await deliveryManager.getAddress(),
+        contractAddress
+      );
+      await tracker.waitForDeployment();
+    });
+
+    it("Should require a reputation tracker before setting a minimum", async () => {
+      await expect(setMinimum(4)).to.be.revertedWith(
+        "Reputation tracker not set"
+      );
+    });
+
+    it("Should let only the owner set the reputation tracker", async () => {
+      await expect(
+        contract.connect(supplier1).setReputationTracker(await tracker.getAddress())
+      ).to.be.revertedWith("Not authorized");
+
+      await contract.setReputationTracker(await tracker.getAddress());
+      expect(await contract.reputationTracker()).to.equal(
+        await tracker.getAddress()
+      );
+    });
+
+    it("Should let only the supplier set a listing's minimum", async () => {
+      await expect(setMinimum(4, supplier2)).to.be.revertedWith(
+        "Not material owner"
+      );
+      await expect(setMinimum(4))
+        .to.emit(contract, "ReputationRequirementSet")
+        .withArgs(materialId);
+    });
+
+    describe("Enforcement", () => {
+      // buyer1 holds an average rating of 5 from one completed delivery;
+      // buyer2 has never been rated. Minimums are scaled by REPUTATION_SCALE.
+      before(async function () {
+        const deliveryManager: any = await ethers.getContractAt(
+          "DeliveryManager",
+          await tracker.deliveryManager()
+        );
+        const deliveryId = await requestDelivery(deliveryManager, buyer1);
+        await acceptDelivery(deliveryManager, supplier2, deliveryId);
+        await completeDelivery(deliveryManager, supplier2, buyer1, deliveryId);
+
+        const trackerAddress = await tracker.getAddress();
+        const instance = await createInstance(trackerAddress, supplier2);
+        const score = await instance
+          .createEncryptedInput(trackerAddress, supplier2.address)
+          .add8(5)
+          .encrypt();
+        await tracker
+          .connect(supplier2)
+          .submitRating(
+            deliveryId,
+            buyer1.address,
+            score.handles[0],
+            score.inputProof,
+            "0x",
+            "0x"
+          );
+      });
+
+      async function orderAndMatch(buyer: SignerWithAddress) {
+        const orderId = await contract.nextOrderId();
+        await contract
+          .connect(buyer)
+          .placeOrder(materialId, 100, 60000n, "Antwerp", ethers.ZeroHash);
+        await contract.connect(supplier1).matchTrade(orderId);
+        await awaitDecryptionOracle();
+
+        const [matchId] = await contract.getOrderMatches(orderId);
+        const tradeMatch = await contract.matches(matchId);
+        return {
+          orderId,
+          filled: await decryptEuint32(
+            tradeMatch.encryptedQuantity,
+            contractAddress,
+            supplier1
+          ),
+        };
+      }
+
+      it("Should fill orders from buyers meeting the minimum", async () => {
+        await setMinimum(50);
+
+        const { orderId, filled } = await orderAndMatch(buyer1);
+        expect(filled).to.equal(100n);
+        expect((await contract.getOrderInfo(orderId)).status).to.equal(1); // MATCHED
+      });
+
+      it("Should fill nothing for buyers below the minimum", async () => {
+        await setMinimum(51);
+
+        const { orderId, filled } = await orderAndMatch(buyer1);
+        expect(filled).to.equal(0n);
+        expect((await contract.getOrderInfo(orderId)).status).to.equal(0); // PENDING
+      });
+
+      it("Should treat unrated buyers as averaging zero", async () => {
+        await setMinimum(10);
+
+        const { filled } = await orderAndMatch(buyer2);
+        expect(filled).to.equal(0n);
+      });
+
+      it("Should not reveal the minimum to buyers", async () => {
+        const encrypted = await encryptMinimum(1);
+        await contract
+          .connect(supplier1)
+          .setMinimumBuyerReputation(
+            materialId,
+            encrypted.handles[0],
+            encrypted.inputProof
+          );
+
+        let buyerCanDecrypt = true;
+        try {
+          await decryptEuint32(
+            ethers.hexlify(encrypted.handles[0]),
+            contractAddress,
+            buyer1
+          );
+        } catch {
+          buyerCanDecrypt = false;
+        }
+        expect(buyerCanDecrypt).to.be.false;
+      });
+    });
+  });
+
+  describe("Partial Fills", () => {
+    let contractAddress: string;
+
+    async function fills(orderId: bigint) {
+      const matchIds = await contract.getOrderMatches(orderId);
+      const quantities: bigint[] = [];
+      for (const matchId of matchIds) {
+        const tradeMatch = await contract.matches(matchId);
+        quantities.push(
+          await decryptEuint32(
+            tradeMatch.encryptedQuantity,
+            contractAddress,
+            buyer1
+          )
+        );
+      }
+      return quantities;
+    }
+
+    before(async function () {
+      await contract.verifySupplier(supplier1.address);
+      await contract.verifyBuyer(buyer1.address);
+      await contract.verifyBuyer(buyer2.address);
+      contractAddress = await contract.getAddress();
+    });
+
+    it("Should fill one order across several matches", async () => {
+      const materialId = await contract.nextMaterialId();
+      await contract.connect(supplier1).listMaterial(
+        "Partial Case",
+        0,
+        600,
+        50000n,
+        100,
+        "A1",
+        7
+      );
+
+      const orderId = await contract.nextOrderId();
+      await contract.connect(buyer1).placeOrder(
+        materialId,
+        1000,
+        60000n,
+        "Antwerp",
+        "0x" + "0".repeat(64)
+      );
+
+      await contract.connect(supplier1).matchTrade(orderId);
+      await awaitDecryptionOracle();
+      expect((await contract.getOrderInfo(orderId)).status).to.equal(0); // PENDING
+
+      const instance = await createInstance(contractAddress, supplier1);
+      const restock = await instance
+        .createEncryptedInput(contractAddress, supplier1.address)
+        .add32(500)
+        .encrypt();
+      await contract
+        .connect(supplier1)
+        .restockMaterial(materialId, restock.handles[0], restock.inputProof);
+      await contract.connect(supplier1).matchTrade(orderId);
+      await awaitDecryptionOracle();
+
+      expect(await fills(orderId)).to.deep.equal([600n, 400n]);
+      const tx = contract.connect(buyer1).confirmTrade(orderId);
+      await expect(tx).to.emit(contract, "TradeCompleted");
+    });
+
+    it("Should settle several orders against one listing", async () => {
+      const materialId = await contract.nextMaterialId();
+      await contract.connect(supplier1).listMaterial(
+        "Shared Listing",
+        0,
+        1000,
+        50000n,
+        100,
+        "A1",
+        7
+      );
+
+      const first = await contract.nextOrderId();
+      await contract.connect(buyer1).placeOrder(
+        materialId,
+        700,
+        60000n,
+        "Antwerp",
+        "0x" + "0".repeat(64)
+      );
+      const second = first + 1n;
+      await contract.connect(buyer2).placeOrder(
+        materialId,
+        700,
+        60000n,
+        "Ghent",
+        "0x" + "0".repeat(64)
+      );
+
+      await contract.connect(supplier1).matchTrade(first);
+      await contract.connect(supplier1).matchTrade(second);
+      await awaitDecryptionOracle();
+
+      expect((await contract.getOrderInfo(first)).status).to.equal(1); // MATCHED
+      expect((await contract.getOrderInfo(second)).status).to.equal(0); // PENDING
+
+      const [matchId] = await contract.getOrderMatches(second);
+      const tradeMatch = await contract.matches(matchId);
+      expect(
+        await decryptEuint32(tradeMatch.encryptedQuantity, contractAddress, buyer2)
+      ).to.equal(300n);
+    });
+
+    it("Should fill a final remainder below the minimum order", async () => {
+      const materialId = await contract.nextMaterialId();
+      await contract.connect(supplier1).listMaterial(
+        "Small Remainder",
+        0,
+        950,
+        50000n,
+        100,
+        "A1",
+        7
+      );
+
+      const orderId = await contract.nextOrderId();
+      await contract.connect(buyer1).placeOrder(
+        materialId,
+        1000,
+        60000n,
+        "Antwerp",
+        "0x" + "0".repeat(64)
+      );
+
+      await contract.connect(supplier1).matchTrade(orderId);
+      await awaitDecryptionOracle();
+      expect((await contract.getOrderInfo(orderId)).status).to.equal(0); // PENDING
+
+      const instance = await createInstance(contractAddress, supplier1);
+      const restock = await instance
+        .createEncryptedInput(contractAddress, supplier1.address)
+        .add32(500)
+        .encrypt();
+      await contract
+        .connect(supplier1)
+        .restockMaterial(materialId, restock.handles[0], restock.inputProof);
+      await contract.connect(supplier1).matchTrade(orderId);
+      await awaitDecryptionOracle();
+
+      expect(await fills(orderId)).to.deep.equal([950n, 50n]);
+      expect((await contract.getOrderInfo(orderId)).status).to.equal(1); // MATCHED
+    });
+
+    it("Should not fill a fresh order below the minimum order", async () => {
+      const materialId = await contract.nextMaterialId();
+      await contract.connect(supplier1).listMaterial(
+        "Below Minimum",
+        0,
+        500,
+        50000n,
+        100,
+        "A1",
+        7
+      );
+
+      const orderId = await contract.nextOrderId();
+      await contract.connect(buyer1).placeOrder(
+        materialId,
+        50,
+        60000n,
+        "Antwerp",
+        "0x" + "0".repeat(64)
+      );
+
+      await contract.connect(supplier1).matchTrade(orderId);
+      await awaitDecryptionOracle();
+
+      expect(await fills(orderId)).to.deep.equal([0n]);
+      expect((await contract.getOrderInfo(orderId)).status).to.equal(0); // PENDING
+    });
+  });
+
   describe("Edge Cases", () => {
     it("Should handle maximum uint32 quantities", async () => {
       await contract.verifySupplier(supplier1.address);
@@ -680,7 +1359,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
       await contract.verifySupplier(supplier1.address);
       await contract.verifyBuyer(buyer1.address);
 
-      const materialId = (await contract.nextMaterialId()).toNumber();
+      const materialId = Number(await contract.nextMaterialId());
 
       const tx1 = await contract.connect(supplier1).listMaterial(
         "Rapid Test",
@@ -725,7 +1404,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
       await tx.wait();
 
       const material = await contract.getMaterialInfo(
-        (await contract.nextMaterialId()).toNumber() - 1
+        Number(await contract.nextMaterialId()) - 1
       );
       expect(material.name).to.equal("FHE Test");
     });
@@ -735,7 +1414,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
       await contract.verifySupplier(supplier1.address);
       await contract.verifyBuyer(buyer1.address);
 
-      const materialId = (await contract.nextMaterialId()).toNumber();
+      const materialId = Number(await contract.nextMaterialId());
 
       const tx1 = await contract.connect(supplier1).listMaterial(
         "Access Test",
@@ -757,7 +1436,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
       );
       await tx2.wait();
 
-      const orderId = (await contract.nextOrderId()).toNumber() - 1;
+      const orderId = Number(await contract.nextOrderId()) - 1;
       const tx3 = await contract.connect(supplier1).matchTrade(orderId);
       await expect(tx3).to.not.be.reverted;
     });
@@ -780,7 +1459,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
     });
 
     it("Should return material info correctly", async () => {
-      const materialId = (await contract.nextMaterialId()).toNumber() - 1;
+      const materialId = Number(await contract.nextMaterialId()) - 1;
       const material = await contract.getMaterialInfo(materialId);
 
       expect(material.name).to.equal("Query Test");
@@ -792,7 +1471,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
     it("Should return order info correctly", async () => {
       await contract.verifyBuyer(buyer1.address);
 
-      const materialId = (await contract.nextMaterialId()).toNumber() - 1;
+      const materialId = Number(await contract.nextMaterialId()) - 1;
       const tx = await contract.connect(buyer1).placeOrder(
         materialId,
         300,
@@ -802,7 +1481,7 @@ describe("ConfidentialRawMaterialsTrading", () => {
       );
       await tx.wait();
 
-      const orderId = (await contract.nextOrderId()).toNumber() - 1;
+      const orderId = Number(await contract.nextOrderId()) - 1;
       const order = await contract.getOrderInfo(orderId);
 
       expect(order.buyer).to.equal(buyer1.address);
@@ -1,5 +1,27 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import {
+  deliveryCommitment,
+  encodeLocation,
+  encryptLocation,
+  recipientCommitment,
+  signDeliveryConfirmation,
+} from "../sdk";
+import { createInstance } from "./utils/instance";
+import {
+  awaitDecryptionOracle,
+  decryptEuint32,
+  decryptEuint64,
+} from "./utils/decrypt";
+import {
+  acceptDelivery,
+  completeDelivery,
+  HANDOVER_SECRET,
+  offerDelivery,
+  PICKUP,
+  requestDelivery,
+} from "./utils/delivery";
 
 describe("DeliveryManager Contract", () => {
   let deliveryManager: any;
@@ -35,7 +57,8 @@ describe("DeliveryManager Contract", () => {
           encryptedPickup,
           proof,
           encryptedDelivery,
-          proof
+          proof,
+          recipientCommitment(recipient.address, HANDOVER_SECRET)
         );
 
       const receipt = await tx.wait();
@@ -61,7 +84,8 @@ describe("DeliveryManager Contract", () => {
           encryptedPickup,
           proof,
           encryptedDelivery,
-          proof
+          proof,
+          recipientCommitment(recipient.address, HANDOVER_SECRET)
         );
 
       // Assert: Sender can retrieve their deliveries
@@ -88,7 +112,8 @@ describe("DeliveryManager Contract", () => {
           encryptedPickup,
           proof,
           encryptedDelivery,
-          proof
+          proof,
+          recipientCommitment(recipient.address, HANDOVER_SECRET)
         );
 
       const createReceipt = await createTx.wait();
@@ -127,7 +152,8 @@ describe("DeliveryManager Contract", () => {
           encryptedData,
           proof,
           encryptedData,
-          proof
+          proof,
+          recipientCommitment(recipient.address, HANDOVER_SECRET)
         );
 
       const createReceipt = await createTx.wait();
@@ -141,9 +167,12 @@ describe("DeliveryManager Contract", () => {
         .acceptDelivery(deliveryId, encryptedData, proof);
 
       // Act: Complete delivery
-      const completeTx = await deliveryManager
-        .connect(courier)
-        .completeDelivery(deliveryId);
+      const completeTx = await completeDelivery(
+        deliveryManager,
+        courier,
+        recipient,
+        deliveryId
+      );
 
       const completeReceipt = await completeTx.wait();
 
@@ -170,7 +199,8 @@ describe("DeliveryManager Contract", () => {
           encryptedData,
           proof,
           encryptedData,
-          proof
+          proof,
+          recipientCommitment(recipient.address, HANDOVER_SECRET)
         );
 
       const createReceipt = await createTx.wait();
@@ -209,7 +239,8 @@ describe("DeliveryManager Contract", () => {
             encryptedData,
             proof,
             encryptedData,
-            proof
+            proof,
+            recipientCommitment(recipient.address, HANDOVER_SECRET)
           );
       }
 
@@ -231,7 +262,15 @@ describe("DeliveryManager Contract", () => {
       await expect(
         deliveryManager
           .connect(sender)
-          .createDeliveryRequest(emptyData, proof, emptyData, proof, emptyData, proof)
+          .createDeliveryRequest(
+            emptyData,
+            proof,
+            emptyData,
+            proof,
+            emptyData,
+            proof,
+            recipientCommitment(recipient.address, HANDOVER_SECRET)
+          )
       ).to.be.revertedWithCustomError(
         deliveryManager,
         "InvalidProof"
@@ -250,7 +289,8 @@ describe("DeliveryManager Contract", () => {
           encryptedData,
           proof,
           encryptedData,
-          proof
+          proof,
+          recipientCommitment(recipient.address, HANDOVER_SECRET)
         );
 
       const createReceipt = await createTx.wait();
@@ -281,7 +321,8 @@ describe("DeliveryManager Contract", () => {
           encryptedData,
           proof,
           encryptedData,
-          proof
+          proof,
+          recipientCommitment(recipient.address, HANDOVER_SECRET)
         );
 
       const createReceipt = await createTx.wait();
@@ -294,9 +335,11 @@ describe("DeliveryManager Contract", () => {
         .connect(courier)
         .acceptDelivery(deliveryId, encryptedData, proof);
 
-      // Different user tries to complete
+      // Different user tries to submit the proof of delivery
       await expect(
-        deliveryManager.connect(recipient).completeDelivery(deliveryId)
+        deliveryManager
+          .connect(recipient)
+          .submitProofOfDelivery(deliveryId, ethers.id("handover"))
       ).to.be.revertedWithCustomError(
         deliveryManager,
         "UnauthorizedAccess"
@@ -315,7 +358,8 @@ describe("DeliveryManager Contract", () => {
           encryptedData,
           proof,
           encryptedData,
-          proof
+          proof,
+          recipientCommitment(recipient.address, HANDOVER_SECRET)
         );
 
       const createReceipt = await createTx.wait();
@@ -327,13 +371,13 @@ describe("DeliveryManager Contract", () => {
       await deliveryManager
         .connect(courier)
         .acceptDelivery(deliveryId, encryptedData, proof);
-      await deliveryManager
-        .connect(courier)
-        .completeDelivery(deliveryId);
+      await completeDelivery(deliveryManager, courier, recipient, deliveryId);
 
       // Try to complete again
       await expect(
-        deliveryManager.connect(courier).completeDelivery(deliveryId)
+        deliveryManager
+          .connect(courier)
+          .submitProofOfDelivery(deliveryId, ethers.id("handover"))
       ).to.be.revertedWithCustomError(
         deliveryManager,
         "InvalidDeliveryStatus"
@@ -352,7 +396,8 @@ describe("DeliveryManager Contract", () => {
           encryptedData,
           proof,
           encryptedData,
-          proof
+          proof,
+          recipientCommitment(recipient.address, HANDOVER_SECRET)
         );
 
       const createReceipt = await createTx.wait();
@@ -394,7 +439,8 @@ describe("DeliveryManager Contract", () => {
           encryptedData,
           proof,
           encryptedData,
-          proof
+          proof,
+          recipientCommitment(recipient.address, HANDOVER_SECRET)
         );
 
       const createReceipt = await createTx.wait();
@@ -426,3 +472,574 @@ describe("DeliveryManager Contract", () => {
     });
   });
 });
+
+describe("DeliveryManager Courier Acceptance", () => {
+  let deliveryManager: any;
+  let reputationTracker: any;
+  let owner: any;
+  let sender: any;
+  let courier: any;
+  let other: any;
+
+  // ~0.05 degree from the Rotterdam pickup: 50 units north, 30 east
+  const NEARBY = {
+    latitude: PICKUP.latitude + 0.05,
+    longitude: PICKUP.longitude + 0.03,
+  };
+  // 0.08 degree north and east: each axis is in range, the distance is not
+  const DIAGONAL = {
+    latitude: PICKUP.latitude + 0.08,
+    longitude: PICKUP.longitude + 0.08,
+  };
+  // Antwerp, ~0.7 degree away
+  const ANTWERP = { latitude: 51.2194, longitude: 4.4025 };
+
+  // Completes a delivery by courier for sender and rates the courier 5
+  async function earnRating(rating = 5) {
+    const id = await requestDelivery(deliveryManager, sender);
+    await acceptDelivery(deliveryManager, courier, id);
+    await completeDelivery(deliveryManager, courier, sender, id);
+
+    const trackerAddress = await reputationTracker.getAddress();
+    const instance = await createInstance(trackerAddress, sender);
+    const score = await instance
+      .createEncryptedInput(trackerAddress, sender.address)
+      .add8(rating)
+      .encrypt();
+    await reputationTracker
+      .connect(sender)
+      .submitRating(
+        id,
+        courier.address,
+        score.handles[0],
+        score.inputProof,
+        "0x",
+        "0x"
+      );
+  }
+
+  beforeEach(async () => {
+    [owner, sender, courier, other] = await ethers.getSigners();
+
+    const DeliveryManagerFactory = await ethers.getContractFactory(
+      "DeliveryManager"
+    );
+    deliveryManager = await DeliveryManagerFactory.deploy();
+    await deliveryManager.waitForDeployment();
+
+    const ReputationTrackerFactory = await ethers.getContractFactory(
+      "ReputationTracker"
+    );
+    reputationTracker = await ReputationTrackerFactory.deploy(
+      await deliveryManager.getAddress(),
+      ethers.ZeroAddress
+    );
+    await reputationTracker.waitForDeployment();
+  });
+
+  it("should let only the owner set the reputation tracker", async () => {
+    await expect(
+      deliveryManager
+        .connect(sender)
+        .setReputationTracker(await reputationTracker.getAddress())
+    )
+      .to.be.revertedWithCustomError(deliveryManager, "UnauthorizedAccess")
+      .withArgs(sender.address);
+
+    await deliveryManager.setReputationTracker(
+      await reputationTracker.getAddress()
+    );
+    expect(await deliveryManager.reputationTracker()).to.equal(
+      await reputationTracker.getAddress()
+    );
+  });
+
+  it("should reject an offer without a location proof", async () => {
+    const id = await requestDelivery(deliveryManager, sender);
+
+    await expect(
+      deliveryManager.connect(courier).acceptDelivery(id, ethers.ZeroHash, "0x")
+    ).to.be.revertedWithCustomError(deliveryManager, "InvalidProof");
+  });
+
+  describe("location matching", () => {
+
+    it("should assign a courier near the pickup", async () => {
+      const id = await requestDelivery(deliveryManager, sender);
+
+      await expect(offerDelivery(deliveryManager, courier, id, NEARBY))
+        .to.emit(deliveryManager, "DeliveryAcceptanceRequested")
+        .withArgs(id, courier.address, anyValue);
+      expect(await deliveryManager.getDeliveryStatus(id)).to.equal(0); // PENDING
+      expect(await deliveryManager.isAcceptancePending(id)).to.be.true;
+
+      await awaitDecryptionOracle();
+
+      const delivery = await deliveryManager.getDelivery(id);
+      expect(delivery.status).to.equal(1); // ACCEPTED
+      expect(delivery.assignedCourier).to.equal(courier.address);
+      expect(await deliveryManager.isAcceptancePending(id)).to.be.false;
+    });
+
+    it("should reject a courier too far from the pickup", async () => {
+      const id = await requestDelivery(deliveryManager, sender);
+
+      await acceptDelivery(deliveryManager, courier, id, ANTWERP);
+
+      const rejections = await deliveryManager.queryFilter(
+        deliveryManager.filters.DeliveryAcceptanceRejected(id)
+      );
+      expect(rejections).to.have.length(1);
+      expect(rejections[0].args.courier).to.equal(courier.address);
+
+      const delivery = await deliveryManager.getDelivery(id);
+      expect(delivery.status).to.equal(0); // Still PENDING
+      expect(delivery.assignedCourier).to.equal(ethers.ZeroAddress);
+    });
+
+    it("should measure straight-line distance, not each axis", async () => {
+      const id = await requestDelivery(deliveryManager, sender);
+
+      await acceptDelivery(deliveryManager, courier, id, DIAGONAL);
+      expect(await deliveryManager.getDeliveryStatus(id)).to.equal(0);
+    });
+
+    it("should run one courier check per delivery at a time", async () => {
+      const id = await requestDelivery(deliveryManager, sender);
+
+      await offerDelivery(deliveryManager, courier, id, ANTWERP);
+      await expect(offerDelivery(deliveryManager, other, id))
+        .to.be.revertedWithCustomError(deliveryManager, "AcceptancePending")
+        .withArgs(id);
+
+      // The far courier fails, which frees the delivery for others
+      await awaitDecryptionOracle();
+      await acceptDelivery(deliveryManager, other, id);
+      expect((await deliveryManager.getDelivery(id)).assignedCourier).to.equal(
+        other.address
+      );
+    });
+
+    it("should share the pickup location with the requester and assigned courier only", async () => {
+      const id = await requestDelivery(deliveryManager, sender);
+      await acceptDelivery(deliveryManager, courier, id, NEARBY);
+
+      for (const party of [sender, courier]) {
+        const handle = await deliveryManager
+          .connect(party)
+          .getEncryptedPickupLocation(id);
+        expect(
+          await decryptEuint64(
+            handle,
+            await deliveryManager.getAddress(),
+            party
+          )
+        ).to.equal(encodeLocation(PICKUP));
+      }
+
+      await expect(
+        deliveryManager.connect(other).getEncryptedPickupLocation(id)
+      ).to.be.revertedWithCustomError(deliveryManager, "UnauthorizedAccess");
+    });
+  });
+
+  describe("reputation gate", () => {
+
+    it("should assign couriers meeting MIN_COURIER_REPUTATION", async () => {
+      // An average of 5 clears the minimum of 3.5
+      await earnRating();
+      await deliveryManager.setReputationTracker(
+        await reputationTracker.getAddress()
+      );
+
+      const id = await requestDelivery(deliveryManager, sender);
+      await acceptDelivery(deliveryManager, courier, id);
+
+      expect((await deliveryManager.getDelivery(id)).assignedCourier).to.equal(
+        courier.address
+      );
+    });
+
+    it("should reject couriers below MIN_COURIER_REPUTATION", async () => {
+      await earnRating(3); // An average of 3 is short of 3.5
+      await deliveryManager.setReputationTracker(
+        await reputationTracker.getAddress()
+      );
+
+      const id = await requestDelivery(deliveryManager, sender);
+      await acceptDelivery(deliveryManager, courier, id);
+
+      const delivery = await deliveryManager.getDelivery(id);
+      expect(delivery.status).to.equal(0); // Still PENDING
+      expect(delivery.assignedCourier).to.equal(ethers.ZeroAddress);
+    });
+
+    it("should still require a nearby courier with enough reputation", async () => {
+      await earnRating();
+      await deliveryManager.setReputationTracker(
+        await reputationTracker.getAddress()
+      );
+
+      const id = await requestDelivery(deliveryManager, sender);
+      await acceptDelivery(deliveryManager, courier, id, ANTWERP);
+
+      expect(await deliveryManager.getDeliveryStatus(id)).to.equal(0);
+    });
+  });
+});
+
+describe("DeliveryManager Checkpoints", () => {
+  let deliveryManager: any;
+  let managerAddress: string;
+  let sender: any;
+  let courier: any;
+  let other: any;
+  let requestId: string;
+
+  // In transit towards Antwerp, reading 40 (e.g. 4.0 C in tenths)
+  const EN_ROUTE = { latitude: 51.5, longitude: 4.45 };
+  const COLD_CHAIN_READING = 40;
+
+  async function checkpoint(
+    signer: any,
+    coordinates = EN_ROUTE,
+    condition?: number
+  ) {
+    const instance = await createInstance(managerAddress, signer);
+    const encrypted = await instance
+      .createEncryptedInput(managerAddress, signer.address)
+      .add64(encodeLocation(coordinates))
+      .add32(condition ?? 0)
+      .encrypt();
+    return deliveryManager
+      .connect(signer)
+      .recordCheckpoint(
+        requestId,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        condition !== undefined,
+        encrypted.inputProof
+      );
+  }
+
+
+  beforeEach(async () => {
+    [, sender, courier, other] = await ethers.getSigners();
+
+    const DeliveryManagerFactory = await ethers.getContractFactory(
+      "DeliveryManager"
+    );
+    deliveryManager = await DeliveryManagerFactory.deploy();
+    await deliveryManager.waitForDeployment();
+    managerAddress = await deliveryManager.getAddress();
+
+    requestId = await requestDelivery(deliveryManager, sender);
+    await acceptDelivery(deliveryManager, courier, requestId);
+  });
+
+  it("should move the delivery into IN_TRANSIT on the first checkpoint", async () => {
+    await expect(checkpoint(courier))
+      .to.emit(deliveryManager, "CheckpointRecorded")
+      .withArgs(requestId, 0, anyValue);
+    expect(await deliveryManager.getDeliveryStatus(requestId)).to.equal(2); // IN_TRANSIT
+
+    await expect(checkpoint(courier))
+      .to.emit(deliveryManager, "CheckpointRecorded")
+      .withArgs(requestId, 1, anyValue);
+    expect(await deliveryManager.getDeliveryStatus(requestId)).to.equal(2);
+  });
+
+  it("should let the courier complete a delivery in transit", async () => {
+    await checkpoint(courier);
+
+    await expect(
+      completeDelivery(deliveryManager, courier, sender, requestId)
+    ).to.emit(deliveryManager, "DeliveryCompleted");
+    await expect(checkpoint(courier)).to.be.revertedWithCustomError(
+      deliveryManager,
+      "InvalidDeliveryStatus"
+    );
+  });
+
+  it("should only accept checkpoints from the assigned courier", async () => {
+    await expect(checkpoint(other))
+      .to.be.revertedWithCustomError(deliveryManager, "UnauthorizedAccess")
+      .withArgs(other.address);
+    await expect(checkpoint(sender))
+      .to.be.revertedWithCustomError(deliveryManager, "UnauthorizedAccess")
+      .withArgs(sender.address);
+  });
+
+  it("should share encrypted checkpoints with the requester and courier", async () => {
+    await checkpoint(courier, EN_ROUTE, COLD_CHAIN_READING);
+    await checkpoint(courier, PICKUP);
+
+    const trail = await deliveryManager
+      .connect(sender)
+      .getCheckpoints(requestId);
+    expect(trail).to.have.length(2);
+    expect(trail[0].hasCondition).to.be.true;
+    expect(trail[1].hasCondition).to.be.false;
+    expect(trail[1].timestamp).to.be.gte(trail[0].timestamp);
+
+    expect(
+      await decryptEuint64(trail[0].location, managerAddress, sender)
+    ).to.equal(encodeLocation(EN_ROUTE));
+    expect(
+      await decryptEuint32(trail[0].condition, managerAddress, sender)
+    ).to.equal(BigInt(COLD_CHAIN_READING));
+    expect(
+      await decryptEuint64(trail[1].location, managerAddress, courier)
+    ).to.equal(encodeLocation(PICKUP));
+
+    await expect(
+      deliveryManager.connect(other).getCheckpoints(requestId)
+    ).to.be.revertedWithCustomError(deliveryManager, "UnauthorizedAccess");
+  });
+
+  it("should cap the number of checkpoints", async () => {
+    const max = Number(await deliveryManager.MAX_CHECKPOINTS());
+    for (let i = 0; i < max; i++) {
+      await checkpoint(courier);
+    }
+
+    await expect(checkpoint(courier))
+      .to.be.revertedWithCustomError(deliveryManager, "TooManyCheckpoints")
+      .withArgs(requestId);
+  });
+});
+
+describe("DeliveryManager Proof of Delivery", () => {
+  let deliveryManager: any;
+  let managerAddress: string;
+  let sender: any;
+  let courier: any;
+  let recipient: any;
+  let other: any;
+  let requestId: string;
+
+  const secret = HANDOVER_SECRET;
+
+  async function submitProof(commitment: string) {
+    return deliveryManager
+      .connect(courier)
+      .submitProofOfDelivery(requestId, commitment);
+  }
+
+  async function sign(signer: any, commitment: string) {
+    return signDeliveryConfirmation(
+      signer,
+      managerAddress,
+      requestId,
+      commitment
+    );
+  }
+
+
+  beforeEach(async () => {
+    [, sender, courier, recipient, other] = await ethers.getSigners();
+
+    const DeliveryManagerFactory = await ethers.getContractFactory(
+      "DeliveryManager"
+    );
+    deliveryManager = await DeliveryManagerFactory.deploy();
+    await deliveryManager.waitForDeployment();
+    managerAddress = await deliveryManager.getAddress();
+
+    requestId = await requestDelivery(
+      deliveryManager,
+      sender,
+      PICKUP,
+      recipient.address
+    );
+    await acceptDelivery(deliveryManager, courier, requestId);
+  });
+
+  it("should require a recipient commitment", async () => {
+    const location = await encryptLocation(
+      await createInstance(managerAddress, sender),
+      managerAddress,
+      sender.address,
+      PICKUP
+    );
+
+    await expect(
+      deliveryManager
+        .connect(sender)
+        .createDeliveryRequest(
+          "0x01",
+          "0x02",
+          location.handle,
+          location.inputProof,
+          "0x05",
+          "0x06",
+          ethers.ZeroHash
+        )
+    ).to.be.revertedWithCustomError(deliveryManager, "InvalidInput");
+  });
+
+  it("should complete only once the recipient confirms", async () => {
+    const commitment = deliveryCommitment(requestId, recipient.address, secret);
+    const window = await deliveryManager.CONFIRMATION_WINDOW();
+
+    const tx = await submitProof(commitment);
+    await tx.wait();
+    const latest = await ethers.provider.getBlock("latest");
+    await expect(tx)
+      .to.emit(deliveryManager, "ProofOfDeliverySubmitted")
+      .withArgs(
+        requestId,
+        courier.address,
+        commitment,
+        BigInt(latest!.timestamp) + window
+      );
+    expect(await deliveryManager.getDeliveryStatus(requestId)).to.equal(1); // ACCEPTED
+    expect(
+      (await deliveryManager.getProofOfDelivery(requestId)).commitment
+    ).to.equal(commitment);
+
+    // Anyone may relay the recipient's signed confirmation
+    const signature = await sign(recipient, commitment);
+    await expect(
+      deliveryManager
+        .connect(courier)
+        .confirmDelivery(requestId, recipient.address, secret, signature)
+    )
+      .to.emit(deliveryManager, "DeliveryCompleted")
+      .withArgs(requestId, courier.address, anyValue);
+
+    expect(await deliveryManager.getDeliveryStatus(requestId)).to.equal(3); // COMPLETED
+    expect(
+      (await deliveryManager.getProofOfDelivery(requestId)).submittedAt
+    ).to.equal(0);
+  });
+
+  it("should only take a proof from the assigned courier", async () => {
+    const commitment = deliveryCommitment(requestId, recipient.address, secret);
+
+    await expect(
+      deliveryManager
+        .connect(other)
+        .submitProofOfDelivery(requestId, commitment)
+    )
+      .to.be.revertedWithCustomError(deliveryManager, "UnauthorizedAccess")
+      .withArgs(other.address);
+    await expect(submitProof(ethers.ZeroHash)).to.be.revertedWithCustomError(
+      deliveryManager,
+      "InvalidProof"
+    );
+  });
+
+  it("should reject a confirmation without a proof of delivery", async () => {
+    const commitment = deliveryCommitment(requestId, recipient.address, secret);
+
+    await expect(
+      deliveryManager.confirmDelivery(
+        requestId,
+        recipient.address,
+        secret,
+        await sign(recipient, commitment)
+      )
+    )
+      .to.be.revertedWithCustomError(deliveryManager, "ProofOfDeliveryMissing")
+      .withArgs(requestId);
+  });
+
+  it("should reject mismatched confirmations", async () => {
+    const commitment = deliveryCommitment(requestId, recipient.address, secret);
+    await submitProof(commitment);
+    const signature = await sign(recipient, commitment);
+
+    // Wrong secret
+    await expect(
+      deliveryManager.confirmDelivery(
+        requestId,
+        recipient.address,
+        ethers.id("guess"),
+        signature
+      )
+    )
+      .to.be.revertedWithCustomError(deliveryManager, "ConfirmationMismatch")
+      .withArgs(requestId);
+
+    // Someone other than the committed recipient
+    await expect(
+      deliveryManager.confirmDelivery(
+        requestId,
+        other.address,
+        secret,
+        await sign(other, commitment)
+      )
+    ).to.be.revertedWithCustomError(deliveryManager, "ConfirmationMismatch");
+
+    // The courier confirming to themselves with a proof they committed
+    const selfCommitment = deliveryCommitment(
+      requestId,
+      courier.address,
+      secret
+    );
+    await submitProof(selfCommitment);
+    await expect(
+      deliveryManager.confirmDelivery(
+        requestId,
+        courier.address,
+        secret,
+        await sign(courier, selfCommitment)
+      )
+    ).to.be.revertedWithCustomError(deliveryManager, "ConfirmationMismatch");
+    await submitProof(commitment);
+
+    // Signed by someone else on the recipient's behalf
+    await expect(
+      deliveryManager.confirmDelivery(
+        requestId,
+        recipient.address,
+        secret,
+        await sign(courier, commitment)
+      )
+    ).to.be.revertedWithCustomError(deliveryManager, "ConfirmationMismatch");
+
+    // Signed for another commitment
+    await expect(
+      deliveryManager.confirmDelivery(
+        requestId,
+        recipient.address,
+        secret,
+        await sign(recipient, ethers.id("other commitment"))
+      )
+    ).to.be.revertedWithCustomError(deliveryManager, "ConfirmationMismatch");
+
+    expect(await deliveryManager.getDeliveryStatus(requestId)).to.equal(1); // ACCEPTED
+  });
+
+  it("should reject an expired confirmation until the courier resubmits", async () => {
+    const commitment = deliveryCommitment(requestId, recipient.address, secret);
+    await submitProof(commitment);
+    const signature = await sign(recipient, commitment);
+
+    const window = Number(await deliveryManager.CONFIRMATION_WINDOW());
+    await ethers.provider.send("evm_increaseTime", [window + 1]);
+    await ethers.provider.send("evm_mine", []);
+
+    await expect(
+      deliveryManager.confirmDelivery(
+        requestId,
+        recipient.address,
+        secret,
+        signature
+      )
+    )
+      .to.be.revertedWithCustomError(deliveryManager, "ConfirmationExpired")
+      .withArgs(requestId);
+
+    await submitProof(commitment);
+    await expect(
+      deliveryManager.confirmDelivery(
+        requestId,
+        recipient.address,
+        secret,
+        signature
+      )
+    ).to.emit(deliveryManager, "DeliveryCompleted");
+  });
+});
@@ -1,5 +1,17 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { createInstance } from "./utils/instance";
+import {
+  awaitDecryptionOracle,
+  decryptEuint64,
+} from "./utils/decrypt";
+import {
+  acceptDelivery,
+  completeDelivery,
+  recordCheckpoint,
+  requestDelivery,
+} from "./utils/delivery";
 
 describe("PaymentProcessor Contract", () => {
   let paymentProcessor: any;
@@ -378,4 +390,871 @@ describe("PaymentProcessor Contract", () => {
       );
     });
   });
+
+});
+
+describe("PaymentProcessor Dispute Resolution", () => {
+  let paymentProcessor: any;
+  let payer: any;
+  let payee: any;
+  let arbiter: any;
+  let processorAddress: string;
+  const paymentAmount = ethers.parseEther("1");
+  const fee = (paymentAmount * 2n) / 100n;
+
+  // Creates and escrows a payment from payer to payee, returning its ID
+  async function escrowedPayment(): Promise<string> {
+    await paymentProcessor
+      .connect(payer)
+      .createPayment(
+        ethers.zeroPadValue("0x01", 32),
+        "0x1234",
+        "0x5678",
+        payee.address,
+        { value: paymentAmount }
+      );
+    const ids = await paymentProcessor.getUserPayments(payer.address);
+    const paymentId = ids[ids.length - 1];
+    await paymentProcessor.connect(payer).escrowPayment(paymentId);
+    return paymentId;
+  }
+
+  async function disputedPayment(): Promise<string> {
+    const paymentId = await escrowedPayment();
+    await paymentProcessor.connect(payee).openDispute(paymentId);
+    await paymentProcessor.assignArbiter(paymentId, arbiter.address);
+    return paymentId;
+  }
+
+  beforeEach(async () => {
+    [, payer, payee, arbiter] = await ethers.getSigners();
+
+    const PaymentProcessorFactory = await ethers.getContractFactory(
+      "PaymentProcessor"
+    );
+    paymentProcessor = await PaymentProcessorFactory.deploy();
+    await paymentProcessor.waitForDeployment();
+
+    processorAddress = await paymentProcessor.getAddress();
+    await paymentProcessor.setArbiter(arbiter.address, true);
+  });
+
+  it("should let a party dispute an escrowed payment", async () => {
+    const paymentId = await escrowedPayment();
+
+    await expect(paymentProcessor.connect(payer).openDispute(paymentId))
+      .to.emit(paymentProcessor, "DisputeOpened");
+    expect(await paymentProcessor.getPaymentStatus(paymentId)).to.equal(4); // DISPUTED
+
+    const dispute = await paymentProcessor.getDispute(paymentId);
+    expect(dispute.openedBy).to.equal(payer.address);
+    expect(dispute.outcome).to.equal(0); // NONE
+  });
+
+  it("should freeze payer-driven release while disputed", async () => {
+    const paymentId = await escrowedPayment();
+    await paymentProcessor.connect(payee).openDispute(paymentId);
+
+    await expect(
+      paymentProcessor.connect(payer).completePayment(paymentId)
+    ).to.be.revertedWithCustomError(paymentProcessor, "InvalidPaymentStatus");
+  });
+
+  it("should reject disputes from outsiders and on non-escrowed payments", async () => {
+    const paymentId = await escrowedPayment();
+    await expect(
+      paymentProcessor.connect(arbiter).openDispute(paymentId)
+    ).to.be.revertedWithCustomError(
+      paymentProcessor,
+      "UnauthorizedPaymentAccess"
+    );
+
+    await paymentProcessor.connect(payer).completePayment(paymentId);
+    await expect(
+      paymentProcessor.connect(payer).openDispute(paymentId)
+    ).to.be.revertedWithCustomError(paymentProcessor, "InvalidPaymentStatus");
+  });
+
+  it("should only let the platform owner manage arbiters", async () => {
+    await expect(
+      paymentProcessor.connect(payer).setArbiter(payer.address, true)
+    ).to.be.revertedWithCustomError(paymentProcessor, "PermissionDenied");
+
+    const paymentId = await escrowedPayment();
+    await paymentProcessor.connect(payer).openDispute(paymentId);
+    await expect(
+      paymentProcessor.assignArbiter(paymentId, payee.address)
+    )
+      .to.be.revertedWithCustomError(paymentProcessor, "NotArbiter")
+      .withArgs(payee.address);
+  });
+
+  it("should record encrypted evidence from either party", async () => {
+    const paymentId = await disputedPayment();
+    const instance = await createInstance(processorAddress, payer);
+    const encrypted = await instance
+      .createEncryptedInput(processorAddress, payer.address)
+      .add256(BigInt(ethers.id("bill-of-lading.pdf")))
+      .encrypt();
+
+    await expect(
+      paymentProcessor
+        .connect(payer)
+        .submitEvidence(paymentId, encrypted.handles[0], encrypted.inputProof)
+    )
+      .to.emit(paymentProcessor, "EvidenceSubmitted")
+      .withArgs(paymentId, payer.address, 0);
+    expect((await paymentProcessor.getDispute(paymentId)).evidenceCount).to.equal(1);
+  });
+
+  it("should release the full escrow to the payee", async () => {
+    const paymentId = await disputedPayment();
+
+    await expect(
+      paymentProcessor.connect(arbiter).resolveDispute(paymentId, 1) // RELEASED
+    ).to.changeEtherBalance(payee, paymentAmount - fee);
+
+    expect(await paymentProcessor.getPaymentStatus(paymentId)).to.equal(2); // COMPLETED
+    expect((await paymentProcessor.getDispute(paymentId)).outcome).to.equal(1);
+  });
+
+  it("should refund the full escrow to the payer", async () => {
+    const paymentId = await disputedPayment();
+
+    await expect(
+      paymentProcessor.connect(arbiter).resolveDispute(paymentId, 2) // REFUNDED
+    ).to.changeEtherBalance(payer, paymentAmount);
+
+    expect(await paymentProcessor.getPaymentStatus(paymentId)).to.equal(3); // REFUNDED
+  });
+
+  it("should only let the assigned arbiter resolve", async () => {
+    const paymentId = await disputedPayment();
+
+    await expect(
+      paymentProcessor.connect(payer).resolveDispute(paymentId, 1)
+    ).to.be.revertedWithCustomError(paymentProcessor, "NotArbiter");
+    await expect(
+      paymentProcessor.connect(arbiter).resolveDispute(paymentId, 0)
+    ).to.be.revertedWithCustomError(paymentProcessor, "InvalidDisputeOutcome");
+  });
+
+  it("should credit an encrypted split once decrypted", async function () {
+    const paymentId = await disputedPayment();
+    const instance = await createInstance(processorAddress, arbiter);
+    const encrypted = await instance
+      .createEncryptedInput(processorAddress, arbiter.address)
+      .add16(7500) // 75% to the payee
+      .encrypt();
+
+    await expect(
+      paymentProcessor
+        .connect(arbiter)
+        .resolveDisputeWithSplit(
+          paymentId,
+          encrypted.handles[0],
+          encrypted.inputProof
+        )
+    ).to.emit(paymentProcessor, "DisputeSplitRequested");
+
+    await expect(
+      paymentProcessor.connect(arbiter).resolveDispute(paymentId, 1)
+    ).to.be.revertedWithCustomError(
+      paymentProcessor,
+      "DisputeResolutionPending"
+    );
+
+    await awaitDecryptionOracle();
+
+    // Shares are credited, not sent, so neither party can block the callback
+    const distributable = paymentAmount - fee;
+    const payeeShare = (distributable * 7500n) / 10000n;
+    const payerShare = distributable - payeeShare;
+    expect(
+      await paymentProcessor.withdrawable(payee.address, ethers.ZeroAddress)
+    ).to.equal(payeeShare);
+    expect(
+      await paymentProcessor.withdrawable(payer.address, ethers.ZeroAddress)
+    ).to.equal(payerShare);
+
+    expect((await paymentProcessor.getDispute(paymentId)).outcome).to.equal(3); // SPLIT
+    expect(await paymentProcessor.platformBalance()).to.equal(fee);
+
+    await expect(
+      paymentProcessor.connect(payee).withdraw(ethers.ZeroAddress)
+    ).to.changeEtherBalance(payee, payeeShare);
+    await expect(paymentProcessor.connect(payer).withdraw(ethers.ZeroAddress))
+      .to.emit(paymentProcessor, "Withdrawn")
+      .withArgs(payer.address, ethers.ZeroAddress, payerShare);
+
+    await expect(
+      paymentProcessor.connect(payee).withdraw(ethers.ZeroAddress)
+    ).to.be.revertedWithCustomError(paymentProcessor, "InsufficientFunds");
+  });
+});
+
+describe("PaymentProcessor Token Payments", () => {
+  let paymentProcessor: any;
+  let owner: any;
+  let payer: any;
+  let payee: any;
+  let processorAddress: string;
+  const deliveryId = ethers.zeroPadValue("0x01", 32);
+
+  beforeEach(async () => {
+    [owner, payer, payee] = await ethers.getSigners();
+
+    const PaymentProcessorFactory = await ethers.getContractFactory(
+      "PaymentProcessor"
+    );
+    paymentProcessor = await PaymentProcessorFactory.deploy();
+    await paymentProcessor.waitForDeployment();
+    processorAddress = await paymentProcessor.getAddress();
+  });
+
+  describe("ERC-20", () => {
+    let token: any;
+    let tokenAddress: string;
+    const amount = ethers.parseEther("500");
+    const fee = (amount * 2n) / 100n;
+
+    async function tokenPayment(): Promise<string> {
+      await paymentProcessor
+        .connect(payer)
+        .createTokenPayment(deliveryId, payee.address, tokenAddress, amount);
+      const ids = await paymentProcessor.getUserPayments(payer.address);
+      return ids[ids.length - 1];
+    }
+
+    beforeEach(async () => {
+      const TokenFactory = await ethers.getContractFactory("MockERC20");
+      token = await TokenFactory.deploy("Mock USD", "mUSD");
+      await token.waitForDeployment();
+      tokenAddress = await token.getAddress();
+
+      await token.mint(payer.address, ethers.parseEther("1000"));
+      await token.connect(payer).approve(processorAddress, amount);
+    });
+
+    it("should pull the amount from the payer's allowance", async () => {
+      const paymentId = await tokenPayment();
+
+      expect(await token.balanceOf(processorAddress)).to.equal(amount);
+      const payment = await paymentProcessor.getPayment(paymentId);
+      expect(payment.asset).to.equal(1); // ERC20
+      expect(payment.token).to.equal(tokenAddress);
+      expect(payment.amount).to.equal(amount);
+      expect(payment.fee).to.equal(fee);
+    });
+
+    it("should reject a payment without enough allowance", async () => {
+      await token.connect(payer).approve(processorAddress, amount - 1n);
+
+      await expect(tokenPayment())
+        .to.be.revertedWithCustomError(paymentProcessor, "TokenTransferFailed")
+        .withArgs(tokenAddress);
+    });
+
+    it("should release tokens to the payee and keep the fee", async () => {
+      const paymentId = await tokenPayment();
+      await paymentProcessor.connect(payer).escrowPayment(paymentId);
+
+      await expect(
+        paymentProcessor.connect(payer).completePayment(paymentId)
+      ).to.changeTokenBalances(
+        token,
+        [payee, paymentProcessor],
+        [amount - fee, -(amount - fee)]
+      );
+
+      expect(await paymentProcessor.tokenPlatformBalance(tokenAddress)).to.equal(fee);
+      expect(await paymentProcessor.platformBalance()).to.equal(0);
+
+      await expect(
+        paymentProcessor.withdrawTokenFees(tokenAddress, fee)
+      ).to.changeTokenBalance(token, owner, fee);
+      await expect(
+        paymentProcessor.withdrawTokenFees(tokenAddress, 1)
+      ).to.be.revertedWithCustomError(paymentProcessor, "InsufficientFunds");
+    });
+
+    it("should refund the full token amount to the payer", async () => {
+      const paymentId = await tokenPayment();
+      await paymentProcessor.connect(payer).escrowPayment(paymentId);
+
+      await expect(
+        paymentProcessor
+          .connect(payer)
+          .refundPayment(paymentId, "0x1234", "0x5678")
+      ).to.changeTokenBalance(token, payer, amount);
+      expect(await paymentProcessor.getPaymentStatus(paymentId)).to.equal(3); // REFUNDED
+    });
+  });
+
+  describe("Confidential token", () => {
+    let token: any;
+    let tokenAddress: string;
+    const amount = 40000n;
+    const fee = (amount * 2n) / 100n;
+
+    async function confidentialPayment(value: bigint): Promise<string> {
+      const instance = await createInstance(processorAddress, payer);
+      const encrypted = await instance
+        .createEncryptedInput(processorAddress, payer.address)
+        .add64(value)
+        .encrypt();
+
+      await paymentProcessor
+        .connect(payer)
+        .createConfidentialPayment(
+          deliveryId,
+          payee.address,
+          tokenAddress,
+          encrypted.handles[0],
+          encrypted.inputProof
+        );
+      const ids = await paymentProcessor.getUserPayments(payer.address);
+      return ids[ids.length - 1];
+    }
+
+    async function balanceOf(signer: any): Promise<bigint> {
+      return decryptEuint64(
+        await token.confidentialBalanceOf(signer.address),
+        tokenAddress,
+        signer
+      );
+    }
+
+
+    beforeEach(async () => {
+      const TokenFactory = await ethers.getContractFactory(
+        "MockConfidentialToken"
+      );
+      token = await TokenFactory.deploy("Confidential USD", "cUSD");
+      await token.waitForDeployment();
+      tokenAddress = await token.getAddress();
+
+      await token.mint(payer.address, 100000);
+      const latest = await ethers.provider.getBlock("latest");
+      await token
+        .connect(payer)
+        .setOperator(processorAddress, latest!.timestamp + 3600);
+    });
+
+    it("should escrow an encrypted amount visible to both parties", async () => {
+      const paymentId = await confidentialPayment(amount);
+
+      const payment = await paymentProcessor.getPayment(paymentId);
+      expect(payment.asset).to.equal(2); // CONFIDENTIAL
+      expect(payment.amount).to.equal(0);
+
+      const handle = await paymentProcessor.getConfidentialAmount(paymentId);
+      expect(await decryptEuint64(handle, processorAddress, payee)).to.equal(amount);
+      expect(await balanceOf(payer)).to.equal(100000n - amount);
+    });
+
+    it("should release the encrypted amount minus the fee", async () => {
+      const paymentId = await confidentialPayment(amount);
+      await paymentProcessor.connect(payer).escrowPayment(paymentId);
+      await paymentProcessor.connect(payer).completePayment(paymentId);
+
+      expect(await balanceOf(payee)).to.equal(amount - fee);
+      expect(
+        await decryptEuint64(
+          await paymentProcessor.getConfidentialPlatformBalance(tokenAddress),
+          processorAddress,
+          owner
+        )
+      ).to.equal(fee);
+
+      await paymentProcessor.withdrawConfidentialFees(tokenAddress);
+      expect(await balanceOf(owner)).to.equal(fee);
+    });
+
+    it("should refund the encrypted amount to the payer", async () => {
+      const paymentId = await confidentialPayment(amount);
+      await paymentProcessor
+        .connect(payer)
+        .refundPayment(paymentId, "0x1234", "0x5678");
+
+      expect(await balanceOf(payer)).to.equal(100000n);
+    });
+
+    it("should escrow nothing when the payer's balance is too low", async () => {
+      const paymentId = await confidentialPayment(250000n);
+
+      const handle = await paymentProcessor.getConfidentialAmount(paymentId);
+      expect(await decryptEuint64(handle, processorAddress, payer)).to.equal(0n);
+      expect(await balanceOf(payer)).to.equal(100000n);
+    });
+  });
+});
+
+describe("PaymentProcessor Time-Locked Escrow", () => {
+  let paymentProcessor: any;
+  let deliveryManager: any;
+  let payer: any;
+  let payee: any;
+  let deliveryId: string;
+  let deadline: number;
+  const paymentAmount = ethers.parseEther("1");
+  const fee = (paymentAmount * 2n) / 100n;
+  const DEADLINE_IN = 7 * 24 * 3600;
+  const RELEASE_WINDOW = 3 * 24 * 3600;
+
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  async function createPayment(): Promise<string> {
+    await paymentProcessor
+      .connect(payer)
+      .createPayment(deliveryId, "0x1234", "0x5678", payee.address, {
+        value: paymentAmount,
+      });
+    const ids = await paymentProcessor.getUserPayments(payer.address);
+    return ids[ids.length - 1];
+  }
+
+  // Creates, time-locks and escrows a payment for the delivery
+  async function lockedPayment(): Promise<string> {
+    const paymentId = await createPayment();
+    await paymentProcessor
+      .connect(payer)
+      .setTimeLock(paymentId, deadline, RELEASE_WINDOW);
+    await paymentProcessor.connect(payer).escrowPayment(paymentId);
+    return paymentId;
+  }
+
+
+  beforeEach(async () => {
+    [, payer, payee] = await ethers.getSigners();
+
+    const DeliveryManagerFactory = await ethers.getContractFactory(
+      "DeliveryManager"
+    );
+    deliveryManager = await DeliveryManagerFactory.deploy();
+    await deliveryManager.waitForDeployment();
+
+    const PaymentProcessorFactory = await ethers.getContractFactory(
+      "PaymentProcessor"
+    );
+    paymentProcessor = await PaymentProcessorFactory.deploy();
+    await paymentProcessor.waitForDeployment();
+    await paymentProcessor.setDeliveryManager(
+      await deliveryManager.getAddress()
+    );
+
+    // Payer requests a delivery that the payee carries
+    deliveryId = await requestDelivery(deliveryManager, payer);
+    await acceptDelivery(deliveryManager, payee, deliveryId);
+
+    const latest = await ethers.provider.getBlock("latest");
+    deadline = latest!.timestamp + DEADLINE_IN;
+  });
+
+  it("should record the time lock on a pending payment", async () => {
+    const paymentId = await createPayment();
+
+    await expect(
+      paymentProcessor
+        .connect(payer)
+        .setTimeLock(paymentId, deadline, RELEASE_WINDOW)
+    )
+      .to.emit(paymentProcessor, "TimeLockSet")
+      .withArgs(paymentId, deadline, RELEASE_WINDOW);
+
+    const timeLock = await paymentProcessor.getTimeLock(paymentId);
+    expect(timeLock.deliveryDeadline).to.equal(deadline);
+    expect(timeLock.releaseWindow).to.equal(RELEASE_WINDOW);
+  });
+
+  it("should reject invalid time locks", async () => {
+    const paymentId = await createPayment();
+
+    await expect(
+      paymentProcessor
+        .connect(payee)
+        .setTimeLock(paymentId, deadline, RELEASE_WINDOW)
+    ).to.be.revertedWithCustomError(
+      paymentProcessor,
+      "UnauthorizedPaymentAccess"
+    );
+    await expect(
+      paymentProcessor.connect(payer).setTimeLock(paymentId, 1, RELEASE_WINDOW)
+    ).to.be.revertedWithCustomError(paymentProcessor, "InvalidInput");
+
+    await paymentProcessor.connect(payer).escrowPayment(paymentId);
+    await expect(
+      paymentProcessor
+        .connect(payer)
+        .setTimeLock(paymentId, deadline, RELEASE_WINDOW)
+    ).to.be.revertedWithCustomError(paymentProcessor, "InvalidPaymentStatus");
+  });
+
+  it("should reject a time lock for an unknown delivery", async () => {
+    deliveryId = ethers.zeroPadValue("0xdead", 32);
+    const paymentId = await createPayment();
+
+    await expect(
+      paymentProcessor
+        .connect(payer)
+        .setTimeLock(paymentId, deadline, RELEASE_WINDOW)
+    ).to.be.revertedWithCustomError(deliveryManager, "DeliveryNotFound");
+  });
+
+  it("should stop the payer refunding a time-locked escrow", async () => {
+    const paymentId = await lockedPayment();
+
+    await expect(
+      paymentProcessor
+        .connect(payer)
+        .refundPayment(paymentId, "0x1234", "0x5678")
+    ).to.be.revertedWithCustomError(paymentProcessor, "TimeLockActive");
+  });
+
+  describe("Payee claim", () => {
+    it("should pay the payee once the release window passes", async () => {
+      const paymentId = await lockedPayment();
+      await completeDelivery(deliveryManager, payee, payer, deliveryId);
+
+      await expect(
+        paymentProcessor.connect(payee).claimPayment(paymentId)
+      ).to.be.revertedWithCustomError(paymentProcessor, "TimeLockActive");
+
+      await increaseTime(RELEASE_WINDOW);
+      await expect(
+        paymentProcessor.connect(payee).claimPayment(paymentId)
+      ).to.changeEtherBalance(payee, paymentAmount - fee);
+      expect(await paymentProcessor.getPaymentStatus(paymentId)).to.equal(2); // COMPLETED
+    });
+
+    it("should not pay out without a completed delivery", async () => {
+      const paymentId = await lockedPayment();
+      await increaseTime(DEADLINE_IN + RELEASE_WINDOW);
+
+      await expect(paymentProcessor.connect(payee).claimPayment(paymentId))
+        .to.be.revertedWithCustomError(paymentProcessor, "DeliveryNotCompleted")
+        .withArgs(deliveryId);
+    });
+
+    it("should not pay out a delivery completed after the deadline", async () => {
+      const paymentId = await lockedPayment();
+      await increaseTime(DEADLINE_IN + 1);
+      await completeDelivery(deliveryManager, payee, payer, deliveryId);
+      await increaseTime(RELEASE_WINDOW);
+
+      await expect(
+        paymentProcessor.connect(payee).claimPayment(paymentId)
+      ).to.be.revertedWithCustomError(paymentProcessor, "DeliveryNotCompleted");
+    });
+
+    it("should not let a payment without a time lock be claimed", async () => {
+      const paymentId = await createPayment();
+      await paymentProcessor.connect(payer).escrowPayment(paymentId);
+
+      await expect(paymentProcessor.connect(payee).claimPayment(paymentId))
+        .to.be.revertedWithCustomError(paymentProcessor, "NoTimeLock")
+        .withArgs(paymentId);
+    });
+
+    it("should freeze the claim while disputed", async () => {
+      const paymentId = await lockedPayment();
+      await completeDelivery(deliveryManager, payee, payer, deliveryId);
+      await paymentProcessor.connect(payer).openDispute(paymentId);
+      await increaseTime(RELEASE_WINDOW);
+
+      await expect(
+        paymentProcessor.connect(payee).claimPayment(paymentId)
+      ).to.be.revertedWithCustomError(paymentProcessor, "InvalidPaymentStatus");
+    });
+  });
+
+  describe("Payer reclaim", () => {
+    it("should refund the payer once the deadline passes undelivered", async () => {
+      const paymentId = await lockedPayment();
+
+      await expect(
+        paymentProcessor.connect(payer).reclaimPayment(paymentId)
+      ).to.be.revertedWithCustomError(paymentProcessor, "TimeLockActive");
+
+      await increaseTime(DEADLINE_IN + 1);
+      await expect(
+        paymentProcessor.connect(payer).reclaimPayment(paymentId)
+      ).to.changeEtherBalance(payer, paymentAmount);
+      expect(await paymentProcessor.getPaymentStatus(paymentId)).to.equal(3); // REFUNDED
+    });
+
+    it("should refund the payer when delivery came after the deadline", async () => {
+      const paymentId = await lockedPayment();
+      await increaseTime(DEADLINE_IN + 1);
+      await completeDelivery(deliveryManager, payee, payer, deliveryId);
+
+      await expect(
+        paymentProcessor.connect(payer).reclaimPayment(paymentId)
+      ).to.changeEtherBalance(payer, paymentAmount);
+    });
+
+    it("should not refund an on-time delivery", async () => {
+      const paymentId = await lockedPayment();
+      await completeDelivery(deliveryManager, payee, payer, deliveryId);
+      await increaseTime(DEADLINE_IN + 1);
+
+      await expect(paymentProcessor.connect(payer).reclaimPayment(paymentId))
+        .to.be.revertedWithCustomError(paymentProcessor, "DeliveryCompleted")
+        .withArgs(deliveryId);
+    });
+
+    it("should only let the payer reclaim", async () => {
+      const paymentId = await lockedPayment();
+      await increaseTime(DEADLINE_IN + 1);
+
+      await expect(
+        paymentProcessor.connect(payee).reclaimPayment(paymentId)
+      ).to.be.revertedWithCustomError(
+        paymentProcessor,
+        "UnauthorizedPaymentAccess"
+      );
+    });
+  });
+});
+
+describe("PaymentProcessor Milestone Payments", () => {
+  let paymentProcessor: any;
+  let deliveryManager: any;
+  let token: any;
+  let payer: any;
+  let payee: any;
+  let processorAddress: string;
+  let tokenAddress: string;
+  let deliveryId: string;
+  const tranches = [10000n, 25000n, 15000n];
+  const checkpoints = [0, 1, 2];
+  const total = 50000n;
+
+  async function milestonePayment(amounts: bigint[]): Promise<string> {
+    const instance = await createInstance(processorAddress, payer);
+    const input = instance.createEncryptedInput(processorAddress, payer.address);
+    amounts.forEach((amount) => input.add64(amount));
+    const encrypted = await input.encrypt();
+
+    await paymentProcessor
+      .connect(payer)
+      .createMilestonePayment(
+        deliveryId,
+        payee.address,
+        tokenAddress,
+        encrypted.handles,
+        checkpoints.slice(0, amounts.length),
+        encrypted.inputProof
+      );
+    const ids = await paymentProcessor.getUserPayments(payer.address);
+    return ids[ids.length - 1];
+  }
+
+  async function escrowedMilestonePayment(): Promise<string> {
+    const paymentId = await milestonePayment(tranches);
+    await paymentProcessor.connect(payer).escrowPayment(paymentId);
+    return paymentId;
+  }
+
+  async function decrypt(handle: string, signer: any = payee) {
+    return decryptEuint64(handle, processorAddress, signer);
+  }
+
+  async function tokenBalance(signer: any): Promise<bigint> {
+    return decryptEuint64(
+      await token.confidentialBalanceOf(signer.address),
+      tokenAddress,
+      signer
+    );
+  }
+
+
+  beforeEach(async () => {
+    [, payer, payee] = await ethers.getSigners();
+
+    const DeliveryManagerFactory = await ethers.getContractFactory(
+      "DeliveryManager"
+    );
+    deliveryManager = await DeliveryManagerFactory.deploy();
+    await deliveryManager.waitForDeployment();
+
+    const PaymentProcessorFactory = await ethers.getContractFactory(
+      "PaymentProcessor"
+    );
+    paymentProcessor = await PaymentProcessorFactory.deploy();
+    await paymentProcessor.waitForDeployment();
+    processorAddress = await paymentProcessor.getAddress();
+    await paymentProcessor.setDeliveryManager(
+      await deliveryManager.getAddress()
+    );
+
+    // Payer requests a delivery that the payee carries
+    deliveryId = await requestDelivery(deliveryManager, payer);
+    await acceptDelivery(deliveryManager, payee, deliveryId);
+
+    const TokenFactory = await ethers.getContractFactory(
+      "MockConfidentialToken"
+    );
+    token = await TokenFactory.deploy("Confidential USD", "cUSD");
+    await token.waitForDeployment();
+    tokenAddress = await token.getAddress();
+
+    await token.mint(payer.address, 100000);
+    const latest = await ethers.provider.getBlock("latest");
+    await token
+      .connect(payer)
+      .setOperator(processorAddress, latest!.timestamp + 3600);
+  });
+
+  it("should escrow the encrypted sum of the tranches", async () => {
+    const paymentId = await milestonePayment(tranches);
+
+    const plan = await paymentProcessor.getMilestones(paymentId);
+    expect(plan.length).to.equal(3);
+    expect(plan.map((m: any) => Number(m.checkpoint))).to.deep.equal(checkpoints);
+    expect(await decrypt(plan[1].amount)).to.equal(25000n);
+
+    const [escrowed, , remaining] =
+      await paymentProcessor.getMilestoneTotals(paymentId);
+    expect(await decrypt(escrowed, payer)).to.equal(total);
+    expect(await decrypt(remaining)).to.equal(total);
+    expect(await tokenBalance(payer)).to.equal(100000n - total);
+  });
+
+  it("should reject malformed milestone plans", async () => {
+    const instance = await createInstance(processorAddress, payer);
+    const encrypted = await instance
+      .createEncryptedInput(processorAddress, payer.address)
+      .add64(1000n)
+      .encrypt();
+
+    await expect(
+      paymentProcessor
+        .connect(payer)
+        .createMilestonePayment(
+          deliveryId,
+          payee.address,
+          tokenAddress,
+          encrypted.handles,
+          [1, 2],
+          encrypted.inputProof
+        )
+    ).to.be.revertedWithCustomError(paymentProcessor, "InvalidInput");
+  });
+
+  it("should reject a plan for an unknown delivery", async () => {
+    const instance = await createInstance(processorAddress, payer);
+    const encrypted = await instance
+      .createEncryptedInput(processorAddress, payer.address)
+      .add64(1000n)
+      .encrypt();
+
+    await expect(
+      paymentProcessor
+        .connect(payer)
+        .createMilestonePayment(
+          ethers.zeroPadValue("0x01", 32),
+          payee.address,
+          tokenAddress,
+          encrypted.handles,
+          [0],
+          encrypted.inputProof
+        )
+    ).to.be.revertedWithCustomError(deliveryManager, "DeliveryNotFound");
+  });
+
+  it("should hold each tranche until its checkpoint is recorded", async () => {
+    const paymentId = await escrowedMilestonePayment();
+
+    await expect(paymentProcessor.connect(payer).releaseMilestone(paymentId, 0))
+      .to.be.revertedWithCustomError(paymentProcessor, "CheckpointNotReached")
+      .withArgs(deliveryId, 0);
+
+    await recordCheckpoint(deliveryManager, payee, deliveryId);
+    await paymentProcessor.connect(payer).releaseMilestone(paymentId, 0);
+    await expect(paymentProcessor.connect(payer).releaseMilestone(paymentId, 1))
+      .to.be.revertedWithCustomError(paymentProcessor, "CheckpointNotReached")
+      .withArgs(deliveryId, 1);
+
+    // Completing the delivery reaches every checkpoint
+    await completeDelivery(deliveryManager, payee, payer, deliveryId);
+    await paymentProcessor.connect(payer).releaseMilestone(paymentId, 2);
+    await expect(
+      paymentProcessor.connect(payer).releaseMilestone(paymentId, 1)
+    ).to.emit(paymentProcessor, "PaymentCompleted");
+  });
+
+  it("should release tranches independently and complete with the last", async () => {
+    const paymentId = await escrowedMilestonePayment();
+    const fee = (amount: bigint) => (amount * 2n) / 100n;
+    for (let i = 0; i < checkpoints.length; i++) {
+      await recordCheckpoint(deliveryManager, payee, deliveryId);
+    }
+
+    await expect(paymentProcessor.connect(payer).releaseMilestone(paymentId, 1))
+      .to.emit(paymentProcessor, "MilestoneReleased")
+      .withArgs(paymentId, 1, 1, anyValue);
+    expect(await tokenBalance(payee)).to.equal(25000n - fee(25000n));
+
+    await expect(paymentProcessor.connect(payer).releaseMilestone(paymentId, 1))
+      .to.be.revertedWithCustomError(paymentProcessor, "MilestoneAlreadyReleased")
+      .withArgs(paymentId, 1);
+    await expect(
+      paymentProcessor.connect(payee).releaseMilestone(paymentId, 0)
+    ).to.be.revertedWithCustomError(
+      paymentProcessor,
+      "UnauthorizedPaymentAccess"
+    );
+
+    const [, released, remaining] =
+      await paymentProcessor.getMilestoneTotals(paymentId);
+    expect(await decrypt(released)).to.equal(25000n);
+    expect(await decrypt(remaining)).to.equal(total - 25000n);
+
+    await paymentProcessor.connect(payer).releaseMilestone(paymentId, 0);
+    expect(await paymentProcessor.getPaymentStatus(paymentId)).to.equal(1); // ESCROW
+    await expect(
+      paymentProcessor.connect(payer).releaseMilestone(paymentId, 2)
+    ).to.emit(paymentProcessor, "PaymentCompleted");
+    expect(await paymentProcessor.getPaymentStatus(paymentId)).to.equal(2); // COMPLETED
+    expect(await tokenBalance(payee)).to.equal(total - fee(total));
+  });
+
+  it("should refund only the unreleased remainder", async () => {
+    const paymentId = await milestonePayment(tranches);
+    await paymentProcessor.connect(payer).escrowPayment(paymentId);
+    await recordCheckpoint(deliveryManager, payee, deliveryId);
+    await paymentProcessor.connect(payer).releaseMilestone(paymentId, 0);
+
+    await paymentProcessor
+      .connect(payer)
+      .refundPayment(paymentId, "0x1234", "0x5678");
+    expect(await tokenBalance(payer)).to.equal(100000n - 10000n);
+  });
+
+  it("should zero every tranche when the payer cannot fund the total", async () => {
+    const paymentId = await milestonePayment([60000n, 50000n]);
+
+    const plan = await paymentProcessor.getMilestones(paymentId);
+    expect(await decrypt(plan[0].amount)).to.equal(0n);
+    expect(await decrypt(plan[1].amount)).to.equal(0n);
+    expect(await tokenBalance(payer)).to.equal(100000n);
+  });
+
+  it("should not release milestones of a lump-sum payment", async () => {
+    await paymentProcessor
+      .connect(payer)
+      .createPayment(deliveryId, "0x1234", "0x5678", payee.address, {
+        value: ethers.parseEther("1"),
+      });
+    const [paymentId] = await paymentProcessor.getUserPayments(payer.address);
+    await paymentProcessor.connect(payer).escrowPayment(paymentId);
+
+    await expect(
+      paymentProcessor.connect(payer).releaseMilestone(paymentId, 0)
+    ).to.be.revertedWithCustomError(paymentProcessor, "NotMilestonePayment");
+  });
 });
@@ -1,314 +1,344 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { createInstance } from "./utils/instance";
+import {
+  awaitDecryptionOracle,
+  decryptEbool,
+  decryptEuint8,
+  decryptEuint32,
+  decryptEuint64,
+} from "./utils/decrypt";
+import {
+  acceptDelivery,
+  completeDelivery,
+  requestDelivery,
+} from "./utils/delivery";
+import {
+  computeWeightedRating,
+  DECAY_HALF_LIFE,
+  fetchRatingEvents,
+  RatingEvent,
+} from "../sdk";
 
 describe("ReputationTracker Contract", () => {
   let reputationTracker: any;
+  let deliveryManager: any;
+  let trackerAddress: string;
   let owner: any;
   let user1: any;
   let user2: any;
   let user3: any;
 
+  const deliveryId = (label: string) => ethers.id(label);
+
+  // Requests a delivery and lets the courier accept it, returning its ID
+  async function acceptedDelivery(requester: any, courier: any) {
+    const id = await requestDelivery(deliveryManager, requester);
+    await acceptDelivery(deliveryManager, courier, id);
+    return id;
+  }
+
+  async function completedDelivery(requester: any = user1, courier: any = user2) {
+    const id = await acceptedDelivery(requester, courier);
+    await completeDelivery(deliveryManager, courier, requester, id);
+    return id;
+  }
+
+  // Submits an encrypted score from rater for participant
+  async function rate(
+    rater: any,
+    id: string,
+    participant: string,
+    score: number
+  ) {
+    const instance = await createInstance(trackerAddress, rater);
+    const encrypted = await instance
+      .createEncryptedInput(trackerAddress, rater.address)
+      .add8(score)
+      .encrypt();
+
+    return reputationTracker
+      .connect(rater)
+      .submitRating(
+        id,
+        participant,
+        encrypted.handles[0],
+        encrypted.inputProof,
+        "0x",
+        "0x"
+      );
+  }
+
+  // Runs a state-changing getter and returns the handle it produced
+  async function handleFrom(signer: any, method: string, ...args: any[]) {
+    const contract = reputationTracker.connect(signer);
+    const handle = await contract[method].staticCall(...args);
+    await (await contract[method](...args)).wait();
+    return handle;
+  }
+
   beforeEach(async () => {
     [owner, user1, user2, user3] = await ethers.getSigners();
 
+    const DeliveryManagerFactory = await ethers.getContractFactory(
+      "DeliveryManager"
+    );
+    deliveryManager = await DeliveryManagerFactory.deploy();
+    await deliveryManager.waitForDeployment();
+
     const ReputationTrackerFactory = await ethers.getContractFactory(
       "ReputationTracker"
     );
-    reputationTracker = await ReputationTrackerFactory.deploy();
-    await reputationTracker.deployed();
+    reputationTracker = await ReputationTrackerFactory.deploy(
+      await deliveryManager.getAddress(),
+      ethers.ZeroAddress
+    );
+    await reputationTracker.waitForDeployment();
+    trackerAddress = await reputationTracker.getAddress();
   });
 
   describe("✅ Success Cases", () => {
-    it("should submit a rating successfully", async () => {
-      const deliveryId = ethers.utils.toBeHex("delivery_1", 32);
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const encryptedComment = ethers.utils.toBeHex("comment_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-
-      const tx = await reputationTracker
-        .connect(user1)
-        .submitRating(
-          deliveryId,
-          user2.address,
-          encryptedScore,
-          proof,
-          encryptedComment,
-          proof
-        );
 
-      const receipt = await tx.wait();
+    it("should submit a rating successfully", async () => {
+      const id = await completedDelivery();
 
-      expect(
-        receipt.events.some((e: any) => e.event === "RatingSubmitted")
-      ).to.be.true;
+      await expect(rate(user1, id, user2.address, 4))
+        .to.emit(reputationTracker, "RatingSubmitted")
+        .withArgs(id, user2.address, user1.address, anyValue);
     });
 
     it("should track reputation after rating", async () => {
-      const deliveryId = ethers.utils.toBeHex("delivery_1", 32);
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const encryptedComment = ethers.utils.toBeHex("comment_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-
-      await reputationTracker
-        .connect(user1)
-        .submitRating(
-          deliveryId,
-          user2.address,
-          encryptedScore,
-          proof,
-          encryptedComment,
-          proof
-        );
+      await rate(user1, await completedDelivery(), user2.address, 4);
 
       const reputation = await reputationTracker.getReputation(user2.address);
       expect(reputation.ratingCount).to.equal(1);
-      expect(reputation.totalRating).to.be.gt(0);
+      expect(
+        await decryptEuint32(reputation.encryptedTotal, trackerAddress, user2)
+      ).to.equal(4n);
     });
 
     it("should calculate average rating", async () => {
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const encryptedComment = ethers.utils.toBeHex("comment_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-
-      // Submit multiple ratings
-      for (let i = 0; i < 3; i++) {
-        const deliveryId = ethers.utils.toBeHex(`delivery_${i}`, 32);
-        await reputationTracker
-          .connect([user1, user2, user3][i])
-          .submitRating(
-            deliveryId,
-            user2.address,
-            encryptedScore,
-            proof,
-            encryptedComment,
-            proof
-          );
+      const scores = [4, 5, 3];
+      const requesters = [user1, user3, owner];
+      for (let i = 0; i < scores.length; i++) {
+        const id = await completedDelivery(requesters[i], user2);
+        await rate(requesters[i], id, user2.address, scores[i]);
       }
 
-      const average = await reputationTracker.getAverageRating(user2.address);
-      expect(average).to.be.gt(0);
-      expect(average).to.be.lte(5);
+      const average = await handleFrom(
+        user2,
+        "getAverageRating",
+        user2.address
+      );
+      expect(await decryptEuint8(average, trackerAddress, user2)).to.equal(4n);
     });
 
     it("should handle multiple ratings from different users", async () => {
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const encryptedComment = ethers.utils.toBeHex("comment_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-
-      const deliveryId1 = ethers.utils.toBeHex("delivery_1", 32);
-      const deliveryId2 = ethers.utils.toBeHex("delivery_2", 32);
-      const deliveryId3 = ethers.utils.toBeHex("delivery_3", 32);
-
-      await reputationTracker
-        .connect(user1)
-        .submitRating(
-          deliveryId1,
-          user2.address,
-          encryptedScore,
-          proof,
-          encryptedComment,
-          proof
-        );
-
-      await reputationTracker
-        .connect(user2)
-        .submitRating(
-          deliveryId2,
-          user2.address,
-          encryptedScore,
-          proof,
-          encryptedComment,
-          proof
-        );
-
-      await reputationTracker
-        .connect(user3)
-        .submitRating(
-          deliveryId3,
-          user2.address,
-          encryptedScore,
-          proof,
-          encryptedComment,
-          proof
-        );
+      await rate(user1, await completedDelivery(user1), user2.address, 5);
+      await rate(user3, await completedDelivery(user3), user2.address, 2);
+      await rate(owner, await completedDelivery(owner), user2.address, 4);
 
       const reputation = await reputationTracker.getReputation(user2.address);
       expect(reputation.ratingCount).to.equal(3);
+      expect(
+        await decryptEuint32(
+          await reputationTracker.getReputationScore(user2.address),
+          trackerAddress,
+          user2
+        )
+      ).to.equal(11n);
     });
 
     it("should track participants", async () => {
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const encryptedComment = ethers.utils.toBeHex("comment_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-
-      // Rate different users
-      const deliveryId1 = ethers.utils.toBeHex("delivery_1", 32);
-      const deliveryId2 = ethers.utils.toBeHex("delivery_2", 32);
-
-      await reputationTracker
-        .connect(user1)
-        .submitRating(
-          deliveryId1,
-          user2.address,
-          encryptedScore,
-          proof,
-          encryptedComment,
-          proof
-        );
-
-      await reputationTracker
-        .connect(user1)
-        .submitRating(
-          deliveryId2,
-          user3.address,
-          encryptedScore,
-          proof,
-          encryptedComment,
-          proof
-        );
+      await rate(user1, await completedDelivery(user1, user2), user2.address, 4);
+      await rate(user1, await completedDelivery(user1, user3), user3.address, 4);
 
       const participants = await reputationTracker.getParticipants();
       expect(participants.length).to.equal(2);
       expect(participants).to.include(user2.address);
       expect(participants).to.include(user3.address);
     });
+  });
 
-    it("should check minimum reputation", async () => {
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const encryptedComment = ethers.utils.toBeHex("comment_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-      const minimumScore = ethers.utils.toBeHex("minimum_data", 32);
+  describe("🎯 Reputation Comparisons", () => {
 
-      const deliveryId = ethers.utils.utils.toBeHex("delivery_1", 32);
+    // The owner stands in for the trading contract, one of the two callers
+    // allowed to compare reputations
+    beforeEach(async () => {
+      const ReputationTrackerFactory = await ethers.getContractFactory(
+        "ReputationTracker"
+      );
+      reputationTracker = await ReputationTrackerFactory.deploy(
+        await deliveryManager.getAddress(),
+        owner.address
+      );
+      await reputationTracker.waitForDeployment();
+      trackerAddress = await reputationTracker.getAddress();
+    });
 
-      await reputationTracker
-        .connect(user1)
-        .submitRating(
-          deliveryId,
+    it("should check minimum reputation against an encrypted threshold", async () => {
+      await rate(user1, await completedDelivery(user1), user2.address, 5);
+      await rate(user3, await completedDelivery(user3), user2.address, 4);
+
+      const check = async (threshold: number) => {
+        const instance = await createInstance(trackerAddress, owner);
+        const encrypted = await instance
+          .createEncryptedInput(trackerAddress, owner.address)
+          .add32(threshold)
+          .encrypt();
+        const result = await handleFrom(
+          owner,
+          "meetsMinimumReputation",
           user2.address,
-          encryptedScore,
-          proof,
-          encryptedComment,
-          proof
+          encrypted.handles[0],
+          encrypted.inputProof
         );
+        return decryptEbool(result, trackerAddress, owner);
+      };
 
-      const meets = await reputationTracker.meetsMinimumReputation(
-        user2.address,
-        minimumScore,
-        proof
-      );
+      // An average of 4.5, scaled by REPUTATION_SCALE
+      expect(await check(45)).to.be.true;
+      expect(await check(46)).to.be.false;
+    });
 
-      // May or may not meet, depending on rating given
-      expect(typeof meets).to.equal("boolean");
+    it("should compare reputations without revealing averages", async () => {
+      const first = await completedDelivery(user1, user2);
+      await rate(user1, first, user2.address, 5);
+      await rate(user2, first, user1.address, 4);
+      await rate(user1, await completedDelivery(user1, user3), user3.address, 2);
+
+      const similar = async (a: string, b: string) =>
+        decryptEbool(
+          await handleFrom(owner, "haveSimilarReputation", a, b),
+          trackerAddress,
+          owner
+        );
+
+      expect(await similar(user2.address, user1.address)).to.be.true;
+      expect(await similar(user2.address, user3.address)).to.be.false;
     });
   });
 
   describe("❌ Failure Cases", () => {
     it("should reject rating with zero address", async () => {
-      const deliveryId = ethers.utils.toBeHex("delivery_1", 32);
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-
       await expect(
-        reputationTracker
-          .connect(user1)
-          .submitRating(
-            deliveryId,
-            ethers.constants.AddressZero,
-            encryptedScore,
-            proof,
-            encryptedScore,
-            proof
-          )
+        rate(user1, deliveryId("delivery_1"), ethers.ZeroAddress, 4)
       ).to.be.revertedWithCustomError(reputationTracker, "ZeroAddress");
     });
 
     it("should reject self-rating", async () => {
-      const deliveryId = ethers.utils.toBeHex("delivery_1", 32);
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
+      await expect(
+        rate(user1, deliveryId("delivery_1"), user1.address, 4)
+      ).to.be.revertedWithCustomError(reputationTracker, "InvalidInput");
+    });
+
+    it("should reject a second rating from the same side", async function () {
+      const id = await completedDelivery();
+      await rate(user1, id, user2.address, 4);
+
+      await expect(rate(user1, id, user2.address, 5))
+        .to.be.revertedWithCustomError(reputationTracker, "DuplicateRating")
+        .withArgs(id);
+
+      // The other side still gets its one rating
+      await expect(rate(user2, id, user1.address, 4)).to.emit(
+        reputationTracker,
+        "RatingSubmitted"
+      );
+    });
 
+    it("should reject ratings for an unknown delivery", async () => {
       await expect(
-        reputationTracker
-          .connect(user1)
-          .submitRating(
-            deliveryId,
-            user1.address,
-            encryptedScore,
-            proof,
-            encryptedScore,
-            proof
-          )
+        rate(user1, deliveryId("delivery_1"), user2.address, 4)
+      ).to.be.revertedWithCustomError(deliveryManager, "DeliveryNotFound");
+    });
+
+    it("should reject ratings before the delivery is completed", async function () {
+      const id = await acceptedDelivery(user1, user2);
+
+      await expect(
+        rate(user1, id, user2.address, 4)
+      ).to.be.revertedWithCustomError(reputationTracker, "InvalidDeliveryStatus");
+    });
+
+    it("should reject ratings for a cancelled delivery", async () => {
+      const id = await requestDelivery(deliveryManager, user1);
+      await deliveryManager.connect(user1).cancelDelivery(id);
+
+      await expect(
+        rate(user1, id, user2.address, 4)
+      ).to.be.revertedWithCustomError(reputationTracker, "InvalidDeliveryStatus");
+    });
+
+    it("should reject ratings from outside the delivery", async function () {
+      const id = await completedDelivery(user1, user2);
+
+      await expect(
+        rate(user3, id, user2.address, 1)
+      ).to.be.revertedWithCustomError(
+        reputationTracker,
+        "UnauthorizedRatingAccess"
+      );
+    });
+
+    it("should reject rating anyone but the counterparty", async function () {
+      const id = await completedDelivery(user1, user2);
+
+      await expect(
+        rate(user1, id, user3.address, 1)
       ).to.be.revertedWithCustomError(reputationTracker, "InvalidInput");
     });
 
-    it("should reject duplicate rating for same delivery", async () => {
-      const deliveryId = ethers.utils.toBeHex("delivery_1", 32);
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const encryptedComment = ethers.utils.toBeHex("comment_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
+    it("should only compare reputations for the platform contracts", async () => {
+      const tracker = reputationTracker.connect(user3);
 
-      // First rating
-      await reputationTracker
-        .connect(user1)
-        .submitRating(
-          deliveryId,
-          user2.address,
-          encryptedScore,
-          proof,
-          encryptedComment,
-          proof
-        );
+      await expect(
+        tracker.meetsMinimumReputation(user2.address, ethers.ZeroHash, "0x01")
+      ).to.be.revertedWithCustomError(tracker, "UnauthorizedRatingAccess");
+      await expect(
+        tracker.meetsReputationThreshold(user2.address, ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(tracker, "UnauthorizedRatingAccess");
+      await expect(
+        tracker.haveSimilarReputation(user1.address, user2.address)
+      ).to.be.revertedWithCustomError(tracker, "UnauthorizedRatingAccess");
+    });
 
-      // Attempt duplicate
+    it("should reject trade ratings when no trading contract is set", async () => {
       await expect(
         reputationTracker
-          .connect(user3)
-          .submitRating(
-            deliveryId,
-            user2.address,
-            encryptedScore,
-            proof,
-            encryptedComment,
-            proof
-          )
-      ).to.be.revertedWithCustomError(reputationTracker, "DuplicateRating");
+          .connect(user1)
+          .submitTradeRating(1, user2.address, ethers.ZeroHash, "0x01")
+      ).to.be.revertedWithCustomError(reputationTracker, "TradingNotConfigured");
     });
 
-    it("should reject rating with empty proof", async () => {
-      const deliveryId = ethers.utils.toBeHex("delivery_1", 32);
-      const emptyProof = "0x";
+    it("should require a DeliveryManager at deployment", async () => {
+      const ReputationTrackerFactory = await ethers.getContractFactory(
+        "ReputationTracker"
+      );
+      await expect(
+        ReputationTrackerFactory.deploy(ethers.ZeroAddress, ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(reputationTracker, "ZeroAddress");
+    });
 
+    it("should reject rating with empty proof", async () => {
       await expect(
         reputationTracker
           .connect(user1)
           .submitRating(
-            deliveryId,
+            deliveryId("delivery_1"),
             user2.address,
-            emptyProof,
-            emptyProof,
-            emptyProof,
-            emptyProof
+            ethers.ZeroHash,
+            "0x",
+            "0x",
+            "0x"
           )
       ).to.be.revertedWithCustomError(reputationTracker, "InvalidProof");
     });
 
     it("should reject invalid delivery ID", async () => {
-      const invalidDeliveryId = ethers.constants.HashZero;
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-
       await expect(
-        reputationTracker
-          .connect(user1)
-          .submitRating(
-            invalidDeliveryId,
-            user2.address,
-            encryptedScore,
-            proof,
-            encryptedScore,
-            proof
-          )
+        rate(user1, ethers.ZeroHash, user2.address, 4)
       ).to.be.revertedWithCustomError(reputationTracker, "InvalidInput");
     });
 
@@ -323,7 +353,7 @@ describe("ReputationTracker Contract", () => {
 
     it("should reject average rating for non-existent participant", async () => {
       await expect(
-        reputationTracker.getAverageRating(user1.address)
+        reputationTracker.connect(user1).getAverageRating(user1.address)
       ).to.be.revertedWithCustomError(
         reputationTracker,
         "ParticipantNotFound"
@@ -332,72 +362,273 @@ describe("ReputationTracker Contract", () => {
   });
 
   describe("📊 Rating Accuracy", () => {
-    it("should maintain correct rating count", async () => {
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const encryptedComment = ethers.utils.toBeHex("comment_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
 
+    it("should maintain correct rating count", async () => {
       for (let i = 0; i < 5; i++) {
-        const deliveryId = ethers.utils.toBeHex(`delivery_${i}`, 32);
-        await reputationTracker
-          .connect(user1)
-          .submitRating(
-            deliveryId,
-            user2.address,
-            encryptedScore,
-            proof,
-            encryptedComment,
-            proof
-          );
+        await rate(user1, await completedDelivery(), user2.address, 3);
       }
 
       const ratingCount = await reputationTracker.getRatingCount(user2.address);
       expect(ratingCount).to.equal(5);
     });
 
-    it("should clamp average rating to valid range", async () => {
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const encryptedComment = ethers.utils.toBeHex("comment_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
+    it("should clamp out-of-range scores homomorphically", async () => {
+      const lowId = await completedDelivery();
+      const highId = await completedDelivery();
+      await rate(user1, lowId, user2.address, 0);
+      await rate(user1, highId, user2.address, 200);
 
-      const deliveryId = ethers.utils.toBeHex("delivery_1", 32);
-      await reputationTracker
-        .connect(user1)
-        .submitRating(
-          deliveryId,
-          user2.address,
-          encryptedScore,
-          proof,
-          encryptedComment,
-          proof
-        );
+      const low = await reputationTracker.getEncryptedRating(
+        lowId,
+        user1.address
+      );
+      const high = await reputationTracker.getEncryptedRating(
+        highId,
+        user1.address
+      );
+      expect(await decryptEuint8(low, trackerAddress, user1)).to.equal(1n);
+      expect(await decryptEuint8(high, trackerAddress, user1)).to.equal(5n);
 
-      const average = await reputationTracker.getAverageRating(user2.address);
-      expect(average).to.be.gte(1);
-      expect(average).to.be.lte(5);
+      const total = await reputationTracker.getReputationScore(user2.address);
+      expect(await decryptEuint32(total, trackerAddress, user2)).to.equal(6n);
+    });
+
+    it("should match the off-chain weighted rating calculator", async () => {
+      const submitted = new Map<string, bigint>();
+      const rateAndRecord = async (
+        rater: any,
+        id: string,
+        participant: any,
+        score: number
+      ) => {
+        await rate(rater, id, participant.address, score);
+        submitted.set(`${id}:${rater.address}`, BigInt(score));
+      };
+
+      // user3 earns a 5 average before rating user2
+      const first = await completedDelivery(user1, user3);
+      await rateAndRecord(user1, first, user3, 5);
+      await rateAndRecord(user1, await completedDelivery(user1, user2), user2, 2);
+      await ethers.provider.send("evm_increaseTime", [Number(DECAY_HALF_LIFE)]);
+      await rateAndRecord(user3, await completedDelivery(user3, user2), user2, 5);
+
+      const latest = await ethers.provider.getBlock("latest");
+      const asOf = BigInt(latest!.timestamp) + 3600n;
+      const [weightedHandle, totalHandle] = await handleFrom(
+        user2,
+        "getWeightedRating",
+        user2.address,
+        asOf
+      );
+
+      const expected = await computeWeightedRating(
+        await fetchRatingEvents(reputationTracker),
+        async (rating: RatingEvent) =>
+          submitted.get(`${rating.subjectId}:${rating.rater}`)!,
+        user2.address,
+        asOf
+      );
+      expect(expected.ratingCount).to.equal(2);
+      expect(
+        await decryptEuint64(weightedHandle, trackerAddress, user2)
+      ).to.equal(expected.weightedScore);
+      expect(await decryptEuint64(totalHandle, trackerAddress, user2)).to.equal(
+        expected.totalWeight
+      );
+    });
+
+    it("should keep the weighted rating to the participant", async () => {
+      await rate(user1, await completedDelivery(), user2.address, 4);
+      const reputation = await reputationTracker.getReputation(user2.address);
+
+      await expect(
+        reputationTracker
+          .connect(user1)
+          .getWeightedRating(user2.address, reputation.lastUpdated)
+      ).to.be.revertedWithCustomError(
+        reputationTracker,
+        "UnauthorizedRatingAccess"
+      );
+      await expect(
+        reputationTracker
+          .connect(user2)
+          .getWeightedRating(user2.address, reputation.lastUpdated - 1n)
+      ).to.be.revertedWithCustomError(reputationTracker, "InvalidInput");
     });
   });
 
   describe("🔒 Encryption Privacy", () => {
+
     it("should store encrypted ratings", async () => {
-      const deliveryId = ethers.utils.toBeHex("delivery_1", 32);
-      const encryptedScore = ethers.utils.toBeHex("score_data", 32);
-      const encryptedComment = ethers.utils.toBeHex("comment_data", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-
-      await reputationTracker
-        .connect(user1)
-        .submitRating(
-          deliveryId,
-          user2.address,
-          encryptedScore,
-          proof,
-          encryptedComment,
-          proof
+      const id = await completedDelivery();
+      await rate(user1, id, user2.address, 2);
+
+      const encrypted = await reputationTracker.getEncryptedRating(
+        id,
+        user1.address
+      );
+      expect(encrypted).to.not.equal(ethers.ZeroHash);
+      expect(await decryptEuint8(encrypted, trackerAddress, user1)).to.equal(2n);
+    });
+
+    it("should not expose any plaintext score", async () => {
+      const id = await completedDelivery();
+      const receipt = await (await rate(user1, id, user2.address, 2)).wait();
+
+      // The event carries no score
+      const [event] = await reputationTracker.queryFilter(
+        reputationTracker.filters.RatingSubmitted(),
+        receipt.blockNumber
+      );
+      expect(event.args.toObject()).to.have.all.keys(
+        "deliveryId",
+        "ratedParticipant",
+        "rater",
+        "timestamp"
+      );
+
+      // Views return ciphertext handles, not the score
+      const rating = await reputationTracker.getRating(id, user1.address);
+      expect(rating.toObject()).to.not.have.property("score");
+      expect(rating.encryptedScore).to.not.equal(2n);
+
+      const reputation = await reputationTracker.getReputation(user2.address);
+      expect(reputation.toObject()).to.not.have.property("totalRating");
+    });
+
+    it("should keep individual scores and averages from other parties", async () => {
+      const id = await completedDelivery();
+      await rate(user1, id, user2.address, 2);
+
+      const encrypted = await reputationTracker.getEncryptedRating(
+        id,
+        user1.address
+      );
+      let participantCanDecrypt = true;
+      try {
+        await decryptEuint8(encrypted, trackerAddress, user2);
+      } catch {
+        participantCanDecrypt = false;
+      }
+      expect(participantCanDecrypt).to.be.false;
+
+      await expect(
+        reputationTracker.connect(user3).getAverageRating(user2.address)
+      ).to.be.revertedWithCustomError(
+        reputationTracker,
+        "UnauthorizedRatingAccess"
+      );
+    });
+  });
+
+  describe("🤝 Trade Ratings", () => {
+    let trading: any;
+    let supplier: any;
+    let buyer: any;
+    let outsider: any;
+
+    // List -> order -> match -> confirm, returning a COMPLETED order ID
+    async function completedTrade(complete = true): Promise<bigint> {
+      const materialId = await trading.nextMaterialId();
+      await trading
+        .connect(supplier)
+        .listMaterial("Copper Cathode", 0, 1000, 9000n, 100, "Grade A", 10);
+
+      const orderId = await trading.nextOrderId();
+      await trading
+        .connect(buyer)
+        .placeOrder(materialId, 500, 9500n, "Rotterdam", ethers.ZeroHash);
+
+      await trading.connect(supplier).matchTrade(orderId);
+      await awaitDecryptionOracle();
+      if (complete) {
+        await trading.connect(buyer).confirmTrade(orderId);
+      }
+      return orderId;
+    }
+
+    async function rateTrade(
+      rater: any,
+      orderId: bigint,
+      participant: string,
+      score: number
+    ) {
+      const instance = await createInstance(trackerAddress, rater);
+      const encrypted = await instance
+        .createEncryptedInput(trackerAddress, rater.address)
+        .add8(score)
+        .encrypt();
+
+      return reputationTracker
+        .connect(rater)
+        .submitTradeRating(
+          orderId,
+          participant,
+          encrypted.handles[0],
+          encrypted.inputProof
         );
+    }
+
+
+    beforeEach(async () => {
+      [, supplier, buyer, outsider] = await ethers.getSigners();
 
-      const encrypted = await reputationTracker.getEncryptedRating(deliveryId);
-      expect(encrypted).to.equal(encryptedScore);
+      const TradingFactory = await ethers.getContractFactory(
+        "ConfidentialRawMaterialsTrading"
+      );
+      trading = await TradingFactory.deploy();
+      await trading.waitForDeployment();
+      await trading.verifySupplier(supplier.address);
+      await trading.verifyBuyer(buyer.address);
+
+      const ReputationTrackerFactory = await ethers.getContractFactory(
+        "ReputationTracker"
+      );
+      reputationTracker = await ReputationTrackerFactory.deploy(
+        await deliveryManager.getAddress(),
+        await trading.getAddress()
+      );
+      await reputationTracker.waitForDeployment();
+      trackerAddress = await reputationTracker.getAddress();
+    });
+
+    it("should let buyer and supplier rate each other once", async () => {
+      const orderId = await completedTrade();
+      const ratingId = await reputationTracker.tradeRatingId(orderId);
+
+      await expect(rateTrade(buyer, orderId, supplier.address, 5))
+        .to.emit(reputationTracker, "RatingSubmitted")
+        .withArgs(ratingId, supplier.address, buyer.address, anyValue);
+      await rateTrade(supplier, orderId, buyer.address, 4);
+
+      await expect(
+        rateTrade(buyer, orderId, supplier.address, 1)
+      ).to.be.revertedWithCustomError(reputationTracker, "DuplicateRating");
+
+      const score = await reputationTracker.getEncryptedRating(
+        ratingId,
+        buyer.address
+      );
+      expect(await decryptEuint8(score, trackerAddress, buyer)).to.equal(5n);
+    });
+
+    it("should reject ratings before the trade is completed", async () => {
+      const orderId = await completedTrade(false);
+
+      await expect(rateTrade(buyer, orderId, supplier.address, 5))
+        .to.be.revertedWithCustomError(reputationTracker, "TradeNotCompleted")
+        .withArgs(orderId);
+    });
+
+    it("should reject ratings from outside the trade", async () => {
+      const orderId = await completedTrade();
+
+      await expect(
+        rateTrade(outsider, orderId, supplier.address, 1)
+      ).to.be.revertedWithCustomError(
+        reputationTracker,
+        "UnauthorizedRatingAccess"
+      );
     });
   });
 });
@@ -1,9 +1,157 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { BlindAuction, BlindAuction__factory } from "../../typechain-types";
+import { createInstance } from "../utils/instance";
+import { awaitDecryptionOracle } from "../utils/decrypt";
 
 describe("BlindAuction", function () {
-  it("Should demonstrate sealed-bid auction with encrypted bids", async function () {
-    // Test framework placeholder
-    expect(true).to.equal(true);
+  let auction: BlindAuction;
+  let auctionAddress: string;
+  let auctioneer: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+
+  const DURATION = 3600;
+  const DEPOSIT = ethers.parseEther("1");
+
+  async function bid(bidder: HardhatEthersSigner, amount: number) {
+    const instance = await createInstance(auctionAddress, bidder);
+    const encrypted = await instance
+      .createEncryptedInput(auctionAddress, bidder.address)
+      .add32(amount)
+      .encrypt();
+    return auction
+      .connect(bidder)
+      .placeBid(encrypted.handles[0], encrypted.inputProof, { value: DEPOSIT });
+  }
+
+  async function endAuction() {
+    await ethers.provider.send("evm_increaseTime", [DURATION]);
+    await ethers.provider.send("evm_mine", []);
+    return auction.connect(auctioneer).endAuction();
+  }
+
+  beforeEach(async function () {
+    [auctioneer, alice, bob, carol] = await ethers.getSigners();
+
+    auction = await new BlindAuction__factory(auctioneer).deploy(
+      "Copper cathode lot",
+      DURATION,
+      DEPOSIT
+    );
+    await auction.waitForDeployment();
+    auctionAddress = await auction.getAddress();
+  });
+
+  describe("Bidding", function () {
+    it("Should accept an encrypted bid with the deposit", async function () {
+      await expect(bid(alice, 100))
+        .to.emit(auction, "BidPlaced")
+        .withArgs(alice.address);
+      expect(await auction.getBidCount()).to.equal(1n);
+      expect(await auction.deposits(alice.address)).to.equal(DEPOSIT);
+    });
+
+    it("Should reject a bid without the exact deposit", async function () {
+      const instance = await createInstance(auctionAddress, alice);
+      const encrypted = await instance
+        .createEncryptedInput(auctionAddress, alice.address)
+        .add32(100)
+        .encrypt();
+
+      await expect(
+        auction
+          .connect(alice)
+          .placeBid(encrypted.handles[0], encrypted.inputProof, {
+            value: DEPOSIT - 1n,
+          })
+      ).to.be.revertedWith("Incorrect deposit");
+    });
+
+    it("Should reject a second bid from the same bidder", async function () {
+      await bid(alice, 100);
+      await expect(bid(alice, 200)).to.be.revertedWith("Already placed a bid");
+    });
+  });
+
+  describe("Ending", function () {
+    it("Should only let the auctioneer end after the end time", async function () {
+      await expect(
+        auction.connect(auctioneer).endAuction()
+      ).to.be.revertedWith("Auction not yet ended");
+
+      await ethers.provider.send("evm_increaseTime", [DURATION]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(auction.connect(alice).endAuction()).to.be.revertedWith(
+        "Only auctioneer can end"
+      );
+    });
+
+    it("Should end immediately with no winner when nobody bid", async function () {
+      await expect(endAuction())
+        .to.emit(auction, "AuctionEnded")
+        .withArgs(ethers.ZeroAddress);
+      expect(await auction.winnerRevealed()).to.be.true;
+    });
+
+    it("Should block withdrawals until the winner is revealed", async function () {
+      await bid(alice, 100);
+      await expect(
+        auction.connect(alice).withdrawDeposit()
+      ).to.be.revertedWith("Winner not revealed");
+    });
+  });
+
+  describe("Winner Reveal", function () {
+
+    it("Should reveal the highest bid and bidder through the oracle", async function () {
+      await bid(alice, 100);
+      await bid(bob, 250);
+      await bid(carol, 175);
+
+      await expect(endAuction()).to.emit(auction, "WinnerRevealRequested");
+      expect(await auction.highestBidder()).to.equal(ethers.ZeroAddress);
+
+      await awaitDecryptionOracle();
+
+      expect(await auction.winnerRevealed()).to.be.true;
+      expect(await auction.highestBidder()).to.equal(bob.address);
+      expect(await auction.winningBid()).to.equal(250n);
+    });
+
+    it("Should keep the earliest bid on a tie", async function () {
+      await bid(alice, 300);
+      await bid(bob, 300);
+      await endAuction();
+      await awaitDecryptionOracle();
+
+      expect(await auction.highestBidder()).to.equal(alice.address);
+    });
+
+    it("Should let losers withdraw and the auctioneer claim the winner's deposit", async function () {
+      await bid(alice, 100);
+      await bid(bob, 250);
+      await endAuction();
+      await awaitDecryptionOracle();
+
+      await expect(
+        auction.connect(alice).withdrawDeposit()
+      ).to.changeEtherBalances([alice, auction], [DEPOSIT, -DEPOSIT]);
+      await expect(
+        auction.connect(alice).withdrawDeposit()
+      ).to.be.revertedWith("Nothing to withdraw");
+      await expect(
+        auction.connect(bob).withdrawDeposit()
+      ).to.be.revertedWith("Winner cannot withdraw");
+
+      await expect(
+        auction.connect(auctioneer).claimProceeds()
+      ).to.changeEtherBalances([auctioneer, auction], [DEPOSIT, -DEPOSIT]);
+      await expect(
+        auction.connect(auctioneer).claimProceeds()
+      ).to.be.revertedWith("Proceeds already claimed");
+    });
   });
 });
@@ -0,0 +1,184 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ReverseBlindAuction,
+  ReverseBlindAuction__factory,
+} from "../../typechain-types";
+import { createInstance } from "../utils/instance";
+import {
+  awaitDecryptionOracle,
+  decryptEuint32,
+  decryptEuint64,
+} from "../utils/decrypt";
+
+describe("ReverseBlindAuction", function () {
+  let auction: ReverseBlindAuction;
+  let auctionAddress: string;
+  let buyer: HardhatEthersSigner;
+  let supplier1: HardhatEthersSigner;
+  let supplier2: HardhatEthersSigner;
+  let supplier3: HardhatEthersSigner;
+
+  const LOT_QUANTITY = 5000;
+  const METALS = 0;
+  const DURATION = 3600;
+  const RESERVE = 50000n;
+
+  async function encrypt64(signer: HardhatEthersSigner, value: bigint) {
+    const instance = await createInstance(auctionAddress, signer);
+    return instance
+      .createEncryptedInput(auctionAddress, signer.address)
+      .add64(value)
+      .encrypt();
+  }
+
+  async function setReserve(value: bigint) {
+    const encrypted = await encrypt64(buyer, value);
+    return auction
+      .connect(buyer)
+      .setReservePrice(encrypted.handles[0], encrypted.inputProof);
+  }
+
+  async function bid(supplier: HardhatEthersSigner, price: bigint) {
+    const encrypted = await encrypt64(supplier, price);
+    return auction
+      .connect(supplier)
+      .placeBid(encrypted.handles[0], encrypted.inputProof);
+  }
+
+  async function endAuction() {
+    await ethers.provider.send("evm_increaseTime", [DURATION]);
+    await ethers.provider.send("evm_mine", []);
+    return auction.connect(buyer).endAuction();
+  }
+
+  beforeEach(async function () {
+    [buyer, supplier1, supplier2, supplier3] = await ethers.getSigners();
+
+    auction = await new ReverseBlindAuction__factory(buyer).deploy(
+      LOT_QUANTITY,
+      METALS,
+      DURATION
+    );
+    await auction.waitForDeployment();
+    auctionAddress = await auction.getAddress();
+  });
+
+  describe("Setup", function () {
+    it("Should record the lot parameters", async function () {
+      expect(await auction.auctioneer()).to.equal(buyer.address);
+      expect(await auction.lotQuantity()).to.equal(BigInt(LOT_QUANTITY));
+      expect(await auction.category()).to.equal(METALS);
+      expect(await auction.isActive()).to.be.false;
+    });
+
+    it("Should let only the auctioneer set the reserve, once", async function () {
+      const encrypted = await encrypt64(supplier1, RESERVE);
+      await expect(
+        auction
+          .connect(supplier1)
+          .setReservePrice(encrypted.handles[0], encrypted.inputProof)
+      ).to.be.revertedWith("Only auctioneer can set reserve");
+
+      await expect(setReserve(RESERVE)).to.emit(auction, "ReservePriceSet");
+      expect(await auction.isActive()).to.be.true;
+      await expect(setReserve(RESERVE)).to.be.revertedWith(
+        "Reserve already set"
+      );
+    });
+
+    it("Should reject bids before the reserve is set", async function () {
+      await expect(bid(supplier1, 40000n)).to.be.revertedWith(
+        "Reserve not set"
+      );
+    });
+  });
+
+  describe("Bidding", function () {
+    beforeEach(async function () {
+      await setReserve(RESERVE);
+    });
+
+    it("Should accept one sealed bid per supplier", async function () {
+      await expect(bid(supplier1, 48000n))
+        .to.emit(auction, "BidPlaced")
+        .withArgs(supplier1.address);
+      await expect(bid(supplier1, 47000n)).to.be.revertedWith(
+        "Already placed a bid"
+      );
+      expect(await auction.getBidCount()).to.equal(1n);
+    });
+
+    it("Should not let the auctioneer bid", async function () {
+      await expect(bid(buyer, 1n)).to.be.revertedWith("Auctioneer cannot bid");
+    });
+
+    it("Should reject bids after the end time", async function () {
+      await ethers.provider.send("evm_increaseTime", [DURATION]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(bid(supplier1, 48000n)).to.be.revertedWith(
+        "Auction has ended"
+      );
+    });
+  });
+
+  describe("Settlement", function () {
+
+    beforeEach(async function () {
+      await setReserve(RESERVE);
+    });
+
+    it("Should award the lot to the lowest bid within the reserve", async function () {
+      await bid(supplier1, 51000n); // Above reserve
+      await bid(supplier2, 47250n);
+      await bid(supplier3, 49900n);
+
+      await expect(endAuction()).to.emit(auction, "SettlementRequested");
+      await awaitDecryptionOracle();
+
+      const settlement = await auction.settlement();
+      expect(settlement.buyer).to.equal(buyer.address);
+      expect(settlement.supplier).to.equal(supplier2.address);
+      expect(settlement.category).to.equal(METALS);
+      expect(settlement.isConfirmed).to.be.false;
+
+      expect(
+        await decryptEuint64(settlement.encryptedPrice, auctionAddress, buyer)
+      ).to.equal(47250n);
+      expect(
+        await decryptEuint32(
+          settlement.encryptedQuantity,
+          auctionAddress,
+          supplier2
+        )
+      ).to.equal(BigInt(LOT_QUANTITY));
+    });
+
+    it("Should not award the lot when every bid exceeds the reserve", async function () {
+      await bid(supplier1, 51000n);
+      await bid(supplier2, 60000n);
+
+      await endAuction();
+      await awaitDecryptionOracle();
+
+      expect(await auction.settled()).to.be.true;
+      expect((await auction.settlement()).supplier).to.equal(
+        ethers.ZeroAddress
+      );
+    });
+
+    it("Should let the parties confirm the settlement", async function () {
+      await bid(supplier1, 45000n);
+      await endAuction();
+      await awaitDecryptionOracle();
+
+      await expect(auction.connect(supplier2).confirmSettlement())
+        .to.be.revertedWith("Not authorized");
+      await expect(auction.connect(supplier1).confirmSettlement())
+        .to.emit(auction, "SettlementConfirmed")
+        .withArgs(supplier1.address);
+      expect((await auction.settlement()).isConfirmed).to.be.true;
+    });
+  });
+});
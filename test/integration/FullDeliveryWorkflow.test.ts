@@ -1,36 +1,95 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  DeliveryManager,
+  DeliveryManager__factory,
+  PaymentProcessor,
+  PaymentProcessor__factory,
+  ReputationTracker,
+  ReputationTracker__factory,
+} from "../../typechain-types";
+import { encodeLocation } from "../../sdk";
+import { createInstance } from "../utils/instance";
+import { decryptEuint8, decryptEuint64 } from "../utils/decrypt";
+import {
+  acceptDelivery,
+  completeDelivery,
+  PICKUP,
+  requestDelivery,
+} from "../utils/delivery";
 
 describe("Integration: Complete Delivery Workflow", () => {
-  let deliveryManager: any;
-  let paymentProcessor: any;
-  let reputationTracker: any;
-
-  let sender: any;
-  let courier: any;
-  let recipient: any;
+  let deliveryManager: DeliveryManager;
+  let paymentProcessor: PaymentProcessor;
+  let reputationTracker: ReputationTracker;
+  let managerAddress: string;
+  let trackerAddress: string;
+
+  let sender: HardhatEthersSigner;
+  let courier: HardhatEthersSigner;
+  let recipient: HardhatEthersSigner;
+
+  // Sender requests a delivery to the recipient, returning its ID
+  async function requestForRecipient(): Promise<string> {
+    return requestDelivery(deliveryManager, sender, PICKUP, recipient.address);
+  }
+
+  async function createPayment(
+    deliveryId: string,
+    value: bigint
+  ): Promise<string> {
+    await paymentProcessor
+      .connect(sender)
+      .createPayment(deliveryId, "0x1234", "0x5678", courier.address, {
+        value,
+      });
+    const ids = await paymentProcessor.getUserPayments(sender.address);
+    return ids[ids.length - 1];
+  }
+
+  // Submits an encrypted score from rater for participant
+  async function rate(
+    rater: HardhatEthersSigner,
+    deliveryId: string,
+    participant: string,
+    score: number
+  ) {
+    const instance = await createInstance(trackerAddress, rater);
+    const encrypted = await instance
+      .createEncryptedInput(trackerAddress, rater.address)
+      .add8(score)
+      .encrypt();
+
+    return reputationTracker
+      .connect(rater)
+      .submitRating(
+        deliveryId,
+        participant,
+        encrypted.handles[0],
+        encrypted.inputProof,
+        "0x",
+        "0x"
+      );
+  }
 
   beforeEach(async () => {
     [sender, courier, recipient] = await ethers.getSigners();
 
     // Deploy all contracts
-    const DeliveryManagerFactory = await ethers.getContractFactory(
-      "DeliveryManager"
-    );
-    deliveryManager = await DeliveryManagerFactory.deploy();
-    await deliveryManager.deployed();
+    deliveryManager = await new DeliveryManager__factory(sender).deploy();
+    await deliveryManager.waitForDeployment();
+    managerAddress = await deliveryManager.getAddress();
 
-    const PaymentProcessorFactory = await ethers.getContractFactory(
-      "PaymentProcessor"
-    );
-    paymentProcessor = await PaymentProcessorFactory.deploy();
-    await paymentProcessor.deployed();
+    paymentProcessor = await new PaymentProcessor__factory(sender).deploy();
+    await paymentProcessor.waitForDeployment();
 
-    const ReputationTrackerFactory = await ethers.getContractFactory(
-      "ReputationTracker"
+    reputationTracker = await new ReputationTracker__factory(sender).deploy(
+      managerAddress,
+      ethers.ZeroAddress
     );
-    reputationTracker = await ReputationTrackerFactory.deploy();
-    await reputationTracker.deployed();
+    await reputationTracker.waitForDeployment();
+    trackerAddress = await reputationTracker.getAddress();
   });
 
   describe("📦 Complete Delivery Lifecycle", () => {
@@ -38,26 +97,7 @@ describe("Integration: Complete Delivery Workflow", () => {
       // ═══════════════════════════════════════════════════════════════════
       // Step 1: Sender creates delivery request with encrypted data
       // ═══════════════════════════════════════════════════════════════════
-      const encryptedRecipient = ethers.utils.toBeHex("recipient_addr", 32);
-      const encryptedPickup = ethers.utils.toBeHex("pickup_location", 32);
-      const encryptedDelivery = ethers.utils.toBeHex("delivery_location", 32);
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-
-      const createDeliveryTx = await deliveryManager
-        .connect(sender)
-        .createDeliveryRequest(
-          encryptedRecipient,
-          proof,
-          encryptedPickup,
-          proof,
-          encryptedDelivery,
-          proof
-        );
-
-      const createReceipt = await createDeliveryTx.wait();
-      const deliveryId = createReceipt.events.find(
-        (e: any) => e.event === "DeliveryRequested"
-      ).args.requestId;
+      const deliveryId = await requestForRecipient();
 
       // Verify delivery created
       let status = await deliveryManager.getDeliveryStatus(deliveryId);
@@ -66,21 +106,11 @@ describe("Integration: Complete Delivery Workflow", () => {
       // ═══════════════════════════════════════════════════════════════════
       // Step 2: Courier accepts delivery based on location
       // ═══════════════════════════════════════════════════════════════════
-      const encryptedCourierLocation = ethers.utils.toBeHex(
-        "courier_location",
-        32
-      );
-
-      const acceptTx = await deliveryManager
-        .connect(courier)
-        .acceptDelivery(deliveryId, encryptedCourierLocation, proof);
-
-      const acceptReceipt = await acceptTx.wait();
+      await acceptDelivery(deliveryManager, courier, deliveryId);
 
       // Verify delivery accepted
-      expect(
-        acceptReceipt.events.some((e: any) => e.event === "DeliveryAccepted")
-      ).to.be.true;
+      const delivery = await deliveryManager.getDelivery(deliveryId);
+      expect(delivery.assignedCourier).to.equal(courier.address);
 
       status = await deliveryManager.getDeliveryStatus(deliveryId);
       expect(status).to.equal(1); // ACCEPTED
@@ -88,19 +118,8 @@ describe("Integration: Complete Delivery Workflow", () => {
       // ═══════════════════════════════════════════════════════════════════
       // Step 3: Sender creates payment for delivery
       // ═══════════════════════════════════════════════════════════════════
-      const encryptedAmount = ethers.utils.toBeHex("amount_data", 32);
       const paymentAmount = ethers.parseEther("0.1");
-
-      const createPaymentTx = await paymentProcessor
-        .connect(sender)
-        .createPayment(deliveryId, encryptedAmount, proof, courier.address, {
-          value: paymentAmount,
-        });
-
-      const paymentReceipt = await createPaymentTx.wait();
-      const paymentId = paymentReceipt.events.find(
-        (e: any) => e.event === "PaymentCreated"
-      ).args.paymentId;
+      const paymentId = await createPayment(deliveryId, paymentAmount);
 
       // Verify payment created
       let paymentStatus = await paymentProcessor.getPaymentStatus(paymentId);
@@ -115,18 +134,11 @@ describe("Integration: Complete Delivery Workflow", () => {
       expect(paymentStatus).to.equal(1); // ESCROW
 
       // ═══════════════════════════════════════════════════════════════════
-      // Step 5: Courier completes delivery
+      // Step 5: Courier proves delivery and the recipient confirms
       // ═══════════════════════════════════════════════════════════════════
-      const completeTx = await deliveryManager
-        .connect(courier)
-        .completeDelivery(deliveryId);
-
-      const completeReceipt = await completeTx.wait();
-
-      // Verify delivery completed
-      expect(
-        completeReceipt.events.some((e: any) => e.event === "DeliveryCompleted")
-      ).to.be.true;
+      await expect(
+        completeDelivery(deliveryManager, courier, recipient, deliveryId)
+      ).to.emit(deliveryManager, "DeliveryCompleted");
 
       status = await deliveryManager.getDeliveryStatus(deliveryId);
       expect(status).to.equal(3); // COMPLETED
@@ -134,18 +146,11 @@ describe("Integration: Complete Delivery Workflow", () => {
       // ═══════════════════════════════════════════════════════════════════
       // Step 6: Release payment from escrow to courier
       // ═══════════════════════════════════════════════════════════════════
-      const courierBalanceBefore = await ethers.provider.getBalance(
-        courier.address
-      );
-
-      await paymentProcessor.connect(sender).completePayment(paymentId);
-
-      const courierBalanceAfter = await ethers.provider.getBalance(
-        courier.address
-      );
-
-      // Courier should have received payment (minus platform fee)
-      expect(courierBalanceAfter).to.be.gt(courierBalanceBefore);
+      // Courier receives the payment minus the platform fee
+      const fee = (paymentAmount * 2n) / 100n;
+      await expect(
+        paymentProcessor.connect(sender).completePayment(paymentId)
+      ).to.changeEtherBalance(courier, paymentAmount - fee);
 
       paymentStatus = await paymentProcessor.getPaymentStatus(paymentId);
       expect(paymentStatus).to.equal(2); // COMPLETED
@@ -153,41 +158,14 @@ describe("Integration: Complete Delivery Workflow", () => {
       // ═══════════════════════════════════════════════════════════════════
       // Step 7: Both parties rate each other
       // ═══════════════════════════════════════════════════════════════════
-      const encryptedRating = ethers.utils.toBeHex("rating_data", 32);
-
-      // Sender rates courier
-      const senderRatesTx = await reputationTracker
-        .connect(sender)
-        .submitRating(
-          deliveryId,
-          courier.address,
-          encryptedRating,
-          proof,
-          encryptedRating,
-          proof
-        );
-
-      const senderRatesReceipt = await senderRatesTx.wait();
-      expect(
-        senderRatesReceipt.events.some((e: any) => e.event === "RatingSubmitted")
-      ).to.be.true;
-
-      // Courier rates sender
-      const courierRatesTx = await reputationTracker
-        .connect(courier)
-        .submitRating(
-          deliveryId,
-          sender.address,
-          encryptedRating,
-          proof,
-          encryptedRating,
-          proof
-        );
-
-      const courierRatesReceipt = await courierRatesTx.wait();
-      expect(
-        courierRatesReceipt.events.some((e: any) => e.event === "RatingSubmitted")
-      ).to.be.true;
+      await expect(rate(sender, deliveryId, courier.address, 5)).to.emit(
+        reputationTracker,
+        "RatingSubmitted"
+      );
+      await expect(rate(courier, deliveryId, sender.address, 4)).to.emit(
+        reputationTracker,
+        "RatingSubmitted"
+      );
 
       // ═══════════════════════════════════════════════════════════════════
       // Step 8: Verify final state
@@ -217,201 +195,117 @@ describe("Integration: Complete Delivery Workflow", () => {
 
   describe("🔄 Multiple Concurrent Deliveries", () => {
     it("should handle multiple deliveries simultaneously", async () => {
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-      const encryptedData = ethers.utils.toBeHex("data", 32);
-
       // Create 3 deliveries
       const deliveryIds: string[] = [];
-
       for (let i = 0; i < 3; i++) {
-        const tx = await deliveryManager
-          .connect(sender)
-          .createDeliveryRequest(
-            encryptedData,
-            proof,
-            encryptedData,
-            proof,
-            encryptedData,
-            proof
-          );
-
-        const receipt = await tx.wait();
-        const deliveryId = receipt.events.find(
-          (e: any) => e.event === "DeliveryRequested"
-        ).args.requestId;
-
-        deliveryIds.push(deliveryId);
+        deliveryIds.push(await requestForRecipient());
       }
 
       // Accept all deliveries
       for (const deliveryId of deliveryIds) {
-        await deliveryManager
-          .connect(courier)
-          .acceptDelivery(deliveryId, encryptedData, proof);
+        await acceptDelivery(deliveryManager, courier, deliveryId);
       }
 
       // Verify all accepted
       const totalDeliveries = await deliveryManager.getDeliveryCount();
       expect(totalDeliveries).to.equal(3);
 
-      const courierDeliveries =
-        await deliveryManager.getUserDeliveries(courier.address);
+      const courierDeliveries = await deliveryManager.getUserDeliveries(
+        courier.address
+      );
       expect(courierDeliveries.length).to.equal(3);
     });
   });
 
   describe("🔒 Privacy Maintenance", () => {
     it("should not expose encrypted data to unauthorized parties", async () => {
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-      const encryptedData = ethers.utils.toBeHex("data", 32);
-
       // Sender creates delivery
-      const tx = await deliveryManager
-        .connect(sender)
-        .createDeliveryRequest(
-          encryptedData,
-          proof,
-          encryptedData,
-          proof,
-          encryptedData,
-          proof
-        );
-
-      const receipt = await tx.wait();
-      const deliveryId = receipt.events.find(
-        (e: any) => e.event === "DeliveryRequested"
-      ).args.requestId;
-
-      // Recipient should not be able to access location before courier accepts
-      await expect(
-        deliveryManager
-          .connect(recipient)
-          .getEncryptedPickupLocation(deliveryId)
-      ).to.be.reverted;
+      const deliveryId = await requestForRecipient();
+
+      // Neither courier nor recipient can access location before acceptance
+      for (const party of [courier, recipient]) {
+        await expect(
+          deliveryManager.connect(party).getEncryptedPickupLocation(deliveryId)
+        ).to.be.revertedWithCustomError(deliveryManager, "UnauthorizedAccess");
+      }
 
       // Courier accepts
-      await deliveryManager
-        .connect(courier)
-        .acceptDelivery(deliveryId, encryptedData, proof);
+      await acceptDelivery(deliveryManager, courier, deliveryId);
 
-      // Now courier can access location
+      // Now courier can access and decrypt location
       const location = await deliveryManager
         .connect(courier)
         .getEncryptedPickupLocation(deliveryId);
-
-      expect(location).to.equal(encryptedData);
+      expect(await decryptEuint64(location, managerAddress, courier)).to.equal(
+        encodeLocation(PICKUP)
+      );
 
       // But recipient still cannot
       await expect(
         deliveryManager
           .connect(recipient)
           .getEncryptedPickupLocation(deliveryId)
-      ).to.be.reverted;
+      ).to.be.revertedWithCustomError(deliveryManager, "UnauthorizedAccess");
     });
   });
 
   describe("💰 Payment and Fees", () => {
     it("should calculate and distribute platform fees correctly", async () => {
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-      const encryptedData = ethers.utils.toBeHex("data", 32);
       const paymentAmount = ethers.parseEther("1.0");
 
       // Create and accept delivery
-      const createTx = await deliveryManager
-        .connect(sender)
-        .createDeliveryRequest(
-          encryptedData,
-          proof,
-          encryptedData,
-          proof,
-          encryptedData,
-          proof
-        );
-
-      const createReceipt = await createTx.wait();
-      const deliveryId = createReceipt.events.find(
-        (e: any) => e.event === "DeliveryRequested"
-      ).args.requestId;
-
-      await deliveryManager
-        .connect(courier)
-        .acceptDelivery(deliveryId, encryptedData, proof);
+      const deliveryId = await requestForRecipient();
+      await acceptDelivery(deliveryManager, courier, deliveryId);
 
       // Create payment
-      const paymentTx = await paymentProcessor
-        .connect(sender)
-        .createPayment(deliveryId, encryptedData, proof, courier.address, {
-          value: paymentAmount,
-        });
-
-      const paymentReceipt = await paymentTx.wait();
-      const paymentId = paymentReceipt.events.find(
-        (e: any) => e.event === "PaymentCreated"
-      ).args.paymentId;
-
+      const paymentId = await createPayment(deliveryId, paymentAmount);
       const payment = await paymentProcessor.getPayment(paymentId);
 
       // Fee should be 2% of payment amount
-      const expectedFee = paymentAmount.div(50); // 2%
+      const expectedFee = paymentAmount / 50n; // 2%
       expect(payment.fee).to.equal(expectedFee);
 
       // Courier amount should be payment - fee
-      const expectedCourierAmount = paymentAmount.sub(expectedFee);
-      expect(payment.amount.sub(payment.fee)).to.equal(expectedCourierAmount);
+      const expectedCourierAmount = paymentAmount - expectedFee;
+      expect(payment.amount - payment.fee).to.equal(expectedCourierAmount);
     });
   });
 
   describe("⭐ Reputation System", () => {
     it("should build reputation over multiple deliveries", async () => {
-      const proof = ethers.utils.toBeHex("proof_data", 32);
-      const encryptedData = ethers.utils.toBeHex("data", 32);
+      const scores = [5, 4, 3];
 
       // Perform 3 deliveries
-      for (let i = 0; i < 3; i++) {
-        // Create delivery
-        const createTx = await deliveryManager
-          .connect(sender)
-          .createDeliveryRequest(
-            encryptedData,
-            proof,
-            encryptedData,
-            proof,
-            encryptedData,
-            proof
-          );
-
-        const createReceipt = await createTx.wait();
-        const deliveryId = createReceipt.events.find(
-          (e: any) => e.event === "DeliveryRequested"
-        ).args.requestId;
-
-        // Accept and complete
-        await deliveryManager
-          .connect(courier)
-          .acceptDelivery(deliveryId, encryptedData, proof);
-        await deliveryManager
-          .connect(courier)
-          .completeDelivery(deliveryId);
+      for (const score of scores) {
+        // Create, accept and complete
+        const deliveryId = await requestForRecipient();
+        await acceptDelivery(deliveryManager, courier, deliveryId);
+        await (
+          await completeDelivery(
+            deliveryManager,
+            courier,
+            recipient,
+            deliveryId
+          )
+        ).wait();
 
         // Rate
-        await reputationTracker
-          .connect(sender)
-          .submitRating(
-            deliveryId,
-            courier.address,
-            encryptedData,
-            proof,
-            encryptedData,
-            proof
-          );
+        await (await rate(sender, deliveryId, courier.address, score)).wait();
       }
 
       // Check final reputation
       const reputation = await reputationTracker.getReputation(courier.address);
       expect(reputation.ratingCount).to.equal(3);
 
-      const average = await reputationTracker.getAverageRating(courier.address);
-      expect(average).to.be.gt(0);
+      // Only the courier may compute their average
+      const tracker = reputationTracker.connect(courier);
+      const average = await tracker.getAverageRating.staticCall(
+        courier.address
+      );
+      await (await tracker.getAverageRating(courier.address)).wait();
+      expect(await decryptEuint8(average, trackerAddress, courier)).to.equal(
+        4n
+      );
     });
   });
 });
@@ -0,0 +1,273 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import {
+  ConfidentialRawMaterialsTrading,
+  ConfidentialRawMaterialsTrading__factory,
+  DeliveryManager,
+  DeliveryManager__factory,
+  PaymentProcessor,
+  PaymentProcessor__factory,
+} from "../../typechain-types";
+import { encryptLocation } from "../../sdk";
+import { createInstance } from "../utils/instance";
+import { awaitDecryptionOracle } from "../utils/decrypt";
+import { acceptDelivery, completeDelivery, PICKUP } from "../utils/delivery";
+
+describe("Integration: Trade Delivery", () => {
+  let trading: ConfidentialRawMaterialsTrading;
+  let deliveryManager: DeliveryManager;
+  let paymentProcessor: PaymentProcessor;
+
+  let owner: HardhatEthersSigner;
+  let supplier: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let courier: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+
+  const PAYMENT = ethers.parseEther("1");
+  const FEE = (PAYMENT * 2n) / 100n;
+  const DELIVERY_DAYS = 10n;
+
+  // List -> order -> match, returning a MATCHED order ID
+  async function matchedOrder(): Promise<bigint> {
+    const materialId = await trading.nextMaterialId();
+    await trading
+      .connect(supplier)
+      .listMaterial(
+        "Copper Cathode",
+        0,
+        1000,
+        9000n,
+        100,
+        "Grade A",
+        DELIVERY_DAYS
+      );
+
+    const orderId = await trading.nextOrderId();
+    await trading
+      .connect(buyer)
+      .placeOrder(materialId, 500, 9500n, "Rotterdam", ethers.ZeroHash);
+
+    await trading.connect(supplier).matchTrade(orderId);
+    await awaitDecryptionOracle();
+
+    return orderId;
+  }
+
+  // Supplier ships the order from the Rotterdam pickup
+  async function requestShipment(
+    orderId: bigint,
+    signer: HardhatEthersSigner = supplier
+  ) {
+    const tradingAddress = await trading.getAddress();
+    const instance = await createInstance(tradingAddress, signer);
+    const pickup = await encryptLocation(
+      instance,
+      tradingAddress,
+      signer.address,
+      PICKUP
+    );
+    return trading
+      .connect(signer)
+      .requestTradeDelivery(orderId, pickup.handle, pickup.inputProof);
+  }
+
+  async function shippedOrder(): Promise<[bigint, string]> {
+    const orderId = await matchedOrder();
+    await (await requestShipment(orderId)).wait();
+    return [orderId, await trading.orderDeliveries(orderId)];
+  }
+
+  beforeEach(async () => {
+    [owner, supplier, buyer, courier, other] = await ethers.getSigners();
+
+    trading = await new ConfidentialRawMaterialsTrading__factory(
+      owner
+    ).deploy();
+    await trading.waitForDeployment();
+
+    deliveryManager = await new DeliveryManager__factory(owner).deploy();
+    await deliveryManager.waitForDeployment();
+
+    paymentProcessor = await new PaymentProcessor__factory(owner).deploy();
+    await paymentProcessor.waitForDeployment();
+
+    await trading.setDeliveryManager(await deliveryManager.getAddress());
+    await deliveryManager.setTradingContract(await trading.getAddress());
+    await trading.setPaymentProcessor(await paymentProcessor.getAddress());
+    await paymentProcessor.setTradingContract(await trading.getAddress());
+
+    await trading.verifySupplier(supplier.address);
+    await trading.verifyBuyer(buyer.address);
+  });
+
+  it("should only let the trading contract create trade deliveries", async () => {
+    await expect(
+      deliveryManager
+        .connect(other)
+        .createTradeDelivery(
+          1,
+          supplier.address,
+          buyer.address,
+          ethers.ZeroHash,
+          "0x01"
+        )
+    )
+      .to.be.revertedWithCustomError(deliveryManager, "UnauthorizedAccess")
+      .withArgs(other.address);
+  });
+
+  it("should only take delivery reports from the delivery manager", async () => {
+    await expect(
+      trading.connect(other).onDeliveryCompleted(1, ethers.ZeroHash)
+    ).to.be.revertedWith("Not delivery manager");
+  });
+
+  describe("Delivery lifecycle", () => {
+
+    it("should ship a matched order and complete it on the buyer's confirmation", async () => {
+      const orderId = await matchedOrder();
+      await paymentProcessor
+        .connect(buyer)
+        .createTradePayment(orderId, { value: PAYMENT });
+
+      const { matchedAt } = await trading.getOrderInfo(orderId);
+      await expect(requestShipment(orderId))
+        .to.emit(trading, "TradeDeliveryRequested")
+        .withArgs(orderId, anyValue, matchedAt + DELIVERY_DAYS * 86400n);
+
+      // Order <-> delivery lookups agree
+      const deliveryId = await trading.orderDeliveries(orderId);
+      expect(await trading.deliveryOrders(deliveryId)).to.equal(orderId);
+      const [linkedTrading, linkedOrder] = await deliveryManager.getTradeOrder(
+        deliveryId
+      );
+      expect(linkedTrading).to.equal(await trading.getAddress());
+      expect(linkedOrder).to.equal(orderId);
+      expect(
+        (await deliveryManager.getDelivery(deliveryId)).requester
+      ).to.equal(supplier.address);
+
+      await acceptDelivery(deliveryManager, courier, deliveryId);
+      expect((await trading.getOrderInfo(orderId)).status).to.equal(1); // MATCHED
+
+      // The buyer's signed receipt completes the trade and releases escrow
+      const confirmation = completeDelivery(
+        deliveryManager,
+        courier,
+        buyer,
+        deliveryId
+      );
+      await expect(confirmation).to.changeEtherBalances(
+        [supplier, paymentProcessor],
+        [PAYMENT - FEE, -(PAYMENT - FEE)]
+      );
+      await expect(confirmation)
+        .to.emit(trading, "TradeDelivered")
+        .withArgs(orderId, deliveryId);
+      await expect(confirmation).to.emit(trading, "TradeCompleted");
+
+      expect(await deliveryManager.getDeliveryStatus(deliveryId)).to.equal(3); // COMPLETED
+      expect((await trading.getOrderInfo(orderId)).status).to.equal(2); // COMPLETED
+      const [matchId] = await trading.getOrderMatches(orderId);
+      expect((await trading.getTradeMatch(matchId)).isConfirmed).to.be.true;
+    });
+
+    it("should complete a disputed trade and leave the escrow to the arbiter", async () => {
+      const [orderId, deliveryId] = await shippedOrder();
+      await paymentProcessor
+        .connect(buyer)
+        .createTradePayment(orderId, { value: PAYMENT });
+      const paymentId = await paymentProcessor.getTradePayment(orderId);
+      await paymentProcessor.connect(buyer).openDispute(paymentId);
+      await acceptDelivery(deliveryManager, courier, deliveryId);
+
+      const confirmation = completeDelivery(
+        deliveryManager,
+        courier,
+        buyer,
+        deliveryId
+      );
+      await expect(confirmation).to.changeEtherBalance(paymentProcessor, 0);
+      await expect(confirmation).to.emit(trading, "TradeCompleted");
+      expect((await trading.getOrderInfo(orderId)).status).to.equal(2); // COMPLETED
+      expect(await paymentProcessor.getPaymentStatus(paymentId)).to.equal(4); // DISPUTED
+
+      // The arbiter's resolution settles the funds
+      await paymentProcessor.setArbiter(other.address, true);
+      await paymentProcessor.assignArbiter(paymentId, other.address);
+      await expect(
+        paymentProcessor.connect(other).resolveDispute(paymentId, 1) // RELEASED
+      ).to.changeEtherBalance(supplier, PAYMENT - FEE);
+    });
+
+    it("should accept only the buyer as recipient", async () => {
+      const [orderId, deliveryId] = await shippedOrder();
+      await acceptDelivery(deliveryManager, courier, deliveryId);
+
+      await expect(
+        completeDelivery(deliveryManager, courier, other, deliveryId)
+      )
+        .to.be.revertedWithCustomError(deliveryManager, "ConfirmationMismatch")
+        .withArgs(deliveryId);
+      expect((await trading.getOrderInfo(orderId)).status).to.equal(1); // MATCHED
+    });
+
+    it("should record the delivery of an already confirmed trade", async () => {
+      const [orderId, deliveryId] = await shippedOrder();
+      await trading.connect(buyer).confirmTrade(orderId);
+      await acceptDelivery(deliveryManager, courier, deliveryId);
+
+      await expect(
+        completeDelivery(deliveryManager, courier, buyer, deliveryId)
+      )
+        .to.emit(trading, "TradeDelivered")
+        .withArgs(orderId, deliveryId);
+      expect((await trading.getOrderInfo(orderId)).status).to.equal(2); // COMPLETED
+    });
+
+    it("should let only the matched supplier ship, once per live delivery", async () => {
+      const orderId = await matchedOrder();
+
+      await expect(requestShipment(orderId, buyer)).to.be.revertedWith(
+        "Not matched supplier"
+      );
+      await (await requestShipment(orderId)).wait();
+      const first = await trading.orderDeliveries(orderId);
+      await expect(requestShipment(orderId)).to.be.revertedWith(
+        "Delivery already requested"
+      );
+
+      // A cancelled delivery can be replaced; both stay linked to the order
+      await deliveryManager.connect(supplier).cancelDelivery(first);
+      await (await requestShipment(orderId)).wait();
+      const second = await trading.orderDeliveries(orderId);
+      expect(second).to.not.equal(first);
+      expect(await trading.deliveryOrders(first)).to.equal(orderId);
+      expect(await trading.deliveryOrders(second)).to.equal(orderId);
+    });
+
+    it("should require a matched order and a delivery manager", async () => {
+      const materialId = await trading.nextMaterialId();
+      await trading
+        .connect(supplier)
+        .listMaterial("Zinc", 0, 1000, 9000n, 100, "Grade A", DELIVERY_DAYS);
+      const pendingOrder = await trading.nextOrderId();
+      await trading
+        .connect(buyer)
+        .placeOrder(materialId, 500, 9500n, "Rotterdam", ethers.ZeroHash);
+
+      await expect(requestShipment(pendingOrder)).to.be.revertedWith(
+        "Order not matched"
+      );
+
+      const orderId = await matchedOrder();
+      await trading.connect(owner).setDeliveryManager(ethers.ZeroAddress);
+      await expect(requestShipment(orderId)).to.be.revertedWith(
+        "Delivery manager not set"
+      );
+    });
+  });
+});
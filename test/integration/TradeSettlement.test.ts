@@ -0,0 +1,169 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ConfidentialRawMaterialsTrading,
+  ConfidentialRawMaterialsTrading__factory,
+  PaymentProcessor,
+  PaymentProcessor__factory,
+} from "../../typechain-types";
+import { awaitDecryptionOracle } from "../utils/decrypt";
+
+describe("Integration: Trade Settlement", () => {
+  let trading: ConfidentialRawMaterialsTrading;
+  let paymentProcessor: PaymentProcessor;
+
+  let owner: HardhatEthersSigner;
+  let supplier: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let other: HardhatEthersSigner;
+
+  const PAYMENT = ethers.parseEther("1");
+  const FEE = (PAYMENT * 2n) / 100n;
+
+  // List -> order -> match, returning a MATCHED order ID
+  async function matchedOrder(): Promise<bigint> {
+    const materialId = await trading.nextMaterialId();
+    await trading
+      .connect(supplier)
+      .listMaterial("Copper Cathode", 0, 1000, 9000n, 100, "Grade A", 10);
+
+    const orderId = await trading.nextOrderId();
+    await trading
+      .connect(buyer)
+      .placeOrder(materialId, 500, 9500n, "Rotterdam", ethers.ZeroHash);
+
+    await trading.connect(supplier).matchTrade(orderId);
+    await awaitDecryptionOracle();
+
+    return orderId;
+  }
+
+
+  beforeEach(async () => {
+    [owner, supplier, buyer, other] = await ethers.getSigners();
+
+    trading = await new ConfidentialRawMaterialsTrading__factory(
+      owner
+    ).deploy();
+    await trading.waitForDeployment();
+
+    paymentProcessor = await new PaymentProcessor__factory(owner).deploy();
+    await paymentProcessor.waitForDeployment();
+
+    await trading.setPaymentProcessor(await paymentProcessor.getAddress());
+    await paymentProcessor.setTradingContract(await trading.getAddress());
+
+    await trading.verifySupplier(supplier.address);
+    await trading.verifyBuyer(buyer.address);
+  });
+
+  it("should complete list -> order -> match -> escrow -> confirm -> payout", async () => {
+    const orderId = await matchedOrder();
+    expect((await trading.getOrderInfo(orderId)).status).to.equal(1); // MATCHED
+
+    // Buyer funds escrow for the matched order
+    await expect(
+      paymentProcessor.connect(buyer).createTradePayment(orderId, {
+        value: PAYMENT,
+      })
+    ).to.emit(paymentProcessor, "TradePaymentCreated");
+
+    const paymentId = await paymentProcessor.getTradePayment(orderId);
+    const payment = await paymentProcessor.getPayment(paymentId);
+    expect(payment.payer).to.equal(buyer.address);
+    expect(payment.payee).to.equal(supplier.address);
+    expect(payment.status).to.equal(1); // ESCROW
+
+    // Buyer confirmation releases payment minus the platform fee
+    await expect(
+      trading.connect(buyer).confirmTrade(orderId)
+    ).to.changeEtherBalances(
+      [supplier, paymentProcessor],
+      [PAYMENT - FEE, -(PAYMENT - FEE)]
+    );
+
+    expect((await trading.getOrderInfo(orderId)).status).to.equal(2); // COMPLETED
+    expect(await paymentProcessor.getPaymentStatus(paymentId)).to.equal(2); // COMPLETED
+    expect(await paymentProcessor.platformBalance()).to.equal(FEE);
+  });
+
+  it("should confirm without payout when no escrow was funded", async () => {
+    const orderId = await matchedOrder();
+
+    await expect(
+      trading.connect(supplier).confirmTrade(orderId)
+    ).to.changeEtherBalance(supplier, 0);
+    expect((await trading.getOrderInfo(orderId)).status).to.equal(2); // COMPLETED
+  });
+
+  it("should only let the buyer confirm an escrowed trade", async () => {
+    const orderId = await matchedOrder();
+    await paymentProcessor
+      .connect(buyer)
+      .createTradePayment(orderId, { value: PAYMENT });
+
+    await expect(
+      trading.connect(supplier).confirmTrade(orderId)
+    ).to.be.revertedWith("Only buyer can release payment");
+  });
+
+  it("should reject escrow for orders that are not matched", async () => {
+    const materialId = await trading.nextMaterialId();
+    await trading
+      .connect(supplier)
+      .listMaterial("Zinc", 0, 1000, 9000n, 100, "Grade A", 10);
+    const orderId = await trading.nextOrderId();
+    await trading
+      .connect(buyer)
+      .placeOrder(materialId, 500, 9500n, "Rotterdam", ethers.ZeroHash);
+
+    await expect(
+      paymentProcessor
+        .connect(buyer)
+        .createTradePayment(orderId, { value: PAYMENT })
+    )
+      .to.be.revertedWithCustomError(paymentProcessor, "OrderNotSettleable")
+      .withArgs(orderId);
+  });
+
+  it("should reject escrow funded by anyone but the buyer, or twice", async () => {
+    const orderId = await matchedOrder();
+
+    await expect(
+      paymentProcessor
+        .connect(other)
+        .createTradePayment(orderId, { value: PAYMENT })
+    ).to.be.revertedWithCustomError(
+      paymentProcessor,
+      "UnauthorizedPaymentAccess"
+    );
+
+    await paymentProcessor
+      .connect(buyer)
+      .createTradePayment(orderId, { value: PAYMENT });
+    await expect(
+      paymentProcessor
+        .connect(buyer)
+        .createTradePayment(orderId, { value: PAYMENT })
+    ).to.be.revertedWithCustomError(paymentProcessor, "TradePaymentExists");
+  });
+
+  it("should block payer-driven release and refund of trade payments", async () => {
+    const orderId = await matchedOrder();
+    await paymentProcessor
+      .connect(buyer)
+      .createTradePayment(orderId, { value: PAYMENT });
+    const paymentId = await paymentProcessor.getTradePayment(orderId);
+
+    await expect(
+      paymentProcessor.connect(buyer).completePayment(paymentId)
+    ).to.be.revertedWithCustomError(paymentProcessor, "TradePaymentLocked");
+    await expect(
+      paymentProcessor.connect(buyer).refundPayment(paymentId, "0x01", "0x01")
+    ).to.be.revertedWithCustomError(paymentProcessor, "TradePaymentLocked");
+    await expect(
+      paymentProcessor.connect(buyer).releaseTradePayment(orderId)
+    ).to.be.revertedWithCustomError(paymentProcessor, "PermissionDenied");
+  });
+});
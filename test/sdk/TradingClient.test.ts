@@ -0,0 +1,247 @@
+/**
+ * Test Suite for the TradingClient SDK
+ *
+ * Covers:
+ * - Decoding of view results into typed objects
+ * - ID extraction from emitted events
+ * - Mapping of revert strings to typed errors
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  MaterialCategory,
+  OrderStatus,
+  TradingAuthorizationError,
+  TradingClient,
+  TradingError,
+  TradingStateError,
+  TradingValidationError,
+} from "../../sdk";
+import { createInstance } from "../utils/instance";
+import {
+  awaitDecryptionOracle,
+  decryptEuint32,
+} from "../utils/decrypt";
+
+describe("TradingClient", () => {
+  let client: TradingClient;
+  let owner: HardhatEthersSigner;
+  let supplier: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+
+  const steel = {
+    name: "Steel Coils",
+    category: MaterialCategory.METALS,
+    quantity: 1000,
+    pricePerUnit: 50000n,
+    minOrder: 100,
+    qualityGrade: "A1",
+    deliveryTimeframeDays: 14,
+  };
+
+  beforeEach(async () => {
+    [owner, supplier, buyer, outsider] = await ethers.getSigners();
+
+    const Factory = await ethers.getContractFactory(
+      "ConfidentialRawMaterialsTrading"
+    );
+    const contract = await Factory.deploy();
+    await contract.waitForDeployment();
+
+    client = TradingClient.connect(await contract.getAddress(), owner);
+    await client.verifySupplier(supplier.address);
+    await client.verifyBuyer(buyer.address);
+  });
+
+  describe("Listing and ordering", () => {
+    it("should return the new material ID and decode material info", async () => {
+      const materialId = await client.withRunner(supplier).listMaterial(steel);
+      expect(materialId).to.equal(1n);
+
+      const info = await client.getMaterialInfo(materialId);
+      expect(info.name).to.equal("Steel Coils");
+      expect(info.category).to.equal(MaterialCategory.METALS);
+      expect(info.supplier).to.equal(supplier.address);
+      expect(info.isActive).to.be.true;
+      expect(info.deliveryTimeframe).to.equal(14n);
+    });
+
+    it("should return the new order ID and decode order info", async () => {
+      const materialId = await client.withRunner(supplier).listMaterial(steel);
+      const orderId = await client.withRunner(buyer).placeOrder({
+        materialId,
+        quantity: 200,
+        maxPrice: 60000n,
+        deliveryLocation: "Rotterdam",
+      });
+
+      const order = await client.getOrderInfo(orderId);
+      expect(order.buyer).to.equal(buyer.address);
+      expect(order.materialId).to.equal(materialId);
+      expect(order.status).to.equal(OrderStatus.PENDING);
+      expect(order.deliveryLocation).to.equal("Rotterdam");
+    });
+
+    it("should drive an order through match and confirmation", async () => {
+      const materialId = await client.withRunner(supplier).listMaterial(steel);
+      const orderId = await client.withRunner(buyer).placeOrder({
+        materialId,
+        quantity: 200,
+        maxPrice: 60000n,
+        deliveryLocation: "Rotterdam",
+      });
+
+      await client.withRunner(supplier).matchTrade(orderId);
+      await awaitDecryptionOracle();
+      expect((await client.getOrderInfo(orderId)).status).to.equal(
+        OrderStatus.MATCHED
+      );
+
+      await client.withRunner(buyer).confirmTrade(orderId);
+      const [matchId] = await client.getOrderMatches(orderId);
+      const tradeMatch = await client.getTradeMatch(matchId);
+      expect(tradeMatch.orderId).to.equal(orderId);
+      expect(tradeMatch.isConfirmed).to.be.true;
+      expect(tradeMatch.supplier).to.equal(supplier.address);
+      expect((await client.getOrderInfo(orderId)).status).to.equal(
+        OrderStatus.COMPLETED
+      );
+    });
+
+    it("should filter listings by category enum", async () => {
+      await client.withRunner(supplier).listMaterial(steel);
+      await client.withRunner(supplier).listMaterial({
+        ...steel,
+        name: "Polymer",
+        category: MaterialCategory.CHEMICALS,
+      });
+
+      const chemicals = await client.getMaterialsByCategory(
+        MaterialCategory.CHEMICALS
+      );
+      expect(chemicals).to.deep.equal([2n]);
+    });
+  });
+
+  describe("Fill history", () => {
+
+    it("should reconstruct partial fills from TradeMatched events", async () => {
+      const materialId = await client
+        .withRunner(supplier)
+        .listMaterial({ ...steel, quantity: 300 });
+      const orderId = await client.withRunner(buyer).placeOrder({
+        materialId,
+        quantity: 500,
+        maxPrice: 60000n,
+        deliveryLocation: "Rotterdam",
+      });
+
+      const contractAddress = await client.getAddress();
+      await client.withRunner(supplier).matchTrade(orderId);
+      await client
+        .withRunner(supplier)
+        .restockMaterial(
+          materialId,
+          200,
+          await createInstance(contractAddress, supplier)
+        );
+      await client.withRunner(supplier).matchTrade(orderId);
+
+      const history = await client.getFillHistory(orderId, (handle) =>
+        decryptEuint32(handle, contractAddress, buyer)
+      );
+
+      expect(history.map((fill) => fill.matchId)).to.deep.equal(
+        await client.getOrderMatches(orderId)
+      );
+      expect(history.map((fill) => fill.quantity)).to.deep.equal([300n, 200n]);
+      expect(history[0].supplier).to.equal(supplier.address);
+    });
+
+    it("should leave quantities encrypted without a decryptor", async () => {
+      const materialId = await client.withRunner(supplier).listMaterial(steel);
+      const orderId = await client.withRunner(buyer).placeOrder({
+        materialId,
+        quantity: 200,
+        maxPrice: 60000n,
+        deliveryLocation: "Rotterdam",
+      });
+      await client.withRunner(supplier).matchTrade(orderId);
+
+      const [fill] = await client.getFillHistory(orderId);
+      expect(fill.quantity).to.be.undefined;
+      expect(fill.encryptedQuantity).to.match(/^0x[0-9a-f]{64}$/);
+    });
+  });
+
+  describe("Encrypted inputs", () => {
+    it("should list and order through the encrypted path", async () => {
+      const contractAddress = await client.getAddress();
+
+      const supplierInstance = await createInstance(contractAddress, supplier);
+      const materialId = await client
+        .withRunner(supplier)
+        .listMaterialEncrypted(steel, supplierInstance);
+      expect((await client.getMaterialInfo(materialId)).name).to.equal(
+        "Steel Coils"
+      );
+
+      const buyerInstance = await createInstance(contractAddress, buyer);
+      const orderId = await client.withRunner(buyer).placeOrderEncrypted(
+        {
+          materialId,
+          quantity: 200,
+          maxPrice: 60000n,
+          deliveryLocation: "Rotterdam",
+        },
+        buyerInstance
+      );
+      expect((await client.getOrderInfo(orderId)).buyer).to.equal(
+        buyer.address
+      );
+    });
+  });
+
+  describe("Typed errors", () => {
+    it("should raise TradingAuthorizationError for unverified suppliers", async () => {
+      try {
+        await client.withRunner(outsider).listMaterial(steel);
+        expect.fail("listMaterial should have reverted");
+      } catch (error) {
+        expect(error).to.be.instanceOf(TradingAuthorizationError);
+        expect((error as TradingError).code).to.equal("NOT_VERIFIED_SUPPLIER");
+      }
+    });
+
+    it("should raise TradingValidationError for invalid inputs", async () => {
+      try {
+        await client.withRunner(supplier).listMaterial({ ...steel, quantity: 0 });
+        expect.fail("listMaterial should have reverted");
+      } catch (error) {
+        expect(error).to.be.instanceOf(TradingValidationError);
+        expect((error as TradingError).code).to.equal("INVALID_QUANTITY");
+      }
+    });
+
+    it("should raise TradingStateError for invalid order transitions", async () => {
+      const materialId = await client.withRunner(supplier).listMaterial(steel);
+      const orderId = await client.withRunner(buyer).placeOrder({
+        materialId,
+        quantity: 200,
+        maxPrice: 60000n,
+        deliveryLocation: "Rotterdam",
+      });
+
+      try {
+        await client.withRunner(buyer).confirmTrade(orderId);
+        expect.fail("confirmTrade should have reverted");
+      } catch (error) {
+        expect(error).to.be.instanceOf(TradingStateError);
+        expect((error as TradingError).code).to.equal("ORDER_NOT_MATCHED");
+      }
+    });
+  });
+});
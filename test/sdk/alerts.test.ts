@@ -0,0 +1,378 @@
+/**
+ * Test Suite for the alert rules
+ *
+ * Covers:
+ * - Validation of alert configs
+ * - Category, unconfirmed match and overdue escrow rules against chain time
+ * - File and webhook sinks, with a local HTTP server standing in for the
+ *   webhook receiver
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { promises as fs } from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  Alert,
+  AlertEngine,
+  AlertRule,
+  AlertSink,
+  EventIndexer,
+  FileSink,
+  IndexedContract,
+  MaterialCategory,
+  MemoryEventStore,
+  parseAlertConfig,
+  TradingClient,
+  WebhookSink,
+} from "../../sdk";
+
+class MemorySink implements AlertSink {
+  readonly alerts: Alert[] = [];
+
+  async send(alert: Alert): Promise<void> {
+    this.alerts.push(alert);
+  }
+}
+
+describe("Alert rules", () => {
+  const HOUR = 3600;
+
+  async function advance(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  describe("parseAlertConfig", () => {
+    it("should resolve category names and default to stdout", () => {
+      const config = parseAlertConfig({
+        rules: [
+          {
+            name: "watched",
+            type: "categoryListing",
+            categories: ["METALS", MaterialCategory.ENERGY],
+          },
+        ],
+      });
+      expect(config.rules[0].categories).to.deep.equal([
+        MaterialCategory.METALS,
+        MaterialCategory.ENERGY,
+      ]);
+      expect(config.sinks).to.deep.equal([
+        { type: "stdout", format: undefined },
+      ]);
+    });
+
+    it("should reject malformed rules and sinks", () => {
+      const rule = { name: "stale", type: "unconfirmedMatch", hours: 24 };
+      expect(() => parseAlertConfig({ rules: [] })).to.throw(
+        /rules must be a non-empty list/
+      );
+      expect(() => parseAlertConfig({ rules: [rule, rule] })).to.throw(
+        /rule names must be unique/
+      );
+      expect(() =>
+        parseAlertConfig({ rules: [{ ...rule, hours: undefined }] })
+      ).to.throw(/hours is required/);
+      expect(() =>
+        parseAlertConfig({
+          rules: [{ name: "x", type: "categoryListing", categories: ["GOLD"] }],
+        })
+      ).to.throw(/unknown category GOLD/);
+      expect(() =>
+        parseAlertConfig({ rules: [{ name: "x", type: "nope" }] })
+      ).to.throw(/unknown rule type nope/);
+      expect(() =>
+        parseAlertConfig({
+          rules: [rule],
+          sinks: [{ type: "webhook", url: "ftp://host" }],
+        })
+      ).to.throw(/webhook sink needs an http\(s\) url/);
+    });
+
+    it("should reject configs that are not the expected shape", () => {
+      const rule = { name: "stale", type: "unconfirmedMatch", hours: 24 };
+      expect(() => parseAlertConfig(null)).to.throw(
+        /rules must be a non-empty list/
+      );
+      expect(() =>
+        parseAlertConfig({ rules: [{ ...rule, hours: "24" }] })
+      ).to.throw(/hours must be positive/);
+      expect(() =>
+        parseAlertConfig({
+          rules: [{ name: "x", type: "categoryListing", categories: ["0"] }],
+        })
+      ).to.throw(/unknown category 0/);
+      expect(() => parseAlertConfig({ rules: [rule], sinks: {} })).to.throw(
+        /sinks must be a list/
+      );
+      expect(() =>
+        parseAlertConfig({
+          rules: [rule],
+          sinks: [{ type: "webhook", url: "https://host", headers: { a: 1 } }],
+        })
+      ).to.throw(/webhook headers must map names to strings/);
+    });
+  });
+
+  describe("AlertEngine", () => {
+    let client: TradingClient;
+    let processor: any;
+    let contracts: IndexedContract[];
+    let indexer: EventIndexer;
+    let store: MemoryEventStore;
+    let owner: HardhatEthersSigner;
+    let supplier: HardhatEthersSigner;
+    let buyer: HardhatEthersSigner;
+    let courier: HardhatEthersSigner;
+
+    const rules: AlertRule[] = [
+      { name: "stale-match", type: "unconfirmedMatch", hours: 24 },
+      { name: "late-escrow", type: "overdueEscrow", hours: 48 },
+      {
+        name: "metals",
+        type: "categoryListing",
+        categories: [MaterialCategory.METALS],
+      },
+    ];
+
+    const material = (category: MaterialCategory) => ({
+      name: "Lot",
+      category,
+      quantity: 1000,
+      pricePerUnit: 50000n,
+      minOrder: 100,
+      qualityGrade: "A1",
+      deliveryTimeframeDays: 14,
+    });
+
+    // Feeds events indexed since the last call to the engine
+    async function feed(engine: AlertEngine) {
+      const before = store.getEvents().length;
+      await indexer.sync();
+      for (const event of store.getEvents().slice(before)) {
+        await engine.handle(event);
+      }
+    }
+
+    async function escrowPayment(): Promise<string> {
+      const tx = await processor
+        .connect(buyer)
+        .createPayment(ethers.id("delivery"), "0x01", "0x01", courier.address, {
+          value: ethers.parseEther("0.1"),
+        });
+      const receipt = await tx.wait();
+      const paymentId = receipt.logs
+        .map((l: any) => processor.interface.parseLog(l))
+        .find((parsed: any) => parsed?.name === "PaymentCreated")
+        .args.paymentId;
+      await processor.connect(buyer).escrowPayment(paymentId);
+      return paymentId;
+    }
+
+    beforeEach(async () => {
+      [owner, supplier, buyer, courier] = await ethers.getSigners();
+      const startBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+      const Trading = await ethers.getContractFactory(
+        "ConfidentialRawMaterialsTrading"
+      );
+      const trading = await Trading.deploy();
+      await trading.waitForDeployment();
+      const Processor = await ethers.getContractFactory("PaymentProcessor");
+      processor = await Processor.deploy();
+      await processor.waitForDeployment();
+
+      contracts = [
+        {
+          name: "ConfidentialRawMaterialsTrading",
+          address: await trading.getAddress(),
+        },
+        { name: "PaymentProcessor", address: await processor.getAddress() },
+      ];
+      store = new MemoryEventStore();
+      indexer = new EventIndexer(ethers.provider, store, contracts, {
+        startBlock,
+        confirmations: 0,
+      });
+
+      client = TradingClient.connect(contracts[0].address, owner);
+      await client.verifySupplier(supplier.address);
+      await client.verifyBuyer(buyer.address);
+    });
+
+    it("should alert on listings in watched categories only", async () => {
+      const sink = new MemorySink();
+      const engine = new AlertEngine(ethers.provider, rules, [sink]);
+
+      await client
+        .withRunner(supplier)
+        .listMaterial(material(MaterialCategory.ENERGY));
+      const metals = await client
+        .withRunner(supplier)
+        .listMaterial(material(MaterialCategory.METALS));
+      await feed(engine);
+
+      expect(sink.alerts).to.have.length(1);
+      expect(sink.alerts[0].rule).to.equal("metals");
+      expect(sink.alerts[0].event.args.materialId).to.equal(metals.toString());
+      expect(sink.alerts[0].message).to.include("METALS");
+    });
+
+    it("should alert once when a match stays unconfirmed", async () => {
+      const sink = new MemorySink();
+      const engine = new AlertEngine(ethers.provider, rules, [sink]);
+
+      const materialId = await client
+        .withRunner(supplier)
+        .listMaterial(material(MaterialCategory.CHEMICALS));
+      const orderId = await client.withRunner(buyer).placeOrder({
+        materialId,
+        quantity: 200,
+        maxPrice: 60000n,
+        deliveryLocation: "Rotterdam",
+      });
+      await client.withRunner(supplier).matchTrade(orderId);
+      await feed(engine);
+
+      await advance(23 * HOUR);
+      expect(await engine.tick()).to.equal(0);
+
+      await advance(HOUR);
+      expect(await engine.tick()).to.equal(1);
+      expect(await engine.tick()).to.equal(0);
+      expect(sink.alerts[0].rule).to.equal("stale-match");
+      expect(sink.alerts[0].event.args.orderId).to.equal(orderId.toString());
+    });
+
+    it("should alert on escrow left past its deadline but not on released payments", async () => {
+      const sink = new MemorySink();
+      const engine = new AlertEngine(ethers.provider, rules, [sink]);
+
+      const stuck = await escrowPayment();
+      const released = await escrowPayment();
+      await processor.connect(buyer).completePayment(released);
+      await feed(engine);
+
+      await advance(48 * HOUR);
+      expect(await engine.tick()).to.equal(1);
+      expect(sink.alerts[0].rule).to.equal("late-escrow");
+      expect(sink.alerts[0].event.args.paymentId).to.equal(stuck);
+    });
+
+    it("should keep delivering to other sinks when one fails", async () => {
+      const sink = new MemorySink();
+      const errors: unknown[] = [];
+      const broken: AlertSink = {
+        send: async () => {
+          throw new Error("down");
+        },
+      };
+      const engine = new AlertEngine(
+        ethers.provider,
+        rules,
+        [broken, sink],
+        (error) => errors.push(error)
+      );
+
+      await client
+        .withRunner(supplier)
+        .listMaterial(material(MaterialCategory.METALS));
+      await feed(engine);
+
+      expect(sink.alerts).to.have.length(1);
+      expect(errors).to.have.length(1);
+    });
+  });
+
+  describe("Sinks", () => {
+    const alert: Alert = {
+      rule: "metals",
+      type: "categoryListing",
+      message: "Material #1 listed in METALS",
+      event: {
+        contract: "ConfidentialRawMaterialsTrading",
+        address: ethers.ZeroAddress,
+        event: "MaterialListed",
+        args: { materialId: "1", supplier: ethers.ZeroAddress, category: "0" },
+        blockNumber: 1,
+        blockHash: ethers.ZeroHash,
+        transactionHash: ethers.ZeroHash,
+        logIndex: 0,
+      },
+      chainTime: 1700000000,
+    };
+
+    it("should append alerts to a file as NDJSON", async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "alerts-"));
+      try {
+        const sink = new FileSink(path.join(dir, "out", "alerts.ndjson"));
+        await sink.send(alert);
+        await sink.send({ ...alert, rule: "second" });
+
+        const lines = (await fs.readFile(sink.file, "utf8"))
+          .trim()
+          .split("\n")
+          .map((line) => JSON.parse(line));
+        expect(lines.map((l) => l.rule)).to.deep.equal(["metals", "second"]);
+        expect(lines[0]).to.deep.equal(alert);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    describe("WebhookSink", () => {
+      let server: http.Server;
+      let url: string;
+      let received: { headers: http.IncomingHttpHeaders; body: any }[];
+      let status: number;
+
+      beforeEach(async () => {
+        received = [];
+        status = 204;
+        server = http.createServer((req, res) => {
+          let body = "";
+          req.on("data", (chunk) => (body += chunk));
+          req.on("end", () => {
+            received.push({ headers: req.headers, body: JSON.parse(body) });
+            res.writeHead(status).end();
+          });
+        });
+        await new Promise<void>((resolve) =>
+          server.listen(0, "127.0.0.1", resolve)
+        );
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+      });
+
+      afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+      });
+
+      it("should POST the alert as JSON with the configured headers", async () => {
+        await new WebhookSink(url, { Authorization: "Bearer ops" }).send(alert);
+
+        expect(received).to.have.length(1);
+        expect(received[0].body).to.deep.equal(alert);
+        expect(received[0].headers["content-type"]).to.equal(
+          "application/json"
+        );
+        expect(received[0].headers.authorization).to.equal("Bearer ops");
+      });
+
+      it("should reject when the receiver responds with an error", async () => {
+        status = 500;
+        let error: Error | undefined;
+        try {
+          await new WebhookSink(url).send(alert);
+        } catch (e) {
+          error = e as Error;
+        }
+        expect(error?.message).to.match(/responded 500/);
+      });
+    });
+  });
+});
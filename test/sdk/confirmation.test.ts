@@ -0,0 +1,116 @@
+/**
+ * Test Suite for the proof-of-delivery helpers
+ *
+ * Covers:
+ * - Commitment parity with DeliveryManager for requester and courier
+ * - Signatures accepted by PrivacyLayer.verifySignature
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  deliveryCommitment,
+  generateDeliverySecret,
+  proofOfDeliveryMessage,
+  recipientCommitment,
+  signDeliveryConfirmation,
+} from "../../sdk";
+
+describe("Proof-of-delivery helpers", () => {
+  const requestId = ethers.id("delivery");
+
+  it("should commit to the request, recipient and secret", () => {
+    const [recipient, other] = [
+      ethers.Wallet.createRandom().address,
+      ethers.Wallet.createRandom().address,
+    ];
+    const secret = generateDeliverySecret();
+
+    expect(ethers.dataLength(secret)).to.equal(32);
+    expect(generateDeliverySecret()).to.not.equal(secret);
+
+    const commitment = deliveryCommitment(requestId, recipient, secret);
+    expect(commitment).to.equal(
+      ethers.keccak256(ethers.concat([requestId, recipient, secret]))
+    );
+    expect(deliveryCommitment(requestId, other, secret)).to.not.equal(
+      commitment
+    );
+    expect(
+      deliveryCommitment(ethers.id("another"), recipient, secret)
+    ).to.not.equal(commitment);
+  });
+
+  it("should commit to the recipient and secret", () => {
+    const recipient = ethers.Wallet.createRandom().address;
+    const secret = generateDeliverySecret();
+
+    const commitment = recipientCommitment(recipient, secret);
+    expect(commitment).to.equal(
+      ethers.keccak256(ethers.concat([recipient, secret]))
+    );
+    expect(
+      recipientCommitment(recipient, generateDeliverySecret())
+    ).to.not.equal(commitment);
+  });
+
+  it("should sign confirmations PrivacyLayer.verifySignature accepts", async () => {
+    const [recipient, other] = await ethers.getSigners();
+    const Factory = await ethers.getContractFactory("PrivacyLayerContract");
+    const privacyLayer: any = await Factory.deploy();
+    await privacyLayer.waitForDeployment();
+
+    const managerAddress = ethers.Wallet.createRandom().address;
+    const commitment = deliveryCommitment(
+      requestId,
+      recipient.address,
+      generateDeliverySecret()
+    );
+    const signature = await signDeliveryConfirmation(
+      recipient,
+      managerAddress,
+      requestId,
+      commitment
+    );
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const message = proofOfDeliveryMessage(
+      chainId,
+      managerAddress,
+      requestId,
+      commitment
+    );
+    expect(
+      await privacyLayer.verifySignature(message, signature, recipient.address)
+    ).to.be.true;
+    expect(
+      await privacyLayer.verifySignature(message, signature, other.address)
+    ).to.be.false;
+
+    // Bound to the manager it was signed for
+    const elsewhere = proofOfDeliveryMessage(
+      chainId,
+      other.address,
+      requestId,
+      commitment
+    );
+    expect(
+      await privacyLayer.verifySignature(
+        elsewhere,
+        signature,
+        recipient.address
+      )
+    ).to.be.false;
+  });
+
+  it("should reject malformed signatures", async () => {
+    const [recipient] = await ethers.getSigners();
+    const Factory = await ethers.getContractFactory("PrivacyLayerContract");
+    const privacyLayer: any = await Factory.deploy();
+    await privacyLayer.waitForDeployment();
+
+    await expect(
+      privacyLayer.verifySignature("0x01", "0x1234", recipient.address)
+    ).to.be.revertedWith("Invalid signature");
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Test Suite for the platform deployment and address manifest
+ *
+ * Covers:
+ * - Deploying and wiring the six platform contracts in order
+ * - Idempotent re-runs that send no transactions
+ * - Redeploying a contract together with the contracts built against it
+ * - Reading manifests back for the indexer, monitor and gateway
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ConfidentialRawMaterialsTrading__factory,
+  ConfidentialRFQ__factory,
+  DeliveryManager__factory,
+  PaymentProcessor__factory,
+  ReputationTracker__factory,
+} from "../../typechain-types";
+import {
+  deployPlatform,
+  loadManifest,
+  manifestContracts,
+  manifestPath,
+  PLATFORM_CONTRACTS,
+  readManifest,
+  writeManifest,
+} from "../../sdk";
+
+describe("Platform deployment", () => {
+  let deployer: HardhatEthersSigner;
+  let dir: string;
+
+  beforeEach(async () => {
+    [deployer] = await ethers.getSigners();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "deployments-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should deploy, wire and record every platform contract", async () => {
+    const { manifest, deployed, wired } = await deployPlatform(deployer, {
+      network: "hardhat",
+      dir,
+    });
+
+    expect(deployed).to.deep.equal([...PLATFORM_CONTRACTS]);
+    expect(wired).to.have.length(6);
+    expect(manifest.chainId).to.equal("31337");
+    expect(await readManifest("hardhat", dir)).to.deep.equal(manifest);
+
+    const { contracts } = manifest;
+    const trading = contracts.ConfidentialRawMaterialsTrading!;
+    const manager = contracts.DeliveryManager!;
+    const processor = contracts.PaymentProcessor!;
+    const tracker = contracts.ReputationTracker!;
+
+    const receipt = await ethers.provider.getTransactionReceipt(
+      tracker.transactionHash
+    );
+    expect(receipt!.contractAddress).to.equal(tracker.address);
+    expect(receipt!.blockNumber).to.equal(tracker.blockNumber);
+    expect(tracker.constructorArgs).to.deep.equal([
+      manager.address,
+      trading.address,
+    ]);
+    expect(contracts.ConfidentialRFQ!.constructorArgs).to.deep.equal([
+      trading.address,
+    ]);
+    expect(trading.deployer).to.equal(deployer.address);
+
+    const tradingContract = ConfidentialRawMaterialsTrading__factory.connect(
+      trading.address,
+      deployer
+    );
+    expect(await tradingContract.deliveryManager()).to.equal(manager.address);
+    expect(await tradingContract.paymentProcessor()).to.equal(
+      processor.address
+    );
+    expect(await tradingContract.reputationTracker()).to.equal(tracker.address);
+    expect(
+      await DeliveryManager__factory.connect(
+        manager.address,
+        deployer
+      ).tradingContract()
+    ).to.equal(trading.address);
+    const paymentContract = PaymentProcessor__factory.connect(
+      processor.address,
+      deployer
+    );
+    expect(await paymentContract.tradingContract()).to.equal(trading.address);
+    expect(await paymentContract.deliveryManager()).to.equal(manager.address);
+    expect(
+      await ReputationTracker__factory.connect(
+        tracker.address,
+        deployer
+      ).tradingContract()
+    ).to.equal(trading.address);
+  });
+
+  it("should gate couriers on reputation only when asked", async () => {
+    const { manifest } = await deployPlatform(deployer, {
+      network: "hardhat",
+      dir,
+    });
+    const manager = DeliveryManager__factory.connect(
+      manifest.contracts.DeliveryManager!.address,
+      deployer
+    );
+    expect(await manager.reputationTracker()).to.equal(ethers.ZeroAddress);
+
+    const { deployed, wired } = await deployPlatform(deployer, {
+      network: "hardhat",
+      dir,
+      gateCouriersOnReputation: true,
+    });
+    expect(deployed).to.be.empty;
+    expect(wired).to.deep.equal(["DeliveryManager.setReputationTracker"]);
+    expect(await manager.reputationTracker()).to.equal(
+      manifest.contracts.ReputationTracker!.address
+    );
+  });
+
+  it("should send no transactions when re-run", async () => {
+    await deployPlatform(deployer, { network: "hardhat", dir });
+    const file = manifestPath("hardhat", dir);
+    const before = await fs.readFile(file, "utf8");
+    const nonce = await ethers.provider.getTransactionCount(deployer.address);
+
+    const { deployed, reused, wired } = await deployPlatform(deployer, {
+      network: "hardhat",
+      dir,
+    });
+
+    expect(deployed).to.be.empty;
+    expect(reused).to.deep.equal([...PLATFORM_CONTRACTS]);
+    expect(wired).to.be.empty;
+    expect(
+      await ethers.provider.getTransactionCount(deployer.address)
+    ).to.equal(nonce);
+    expect(await fs.readFile(file, "utf8")).to.equal(before);
+  });
+
+  it("should redeploy a missing contract with its dependents", async () => {
+    const first = await deployPlatform(deployer, { network: "hardhat", dir });
+    const manifest = first.manifest;
+    delete manifest.contracts.ConfidentialRawMaterialsTrading;
+    await writeManifest(manifest, dir);
+
+    const {
+      manifest: updated,
+      deployed,
+      reused,
+    } = await deployPlatform(deployer, { network: "hardhat", dir });
+
+    expect(deployed).to.deep.equal([
+      "ConfidentialRawMaterialsTrading",
+      "ReputationTracker",
+      "ConfidentialRFQ",
+    ]);
+    expect(reused).to.deep.equal([
+      "DeliveryManager",
+      "PaymentProcessor",
+      "AnonymousDelivery",
+    ]);
+
+    const trading = updated.contracts.ConfidentialRawMaterialsTrading!.address;
+    expect(
+      await ConfidentialRFQ__factory.connect(
+        updated.contracts.ConfidentialRFQ!.address,
+        deployer
+      ).trading()
+    ).to.equal(trading);
+    expect(
+      await PaymentProcessor__factory.connect(
+        updated.contracts.PaymentProcessor!.address,
+        deployer
+      ).tradingContract()
+    ).to.equal(trading);
+  });
+
+  it("should refuse a manifest recorded on another chain", async () => {
+    await writeManifest(
+      { network: "hardhat", chainId: "1", contracts: {} },
+      dir
+    );
+
+    await expect(
+      deployPlatform(deployer, { network: "hardhat", dir })
+    ).to.be.rejectedWith("is for chain 1, not 31337");
+  });
+
+  it("should list the manifest's contracts for the indexer", async () => {
+    await expect(loadManifest("hardhat", dir)).to.be.rejectedWith(
+      "Deploy first!"
+    );
+
+    await deployPlatform(deployer, { network: "hardhat", dir });
+    const manifest = await loadManifest("hardhat", dir);
+
+    expect(manifestContracts(manifest)).to.deep.equal([
+      {
+        name: "ConfidentialRawMaterialsTrading",
+        address: manifest.contracts.ConfidentialRawMaterialsTrading!.address,
+      },
+      {
+        name: "DeliveryManager",
+        address: manifest.contracts.DeliveryManager!.address,
+      },
+      {
+        name: "PaymentProcessor",
+        address: manifest.contracts.PaymentProcessor!.address,
+      },
+      {
+        name: "ReputationTracker",
+        address: manifest.contracts.ReputationTracker!.address,
+      },
+    ]);
+  });
+});
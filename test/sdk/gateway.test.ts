@@ -0,0 +1,361 @@
+/**
+ * Test Suite for the HTTP gateway
+ *
+ * Covers:
+ * - Read endpoints and their not-found and invalid-ID responses
+ * - Building, signing and relaying a transaction through the gateway
+ * - Rejection of unsigned, foreign-chain and non-platform transactions
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  createGateway,
+  IndexedContract,
+  MaterialCategory,
+  OPENAPI_SPEC,
+  TradingClient,
+} from "../../sdk";
+
+describe("HTTP gateway", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let client: TradingClient;
+  let processor: any;
+  let contracts: IndexedContract[];
+  let owner: HardhatEthersSigner;
+  let supplier: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let courier: HardhatEthersSigner;
+
+  const steel = {
+    name: "Steel Coils",
+    category: MaterialCategory.METALS,
+    quantity: 1000,
+    pricePerUnit: 50000n,
+    minOrder: 100,
+    qualityGrade: "A1",
+    deliveryTimeframeDays: 14,
+  };
+
+  async function request(
+    method: "GET" | "POST",
+    path: string,
+    body?: unknown
+  ): Promise<{ status: number; body: any }> {
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        `${baseUrl}${path}`,
+        { method, headers: { "Content-Type": "application/json" } },
+        (res) => {
+          let data = "";
+          res.on("data", (chunk) => (data += chunk));
+          res.on("end", () =>
+            resolve({ status: res.statusCode!, body: JSON.parse(data) })
+          );
+        }
+      );
+      req.on("error", reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+  }
+
+  // A key the gateway never sees, as an ERP would hold
+  async function fundedWallet() {
+    const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+    await owner.sendTransaction({
+      to: wallet.address,
+      value: ethers.parseEther("1"),
+    });
+    return wallet;
+  }
+
+  beforeEach(async () => {
+    [owner, supplier, buyer, courier] = await ethers.getSigners();
+
+    const Trading = await ethers.getContractFactory(
+      "ConfidentialRawMaterialsTrading"
+    );
+    const trading = await Trading.deploy();
+    await trading.waitForDeployment();
+    const Processor = await ethers.getContractFactory("PaymentProcessor");
+    processor = await Processor.deploy();
+    await processor.waitForDeployment();
+    const Manager = await ethers.getContractFactory("DeliveryManager");
+    const manager = await Manager.deploy();
+    await manager.waitForDeployment();
+    const Tracker = await ethers.getContractFactory("ReputationTracker");
+    const tracker = await Tracker.deploy(
+      await manager.getAddress(),
+      await trading.getAddress()
+    );
+    await tracker.waitForDeployment();
+
+    contracts = [
+      {
+        name: "ConfidentialRawMaterialsTrading",
+        address: await trading.getAddress(),
+      },
+      { name: "PaymentProcessor", address: await processor.getAddress() },
+      { name: "DeliveryManager", address: await manager.getAddress() },
+      { name: "ReputationTracker", address: await tracker.getAddress() },
+    ];
+    client = TradingClient.connect(contracts[0].address, owner);
+    await client.verifySupplier(supplier.address);
+    await client.verifyBuyer(buyer.address);
+
+    server = createGateway(ethers.provider, contracts);
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe("Reads", () => {
+    it("should report the chain and serve the OpenAPI spec", async () => {
+      const health = await request("GET", "/health");
+      expect(health.status).to.equal(200);
+      expect(health.body.chainId).to.equal(
+        (await ethers.provider.getNetwork()).chainId.toString()
+      );
+      expect(health.body.contracts).to.deep.equal(contracts);
+
+      const spec = await request("GET", "/openapi.json");
+      expect(spec.body).to.deep.equal(OPENAPI_SPEC);
+    });
+
+    it("should return materials, orders and matches with names for enums", async () => {
+      const materialId = await client.withRunner(supplier).listMaterial(steel);
+      const orderId = await client.withRunner(buyer).placeOrder({
+        materialId,
+        quantity: 200,
+        maxPrice: 60000n,
+        deliveryLocation: "Rotterdam",
+      });
+      await client.withRunner(supplier).matchTrade(orderId);
+
+      const material = await request("GET", `/materials/${materialId}`);
+      expect(material.status).to.equal(200);
+      expect(material.body).to.include({
+        materialId: materialId.toString(),
+        name: "Steel Coils",
+        category: "METALS",
+        supplier: supplier.address,
+        deliveryTimeframe: "14",
+      });
+
+      const order = await request("GET", `/orders/${orderId}`);
+      expect(order.body).to.include({
+        buyer: buyer.address,
+        status: "PENDING",
+        deliveryLocation: "Rotterdam",
+        deliveryId: null,
+      });
+      expect(order.body.matchIds).to.have.length(1);
+
+      const match = await request("GET", `/matches/${order.body.matchIds[0]}`);
+      expect(match.body).to.include({
+        orderId: orderId.toString(),
+        supplier: supplier.address,
+        isConfirmed: false,
+      });
+    });
+
+    it("should return payments by ID", async () => {
+      const tx = await processor
+        .connect(buyer)
+        .createPayment(ethers.id("delivery"), "0x01", "0x01", courier.address, {
+          value: ethers.parseEther("0.1"),
+        });
+      const receipt = await tx.wait();
+      const paymentId = receipt.logs
+        .map((l: any) => processor.interface.parseLog(l))
+        .find((parsed: any) => parsed?.name === "PaymentCreated")
+        .args.paymentId;
+
+      const payment = await request("GET", `/payments/${paymentId}`);
+      expect(payment.status).to.equal(200);
+      expect(payment.body).to.include({
+        paymentId,
+        payer: buyer.address,
+        payee: courier.address,
+        amount: ethers.parseEther("0.1").toString(),
+        status: "PENDING",
+        asset: "NATIVE",
+      });
+    });
+
+    it("should answer 404 for unknown IDs and 400 for malformed ones", async () => {
+      const unknown = ethers.id("unknown");
+      for (const path of [
+        "/materials/99",
+        "/orders/99",
+        "/matches/99",
+        `/deliveries/${unknown}`,
+        `/payments/${unknown}`,
+        `/reputation/${courier.address}`,
+        "/nope",
+      ]) {
+        const response = await request("GET", path);
+        expect(response.status, path).to.equal(404);
+        expect(response.body.error.code, path).to.equal("NOT_FOUND");
+      }
+
+      for (const path of [
+        "/orders/abc",
+        "/payments/0x12",
+        "/reputation/0x12",
+      ]) {
+        const response = await request("GET", path);
+        expect(response.status, path).to.equal(400);
+        expect(response.body.error.code, path).to.equal("INVALID_ID");
+      }
+    });
+
+    it("should answer NOT_CONFIGURED for contracts left out", async () => {
+      server.close();
+      server = createGateway(ethers.provider, contracts.slice(0, 1));
+      await new Promise<void>((resolve) =>
+        server.listen(0, "127.0.0.1", resolve)
+      );
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      const response = await request("GET", `/payments/${ethers.ZeroHash}`);
+      expect(response.status).to.equal(404);
+      expect(response.body.error.code).to.equal("NOT_CONFIGURED");
+    });
+  });
+
+  describe("Relay", () => {
+    it("should prepare, relay and report a signed transaction", async () => {
+      const wallet = await fundedWallet();
+      await client.verifySupplier(wallet.address);
+
+      const prepared = await request("POST", "/transactions/prepare", {
+        from: wallet.address,
+        contract: "ConfidentialRawMaterialsTrading",
+        method: "listMaterial",
+        args: ["Copper", MaterialCategory.METALS, 500, "42000", 50, "B2", 7],
+      });
+      expect(prepared.status).to.equal(200);
+      expect(prepared.body.to).to.equal(contracts[0].address);
+
+      const { from, ...unsigned } = prepared.body;
+      const signedTransaction = await wallet.signTransaction(unsigned);
+      const relayed = await request("POST", "/transactions", {
+        signedTransaction,
+        wait: true,
+      });
+
+      expect(relayed.status).to.equal(200);
+      expect(relayed.body).to.include({
+        from: wallet.address,
+        contract: "ConfidentialRawMaterialsTrading",
+        method: "listMaterial",
+        status: "success",
+      });
+      const listed = relayed.body.events.find(
+        (e: any) => e.event === "MaterialListed"
+      );
+      expect(listed.args.supplier).to.equal(wallet.address);
+
+      const material = await request(
+        "GET",
+        `/materials/${listed.args.materialId}`
+      );
+      expect(material.body.name).to.equal("Copper");
+    });
+
+    it("should return the revert reason when preparing a failing call", async () => {
+      const wallet = await fundedWallet();
+      const response = await request("POST", "/transactions/prepare", {
+        from: wallet.address,
+        contract: "ConfidentialRawMaterialsTrading",
+        method: "listMaterial",
+        args: ["Copper", MaterialCategory.METALS, 500, "42000", 50, "B2", 7],
+      });
+      expect(response.status).to.equal(400);
+      expect(response.body.error).to.deep.equal({
+        code: "CALL_FAILED",
+        message: "Not verified supplier",
+      });
+    });
+
+    it("should reject transactions it must not relay", async () => {
+      const wallet = await fundedWallet();
+      const { chainId } = await ethers.provider.getNetwork();
+      const base = {
+        type: 2,
+        chainId,
+        nonce: 0,
+        gasLimit: 100000,
+        maxFeePerGas: ethers.parseUnits("10", "gwei"),
+        maxPriorityFeePerGas: 1,
+      };
+      const cases: [unknown, number, string][] = [
+        [{ signedTransaction: "0x1234" }, 400, "INVALID_TRANSACTION"],
+        [{ signedTransaction: 42 }, 400, "INVALID_TRANSACTION"],
+        [["0x1234"], 400, "INVALID_TRANSACTION"],
+        [
+          {
+            signedTransaction: ethers.Transaction.from({
+              ...base,
+              to: contracts[0].address,
+            }).unsignedSerialized,
+          },
+          400,
+          "INVALID_TRANSACTION",
+        ],
+        [
+          {
+            signedTransaction: await wallet.signTransaction({
+              ...base,
+              chainId: chainId + 1n,
+              to: contracts[0].address,
+            }),
+          },
+          400,
+          "WRONG_CHAIN",
+        ],
+        [
+          {
+            signedTransaction: await wallet.signTransaction({
+              ...base,
+              to: courier.address,
+              value: 1,
+            }),
+          },
+          403,
+          "CONTRACT_NOT_ALLOWED",
+        ],
+        [
+          {
+            signedTransaction: await wallet.signTransaction({
+              ...base,
+              to: contracts[0].address,
+              data: "0xdeadbeef",
+            }),
+          },
+          400,
+          "UNKNOWN_METHOD",
+        ],
+      ];
+
+      for (const [body, status, code] of cases) {
+        const response = await request("POST", "/transactions", body);
+        expect(response.status, code).to.equal(status);
+        expect(response.body.error.code).to.equal(code);
+      }
+      expect(
+        await ethers.provider.getTransactionCount(wallet.address)
+      ).to.equal(0);
+    });
+  });
+});
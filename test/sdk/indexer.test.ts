@@ -0,0 +1,234 @@
+/**
+ * Test Suite for the event indexer
+ *
+ * Covers:
+ * - Backfill of trading and payment events and the query functions
+ * - Confirmation depth and resuming from a JSON store
+ * - Rollback when indexed blocks are reorganised away
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  EventIndexer,
+  getMatchesBySupplier,
+  getOrdersByBuyer,
+  getPaymentsByStatus,
+  IndexedContract,
+  JsonEventStore,
+  MaterialCategory,
+  MemoryEventStore,
+  OrderStatus,
+  PaymentStatus,
+  TradingClient,
+} from "../../sdk";
+import { awaitDecryptionOracle } from "../utils/decrypt";
+
+describe("Event indexer", () => {
+  let client: TradingClient;
+  let processor: any;
+  let contracts: IndexedContract[];
+  let startBlock: number;
+  let owner: HardhatEthersSigner;
+  let supplier: HardhatEthersSigner;
+  let buyer: HardhatEthersSigner;
+  let courier: HardhatEthersSigner;
+
+  const steel = {
+    name: "Steel Coils",
+    category: MaterialCategory.METALS,
+    quantity: 1000,
+    pricePerUnit: 50000n,
+    minOrder: 100,
+    qualityGrade: "A1",
+    deliveryTimeframeDays: 14,
+  };
+
+  async function placeOrder(quantity: number): Promise<bigint> {
+    const materialId = await client.withRunner(supplier).listMaterial(steel);
+    return client.withRunner(buyer).placeOrder({
+      materialId,
+      quantity,
+      maxPrice: 60000n,
+      deliveryLocation: "Rotterdam",
+    });
+  }
+
+  async function createPayment(deliveryId: string): Promise<string> {
+    const tx = await processor
+      .connect(buyer)
+      .createPayment(deliveryId, "0x01", "0x01", courier.address, {
+        value: ethers.parseEther("0.1"),
+      });
+    const receipt = await tx.wait();
+    const log = receipt.logs
+      .map((l: any) => processor.interface.parseLog(l))
+      .find((parsed: any) => parsed?.name === "PaymentCreated");
+    return log.args.paymentId;
+  }
+
+  function indexer(store = new MemoryEventStore(), confirmations = 0) {
+    return new EventIndexer(ethers.provider, store, contracts, {
+      startBlock,
+      confirmations,
+      batchSize: 5,
+    });
+  }
+
+  beforeEach(async () => {
+    [owner, supplier, buyer, courier] = await ethers.getSigners();
+    startBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+    const Trading = await ethers.getContractFactory(
+      "ConfidentialRawMaterialsTrading"
+    );
+    const trading = await Trading.deploy();
+    await trading.waitForDeployment();
+    const Processor = await ethers.getContractFactory("PaymentProcessor");
+    processor = await Processor.deploy();
+    await processor.waitForDeployment();
+
+    contracts = [
+      {
+        name: "ConfidentialRawMaterialsTrading",
+        address: await trading.getAddress(),
+      },
+      { name: "PaymentProcessor", address: await processor.getAddress() },
+    ];
+    client = TradingClient.connect(contracts[0].address, owner);
+    await client.verifySupplier(supplier.address);
+    await client.verifyBuyer(buyer.address);
+  });
+
+  describe("Backfill and queries", () => {
+    it("should index orders and matches by participant", async () => {
+      const first = await placeOrder(200);
+      const second = await placeOrder(300);
+      await client.withRunner(supplier).matchTrade(first);
+
+      const store = new MemoryEventStore();
+      const result = await indexer(store).sync();
+      expect(result.fromBlock).to.equal(startBlock);
+      expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+      expect(result.eventCount).to.equal(store.getEvents().length);
+
+      const orders = getOrdersByBuyer(store, buyer.address.toLowerCase());
+      expect(orders.map((o) => o.orderId)).to.deep.equal([first, second]);
+      expect(orders[0].matchIds).to.have.length(1);
+      expect(orders[1].status).to.equal(OrderStatus.PENDING);
+      expect(getOrdersByBuyer(store, supplier.address)).to.be.empty;
+
+      const matches = getMatchesBySupplier(store, supplier.address);
+      expect(matches).to.have.length(1);
+      expect(matches[0].orderId).to.equal(first);
+      expect(matches[0].buyer).to.equal(buyer.address);
+      expect(matches[0].confirmed).to.be.false;
+    });
+
+    it("should track payments through their status changes", async () => {
+      const escrowed = await createPayment(ethers.id("delivery-1"));
+      const completed = await createPayment(ethers.id("delivery-2"));
+      const pending = await createPayment(ethers.id("delivery-3"));
+      await processor.connect(buyer).escrowPayment(escrowed);
+      await processor.connect(buyer).escrowPayment(completed);
+      await processor.connect(buyer).completePayment(completed);
+
+      const store = new MemoryEventStore();
+      await indexer(store).sync();
+
+      const byStatus = (status: PaymentStatus) =>
+        getPaymentsByStatus(store, status).map((p) => p.paymentId);
+      expect(byStatus(PaymentStatus.PENDING)).to.deep.equal([pending]);
+      expect(byStatus(PaymentStatus.ESCROW)).to.deep.equal([escrowed]);
+      expect(byStatus(PaymentStatus.COMPLETED)).to.deep.equal([completed]);
+
+      const [payment] = getPaymentsByStatus(store, PaymentStatus.PENDING);
+      expect(payment.payer).to.equal(buyer.address);
+      expect(payment.payee).to.equal(courier.address);
+      expect(payment.deliveryId).to.equal(ethers.id("delivery-3"));
+    });
+
+    it("should mark matches confirmed once the trade completes", async function () {
+      const orderId = await placeOrder(200);
+      await client.withRunner(supplier).matchTrade(orderId);
+      await awaitDecryptionOracle();
+      await client.withRunner(buyer).confirmTrade(orderId);
+
+      const store = new MemoryEventStore();
+      await indexer(store).sync();
+
+      const [order] = getOrdersByBuyer(store, buyer.address);
+      expect(order.status).to.equal(OrderStatus.COMPLETED);
+      expect(getMatchesBySupplier(store, supplier.address)[0].confirmed).to.be
+        .true;
+    });
+  });
+
+  describe("Sync", () => {
+    it("should stay the confirmation depth behind the head", async () => {
+      await placeOrder(200);
+      const head = await ethers.provider.getBlockNumber();
+
+      const store = new MemoryEventStore();
+      const result = await indexer(store, 2).sync();
+      expect(result.toBlock).to.equal(head - 2);
+      expect(getOrdersByBuyer(store, buyer.address)).to.be.empty;
+
+      await ethers.provider.send("hardhat_mine", ["0x2"]);
+      await indexer(store, 2).sync();
+      expect(getOrdersByBuyer(store, buyer.address)).to.have.length(1);
+    });
+
+    it("should resume from a JSON store without duplicating events", async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "indexer-"));
+      const file = path.join(dir, "nested", "events.json");
+      try {
+        await placeOrder(200);
+        await indexer(await JsonEventStore.open(file)).sync();
+
+        await placeOrder(300);
+        const reopened = await JsonEventStore.open(file);
+        const before = reopened.getEvents().length;
+        const result = await indexer(reopened).sync();
+        expect(result.fromBlock).to.be.greaterThan(startBlock);
+
+        const orders = getOrdersByBuyer(
+          await JsonEventStore.open(file),
+          buyer.address
+        );
+        expect(orders.map((o) => o.orderId)).to.deep.equal([1n, 2n]);
+        expect(reopened.getEvents().length).to.equal(
+          before + result.eventCount
+        );
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should roll back events from blocks that were reorganised away", async () => {
+      await placeOrder(200);
+      const snapshot = await ethers.provider.send("evm_snapshot", []);
+      await placeOrder(300);
+
+      const store = new MemoryEventStore();
+      await indexer(store).sync();
+      expect(getOrdersByBuyer(store, buyer.address)).to.have.length(2);
+
+      // Replace the second order's blocks with a different history
+      await ethers.provider.send("evm_revert", [snapshot]);
+      await ethers.provider.send("hardhat_mine", ["0x5"]);
+
+      const result = await indexer(store).sync();
+      expect(result.rolledBackTo).to.be.lessThan(result.fromBlock ?? Infinity);
+      const orders = getOrdersByBuyer(store, buyer.address);
+      expect(orders.map((o) => o.orderId)).to.deep.equal([1n]);
+      expect(store.getCursor()?.blockNumber).to.equal(
+        await ethers.provider.getBlockNumber()
+      );
+    });
+  });
+});
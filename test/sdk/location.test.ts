@@ -0,0 +1,56 @@
+/**
+ * Test Suite for the location encoding helpers
+ *
+ * Covers:
+ * - Packing parity with PrivacyLayer.encodeLocation
+ * - Round-tripping coordinates at COORDINATE_SCALE precision
+ * - Rejecting out-of-range coordinates
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { COORDINATE_SCALE, decodeLocation, encodeLocation } from "../../sdk";
+
+describe("Location encoding helpers", () => {
+  it("should pack coordinates like PrivacyLayer.encodeLocation", async () => {
+    const Factory = await ethers.getContractFactory("PrivacyLayerContract");
+    const privacyLayer: any = await Factory.deploy();
+    await privacyLayer.waitForDeployment();
+
+    const lat = Math.round((51.9244 + 90) * COORDINATE_SCALE);
+    const lon = Math.round((4.4777 + 180) * COORDINATE_SCALE);
+    expect(encodeLocation({ latitude: 51.9244, longitude: 4.4777 })).to.equal(
+      await privacyLayer.encodeLocation(lat, lon)
+    );
+  });
+
+  it("should map the coordinate extremes into unsigned units", () => {
+    expect(encodeLocation({ latitude: -90, longitude: -180 })).to.equal(0n);
+    expect(encodeLocation({ latitude: 90, longitude: 180 })).to.equal(
+      (180_000n << 32n) | 360_000n
+    );
+  });
+
+  it("should round-trip coordinates", () => {
+    const decoded = decodeLocation(
+      encodeLocation({ latitude: -33.8688, longitude: 151.2093 })
+    );
+    expect(decoded.latitude).to.be.closeTo(-33.869, 1e-9);
+    expect(decoded.longitude).to.be.closeTo(151.209, 1e-9);
+  });
+
+  it("should decode coordinates at the scale's precision exactly", () => {
+    expect(
+      decodeLocation(encodeLocation({ latitude: 51.5, longitude: 4.45 }))
+    ).to.deep.equal({ latitude: 51.5, longitude: 4.45 });
+  });
+
+  it("should reject coordinates out of range", () => {
+    expect(() => encodeLocation({ latitude: 90.5, longitude: 0 })).to.throw(
+      RangeError
+    );
+    expect(() => encodeLocation({ latitude: 0, longitude: -181 })).to.throw(
+      RangeError
+    );
+  });
+});
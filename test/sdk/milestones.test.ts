@@ -0,0 +1,158 @@
+/**
+ * Test Suite for the milestone payment helpers
+ *
+ * Covers:
+ * - Per-milestone remaining balances for the payer and payee
+ * - Settling the whole escrow clearing every milestone
+ * - Plain-text rendering of the balances
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  formatMilestoneBalances,
+  getMilestoneBalances,
+  MilestoneBalance,
+} from "../../sdk";
+import { createInstance } from "../utils/instance";
+import { decryptEuint64 } from "../utils/decrypt";
+import {
+  acceptDelivery,
+  recordCheckpoint,
+  requestDelivery,
+} from "../utils/delivery";
+
+describe("Milestone payment helpers", () => {
+  describe("formatMilestoneBalances", () => {
+    it("should list each milestone and the total remaining", () => {
+      const balances: MilestoneBalance[] = [
+        {
+          index: 0,
+          checkpoint: 1,
+          released: true,
+          releasedAt: 1700000000,
+          encryptedAmount: ethers.ZeroHash,
+          amount: 400n,
+          remaining: 0n,
+        },
+        {
+          index: 1,
+          checkpoint: 2,
+          released: false,
+          encryptedAmount: ethers.ZeroHash,
+          amount: 600n,
+          remaining: 600n,
+        },
+      ];
+
+      expect(formatMilestoneBalances(balances)).to.equal(
+        [
+          "#0 checkpoint 1: 400 released, remaining 0",
+          "#1 checkpoint 2: 600 pending, remaining 600",
+          "Total remaining: 600",
+        ].join("\n")
+      );
+    });
+
+    it("should leave amounts encrypted without a decryptor", () => {
+      const output = formatMilestoneBalances([
+        {
+          index: 0,
+          checkpoint: 1,
+          released: false,
+          encryptedAmount: ethers.ZeroHash,
+        },
+      ]);
+
+      expect(output).to.equal(
+        "#0 checkpoint 1: (encrypted) pending, remaining (encrypted)"
+      );
+    });
+  });
+
+  describe("getMilestoneBalances", () => {
+    let processor: any;
+    let processorAddress: string;
+    let payer: HardhatEthersSigner;
+    let payee: HardhatEthersSigner;
+    let manager: any;
+    let deliveryId: string;
+    let paymentId: string;
+
+
+    beforeEach(async () => {
+      [, payer, payee] = await ethers.getSigners();
+
+      const ManagerFactory = await ethers.getContractFactory("DeliveryManager");
+      manager = await ManagerFactory.deploy();
+      await manager.waitForDeployment();
+      deliveryId = await requestDelivery(manager, payer);
+      await acceptDelivery(manager, payee, deliveryId);
+
+      const ProcessorFactory = await ethers.getContractFactory(
+        "PaymentProcessor"
+      );
+      processor = await ProcessorFactory.deploy();
+      await processor.waitForDeployment();
+      processorAddress = await processor.getAddress();
+      await processor.setDeliveryManager(await manager.getAddress());
+
+      const TokenFactory = await ethers.getContractFactory(
+        "MockConfidentialToken"
+      );
+      const token: any = await TokenFactory.deploy("Confidential USD", "cUSD");
+      await token.waitForDeployment();
+
+      await token.mint(payer.address, 10000);
+      const latest = await ethers.provider.getBlock("latest");
+      await token
+        .connect(payer)
+        .setOperator(processorAddress, latest!.timestamp + 3600);
+
+      const instance = await createInstance(processorAddress, payer);
+      const encrypted = await instance
+        .createEncryptedInput(processorAddress, payer.address)
+        .add64(3000n)
+        .add64(5000n)
+        .encrypt();
+      await processor
+        .connect(payer)
+        .createMilestonePayment(
+          deliveryId,
+          payee.address,
+          await token.getAddress(),
+          encrypted.handles,
+          [0, 1],
+          encrypted.inputProof
+        );
+      [paymentId] = await processor.getUserPayments(payer.address);
+      await processor.connect(payer).escrowPayment(paymentId);
+    });
+
+    it("should show what is left under each milestone", async () => {
+      await recordCheckpoint(manager, payee, deliveryId);
+      await processor.connect(payer).releaseMilestone(paymentId, 0);
+
+      const balances = await getMilestoneBalances(processor, paymentId, (h) =>
+        decryptEuint64(h, processorAddress, payee)
+      );
+
+      expect(balances.map((b) => b.amount)).to.deep.equal([3000n, 5000n]);
+      expect(balances.map((b) => b.remaining)).to.deep.equal([0n, 5000n]);
+      expect(balances[0].releasedAt).to.be.a("number");
+      expect(balances[1].releasedAt).to.be.undefined;
+    });
+
+    it("should clear every milestone once the escrow is refunded", async () => {
+      await processor
+        .connect(payer)
+        .refundPayment(paymentId, "0x1234", "0x5678");
+
+      const balances = await getMilestoneBalances(processor, paymentId, (h) =>
+        decryptEuint64(h, processorAddress, payer)
+      );
+      expect(balances.map((b) => b.remaining)).to.deep.equal([0n, 0n]);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Test Suite for the event monitor helpers
+ *
+ * Covers:
+ * - Validation of monitor configs
+ * - Filtering by event name, contract address and argument
+ * - NDJSON and pretty rendering
+ * - Live delivery of filtered events from several contracts
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  formatEvent,
+  IndexedEvent,
+  matchesFilters,
+  MaterialCategory,
+  parseMonitorConfig,
+  TradingClient,
+  watchEvents,
+} from "../../sdk";
+
+describe("Event monitor helpers", () => {
+  const TRADING = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+  const PROCESSOR = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+  const SUPPLIER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+  const matched: IndexedEvent = {
+    contract: "ConfidentialRawMaterialsTrading",
+    address: TRADING,
+    event: "TradeMatched",
+    args: {
+      orderId: "1",
+      materialId: "1",
+      buyer: "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC",
+      supplier: SUPPLIER,
+      matchId: "1",
+    },
+    blockNumber: 42,
+    blockHash: ethers.id("block"),
+    transactionHash: ethers.id("tx"),
+    logIndex: 0,
+  };
+
+  describe("parseMonitorConfig", () => {
+    it("should default to pretty output with no filters", () => {
+      const config = parseMonitorConfig({
+        contracts: [{ name: "PaymentProcessor", address: PROCESSOR }],
+      });
+      expect(config.format).to.equal("pretty");
+      expect(config.filters).to.be.empty;
+    });
+
+    it("should reject unknown contracts, events and formats", () => {
+      const contracts = [{ name: "PaymentProcessor", address: PROCESSOR }];
+      expect(() => parseMonitorConfig({ contracts: [] })).to.throw(
+        /contracts must be a non-empty list/
+      );
+      expect(() =>
+        parseMonitorConfig({
+          contracts: [{ name: "Nope", address: PROCESSOR }],
+        })
+      ).to.throw(/unknown contract Nope/);
+      expect(() =>
+        parseMonitorConfig({
+          contracts: [{ name: "PaymentProcessor", address: "0x1234" }],
+        })
+      ).to.throw(/bad address/);
+      expect(() =>
+        parseMonitorConfig({
+          contracts,
+          filters: [{ events: ["TradeMatched"] }],
+        })
+      ).to.throw(/no configured contract emits TradeMatched/);
+      expect(() =>
+        parseMonitorConfig({ contracts, filters: [{ args: { payee: 1 } }] })
+      ).to.throw(/args must map names to strings/);
+      expect(() => parseMonitorConfig({ contracts, format: "csv" })).to.throw(
+        /unknown format csv/
+      );
+    });
+
+    it("should reject configs that are not the expected shape", () => {
+      const contracts = [{ name: "PaymentProcessor", address: PROCESSOR }];
+      expect(() => parseMonitorConfig(null)).to.throw(
+        /contracts must be a non-empty list/
+      );
+      expect(() => parseMonitorConfig({ contracts: ["Nope"] })).to.throw(
+        /unknown contract undefined/
+      );
+      expect(() => parseMonitorConfig({ contracts, filters: {} })).to.throw(
+        /filters must be a list/
+      );
+      expect(() => parseMonitorConfig({ contracts, filters: [null] })).to.throw(
+        /filters\[0\] must be an object/
+      );
+    });
+  });
+
+  describe("matchesFilters", () => {
+    it("should keep every event without filters", () => {
+      expect(matchesFilters(matched, [])).to.be.true;
+    });
+
+    it("should require every field of a filter to match", () => {
+      expect(
+        matchesFilters(matched, [
+          {
+            events: ["TradeMatched"],
+            addresses: [TRADING.toLowerCase()],
+            args: { supplier: SUPPLIER.toLowerCase() },
+          },
+        ])
+      ).to.be.true;
+      expect(
+        matchesFilters(matched, [
+          { events: ["TradeMatched"], args: { supplier: PROCESSOR } },
+        ])
+      ).to.be.false;
+      expect(matchesFilters(matched, [{ addresses: [PROCESSOR] }])).to.be.false;
+      expect(matchesFilters(matched, [{ args: { missing: "1" } }])).to.be.false;
+    });
+
+    it("should keep events matching any filter", () => {
+      expect(
+        matchesFilters(matched, [
+          { events: ["OrderPlaced"] },
+          { args: { orderId: "1" } },
+        ])
+      ).to.be.true;
+    });
+  });
+
+  describe("formatEvent", () => {
+    it("should write one parseable JSON line in NDJSON mode", () => {
+      const line = formatEvent(matched, "ndjson");
+      expect(line).to.not.include("\n");
+      expect(JSON.parse(line)).to.deep.equal(matched);
+    });
+
+    it("should render a readable box in pretty mode", () => {
+      const lines = formatEvent(matched, "pretty", 7).split("\n");
+      expect(lines[0]).to.equal(
+        "┌─ EVENT #7: TradeMatched (ConfidentialRawMaterialsTrading 0x5FbDB231...)"
+      );
+      expect(lines).to.include("├─ supplier: 0x70997970...");
+      expect(lines).to.include("├─ Block: 42");
+      expect(lines[lines.length - 1]).to.match(/^└─ Tx Hash: 0x/);
+    });
+  });
+
+  describe("watchEvents", () => {
+    it("should deliver matching events from every configured contract", async () => {
+      const [owner, supplier, other] = await ethers.getSigners();
+      const Factory = await ethers.getContractFactory(
+        "ConfidentialRawMaterialsTrading"
+      );
+      const addresses: string[] = [];
+      const clients: TradingClient[] = [];
+      for (let i = 0; i < 2; i++) {
+        const contract = await Factory.deploy();
+        await contract.waitForDeployment();
+        addresses.push(await contract.getAddress());
+
+        const client = TradingClient.connect(addresses[i], owner);
+        await client.verifySupplier(supplier.address);
+        await client.verifySupplier(other.address);
+        clients.push(client);
+      }
+
+      const received: IndexedEvent[] = [];
+      const stop = await watchEvents(
+        ethers.provider,
+        {
+          contracts: addresses.map((address) => ({
+            name: "ConfidentialRawMaterialsTrading",
+            address,
+          })),
+          filters: [
+            {
+              events: ["MaterialListed"],
+              args: { supplier: supplier.address },
+            },
+          ],
+        },
+        (event) => received.push(event)
+      );
+
+      try {
+        const steel = {
+          name: "Steel Coils",
+          category: MaterialCategory.METALS,
+          quantity: 1000,
+          pricePerUnit: 50000n,
+          minOrder: 100,
+          qualityGrade: "A1",
+          deliveryTimeframeDays: 14,
+        };
+        await clients[0].withRunner(other).listMaterial(steel);
+        await clients[0].withRunner(supplier).listMaterial(steel);
+        await clients[1].withRunner(supplier).listMaterial(steel);
+
+        const deadline = Date.now() + 20000;
+        while (received.length < 2 && Date.now() < deadline) {
+          await new Promise((resolve) => setTimeout(resolve, 250));
+        }
+      } finally {
+        await stop();
+      }
+
+      expect(received.map((e) => e.address)).to.have.members(addresses);
+      expect(received.every((e) => e.args.supplier === supplier.address)).to.be
+        .true;
+    });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Test Suite for the weighted reputation calculator
+ *
+ * Covers:
+ * - Decay factor parity with ReputationTracker.decayFactor
+ * - Rater weights fixed at the rater's average when rating
+ * - The MAX_WEIGHTED_RATINGS window and score clamping
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  computeWeightedRating,
+  DECAY_HALF_LIFE,
+  DECAY_PRECISION,
+  decayFactor,
+  DEFAULT_RATER_WEIGHT,
+  MAX_WEIGHTED_RATINGS,
+  RatingEvent,
+  weightedAverage,
+} from "../../sdk";
+
+describe("Weighted reputation calculator", () => {
+  const alice = "0x00000000000000000000000000000000000000a1";
+  const bob = "0x00000000000000000000000000000000000000b0";
+  const carol = "0x00000000000000000000000000000000000000c0";
+  const T0 = 1_700_000_000n;
+
+  const scores = new Map<string, bigint>();
+
+  function event(
+    label: string,
+    rater: string,
+    ratedParticipant: string,
+    timestamp: bigint,
+    score: bigint
+  ): RatingEvent {
+    const subjectId = ethers.id(label);
+    scores.set(`${subjectId}:${rater}`, score);
+    return { subjectId, rater, ratedParticipant, timestamp };
+  }
+
+  const scoreOf = async (rating: RatingEvent) =>
+    scores.get(`${rating.subjectId}:${rating.rater}`)!;
+
+  beforeEach(() => {
+    scores.clear();
+  });
+
+  describe("decayFactor", () => {
+    it("should halve every half-life and interpolate in between", () => {
+      expect(decayFactor(0n)).to.equal(DECAY_PRECISION);
+      expect(decayFactor(DECAY_HALF_LIFE / 2n)).to.equal(750_000n);
+      expect(decayFactor(DECAY_HALF_LIFE)).to.equal(500_000n);
+      expect(decayFactor(3n * DECAY_HALF_LIFE)).to.equal(125_000n);
+      expect(decayFactor(64n * DECAY_HALF_LIFE)).to.equal(0n);
+    });
+
+    it("should match the contract", async () => {
+      const DeliveryManager = await ethers.getContractFactory("DeliveryManager");
+      const deliveryManager = await DeliveryManager.deploy();
+      await deliveryManager.waitForDeployment();
+      const Tracker = await ethers.getContractFactory("ReputationTracker");
+      const tracker: any = await Tracker.deploy(
+        await deliveryManager.getAddress(),
+        ethers.ZeroAddress
+      );
+      await tracker.waitForDeployment();
+
+      for (const age of [0n, 1n, 86_400n, 12_345_678n, 3n * DECAY_HALF_LIFE + 7n]) {
+        expect(await tracker.decayFactor(age)).to.equal(decayFactor(age));
+      }
+    });
+  });
+
+  describe("computeWeightedRating", () => {
+    it("should weigh unrated raters by the default weight", async () => {
+      const events = [event("d1", alice, bob, T0, 4n)];
+
+      const result = await computeWeightedRating(events, scoreOf, bob, T0);
+
+      const weight = DEFAULT_RATER_WEIGHT * DECAY_PRECISION;
+      expect(result).to.deep.equal({
+        weightedScore: weight * 4n,
+        totalWeight: weight,
+        ratingCount: 1,
+      });
+      expect(weightedAverage(result)).to.equal(4);
+    });
+
+    it("should fix a rater's weight at their average when rating", async () => {
+      const events = [
+        event("d1", carol, alice, T0, 5n), // alice now averages 5
+        event("d2", alice, bob, T0 + 10n, 2n), // weighted 5
+        event("d3", carol, bob, T0 + 20n, 5n), // carol unrated: weighted 3
+        event("d4", bob, alice, T0 + 30n, 1n), // later drop does not reweigh d2
+      ];
+
+      const result = await computeWeightedRating(events, scoreOf, bob, T0 + 30n);
+
+      const d2 = 5n * decayFactor(20n);
+      const d3 = 3n * decayFactor(10n);
+      expect(result.weightedScore).to.equal(d2 * 2n + d3 * 5n);
+      expect(result.totalWeight).to.equal(d2 + d3);
+    });
+
+    it("should favour recent ratings", async () => {
+      const events = [
+        event("old", alice, bob, T0, 1n),
+        event("new", carol, bob, T0 + 2n * DECAY_HALF_LIFE, 5n),
+      ];
+
+      const result = await computeWeightedRating(
+        events,
+        scoreOf,
+        bob,
+        T0 + 2n * DECAY_HALF_LIFE
+      );
+
+      // The old rating counts a quarter as much: (1 * 1 + 5 * 4) / 5
+      expect(weightedAverage(result)).to.equal(4.2);
+    });
+
+    it("should clamp scores and score only the latest ratings", async () => {
+      const events: RatingEvent[] = [];
+      for (let i = 0; i <= MAX_WEIGHTED_RATINGS; i++) {
+        events.push(event(`d${i}`, alice, bob, T0, i === 0 ? 200n : 0n));
+      }
+
+      const result = await computeWeightedRating(events, scoreOf, bob, T0);
+
+      // The out-of-range 200 falls outside the window; the rest clamp to 1
+      expect(result.ratingCount).to.equal(MAX_WEIGHTED_RATINGS);
+      expect(weightedAverage(result)).to.equal(1);
+    });
+
+    it("should reject an asOf before a scored rating", async () => {
+      const events = [event("d1", alice, bob, T0, 4n)];
+
+      let rejected = false;
+      try {
+        await computeWeightedRating(events, scoreOf, bob, T0 - 1n);
+      } catch {
+        rejected = true;
+      }
+      expect(rejected).to.be.true;
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Test Suite for the delivery tracking helpers
+ *
+ * Covers:
+ * - Timeline of a delivery through acceptance, checkpoints and completion
+ * - Plain-text rendering with and without decrypted checkpoints
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  encodeLocation,
+  formatTimeline,
+  getDeliveryTimeline,
+  TimelineEntry,
+} from "../../sdk";
+import { createInstance } from "../utils/instance";
+import {
+  decryptEuint32,
+  decryptEuint64,
+} from "../utils/decrypt";
+import {
+  acceptDelivery,
+  completeDelivery,
+  requestDelivery,
+} from "../utils/delivery";
+
+describe("Delivery tracking helpers", () => {
+  describe("formatTimeline", () => {
+    it("should list each step with decrypted checkpoint data", () => {
+      const timeline: TimelineEntry[] = [
+        { timestamp: 1700000000, label: "Requested by 0xA" },
+        { timestamp: 1700000600, label: "Accepted by 0xB" },
+        {
+          timestamp: 1700003600,
+          label: "In transit",
+          checkpoint: 0,
+          location: { latitude: 51.5, longitude: 4.45 },
+          hasCondition: true,
+          condition: 40n,
+        },
+        { timestamp: 1700007200, label: "Completed" },
+      ];
+
+      expect(formatTimeline(timeline)).to.equal(
+        [
+          "2023-11-14T22:13:20.000Z  Requested by 0xA",
+          "2023-11-14T22:23:20.000Z  Accepted by 0xB",
+          "2023-11-14T23:13:20.000Z  In transit #0 at 51.500, 4.450, condition 40",
+          "2023-11-15T00:13:20.000Z  Completed",
+        ].join("\n")
+      );
+    });
+
+    it("should leave checkpoints encrypted without a decryptor", () => {
+      const output = formatTimeline([
+        {
+          timestamp: 1700003600,
+          label: "Checkpoint",
+          checkpoint: 3,
+          hasCondition: true,
+        },
+      ]);
+
+      expect(output).to.equal(
+        "2023-11-14T23:13:20.000Z  Checkpoint #3 at (encrypted), condition (encrypted)"
+      );
+    });
+  });
+
+  describe("getDeliveryTimeline", () => {
+    let manager: any;
+    let managerAddress: string;
+    let requester: HardhatEthersSigner;
+    let courier: HardhatEthersSigner;
+
+
+    beforeEach(async () => {
+      [, requester, courier] = await ethers.getSigners();
+
+      const Factory = await ethers.getContractFactory("DeliveryManager");
+      manager = await Factory.deploy();
+      await manager.waitForDeployment();
+      managerAddress = await manager.getAddress();
+    });
+
+    it("should follow a delivery from request to completion", async () => {
+      const requestId = await requestDelivery(manager, requester);
+      await acceptDelivery(manager, courier, requestId);
+
+      const instance = await createInstance(managerAddress, courier);
+      const encrypted = await instance
+        .createEncryptedInput(managerAddress, courier.address)
+        .add64(encodeLocation({ latitude: 51.5, longitude: 4.45 }))
+        .add32(40)
+        .encrypt();
+      await manager
+        .connect(courier)
+        .recordCheckpoint(
+          requestId,
+          encrypted.handles[0],
+          encrypted.handles[1],
+          true,
+          encrypted.inputProof
+        );
+      await completeDelivery(manager, courier, requester, requestId);
+
+      const timeline = await getDeliveryTimeline(
+        manager.connect(requester),
+        requestId,
+        {
+          location: (handle) =>
+            decryptEuint64(handle, managerAddress, requester),
+          condition: (handle) =>
+            decryptEuint32(handle, managerAddress, requester),
+        }
+      );
+
+      expect(timeline.map((entry) => entry.label)).to.deep.equal([
+        `Requested by ${requester.address}`,
+        `Accepted by ${courier.address}`,
+        "In transit",
+        "Completed",
+      ]);
+      expect(timeline[2].location).to.deep.equal({
+        latitude: 51.5,
+        longitude: 4.45,
+      });
+      expect(timeline[2].condition).to.equal(40n);
+    });
+
+    it("should end with the cancellation of an unaccepted delivery", async () => {
+      const requestId = await requestDelivery(manager, requester);
+      await manager.connect(requester).cancelDelivery(requestId);
+
+      const timeline = await getDeliveryTimeline(
+        manager.connect(requester),
+        requestId
+      );
+      expect(timeline.map((entry) => entry.label)).to.deep.equal([
+        `Requested by ${requester.address}`,
+        "Cancelled",
+      ]);
+      expect(timeline[1].timestamp).to.be.greaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import hre from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { Signer } from "ethers";
+
+/**
+ * Decryption helpers for tests
+ *
+ * Decrypting needs the FHEVM mock runtime that @fhevm/hardhat-plugin exposes
+ * as `hre.fhevm`, so suites asserting on cleartext values run on the hardhat
+ * network.
+ */
+
+export async function decryptEuint8(
+  handle: string,
+  contractAddress: string,
+  signer: Signer
+): Promise<bigint> {
+  return hre.fhevm.userDecryptEuint(
+    FhevmType.euint8,
+    handle,
+    contractAddress,
+    signer
+  );
+}
+
+export async function decryptEuint32(
+  handle: string,
+  contractAddress: string,
+  signer: Signer
+): Promise<bigint> {
+  return hre.fhevm.userDecryptEuint(
+    FhevmType.euint32,
+    handle,
+    contractAddress,
+    signer
+  );
+}
+
+export async function decryptEuint64(
+  handle: string,
+  contractAddress: string,
+  signer: Signer
+): Promise<bigint> {
+  return hre.fhevm.userDecryptEuint(
+    FhevmType.euint64,
+    handle,
+    contractAddress,
+    signer
+  );
+}
+
+export async function decryptEbool(
+  handle: string,
+  contractAddress: string,
+  signer: Signer
+): Promise<boolean> {
+  return hre.fhevm.userDecryptEbool(handle, contractAddress, signer);
+}
+
+/**
+ * Lets the mock decryption oracle fulfil every pending requestDecryption,
+ * running the contract callbacks
+ */
+export async function awaitDecryptionOracle(): Promise<void> {
+  await hre.fhevm.awaitDecryptionOracle();
+}
@@ -0,0 +1,141 @@
+import { id } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  Coordinates,
+  deliveryCommitment,
+  encodeLocation,
+  encryptLocation,
+  recipientCommitment,
+  signDeliveryConfirmation,
+} from "../../sdk";
+import { createInstance } from "./instance";
+import { awaitDecryptionOracle } from "./decrypt";
+
+/**
+ * DeliveryManager helpers for tests
+ *
+ * Deliveries carry encrypted pickup coordinates and couriers offer from an
+ * encrypted location. Acceptance completes through the decryption oracle,
+ * so suites calling acceptDelivery need the FHEVM runtime. Completion needs
+ * the courier's proof of delivery and the recipient's signed confirmation,
+ * both opened with HANDOVER_SECRET.
+ */
+
+/** Rotterdam port, the default pickup */
+export const PICKUP: Coordinates = { latitude: 51.9244, longitude: 4.4777 };
+
+/** Secret every test delivery commits its recipient with */
+export const HANDOVER_SECRET = id("handover secret");
+
+async function encryptFor(
+  manager: any,
+  signer: HardhatEthersSigner,
+  coordinates: Coordinates
+) {
+  const address = await manager.getAddress();
+  const instance = await createInstance(address, signer);
+  return encryptLocation(instance, address, signer.address, coordinates);
+}
+
+/**
+ * Requests a delivery picked up at `pickup` for `recipient`, the requester
+ * by default, returning its ID
+ */
+export async function requestDelivery(
+  manager: any,
+  requester: HardhatEthersSigner,
+  pickup: Coordinates = PICKUP,
+  recipient: string = requester.address
+): Promise<string> {
+  const location = await encryptFor(manager, requester, pickup);
+  await (
+    await manager
+      .connect(requester)
+      .createDeliveryRequest(
+        "0x01",
+        "0x02",
+        location.handle,
+        location.inputProof,
+        "0x05",
+        "0x06",
+        recipientCommitment(recipient, HANDOVER_SECRET)
+      )
+  ).wait();
+  const ids = await manager.getUserDeliveries(requester.address);
+  return ids[ids.length - 1];
+}
+
+/** Sends the courier's offer from `location`; resolves to the transaction */
+export async function offerDelivery(
+  manager: any,
+  courier: HardhatEthersSigner,
+  requestId: string,
+  location: Coordinates = PICKUP
+) {
+  const encrypted = await encryptFor(manager, courier, location);
+  return manager
+    .connect(courier)
+    .acceptDelivery(requestId, encrypted.handle, encrypted.inputProof);
+}
+
+/** Offers from the pickup and lets the oracle assign the courier */
+export async function acceptDelivery(
+  manager: any,
+  courier: HardhatEthersSigner,
+  requestId: string,
+  location: Coordinates = PICKUP
+): Promise<void> {
+  await (await offerDelivery(manager, courier, requestId, location)).wait();
+  await awaitDecryptionOracle();
+}
+
+/** Records a checkpoint at `location` without a condition reading */
+export async function recordCheckpoint(
+  manager: any,
+  courier: HardhatEthersSigner,
+  requestId: string,
+  location: Coordinates = PICKUP
+): Promise<void> {
+  const address = await manager.getAddress();
+  const instance = await createInstance(address, courier);
+  const encrypted = await instance
+    .createEncryptedInput(address, courier.address)
+    .add64(encodeLocation(location))
+    .add32(0)
+    .encrypt();
+  await (
+    await manager
+      .connect(courier)
+      .recordCheckpoint(
+        requestId,
+        encrypted.handles[0],
+        encrypted.handles[1],
+        false,
+        encrypted.inputProof
+      )
+  ).wait();
+}
+
+/** Submits the courier's proof for `recipient` and has them confirm it */
+export async function completeDelivery(
+  manager: any,
+  courier: HardhatEthersSigner,
+  recipient: HardhatEthersSigner,
+  requestId: string
+) {
+  const secret = HANDOVER_SECRET;
+  const commitment = deliveryCommitment(requestId, recipient.address, secret);
+  await (
+    await manager.connect(courier).submitProofOfDelivery(requestId, commitment)
+  ).wait();
+
+  const signature = await signDeliveryConfirmation(
+    recipient,
+    await manager.getAddress(),
+    requestId,
+    commitment
+  );
+  return manager
+    .connect(recipient)
+    .confirmDelivery(requestId, recipient.address, secret, signature);
+}